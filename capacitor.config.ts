@@ -11,6 +11,8 @@ const config: CapacitorConfig = {
       NSPhotoLibraryUsageDescription: 'This app uses the camera to capture photos of landmarks and places you visit during your tours.',
       NSCameraUsageDescription: 'This app uses the camera to capture photos of landmarks and places you visit during your tours.',
       ITSAppUsesNonExemptEncryption: false,
+      NSLocationAlwaysAndWhenInUseUsageDescription: 'We use your location in the background during a tour so your guide can alert you when you walk near a landmark, even with the phone locked.',
+      UIBackgroundModes: ['location'],
       CFBundleURLTypes: [
         {
           CFBundleURLName: 'app.lovable.exploraria',
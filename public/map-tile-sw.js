@@ -0,0 +1,52 @@
+// Service worker that serves pre-fetched Mapbox styles, sprites, glyphs and vector tiles
+// when the network is unavailable. Tiles are only written by the app (see src/utils/mapTileCache.ts),
+// this worker never caches on its own so the storage quota stays under the app's control.
+
+const MAP_TILE_CACHE = 'mapbox-tiles-v1';
+const MAPBOX_HOSTS = ['api.mapbox.com', 'a.tiles.mapbox.com', 'b.tiles.mapbox.com', 'c.tiles.mapbox.com', 'd.tiles.mapbox.com'];
+
+// Must match normalizeMapboxUrl in src/utils/mapTileCache.ts
+const normalizeMapboxUrl = (url) => {
+  const parsed = new URL(url);
+  return `https://api.mapbox.com${parsed.pathname}`;
+};
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  let url;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return;
+  }
+
+  if (!MAPBOX_HOSTS.includes(url.hostname)) return;
+
+  event.respondWith((async () => {
+    const cache = await caches.open(MAP_TILE_CACHE);
+    const cacheKey = normalizeMapboxUrl(request.url);
+
+    if (!self.navigator.onLine) {
+      const cached = await cache.match(cacheKey);
+      if (cached) return cached;
+    }
+
+    try {
+      return await fetch(request);
+    } catch (error) {
+      const cached = await cache.match(cacheKey);
+      if (cached) return cached;
+      throw error;
+    }
+  })());
+});
@@ -14,6 +14,7 @@ import ElevenLabsPlayground from "./pages/ElevenLabsPlayground";
 import TermsOfUse from "./pages/TermsOfUse";
 import AccountPrivacyPolicy from "./pages/AccountPrivacyPolicy";
 import Account from "./pages/Account";
+import Library from "./pages/Library";
 import ResetPassword from "./pages/ResetPassword";
 import { PaymentSuccess } from "./components/PaymentSuccess";
 import { PaymentFailure } from "./components/PaymentFailure";
@@ -92,6 +93,10 @@ const App = () => {
                      path="/account" 
                      element={<Account />} 
                    />
+                   <Route 
+                     path="/account/library" 
+                     element={<Library />} 
+                   />
                    <Route 
                      path="/reset-password" 
                      element={<ResetPassword />} 
@@ -2,7 +2,11 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { PostAuthAction, getPostAuthAction, clearPostAuthAction, getPostAuthLandmark, clearPostAuthLandmark } from '@/utils/authActions';
+import { createExperiencePayment } from '@/hooks/useExperiencePayment';
+import { fetchExperienceEntitlement } from '@/hooks/useExperienceEntitlements';
+import { storeTourLanguage } from '@/utils/tourLanguage';
 
 interface UserProfile {
   id: string;
@@ -15,6 +19,8 @@ interface UserProfile {
   stripe_account_status?: string;
   stripe_payouts_enabled?: boolean;
   stripe_charges_enabled?: boolean;
+  preferred_language?: string;
+  accessibility_profile?: Json;
   created_at: string;
   updated_at: string;
 }
@@ -115,6 +121,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, onPostAuth
     }
   };
 
+  // Keep the tour language available to providers mounted outside this one
+  useEffect(() => {
+    if (profile) {
+      storeTourLanguage(profile.preferred_language);
+    }
+  }, [profile]);
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -156,21 +169,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, onPostAuth
                 // This is an experience-based tour, check if already paid
                 setTimeout(async () => {
                   try {
-                    // Check if user has already paid for this experience
-                    const { data: existingPayment, error: paymentError } = await supabase
-                      .from('payments')
-                      .select('id')
-                      .eq('tour_id', pendingLandmark.tourId)
-                      .eq('tourist_user_id', session.user.id)
-                      .eq('status', 'succeeded')
-                      .maybeSingle();
-                    
-                    if (paymentError) {
-                      console.error('Error checking existing payment:', paymentError);
-                      return;
-                    }
+                    // Check if user already owns this experience
+                    const ownsExperience = await fetchExperienceEntitlement(session.user.id, pendingLandmark.tourId);
                     
-                    if (existingPayment) {
+                    if (ownsExperience) {
                       console.log('✅ User has already paid for this experience, starting tour directly');
                       
                       // User has already paid, go directly to tour generation
@@ -187,24 +189,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children, onPostAuth
                     }
                     
                     // User hasn't paid yet, create payment intent
-                    const { data, error } = await supabase.functions.invoke('create-experience-payment', {
-                      body: { 
-                        experienceId: pendingLandmark.tourId,
-                        price: 999 // $9.99 in cents
-                      }
-                    });
-
-                    if (error) {
-                      console.error('Post-auth payment creation failed:', error);
-                      return;
-                    }
+                    const paymentSession = await createExperiencePayment(pendingLandmark.tourId);
 
-                    if (data?.client_secret) {
+                    if (paymentSession) {
                       console.log('✅ Post-auth payment created successfully');
                       
-                      // Store the client secret and experience for payment dialog
+                      // Store the payment session and experience for payment dialog
                       (window as any).pendingExperiencePayment = {
-                        clientSecret: data.client_secret,
+                        session: paymentSession,
                         experience: {
                           id: pendingLandmark.tourId,
                           destination: pendingLandmark.name,
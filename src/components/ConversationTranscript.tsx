@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Landmark } from '@/data/landmarks';
+import { TOUR_LANDMARKS } from '@/data/tourLandmarks';
+import { TranscriptEntry } from '@/hooks/useConversationTranscript';
+
+interface ConversationTranscriptProps {
+  entries: TranscriptEntry[];
+  landmarks: Landmark[];
+  canSend: boolean;
+  onSendText: (text: string) => void;
+}
+
+interface LinkablePlace {
+  name: string;
+  coordinates: [number, number];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ConversationTranscript: React.FC<ConversationTranscriptProps> = ({
+  entries,
+  landmarks,
+  canSend,
+  onSendText
+}) => {
+  const [text, setText] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [entries.length]);
+
+  // Built on every render because TOUR_LANDMARKS is mutated in place (e.g. by add_to_tour).
+  // Longest names first so "Museo Frida Kahlo" wins over "Frida Kahlo".
+  const places = new Map<string, LinkablePlace>();
+  [...TOUR_LANDMARKS, ...landmarks].forEach(place => {
+    const name = place.name?.trim();
+    if (name && name.length > 2 && !places.has(name.toLowerCase())) {
+      places.set(name.toLowerCase(), { name, coordinates: place.coordinates });
+    }
+  });
+  const names = [...places.values()].map(place => place.name).sort((a, b) => b.length - a.length);
+  const namePattern = names.length > 0 ? new RegExp(`(${names.map(escapeRegExp).join('|')})`, 'gi') : null;
+
+  const renderMessage = (message: string) => {
+    if (!namePattern) return message;
+
+    return message.split(namePattern).map((part, index) => {
+      const place = places.get(part.toLowerCase());
+      if (!place) return <React.Fragment key={index}>{part}</React.Fragment>;
+
+      return (
+        <button
+          key={index}
+          type="button"
+          onClick={() => window.navigateToMapCoordinates?.(place.coordinates)}
+          className="font-medium underline underline-offset-2 hover:text-primary"
+        >
+          {part}
+        </button>
+      );
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!message || !canSend) return;
+
+    onSendText(message);
+    setText('');
+  };
+
+  return (
+    <div className="bg-background rounded-lg border shadow-lg flex flex-col">
+      <div className="h-56 overflow-y-auto p-3 space-y-2 text-sm">
+        {entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            {canSend ? 'Say hello or type a question below.' : 'The conversation will appear here.'}
+          </p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={index} className={`flex ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] rounded-lg px-3 py-2 ${
+                  entry.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+                }`}
+              >
+                {renderMessage(entry.message)}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 border-t p-2">
+        <Input
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={canSend ? 'Type instead of speaking...' : 'Start the call to type'}
+          disabled={!canSend}
+          className="h-9"
+        />
+        <Button type="submit" size="icon" className="h-9 w-9 shrink-0" disabled={!canSend || !text.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default ConversationTranscript;
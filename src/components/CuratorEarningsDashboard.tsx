@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Download, Receipt, RotateCcw, ShieldAlert, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CuratorEarningsData } from '@/hooks/useCuratorEarnings';
+import { formatPrice } from '@/utils/experiencePricing';
+import {
+  downloadMonthlyEarningsCsv,
+  getEarningsMonths,
+  summarizeByExperience,
+  summarizeTotals
+} from '@/utils/curatorEarnings';
+
+interface CuratorEarningsDashboardProps {
+  data: CuratorEarningsData | undefined;
+  isLoading: boolean;
+}
+
+const formatAmount = (amount: number, currency: string) => formatPrice(Math.round(amount * 100), currency);
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+
+const CuratorEarningsDashboard: React.FC<CuratorEarningsDashboardProps> = ({ data, isLoading }) => {
+  const payments = data?.payments || [];
+  const destinations = data?.destinations || {};
+  const totals = summarizeTotals(payments);
+  const experiences = summarizeByExperience(payments, destinations);
+  const months = getEarningsMonths(payments);
+  const [selectedMonth, setSelectedMonth] = useState<string | undefined>();
+  const exportMonth = selectedMonth || months[0];
+
+  const stats = [
+    { key: 'gross', label: 'Gross Sales', icon: Receipt },
+    { key: 'refunds', label: 'Refunds', icon: RotateCcw },
+    { key: 'disputes', label: 'Disputes', icon: ShieldAlert },
+    { key: 'netPayout', label: 'Net Payout', icon: Wallet }
+  ] as const;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Earnings</CardTitle>
+          <CardDescription>
+            Sales, refunds, disputes and platform fees across your experiences
+          </CardDescription>
+        </div>
+        {months.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={exportMonth} onValueChange={setSelectedMonth}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {months.map(month => (
+                  <SelectItem key={month} value={month}>{formatMonth(month)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => downloadMonthlyEarningsCsv(payments, destinations, exportMonth)}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading earnings...</p>
+        ) : totals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sales yet. Earnings appear here as soon as a traveler buys one of your experiences.
+          </p>
+        ) : (
+          <>
+            {totals.map(total => (
+              <div key={total.currency} className="space-y-2">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {stats.map(({ key, label, icon: Icon }) => (
+                    <div key={key} className="p-4 border border-border rounded-lg">
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Icon className="h-4 w-4" />
+                        {label}
+                      </div>
+                      <p className="text-xl font-bold mt-1">{formatAmount(total[key], total.currency)}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {total.sales} sales in {total.currency.toUpperCase()} · {formatAmount(total.platformFees, total.currency)} platform fees · {formatAmount(total.discounts, total.currency)} in discounts
+                </p>
+              </div>
+            ))}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Experience</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Refunds</TableHead>
+                  <TableHead className="text-right">Disputes</TableHead>
+                  <TableHead className="text-right">Platform Fees</TableHead>
+                  <TableHead className="text-right">Net Payout</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {experiences.map(row => (
+                  <TableRow key={`${row.tourId}-${row.currency}`}>
+                    <TableCell className="font-medium">{row.destination}</TableCell>
+                    <TableCell className="text-right">{row.sales}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.gross, row.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.refunds, row.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.disputes, row.currency)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.platformFees, row.currency)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatAmount(row.netPayout, row.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CuratorEarningsDashboard;
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { MessageSquare, Sparkles } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/StarRating';
+import { ExperienceReview, useCuratorReviews } from '@/hooks/useExperienceReviews';
+import { getRatingGap, summarizeEvaluations } from '@/utils/experienceRatings';
+
+interface CuratorReviewsPanelProps {
+  userId: string | undefined;
+}
+
+const formatScore = (score: number | null) => (score == null ? '–' : score.toFixed(1));
+
+interface ReviewReplyProps {
+  review: ExperienceReview;
+  onReply: (reviewId: string, reply: string) => Promise<boolean>;
+}
+
+const ReviewReply: React.FC<ReviewReplyProps> = ({ review, onReply }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [reply, setReply] = useState(review.curator_reply || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onReply(review.id, reply);
+    setIsSaving(false);
+    if (saved) setIsEditing(false);
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="ml-4 text-sm">
+        {review.curator_reply && <p className="p-2 bg-muted/50 rounded mb-1">{review.curator_reply}</p>}
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsEditing(true)}>
+          {review.curator_reply ? 'Edit reply' : 'Reply'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="ml-4 space-y-2">
+      <Textarea value={reply} onChange={(e) => setReply(e.target.value)} rows={2} placeholder="Thank the reviewer or answer their feedback" />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>Save Reply</Button>
+        <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)} disabled={isSaving}>Cancel</Button>
+      </div>
+    </div>
+  );
+};
+
+const CuratorReviewsPanel: React.FC<CuratorReviewsPanelProps> = ({ userId }) => {
+  const { data: experiences, isLoading, replyToReview } = useCuratorReviews(userId);
+
+  if (isLoading || !experiences || experiences.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Reviews
+        </CardTitle>
+        <CardDescription>
+          What buyers rate your experiences next to how their conversations with your guide were evaluated
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {experiences.map(experience => {
+          const evaluations = summarizeEvaluations(experience.evaluations);
+          const satisfaction = evaluations.find(evaluation => evaluation.key === 'user_satisfaction')!;
+          const gap = getRatingGap(experience.ratingAverage, satisfaction.score);
+
+          return (
+            <div key={experience.tourId} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="font-semibold">{experience.destination}</h3>
+                {gap != null && Math.abs(gap) >= 1 && (
+                  <Badge variant="outline">
+                    {gap > 0 ? 'Rated higher than conversations suggest' : 'Conversations went better than ratings'}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="p-3 bg-muted/50 rounded">
+                  <p className="text-xs text-muted-foreground mb-1">Buyer ratings</p>
+                  <div className="flex items-center gap-2">
+                    <StarRating value={experience.ratingAverage ?? 0} />
+                    <span className="text-sm font-medium">{formatScore(experience.ratingAverage)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{experience.ratingCount} reviews</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded">
+                  <p className="text-xs text-muted-foreground mb-1 flex items-center gap-1">
+                    <Sparkles className="h-3 w-3" />
+                    Evaluated satisfaction
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <StarRating value={satisfaction.score ?? 0} />
+                    <span className="text-sm font-medium">{formatScore(satisfaction.score)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{satisfaction.sessions} conversations</p>
+                </div>
+              </div>
+
+              {satisfaction.sessions > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {evaluations.filter(evaluation => evaluation.key !== 'user_satisfaction').map(evaluation => (
+                    <Badge key={evaluation.key} variant="secondary" className="text-xs font-normal">
+                      {evaluation.label}: {formatScore(evaluation.score)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {experience.reviews.length > 0 && (
+                <div className="space-y-3">
+                  {experience.reviews.map(review => (
+                    <div key={review.id} className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <StarRating value={review.rating} starClassName="h-3 w-3" />
+                        <span className="text-xs text-muted-foreground">{new Date(review.created_at).toLocaleDateString()}</span>
+                      </div>
+                      {review.review_text && <p className="text-sm">{review.review_text}</p>}
+                      <ReviewReply review={review} onReply={replyToReview} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CuratorReviewsPanel;
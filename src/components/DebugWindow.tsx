@@ -13,6 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import EnhancedStreetViewModal from '@/components/EnhancedStreetViewModal';
 import PlacesApiTestPanel from '@/components/PlacesApiTestPanel';
 import NetworkTestingPanel from '@/components/NetworkTestingPanel';
+import SimulatedWalkPanel from '@/components/SimulatedWalkPanel';
 
 interface DebugWindowProps {
   isVisible: boolean;
@@ -172,8 +173,9 @@ const DebugWindow: React.FC<DebugWindowProps> = ({ isVisible, onClose }) => {
         </div>
 
         <Tabs defaultValue="proximity" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="proximity">Proximity Debug</TabsTrigger>
+            <TabsTrigger value="walk">Walk Sim</TabsTrigger>
             <TabsTrigger value="api-tests">API Tests</TabsTrigger>
           </TabsList>
 
@@ -563,6 +565,10 @@ const DebugWindow: React.FC<DebugWindowProps> = ({ isVisible, onClose }) => {
             </div>
           </TabsContent>
 
+          <TabsContent value="walk" className="space-y-4">
+            <SimulatedWalkPanel />
+          </TabsContent>
+
           <TabsContent value="api-tests" className="space-y-4">
             <div className="space-y-4">
               <div className="flex items-center gap-2 mb-4">
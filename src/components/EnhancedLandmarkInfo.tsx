@@ -1,15 +1,35 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Star, MapPin, Shield, Database, Camera } from 'lucide-react';
+import { Star, MapPin, Shield, Database, Camera, Accessibility, Users } from 'lucide-react';
 import { EnhancedLandmark } from '@/data/landmarks';
+import { PlaceAccessibility } from '@/utils/accessibilityProfile';
+import { usePopularTimes } from '@/hooks/usePopularTimes';
+import { BUSY_THRESHOLD, QUIET_THRESHOLD, formatHour, getPlaceTime, getQuietTimeSuggestion } from '@/utils/placePopularity';
 
 interface EnhancedLandmarkInfoProps {
   landmark: EnhancedLandmark;
 }
 
+const ACCESSIBILITY_FEATURES: Array<{ key: keyof PlaceAccessibility; label: string }> = [
+  { key: 'wheelchairAccessibleEntrance', label: 'Entrance' },
+  { key: 'wheelchairAccessibleRestroom', label: 'Restroom' },
+  { key: 'wheelchairAccessibleParking', label: 'Parking' },
+  { key: 'wheelchairAccessibleSeating', label: 'Seating' }
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 const EnhancedLandmarkInfo: React.FC<EnhancedLandmarkInfoProps> = ({ landmark }) => {
+  const [weekday, setWeekday] = useState(() => new Date().getDay());
+  const { popularTimes, isLoading: isLoadingPopularTimes } = usePopularTimes(landmark.placeId, weekday);
+  const openHours = popularTimes?.hours.filter(hour => hour.busyness > 0) || [];
+  const quietSuggestion = popularTimes ? getQuietTimeSuggestion(popularTimes) : null;
+  // Highlight the hour it is now at the place, which may be in another timezone
+  const placeNow = popularTimes ? getPlaceTime(popularTimes, new Date()) : null;
+  const currentHour = placeNow && placeNow.weekday === weekday ? placeNow.hour : null;
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-600 bg-green-100';
     if (confidence >= 0.5) return 'text-orange-600 bg-orange-100';
@@ -42,6 +62,27 @@ const EnhancedLandmarkInfo: React.FC<EnhancedLandmarkInfoProps> = ({ landmark })
     }
   };
 
+  const getBusynessColor = (busyness: number, isCurrentHour: boolean) => {
+    if (isCurrentHour) return 'bg-primary';
+    if (busyness >= BUSY_THRESHOLD) return 'bg-red-400';
+    if (busyness >= QUIET_THRESHOLD) return 'bg-orange-300';
+    return 'bg-green-400';
+  };
+
+  const getAccessibilityColor = (value: boolean | undefined) => {
+    if (value === true) return 'text-green-600 bg-green-100';
+    if (value === false) return 'text-red-600 bg-red-100';
+    return 'text-gray-600 bg-gray-100';
+  };
+
+  const getAccessibilityLabel = (value: boolean | undefined) => {
+    if (value === true) return 'yes';
+    if (value === false) return 'no';
+    return 'unknown';
+  };
+
+  const hasAccessibilityInfo = landmark.accessibility || landmark.accessibilityStatus || landmark.accessibilityNotes?.length;
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -77,6 +118,78 @@ const EnhancedLandmarkInfo: React.FC<EnhancedLandmarkInfoProps> = ({ landmark })
           </Badge>
         </div>
 
+        {hasAccessibilityInfo && (
+          <div>
+            <div className="text-sm font-medium mb-2 flex items-center gap-1">
+              <Accessibility className="h-4 w-4" />
+              Wheelchair access
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {ACCESSIBILITY_FEATURES.map(({ key, label }) => (
+                <Badge key={key} className={`${getAccessibilityColor(landmark.accessibility?.[key])} border-0 text-xs`}>
+                  {label}: {getAccessibilityLabel(landmark.accessibility?.[key])}
+                </Badge>
+              ))}
+            </div>
+            {landmark.accessibilityNotes && landmark.accessibilityNotes.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {landmark.accessibilityNotes.map((note, index) => (
+                  <li key={index} className="text-xs text-orange-600">{note}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {landmark.placeId && (
+          <div>
+            <div className="text-sm font-medium mb-2 flex items-center gap-1">
+              <Users className="h-4 w-4" />
+              Busy hours
+              {popularTimes?.source === 'estimated' && (
+                <span className="text-xs font-normal text-gray-500">(estimated)</span>
+              )}
+            </div>
+            <div className="flex gap-1 mb-2">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setWeekday(index)}
+                  className={`text-xs px-1.5 py-0.5 rounded ${index === weekday ? 'bg-primary text-primary-foreground' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {isLoadingPopularTimes ? (
+              <div className="text-xs text-gray-500">Loading busy hours...</div>
+            ) : openHours.length === 0 ? (
+              <div className="text-xs text-gray-500">{popularTimes ? 'Closed on this day' : 'Busy hours not available'}</div>
+            ) : (
+              <>
+                <div className="flex items-end gap-0.5 h-16">
+                  {openHours.map(hour => (
+                    <div
+                      key={hour.hour}
+                      title={`${formatHour(hour.hour)}: ${hour.busyness}% busy`}
+                      className={`flex-1 rounded-t ${getBusynessColor(hour.busyness, hour.hour === currentHour)}`}
+                      style={{ height: `${hour.busyness}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{formatHour(openHours[0].hour)}</span>
+                  <span>{formatHour(openHours[openHours.length - 1].hour)}</span>
+                </div>
+                {currentHour !== null && quietSuggestion && (
+                  <p className="text-xs text-gray-600 mt-1">{quietSuggestion}</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {landmark.types && landmark.types.length > 0 && (
           <div>
             <div className="text-sm font-medium mb-2">Categories:</div>
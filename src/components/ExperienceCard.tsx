@@ -9,6 +9,12 @@ import { toast } from 'sonner';
 import { useAuth } from '@/components/AuthProvider';
 import { setPostAuthAction, setPostAuthLandmark } from '@/utils/authActions';
 import { PaymentDialog } from '@/components/payment/PaymentDialog';
+import ExperienceReviewsDialog from '@/components/ExperienceReviewsDialog';
+import StarRating from '@/components/StarRating';
+import { useExperiencePayment } from '@/hooks/useExperiencePayment';
+import { fetchExperienceEntitlement } from '@/hooks/useExperienceEntitlements';
+import { convertExperienceToLandmark } from '@/utils/experienceUtils';
+import { DEFAULT_EXPERIENCE_PRICE_CENTS, formatPrice, getEffectivePriceCents, isLaunchDiscountActive } from '@/utils/experiencePricing';
 
 interface ExperienceCardProps {
   experience: Experience;
@@ -17,11 +23,12 @@ interface ExperienceCardProps {
   onDrawerClose?: () => void;
 }
 
-// Helper function to generate overview prompt from system_prompt
-const generateOverviewPrompt = (destination: string, systemPrompt: string): string => {
-  return `Based on the following detailed tour guide instructions for ${destination}, provide a friendly, engaging 30-second overview that would entice someone to take this experience. Focus on the key highlights, unique features, and what makes this tour special. Make it sound exciting and inviting:
+// Helper function to generate an overview prompt from the public description.
+// The curator's system_prompt is what buyers pay for, so it is never used for previews.
+const generateOverviewPrompt = (destination: string, description: string): string => {
+  return `Based on the following description of a tour of ${destination}, provide a friendly, engaging 30-second overview that would entice someone to take this experience. Focus on the key highlights, unique features, and what makes this tour special. Make it sound exciting and inviting:
 
-${systemPrompt}
+${description}
 
 Please create a compelling overview that captures the essence of this experience.`;
 };
@@ -35,7 +42,8 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
   const { speak, stop, isPlaying, currentPlayingId } = useTTSContext();
   const { user: authUser } = useAuth();
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
-  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [isReviewsDialogOpen, setIsReviewsDialogOpen] = useState(false);
+  const { session: paymentSession, startPayment, applyPromoCode } = useExperiencePayment();
   const [hasAlreadyPaid, setHasAlreadyPaid] = useState<boolean | null>(null);
   
   const isCurrentlyPlaying = isPlaying && currentPlayingId === experience.id;
@@ -64,65 +72,32 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
   
   const photoUrl = getPhotoUrl(experience.photo);
 
+  const pricing = {
+    price_cents: experience.price_cents ?? DEFAULT_EXPERIENCE_PRICE_CENTS,
+    currency: experience.currency || 'usd',
+    launch_discount_percent: experience.launch_discount_percent,
+    launch_discount_ends_at: experience.launch_discount_ends_at
+  };
+  const hasLaunchDiscount = isLaunchDiscountActive(pricing);
+
   const handleExperienceTTS = async () => {
     if (isCurrentlyPlaying) {
       stop();
       return;
     }
 
-    if (!experience.system_prompt) {
-      console.warn('No system_prompt available for experience:', experience.destination);
+    if (!experience.description) {
+      console.warn('No description available for experience:', experience.destination);
       return;
     }
 
-    const overviewPrompt = generateOverviewPrompt(experience.destination, experience.system_prompt);
+    const overviewPrompt = generateOverviewPrompt(experience.destination, experience.description);
     await speak(overviewPrompt, false, experience.id);
   };
 
-  const convertExperienceToLandmark = (experience: Experience) => {
-    const details = experience.destination_details;
-    if (!details) {
-      console.error('Experience missing destination_details:', experience);
-      return {
-        id: experience.id,
-        name: experience.destination,
-        description: experience.description,
-        coordinates: [0, 0], // Will be updated later
-        experience: true
-      };
-    }
-    return {
-      id: experience.id,
-      name: details.name || experience.destination,
-      description: details.editorialSummary || experience.description,
-      coordinates: [details.location.longitude, details.location.latitude],
-      placeId: details.placeId,
-      formattedAddress: details.address,
-      types: details.types || details.destination_types || ['tourist_attraction'],
-      rating: details.rating,
-      tourId: experience.id,
-      experience: true
-    };
-  };
-
   const checkExistingPayment = async () => {
     if (!authUser) return false;
-    
-    try {
-      const { data, error } = await supabase
-        .from('payments')
-        .select('id')
-        .eq('tour_id', experience.id)
-        .eq('tourist_user_id', authUser.id)
-        .eq('status', 'succeeded')
-        .maybeSingle();
-      
-      if (error) throw error;
-      return !!data;
-    } catch (error) {
-      console.error('Error checking existing payment:', error);
-      return false;
-    }
+    return fetchExperienceEntitlement(authUser.id, experience.id);
   };
 
   const handlePurchaseExperience = async () => {
@@ -156,19 +131,10 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
         return;
       }
 
-      // User is authenticated and hasn't paid yet, create payment intent
-      const { data, error } = await supabase.functions.invoke('create-experience-payment', {
-        body: { 
-          experienceId: experience.id,
-          price: 999 // $9.99 in cents
-        }
-      });
-
-      if (error) throw error;
+      // User is authenticated and hasn't paid yet, create payment intent priced by the curator
+      const session = await startPayment(experience.id);
 
-      if (data?.client_secret) {
-        // Store client secret and open payment dialog
-        setClientSecret(data.client_secret);
+      if (session) {
         setIsPaymentDialogOpen(true);
       } else {
         toast.error('Failed to create payment session');
@@ -239,14 +205,24 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
         </CardHeader>
         
         <CardContent className="flex-1 flex flex-col p-6 pt-0">
+          <button
+            type="button"
+            onClick={() => setIsReviewsDialogOpen(true)}
+            className="flex items-center gap-1 mb-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <StarRating value={experience.rating_average ?? 0} starClassName="h-3 w-3" />
+            {experience.rating_count
+              ? <span>{Number(experience.rating_average).toFixed(1)} ({experience.rating_count})</span>
+              : <span>No reviews yet</span>}
+          </button>
           <div className="flex-1 mb-4">
-            <CardDescription className="text-sm h-[72px] overflow-y-auto">
+            <CardDescription className="text-sm h-[52px] overflow-y-auto">
               {experience.description || 'Discover amazing places and experiences in this curated tour.'}
             </CardDescription>
           </div>
           
           <div className="flex gap-2 flex-wrap">
-            {experience.system_prompt && (
+            {experience.description && (
               <Button
                 variant="outline"
                 size="sm"
@@ -269,7 +245,14 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
             >
               <CreditCard className="h-3 w-3 lg:h-4 lg:w-4" />
               <span className="ml-1 hidden sm:inline">
-                {hasAlreadyPaid ? 'Start Tour' : '$9.99'}
+                {hasAlreadyPaid ? 'Start Tour' : (
+                  <>
+                    {hasLaunchDiscount && (
+                      <span className="mr-1 line-through opacity-70">{formatPrice(pricing.price_cents, pricing.currency)}</span>
+                    )}
+                    {formatPrice(getEffectivePriceCents(pricing), pricing.currency)}
+                  </>
+                )}
               </span>
             </Button>
           </div>
@@ -280,8 +263,15 @@ const ExperienceCard: React.FC<ExperienceCardProps> = ({
         open={isPaymentDialogOpen}
         onOpenChange={setIsPaymentDialogOpen}
         experience={experience}
-        clientSecret={clientSecret}
+        session={paymentSession}
         onPaymentSuccess={handlePaymentSuccess}
+        onApplyPromoCode={(code) => applyPromoCode(experience.id, code)}
+      />
+
+      <ExperienceReviewsDialog
+        open={isReviewsDialogOpen}
+        onOpenChange={setIsReviewsDialogOpen}
+        experience={experience}
       />
     </>
   );
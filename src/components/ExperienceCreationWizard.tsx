@@ -1,23 +1,27 @@
 import React, { useState } from 'react';
-import { ArrowLeft, ArrowRight, Check, MapPin, Building, MessageSquare, Mic, Database, Bot, Sparkles, CheckCircle, File, Link, FileText } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Check, MapPin, Building, MessageSquare, Mic, Database, Bot, Sparkles, CheckCircle, File, Link, FileText, Tag, X } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import ProximityAutocomplete from '@/components/ProximityAutocomplete';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
 import { toast } from 'sonner';
 import { getHierarchicalLandmarkTypes, calculateDistance } from '@/utils/landmarkTypeHierarchy';
 import { generateAlexisPrompt } from '@/utils/alexisPromptGenerator';
+import { getLanguageInstruction, normalizeTourLanguage } from '@/utils/tourLanguage';
 import { mapPriceLevel } from '@/utils/priceUtils';
+import { EXPERIENCE_CURRENCIES, ExperienceCurrency, MIN_EXPERIENCE_PRICE_CENTS, formatPrice, getEffectivePriceCents } from '@/utils/experiencePricing';
 import { PromptSectionViewer } from '@/components/PromptSectionViewer';
 import { PersonaRefinementChat } from '@/components/PersonaRefinementChat';
 import { Section2RefinementChat } from '@/components/Section2RefinementChat';
 import { VoiceSelector } from '@/components/VoiceSelector';
 import { VoiceAudioWizard } from '@/components/VoiceAudioWizard';
+import { ELEVENLABS_VOICES, EXPERIENCE_LANGUAGES } from '@/utils/experienceCatalog';
 
 interface ExperienceCreationWizardProps {
   onClose: () => void;
@@ -55,10 +59,35 @@ interface ExperienceData {
   systemPrompt: string;
   voiceId: string;
   description: string;
+  language: string;
+  durationMinutes: string; // as typed
   agentId?: string;
   agentName?: string;
+  price: string; // In major units as typed, e.g. "9.99"
+  currency: ExperienceCurrency;
+  launchDiscountPercent: string;
+  launchDiscountEndsAt: string;
 }
 
+interface PromoCodeDraft {
+  id: string;
+  code: string;
+  discountType: 'percent' | 'amount';
+  value: string;
+  maxRedemptions: string;
+  expiresAt: string;
+}
+
+const EMPTY_PROMO_CODE: Omit<PromoCodeDraft, 'id'> = {
+  code: '',
+  discountType: 'percent',
+  value: '',
+  maxRedemptions: '',
+  expiresAt: '',
+};
+
+const toCents = (value: string) => Math.round(parseFloat(value) * 100);
+
 const WIZARD_STEPS = [
   { id: 'destination', title: 'Choose Destination', icon: MapPin },
   { id: 'landmarks', title: 'Select Landmarks', icon: Building },
@@ -68,18 +97,11 @@ const WIZARD_STEPS = [
   { id: 'review', title: 'Review & Create', icon: Check },
 ];
 
-const ELEVENLABS_VOICES = [
-  { id: 'EXAVITQu4vr4xnSDxMaL', name: 'Sarah', description: 'Professional and clear' },
-  { id: 'CwhRBWXzGAHq8TQ4Fs17', name: 'Roger', description: 'Warm and engaging' },
-  { id: '9BWtsMINqrJLrRacOk9x', name: 'Aria', description: 'Friendly and enthusiastic' },
-  { id: 'FGY2WhTYpPnrIDTdsKH5', name: 'Laura', description: 'Calm and informative' },
-];
-
 export const ExperienceCreationWizard: React.FC<ExperienceCreationWizardProps> = ({
   onClose,
   onExperienceCreated,
 }) => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [currentStep, setCurrentStep] = useState(0);
   const [isCreating, setIsCreating] = useState(false);
   const [destinationSearch, setDestinationSearch] = useState('');
@@ -109,9 +131,21 @@ export const ExperienceCreationWizard: React.FC<ExperienceCreationWizardProps> =
     systemPrompt: '',
     voiceId: ELEVENLABS_VOICES[0].id,
     description: '',
+    language: normalizeTourLanguage(profile?.preferred_language),
+    durationMinutes: '',
     agentId: undefined,
     agentName: '',
+    price: '9.99',
+    currency: 'usd',
+    launchDiscountPercent: '',
+    launchDiscountEndsAt: '',
   });
+  const [promoCodes, setPromoCodes] = useState<PromoCodeDraft[]>([]);
+  const [promoCodeDraft, setPromoCodeDraft] = useState<Omit<PromoCodeDraft, 'id'>>(EMPTY_PROMO_CODE);
+
+  const priceCents = toCents(experienceData.price);
+  const isPriceValid = !isNaN(priceCents) && priceCents >= MIN_EXPERIENCE_PRICE_CENTS;
+  const launchDiscountPercent = parseInt(experienceData.launchDiscountPercent) || null;
 
   const currentStepData = WIZARD_STEPS[currentStep];
 
@@ -452,15 +486,25 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
           user_id: user.id,
           destination: experienceData.destination.description,
           description: experienceData.description,
-          system_prompt: experienceData.systemPrompt,
+          // The guide language is picked after the prompt is written, so its instruction is added on save
+          system_prompt: experienceData.systemPrompt + getLanguageInstruction(experienceData.language),
           experience: true,
           agentid: experienceData.agentId, // Use the new agent created in Voice & Audio phase
+          voice_id: experienceData.voiceId,
+          language: experienceData.language,
+          duration_minutes: parseInt(experienceData.durationMinutes) || null,
           account_id: profileData.stripe_account_id, // Set account_id to user's stripe_account_id
           total_landmarks: experienceData.landmarks.length,
           generation_start_time: new Date().toISOString(),
           generation_end_time: new Date().toISOString(),
           destination_details: destinationData.data,
           photo: destinationData?.data?.photos?.[0] ? [destinationData.data.photos[0]] : null,
+          price_cents: priceCents,
+          currency: experienceData.currency,
+          launch_discount_percent: launchDiscountPercent,
+          launch_discount_ends_at: launchDiscountPercent && experienceData.launchDiscountEndsAt
+            ? new Date(experienceData.launchDiscountEndsAt).toISOString()
+            : null,
         })
         .select()
         .single();
@@ -475,6 +519,7 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
         const { data: landmarkDetails, error: landmarkError } = await supabase.functions.invoke('google-places-details', {
           body: {
             placeId: landmark.place_id,
+            languageCode: experienceData.language,
           }
         });
 
@@ -528,6 +573,52 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
         }
       }
 
+      // 6. Snapshot it as version 1 so later edits go through drafts
+      const { data: versionId, error: draftError } = await supabase
+        .rpc('create_experience_draft', { p_tour_id: tourData.id });
+
+      if (draftError) {
+        console.error('Version snapshot error:', draftError);
+        toast.warning('Experience created, but its first version could not be saved');
+      } else {
+        await supabase
+          .from('experience_versions')
+          .update({
+            voice_id: experienceData.voiceId,
+            knowledge_docs: uploadedKnowledgeBases.map(({ id, name, type }) => ({ id, name, type })),
+            notes: 'Initial version',
+          })
+          .eq('id', versionId);
+
+        const { error: publishError } = await supabase
+          .rpc('publish_experience_version', { p_version_id: versionId });
+
+        if (publishError) {
+          console.error('Version publish error:', publishError);
+          toast.warning('Experience created, but its first version could not be published');
+        }
+      }
+
+      // 7. Create the curator's promo codes
+      if (promoCodes.length > 0) {
+        const { error: promoError } = await supabase
+          .from('experience_promo_codes')
+          .insert(promoCodes.map(promo => ({
+            tour_id: tourData.id,
+            created_by: user.id,
+            code: promo.code,
+            discount_percent: promo.discountType === 'percent' ? Math.round(parseFloat(promo.value)) : null,
+            discount_amount_cents: promo.discountType === 'amount' ? toCents(promo.value) : null,
+            max_redemptions: parseInt(promo.maxRedemptions) || null,
+            expires_at: promo.expiresAt ? new Date(promo.expiresAt).toISOString() : null,
+          })));
+
+        if (promoError) {
+          console.error('Promo codes insertion error:', promoError);
+          toast.warning('Experience created, but its promo codes could not be saved');
+        }
+      }
+
       toast.success('Experience created successfully!');
       onExperienceCreated();
       
@@ -539,6 +630,36 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
     }
   };
 
+  const handleAddPromoCode = () => {
+    const code = promoCodeDraft.code.trim().toUpperCase();
+    const value = parseFloat(promoCodeDraft.value);
+
+    if (!code || isNaN(value) || value <= 0) {
+      toast.error('Enter a code and a discount');
+      return;
+    }
+    if (promoCodeDraft.discountType === 'percent' && value > 100) {
+      toast.error('A percentage discount cannot exceed 100%');
+      return;
+    }
+    const discountCents = promoCodeDraft.discountType === 'percent' ? Math.round(priceCents * value / 100) : toCents(promoCodeDraft.value);
+    if (isPriceValid && priceCents - discountCents < MIN_EXPERIENCE_PRICE_CENTS) {
+      toast.error(`This discount would bring the price below the minimum of ${formatPrice(MIN_EXPERIENCE_PRICE_CENTS, experienceData.currency)}`);
+      return;
+    }
+    if (promoCodes.some(promo => promo.code === code)) {
+      toast.error(`Promo code ${code} already added`);
+      return;
+    }
+
+    setPromoCodes(prev => [...prev, { ...promoCodeDraft, code, id: Date.now().toString() }]);
+    setPromoCodeDraft(EMPTY_PROMO_CODE);
+  };
+
+  const handleRemovePromoCode = (id: string) => {
+    setPromoCodes(prev => prev.filter(promo => promo.id !== id));
+  };
+
   const isStepComplete = (stepIndex: number): boolean => {
     switch (stepIndex) {
       case 0: return !!experienceData.destination;
@@ -546,7 +667,7 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
       case 2: return experienceData.systemPrompt.length > 50 && !!experienceData.agentName?.trim();
       case 3: return !!experienceData.agentId && !!experienceData.agentName?.trim() && !!experienceData.voiceId;
       case 4: return true; // Knowledge base is optional for MVP
-      case 5: return experienceData.description.length > 0;
+      case 5: return experienceData.description.length > 0 && isPriceValid;
       default: return false;
     }
   };
@@ -1080,8 +1201,153 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
                            rows={3}
                          />
                        </div>
+                       <div className="grid grid-cols-2 gap-4">
+                         <div>
+                           <label className="block text-sm font-medium mb-2">Guide Language</label>
+                           <Select
+                             value={experienceData.language}
+                             onValueChange={(value) => setExperienceData(prev => ({ ...prev, language: value }))}
+                           >
+                             <SelectTrigger><SelectValue /></SelectTrigger>
+                             <SelectContent>
+                               {EXPERIENCE_LANGUAGES.map(language => (
+                                 <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                               ))}
+                             </SelectContent>
+                           </Select>
+                         </div>
+                         <div>
+                           <label className="block text-sm font-medium mb-2">Estimated Duration (minutes)</label>
+                           <Input
+                             type="number"
+                             min="1"
+                             placeholder="e.g. 90"
+                             value={experienceData.durationMinutes}
+                             onChange={(e) => setExperienceData(prev => ({ ...prev, durationMinutes: e.target.value }))}
+                           />
+                         </div>
+                       </div>
                      </div>
 
+                    <Separator />
+
+                    <div className="space-y-4">
+                      <h4 className="font-medium">Pricing</h4>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Price</label>
+                          <Input
+                            type="number"
+                            min="0.50"
+                            step="0.01"
+                            value={experienceData.price}
+                            onChange={(e) => setExperienceData(prev => ({ ...prev, price: e.target.value }))}
+                          />
+                          {!isPriceValid && (
+                            <p className="text-xs text-destructive mt-1">
+                              Minimum price is {formatPrice(MIN_EXPERIENCE_PRICE_CENTS, experienceData.currency)}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Currency</label>
+                          <Select
+                            value={experienceData.currency}
+                            onValueChange={(value) => setExperienceData(prev => ({ ...prev, currency: value as ExperienceCurrency }))}
+                          >
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              {EXPERIENCE_CURRENCIES.map(currency => (
+                                <SelectItem key={currency} value={currency}>{currency.toUpperCase()}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Launch Discount (%)</label>
+                          <Input
+                            type="number"
+                            min="1"
+                            max="90"
+                            placeholder="Optional"
+                            value={experienceData.launchDiscountPercent}
+                            onChange={(e) => setExperienceData(prev => ({ ...prev, launchDiscountPercent: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium mb-2">Launch Discount Ends</label>
+                          <Input
+                            type="date"
+                            disabled={!launchDiscountPercent}
+                            value={experienceData.launchDiscountEndsAt}
+                            onChange={(e) => setExperienceData(prev => ({ ...prev, launchDiscountEndsAt: e.target.value }))}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium">Promo Codes</label>
+                        <div className="grid grid-cols-6 gap-2">
+                          <Input
+                            className="col-span-2"
+                            placeholder="CODE"
+                            value={promoCodeDraft.code}
+                            onChange={(e) => setPromoCodeDraft(prev => ({ ...prev, code: e.target.value }))}
+                          />
+                          <Select
+                            value={promoCodeDraft.discountType}
+                            onValueChange={(value) => setPromoCodeDraft(prev => ({ ...prev, discountType: value as PromoCodeDraft['discountType'] }))}
+                          >
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="percent">% off</SelectItem>
+                              <SelectItem value="amount">{experienceData.currency.toUpperCase()} off</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder="Discount"
+                            value={promoCodeDraft.value}
+                            onChange={(e) => setPromoCodeDraft(prev => ({ ...prev, value: e.target.value }))}
+                          />
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="Max uses"
+                            value={promoCodeDraft.maxRedemptions}
+                            onChange={(e) => setPromoCodeDraft(prev => ({ ...prev, maxRedemptions: e.target.value }))}
+                          />
+                          <Input
+                            type="date"
+                            title="Expires"
+                            value={promoCodeDraft.expiresAt}
+                            onChange={(e) => setPromoCodeDraft(prev => ({ ...prev, expiresAt: e.target.value }))}
+                          />
+                        </div>
+                        <Button type="button" variant="outline" size="sm" onClick={handleAddPromoCode}>
+                          <Tag className="mr-2 h-4 w-4" />
+                          Add Promo Code
+                        </Button>
+                        {promoCodes.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {promoCodes.map(promo => (
+                              <Badge key={promo.id} variant="secondary" className="gap-1">
+                                {promo.code}: {promo.discountType === 'percent'
+                                  ? `${promo.value}% off`
+                                  : `${formatPrice(toCents(promo.value), experienceData.currency)} off`}
+                                {promo.maxRedemptions && ` · ${promo.maxRedemptions} uses`}
+                                {promo.expiresAt && ` · until ${promo.expiresAt}`}
+                                <button type="button" onClick={() => handleRemovePromoCode(promo.id)}>
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+
                     <Separator />
 
                      <div className="space-y-4">
@@ -1109,6 +1375,20 @@ Always maintain an engaging, helpful tone and adapt to the user's interests and
                            <span className="text-muted-foreground">System Prompt:</span>
                            <p className="font-medium">{experienceData.systemPrompt.length} characters</p>
                          </div>
+                         <div>
+                           <span className="text-muted-foreground">Price:</span>
+                           <p className="font-medium">
+                             {isPriceValid
+                               ? formatPrice(getEffectivePriceCents({
+                                   price_cents: priceCents,
+                                   currency: experienceData.currency,
+                                   launch_discount_percent: launchDiscountPercent,
+                                   launch_discount_ends_at: experienceData.launchDiscountEndsAt || null
+                                 }), experienceData.currency)
+                               : '—'}
+                             {launchDiscountPercent ? ` (${launchDiscountPercent}% launch discount)` : ''}
+                           </p>
+                         </div>
                        </div>
                      </div>
                   </div>
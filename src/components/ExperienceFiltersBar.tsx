@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_EXPERIENCE_FILTERS,
+  DISTANCE_OPTIONS,
+  DURATION_OPTIONS,
+  ELEVENLABS_VOICES,
+  EXPERIENCE_LANGUAGES,
+  EXPERIENCE_SORT_OPTIONS,
+  ExperienceFilters,
+  ExperienceSort,
+  countActiveFilters
+} from '@/utils/experienceCatalog';
+
+interface ExperienceFiltersBarProps {
+  filters: ExperienceFilters;
+  onChange: (filters: ExperienceFilters) => void;
+  totalCount?: number;
+}
+
+// Radix Select can't hold an empty value, so "any" stands in for an unset filter
+const ANY = 'any';
+
+const RATING_OPTIONS = [
+  { value: ANY, label: 'Any rating' },
+  { value: '3', label: '3+ stars' },
+  { value: '4', label: '4+ stars' },
+  { value: '4.5', label: '4.5+ stars' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ExperienceFiltersBar: React.FC<ExperienceFiltersBarProps> = ({ filters, onChange, totalCount }) => {
+  const [searchText, setSearchText] = useState(filters.query);
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Only search once the user pauses typing
+  useEffect(() => {
+    const query = searchText.trim();
+    if (query === filters.query) return;
+
+    const timeout = setTimeout(() => {
+      // Rank by relevance while searching, unless the user picked another order
+      const sort: ExperienceSort = query && filters.sort === 'newest' ? 'relevance'
+        : !query && filters.sort === 'relevance' ? 'newest'
+        : filters.sort;
+      onChange({ ...filters, query, sort });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchText, filters, onChange]);
+
+  const update = (changes: Partial<ExperienceFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search destinations, landmarks, themes..."
+            className="pl-8 h-9"
+          />
+        </div>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-9">
+              <SlidersHorizontal className="h-4 w-4" />
+              {activeFilterCount > 0 && <Badge className="ml-1 h-5 px-1.5">{activeFilterCount}</Badge>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Language</Label>
+              <Select value={filters.language || ANY} onValueChange={(value) => update({ language: value === ANY ? undefined : value })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any language</SelectItem>
+                  {EXPERIENCE_LANGUAGES.map(language => (
+                    <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Voice</Label>
+              <Select value={filters.voiceId || ANY} onValueChange={(value) => update({ voiceId: value === ANY ? undefined : value })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any voice</SelectItem>
+                  {ELEVENLABS_VOICES.map(voice => (
+                    <SelectItem key={voice.id} value={voice.id}>{voice.name} – {voice.description}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Duration</Label>
+              <Select value={filters.duration} onValueChange={(value) => update({ duration: value as ExperienceFilters['duration'] })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DURATION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Max price</Label>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                placeholder="No limit"
+                className="h-8"
+                value={filters.maxPrice ?? ''}
+                onChange={(e) => update({ maxPrice: parseFloat(e.target.value) || undefined })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Rating</Label>
+              <Select
+                value={filters.minRating ? String(filters.minRating) : ANY}
+                onValueChange={(value) => update({ minRating: value === ANY ? undefined : parseFloat(value) })}
+              >
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {RATING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Distance from you</Label>
+              <Select value={filters.distance} onValueChange={(value) => update({ distance: value as ExperienceFilters['distance'] })}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DISTANCE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {activeFilterCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => onChange({ ...DEFAULT_EXPERIENCE_FILTERS, query: filters.query, sort: filters.sort })}
+              >
+                Clear filters
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        <Select value={filters.sort} onValueChange={(value) => update({ sort: value as ExperienceSort })}>
+          <SelectTrigger className="w-40 h-9 text-sm"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {EXPERIENCE_SORT_OPTIONS
+              .filter(option => option.value !== 'relevance' || filters.query)
+              .map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {totalCount !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          {totalCount} experience{totalCount === 1 ? '' : 's'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExperienceFiltersBar;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { MessageSquareReply, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import StarRating from '@/components/StarRating';
+import { useAuth } from '@/components/AuthProvider';
+import { Experience } from '@/hooks/useExperiences';
+import { useExperienceReviews } from '@/hooks/useExperienceReviews';
+
+interface ExperienceReviewsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  experience: Experience;
+}
+
+const ExperienceReviewsDialog: React.FC<ExperienceReviewsDialogProps> = ({ open, onOpenChange, experience }) => {
+  const { user } = useAuth();
+  const {
+    data: reviews,
+    isLoading,
+    canReview,
+    ownReview,
+    isSubmitting,
+    submitReview,
+    deleteReview
+  } = useExperienceReviews(experience.id, user?.id, open);
+  const [rating, setRating] = useState(0);
+  const [reviewText, setReviewText] = useState('');
+
+  // Start from the user's existing review when editing
+  useEffect(() => {
+    setRating(ownReview?.rating || 0);
+    setReviewText(ownReview?.review_text || '');
+  }, [ownReview?.id, ownReview?.rating, ownReview?.review_text]);
+
+  const handleSubmit = async () => {
+    if (rating === 0) return;
+    await submitReview(rating, reviewText);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{experience.destination}</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            <StarRating value={experience.rating_average ?? 0} />
+            {experience.rating_count
+              ? `${Number(experience.rating_average).toFixed(1)} · ${experience.rating_count} review${experience.rating_count === 1 ? '' : 's'}`
+              : 'No reviews yet'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canReview && (
+          <div className="space-y-2 p-3 border rounded-lg">
+            <p className="text-sm font-medium">{ownReview ? 'Your review' : 'Rate this experience'}</p>
+            <StarRating value={rating} onChange={setRating} starClassName="h-6 w-6" />
+            <Textarea
+              value={reviewText}
+              onChange={(e) => setReviewText(e.target.value)}
+              placeholder="What stood out? (optional)"
+              rows={3}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSubmit} disabled={rating === 0 || isSubmitting}>
+                {ownReview ? 'Update Review' : 'Post Review'}
+              </Button>
+              {ownReview && (
+                <Button size="sm" variant="ghost" onClick={deleteReview} disabled={isSubmitting}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[50vh]">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground py-4">Loading reviews...</p>
+          ) : !reviews || reviews.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              {canReview ? 'Be the first to review this experience.' : 'Reviews come from people who took this experience.'}
+            </p>
+          ) : (
+            <div className="space-y-4 pr-3">
+              {reviews.map(review => (
+                <div key={review.id} className="space-y-1 border-b pb-3 last:border-b-0">
+                  <div className="flex items-center justify-between">
+                    <StarRating value={review.rating} starClassName="h-3 w-3" />
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(review.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {review.review_text && <p className="text-sm">{review.review_text}</p>}
+                  {review.curator_reply && (
+                    <div className="ml-4 mt-2 p-2 bg-muted/50 rounded text-sm">
+                      <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground mb-1">
+                        <MessageSquareReply className="h-3 w-3" />
+                        Curator reply
+                      </p>
+                      {review.curator_reply}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExperienceReviewsDialog;
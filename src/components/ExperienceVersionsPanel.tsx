@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, FileText, GitBranch, History, MapPin, PencilLine, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ExperienceVersion,
+  VersionedExperience,
+  getVersionKnowledgeDocs,
+  getVersionLandmarks,
+  removeDraftKnowledgeDoc,
+  removeDraftLandmark,
+  useExperienceVersions
+} from '@/hooks/useExperienceVersions';
+import { convertExperienceToLandmark } from '@/utils/experienceUtils';
+
+interface ExperienceVersionsPanelProps {
+  userId: string | undefined;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
+  published: 'default',
+  draft: 'secondary',
+  archived: 'outline'
+};
+
+interface DraftEditorProps {
+  draft: ExperienceVersion;
+  isSaving: boolean;
+  onSave: (changes: Pick<ExperienceVersion, 'description' | 'system_prompt' | 'notes'>) => void;
+  onRemoveLandmark: (landmarkId: string) => void;
+  onRemoveKnowledgeDoc: (docId: string) => void;
+}
+
+const DraftEditor: React.FC<DraftEditorProps> = ({ draft, isSaving, onSave, onRemoveLandmark, onRemoveKnowledgeDoc }) => {
+  const [description, setDescription] = useState(draft.description || '');
+  const [systemPrompt, setSystemPrompt] = useState(draft.system_prompt || '');
+  const [notes, setNotes] = useState(draft.notes || '');
+  const landmarks = getVersionLandmarks(draft);
+  const knowledgeDocs = getVersionKnowledgeDocs(draft);
+
+  // Reset the form when a different draft is loaded
+  useEffect(() => {
+    setDescription(draft.description || '');
+    setSystemPrompt(draft.system_prompt || '');
+    setNotes(draft.notes || '');
+  }, [draft.id, draft.description, draft.system_prompt, draft.notes]);
+
+  return (
+    <div className="space-y-4 p-4 border border-dashed rounded-lg">
+      <div className="space-y-2">
+        <Label htmlFor={`description-${draft.id}`}>Description</Label>
+        <Textarea id={`description-${draft.id}`} value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`prompt-${draft.id}`}>System Prompt</Label>
+        <Textarea id={`prompt-${draft.id}`} value={systemPrompt} onChange={(e) => setSystemPrompt(e.target.value)} rows={6} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`notes-${draft.id}`}>What changed</Label>
+        <Textarea
+          id={`notes-${draft.id}`}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          placeholder="Shown in the version history"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Landmarks ({landmarks.length})</Label>
+        <div className="space-y-1">
+          {landmarks.map(landmark => (
+            <div key={landmark.landmark_id} className="flex items-center justify-between text-sm p-2 bg-muted/50 rounded">
+              <span className="flex items-center gap-2 min-w-0">
+                <MapPin className="w-3 h-3 shrink-0" />
+                <span className="truncate">{landmark.name}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemoveLandmark(landmark.landmark_id)}
+                disabled={isSaving || landmarks.length <= 1}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Knowledge Docs ({knowledgeDocs.length})</Label>
+        {knowledgeDocs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No knowledge docs recorded for this version</p>
+        ) : (
+          <div className="space-y-1">
+            {knowledgeDocs.map(doc => (
+              <div key={doc.id} className="flex items-center justify-between text-sm p-2 bg-muted/50 rounded">
+                <span className="flex items-center gap-2 min-w-0">
+                  <FileText className="w-3 h-3 shrink-0" />
+                  <span className="truncate">{doc.name}</span>
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => onRemoveKnowledgeDoc(doc.id)} disabled={isSaving}>
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        Voice agent: {draft.agent_id || 'none'} {draft.voice_id && `· voice ${draft.voice_id}`}
+        {' · '}the prompt, voice and knowledge docs are applied to this version's own agent when it's published
+      </div>
+
+      <Button
+        size="sm"
+        onClick={() => onSave({ description, system_prompt: systemPrompt, notes })}
+        disabled={isSaving}
+      >
+        Save Draft
+      </Button>
+    </div>
+  );
+};
+
+const ExperienceVersionsPanel: React.FC<ExperienceVersionsPanelProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const {
+    data: experiences,
+    isLoading,
+    isSaving,
+    createDraft,
+    updateDraft,
+    discardDraft,
+    publishVersion
+  } = useExperienceVersions(userId);
+  const [editingTourId, setEditingTourId] = useState<string | null>(null);
+
+  const handleEditDraft = async (item: VersionedExperience) => {
+    if (!item.draft) {
+      const draftId = await createDraft(item.experience.id);
+      if (!draftId) return;
+    }
+    setEditingTourId(item.experience.id);
+  };
+
+  const handlePreview = (item: VersionedExperience, version: ExperienceVersion) => {
+    // Index opens the tour dialog for the pending destination when it sees this state
+    window.pendingLandmarkDestination = {
+      ...convertExperienceToLandmark(item.experience),
+      previewVersionId: version.id
+    };
+    navigate('/', { state: { openIntelligentTour: true } });
+  };
+
+  const handlePublish = async (version: ExperienceVersion) => {
+    await publishVersion(version);
+    setEditingTourId(null);
+  };
+
+  const handleDiscard = async (version: ExperienceVersion) => {
+    await discardDraft(version.id);
+    setEditingTourId(null);
+  };
+
+  if (isLoading || !experiences || experiences.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Versions
+        </CardTitle>
+        <CardDescription>
+          Edit a draft without touching what buyers hear, preview it, then publish. Buyers keep the version they bought until they update.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {experiences.map(item => {
+          const { draft } = item;
+          const published = item.versions.find(version => version.id === item.publishedVersionId);
+          const history = item.versions.filter(version => version.status !== 'draft');
+
+          return (
+            <div key={item.experience.id} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <h3 className="font-semibold truncate">{item.experience.destination}</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {published ? `Version ${published.version_number} is live` : 'No published version'}
+                  </p>
+                </div>
+                {!draft ? (
+                  <Button variant="outline" size="sm" onClick={() => handleEditDraft(item)} disabled={isSaving}>
+                    <PencilLine className="w-4 h-4 mr-1" />
+                    New Draft
+                  </Button>
+                ) : (
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    <Button variant="outline" size="sm" onClick={() => setEditingTourId(editingTourId === item.experience.id ? null : item.experience.id)}>
+                      <PencilLine className="w-4 h-4 mr-1" />
+                      {editingTourId === item.experience.id ? 'Close' : `Edit v${draft.version_number}`}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handlePreview(item, draft)}>
+                      <Eye className="w-4 h-4 mr-1" />
+                      Preview
+                    </Button>
+                    <Button size="sm" onClick={() => handlePublish(draft)} disabled={isSaving}>
+                      <Upload className="w-4 h-4 mr-1" />
+                      Publish
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDiscard(draft)} disabled={isSaving}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {draft && editingTourId === item.experience.id && (
+                <DraftEditor
+                  draft={draft}
+                  isSaving={isSaving}
+                  onSave={(changes) => updateDraft(draft.id, changes)}
+                  onRemoveLandmark={(landmarkId) => updateDraft(draft.id, removeDraftLandmark(draft, landmarkId))}
+                  onRemoveKnowledgeDoc={(docId) => updateDraft(draft.id, removeDraftKnowledgeDoc(draft, docId))}
+                />
+              )}
+
+              {history.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                    <History className="w-3 h-3" />
+                    History
+                  </p>
+                  {history.map(version => (
+                    <div key={version.id} className="flex items-center justify-between gap-2 text-sm py-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium">v{version.version_number}</span>
+                        <Badge variant={STATUS_VARIANTS[version.status]} className="text-xs">{version.status}</Badge>
+                        <span className="text-muted-foreground truncate">
+                          {version.notes || (version.published_at && new Date(version.published_at).toLocaleDateString())}
+                        </span>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="ghost" size="sm" onClick={() => handlePreview(item, version)}>
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        {version.status === 'archived' && (
+                          <Button variant="ghost" size="sm" onClick={() => publishVersion(version)} disabled={isSaving}>
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Roll back
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExperienceVersionsPanel;
@@ -1,11 +1,14 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerDescription } from '@/components/ui/drawer';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
-import { useExperiences, Experience } from '@/hooks/useExperiences';
+import { useExperienceSearch, Experience, SearchLocation } from '@/hooks/useExperiences';
 import ExperienceCard from './ExperienceCard';
 import { Loader2, Compass } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ExperienceFiltersBar from './ExperienceFiltersBar';
 import { useAuth } from '@/components/AuthProvider';
 import { setPostAuthAction, setPostAuthLandmark } from '@/utils/authActions';
+import { DEFAULT_EXPERIENCE_FILTERS, ExperienceFilters } from '@/utils/experienceCatalog';
 interface ExperiencesDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -19,11 +22,33 @@ const ExperiencesDrawer: React.FC<ExperiencesDrawerProps> = ({
   onAuthDialogOpen
 }) => {
   const { user: authUser } = useAuth();
+  const [filters, setFilters] = useState<ExperienceFilters>(DEFAULT_EXPERIENCE_FILTERS);
+  const [searchLocation, setSearchLocation] = useState<SearchLocation | null>(null);
   const {
-    data: experiences,
+    data,
     isLoading,
-    error
-  } = useExperiences();
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useExperienceSearch(filters, searchLocation);
+  const experiences = data?.pages.flatMap(page => page.experiences);
+  const totalCount = data?.pages[0]?.totalCount;
+  const needsLocation = filters.distance !== 'any' || filters.sort === 'nearest';
+
+  // Distance filters and the nearest sort need to know where the user is
+  useEffect(() => {
+    if (!needsLocation || searchLocation || !('geolocation' in navigator)) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setSearchLocation({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude
+      }),
+      (error) => console.warn('📍 Could not get location for experience search:', error.message),
+      { timeout: 5000 }
+    );
+  }, [needsLocation, searchLocation]);
   const handleExperienceSelect = (experience: Experience) => {
     console.log('🎯 Generate Experience clicked for:', experience.destination, 'user:', authUser?.id);
     
@@ -129,6 +154,10 @@ const ExperiencesDrawer: React.FC<ExperiencesDrawerProps> = ({
         </DrawerHeader>
         
         <div className="px-4 pb-6">
+          <div className="mb-3">
+            <ExperienceFiltersBar filters={filters} onChange={setFilters} totalCount={totalCount} />
+          </div>
+
           {isLoading && <div className="flex items-center justify-center py-8">
               <Loader2 className="h-8 w-8 animate-spin" />
             </div>}
@@ -139,8 +168,10 @@ const ExperiencesDrawer: React.FC<ExperiencesDrawerProps> = ({
           
           {experiences && experiences.length === 0 && <div className="text-center py-8 text-muted-foreground">
               <Compass className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No experiences available yet.</p>
-              <p className="text-sm">Check back soon for curated tours!</p>
+              {filters === DEFAULT_EXPERIENCE_FILTERS ? <>
+                  <p>No experiences available yet.</p>
+                  <p className="text-sm">Check back soon for curated tours!</p>
+                </> : <p>No experiences match your search.</p>}
             </div>}
           
           {experiences && experiences.length > 0 && <Carousel opts={{
@@ -156,6 +187,13 @@ const ExperiencesDrawer: React.FC<ExperiencesDrawerProps> = ({
                   onDrawerClose={() => onOpenChange(false)}
                 />
                   </CarouselItem>)}
+                {hasNextPage && <CarouselItem className="pl-2 md:pl-4 basis-auto">
+                    <div className="w-[160px] h-[380px] flex items-center justify-center">
+                      <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Load more'}
+                      </Button>
+                    </div>
+                  </CarouselItem>}
               </CarouselContent>
               <CarouselPrevious className="hidden md:flex" />
               <CarouselNext className="hidden md:flex" />
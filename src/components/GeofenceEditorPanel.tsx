@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Hexagon, Spline, Undo2, Trash2, X, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { Geofence, GeofenceEventType, GeofenceShape } from '@/types/proximityAlerts';
+import { NewGeofence } from '@/hooks/useGeofences';
+
+interface GeofenceEditorPanelProps {
+  geofences: Geofence[];
+  currentUserId: string;
+  landmarks: TourLandmark[];
+  drawShape: GeofenceShape | null;
+  vertexCount: number;
+  onStartDrawing: (shape: GeofenceShape) => void;
+  onUndoVertex: () => void;
+  onCancelDrawing: () => void;
+  onSave: (details: Omit<NewGeofence, 'shape' | 'coordinates'>) => Promise<boolean>;
+  onDelete: (geofenceId: string) => void;
+  onClose: () => void;
+}
+
+const EVENT_OPTIONS: Array<{ value: GeofenceEventType; label: string }> = [
+  { value: 'enter', label: 'Enter' },
+  { value: 'exit', label: 'Exit' },
+  { value: 'dwell', label: 'Dwell' }
+];
+
+const NO_LANDMARK = 'none';
+
+const GeofenceEditorPanel: React.FC<GeofenceEditorPanelProps> = ({
+  geofences,
+  currentUserId,
+  landmarks,
+  drawShape,
+  vertexCount,
+  onStartDrawing,
+  onUndoVertex,
+  onCancelDrawing,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [name, setName] = useState('');
+  const [placeId, setPlaceId] = useState(NO_LANDMARK);
+  const [corridorWidth, setCorridorWidth] = useState(30);
+  const [dwellMinutes, setDwellMinutes] = useState(5);
+  const [events, setEvents] = useState<GeofenceEventType[]>(['enter', 'exit', 'dwell']);
+  const [message, setMessage] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const minVertices = drawShape === 'corridor' ? 2 : 3;
+  const canSave = !!name.trim() && vertexCount >= minVertices && events.length > 0 && !isSaving;
+
+  const resetForm = () => {
+    setName('');
+    setPlaceId(NO_LANDMARK);
+    setMessage('');
+  };
+
+  const handleLandmarkChange = (value: string) => {
+    setPlaceId(value);
+    const landmark = landmarks.find(item => item.placeId === value);
+    if (landmark && !name.trim()) setName(landmark.name);
+  };
+
+  const toggleEvent = (event: GeofenceEventType, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(item => item !== event));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      place_id: placeId === NO_LANDMARK ? null : placeId,
+      corridor_width: corridorWidth,
+      dwell_seconds: dwellMinutes * 60,
+      events,
+      message: message.trim() || null
+    });
+    setIsSaving(false);
+    if (saved) resetForm();
+  };
+
+  const handleCancel = () => {
+    resetForm();
+    onCancelDrawing();
+  };
+
+  return (
+    <div className="absolute top-[100px] left-[10px] z-20 w-72 max-h-[70vh] overflow-y-auto rounded-lg border border-gray-200 bg-white p-3 shadow-lg">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Geofences</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {!drawShape ? (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" onClick={() => onStartDrawing('polygon')}>
+              <Hexagon className="mr-1 h-4 w-4" />Area
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => onStartDrawing('corridor')}>
+              <Spline className="mr-1 h-4 w-4" />Corridor
+            </Button>
+          </div>
+
+          <ul className="mt-3 space-y-1">
+            {geofences.length === 0 && (
+              <li className="text-xs text-muted-foreground">No geofences for this tour yet.</li>
+            )}
+            {geofences.map(geofence => (
+              <li key={geofence.id} className="flex items-center gap-2 rounded border px-2 py-1 text-sm">
+                {geofence.shape === 'polygon'
+                  ? <Hexagon className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                  : <Spline className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+                <span className="truncate">{geofence.name}</span>
+                {geofence.user_id === currentUserId && (
+                  <button
+                    onClick={() => onDelete(geofence.id)}
+                    className="ml-auto flex-shrink-0 text-gray-500 hover:text-red-600"
+                    title="Delete geofence"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {drawShape === 'polygon'
+              ? 'Tap the map to outline the area.'
+              : 'Tap the map along the street or path.'}
+            {' '}{vertexCount} point{vertexCount !== 1 ? 's' : ''}
+            {vertexCount < minVertices && ` (at least ${minVertices})`}
+          </p>
+
+          <div className="space-y-1">
+            <Label htmlFor="geofence-landmark" className="text-xs">Tour landmark</Label>
+            <Select value={placeId} onValueChange={handleLandmarkChange}>
+              <SelectTrigger id="geofence-landmark" className="h-8 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LANDMARK}>None</SelectItem>
+                {landmarks.map(landmark => (
+                  <SelectItem key={landmark.placeId} value={landmark.placeId}>{landmark.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="geofence-name" className="text-xs">Name</Label>
+            <Input id="geofence-name" className="h-8 text-xs" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {drawShape === 'corridor' && (
+              <div className="space-y-1">
+                <Label htmlFor="geofence-width" className="text-xs">Width (m)</Label>
+                <Input
+                  id="geofence-width"
+                  type="number"
+                  min={5}
+                  className="h-8 text-xs"
+                  value={corridorWidth}
+                  onChange={(event) => setCorridorWidth(Math.max(5, Number(event.target.value)))}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="geofence-dwell" className="text-xs">Dwell (min)</Label>
+              <Input
+                id="geofence-dwell"
+                type="number"
+                min={1}
+                className="h-8 text-xs"
+                value={dwellMinutes}
+                onChange={(event) => setDwellMinutes(Math.max(1, Number(event.target.value)))}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            {EVENT_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-1 text-xs">
+                <Checkbox
+                  checked={events.includes(option.value)}
+                  onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="geofence-message" className="text-xs">Message on enter</Label>
+            <Input
+              id="geofence-message"
+              className="h-8 text-xs"
+              placeholder="Optional"
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={onUndoVertex} disabled={vertexCount === 0 || isSaving} title="Remove last point">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={handleCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size="sm" className="flex-1" onClick={handleSave} disabled={!canSave}>
+              {isSaving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeofenceEditorPanel;
@@ -17,13 +17,16 @@ import { resetIntelligentTourDialogState } from '@/utils/tourResetUtils';
 import { fetchExperienceLandmarks } from '@/utils/experienceUtils';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useTourStats } from '@/hooks/useTourStats';
+import { normalizeOpeningPeriods } from '@/utils/itineraryPlanner';
+import { getLanguageInstruction, normalizeTourLanguage } from '@/utils/tourLanguage';
+import { MAP_TOOLS_PROMPT } from '@/utils/agentClientTools';
 
 interface IntelligentTourDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onTourGenerated: (landmarks: any[]) => void;
   onAuthRequired: () => void;
-  onTourReadyForVoice?: (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string }) => void;
+  onTourReadyForVoice?: (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string; language?: string }) => void;
 }
 
 interface AutocompleteResult {
@@ -57,8 +60,10 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
   onAuthRequired,
   onTourReadyForVoice
 }) => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const isMobile = useIsMobile();
+  // Regular tours are generated in the traveler's language; experiences keep their curator's
+  const preferredLanguage = normalizeTourLanguage(profile?.preferred_language);
   
   // Initialize state with reset utility
   const initialState = resetIntelligentTourDialogState();
@@ -119,7 +124,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
         delete (window as any).pendingLandmarkDestination;
         
         // Start tour generation for the pre-selected landmark immediately
-        handleLandmarkTourGeneration(pendingLandmark, landmarkAsDestination, pendingLandmark.experience, pendingLandmark.tourId);
+        handleLandmarkTourGeneration(pendingLandmark, landmarkAsDestination, pendingLandmark.experience, pendingLandmark.tourId, pendingLandmark.previewVersionId);
         
       } else {
         // Reset dialog state using utility (normal flow)
@@ -250,7 +255,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
     }
   };
 
-  const handleLandmarkTourGeneration = async (landmark: any, destinationInfo: AutocompleteResult, experience?: boolean, tourId?: string) => {
+  const handleLandmarkTourGeneration = async (landmark: any, destinationInfo: AutocompleteResult, experience?: boolean, tourId?: string, versionId?: string) => {
     console.log('🚀 Starting simplified landmark tour generation for:', landmark.name);
     
     // Validate authentication first
@@ -322,14 +327,15 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
       const nearbyData = await (async () => {
         if (experience === true && tourId) {
           console.log('🎯 This is an experience tour, fetching landmarks for tour ID:', tourId);
-          const { places: experiencePlaces, error: experienceError } = await fetchExperienceLandmarks(tourId);
+          const { places: experiencePlaces, error: experienceError } = await fetchExperienceLandmarks(tourId, versionId);
           return { data: { places: experiencePlaces }, error: experienceError };
         } else {
           console.log('🔍 This is a regular tour, searching Google Places');
           const { data, error } = await supabase.functions.invoke('google-places-nearby', {
             body: { 
               coordinates,
-              destinationTypes: ['tourist_attraction'] // This triggers 1000m radius + 10 results
+              destinationTypes: ['tourist_attraction'], // This triggers 1000m radius + 10 results
+              languageCode: preferredLanguage
             }
           });
           return { data, error };
@@ -349,7 +355,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
       // Generate tour in database using the landmark destination details
       // Determine tour type and pass source tour ID for experiences
       const tourType = (experience === true && tourId) ? 'experience' : 'regular';
-      await generateTourInDatabase(destinationDetails, nearbyData.data.places || [], destinationInfo, tourType, tourId);
+      await generateTourInDatabase(destinationDetails, nearbyData.data.places || [], destinationInfo, tourType, tourId, versionId);
       
     } catch (error) {
       console.error('Landmark tour generation error:', error);
@@ -399,7 +405,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
     try {
       // Fetch destination details
       const { data: detailsData, error: detailsError } = await supabase.functions.invoke('google-places-details', {
-        body: { placeId: destination.place_id }
+        body: { placeId: destination.place_id, languageCode: preferredLanguage }
       });
 
       if (detailsError) {
@@ -421,7 +427,8 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
       const { data: nearbyData, error: nearbyError } = await supabase.functions.invoke('google-places-nearby', {
         body: { 
           coordinates,
-          destinationTypes: destination.types
+          destinationTypes: destination.types,
+          languageCode: preferredLanguage
         }
       });
 
@@ -450,7 +457,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
     }
   };
 
-  const generateTourInDatabase = async (destination: any, landmarks: any[], destinationInfo: AutocompleteResult, tourType: 'experience' | 'regular' = 'regular', sourceTourId?: string) => {
+  const generateTourInDatabase = async (destination: any, landmarks: any[], destinationInfo: AutocompleteResult, tourType: 'experience' | 'regular' = 'regular', sourceTourId?: string, sourceVersionId?: string) => {
     if (!user?.id) {
       console.error('User authentication failed before database operations');
       throw new Error('User not authenticated');
@@ -492,12 +499,13 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
       // System prompt selection logic based on tour type
       let systemPrompt: string;
       let sourceAgentId: string | null = null;
+      let tourLanguage = preferredLanguage;
       
       if (tourType === 'experience' && sourceTourId) {
         console.log('🎯 Experience tour detected, fetching system prompt and agent ID from source tour:', sourceTourId);
         try {
           const { data: tourDetails, error: tourDetailsError } = await supabase.functions.invoke('get-tour-details', {
-            body: { tourId: sourceTourId }
+            body: { tourId: sourceTourId, versionId: sourceVersionId }
           });
           
           if (tourDetailsError) {
@@ -505,6 +513,17 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
             throw new Error(`Failed to fetch source tour details: ${tourDetailsError.message}`);
           }
           
+          // The experience guide is only for users who own the experience
+          if (tourDetails?.entitled === false) {
+            toast({
+              title: "Purchase Required",
+              description: "Buy this experience to start its voice tour. Already bought it? Restore purchases from your library.",
+              variant: "destructive"
+            });
+            handleClose();
+            return;
+          }
+
           if (!tourDetails || !tourDetails.systemPrompt) {
             console.error('❌ No system prompt found in source tour');
             throw new Error('Source tour system prompt not found');
@@ -512,6 +531,7 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
           
           systemPrompt = tourDetails.systemPrompt;
           sourceAgentId = tourDetails.agentId || null;
+          tourLanguage = normalizeTourLanguage(tourDetails.language);
           console.log('✅ Successfully retrieved system prompt and agent ID from source tour:', {
             hasSystemPrompt: !!systemPrompt,
             hasAgentId: !!sourceAgentId,
@@ -521,16 +541,16 @@ const IntelligentTourDialog: React.FC<IntelligentTourDialogProps> = ({
         } catch (error) {
           console.error('❌ Error fetching source system prompt, falling back to alexisPrompt:', error);
           // Fallback to generated alexisPrompt if fetching fails
-          systemPrompt = generateAlexisPrompt(destination, landmarks, landmarkHighlights);
+          systemPrompt = generateAlexisPrompt(destination, landmarks, landmarkHighlights, tourLanguage);
           sourceAgentId = null;
         }
       } else {
         console.log('🔍 Regular tour detected, generating alexisPrompt');
-        systemPrompt = generateAlexisPrompt(destination, landmarks, landmarkHighlights);
+        systemPrompt = generateAlexisPrompt(destination, landmarks, landmarkHighlights, tourLanguage);
       }
 
       // Helper function to generate alexisPrompt (extracted from original code)
-      function generateAlexisPrompt(destination: any, landmarks: any[], landmarkHighlights: any[]) {
+      function generateAlexisPrompt(destination: any, landmarks: any[], landmarkHighlights: any[], language: string) {
         return `You are Alexis, an **enthusiastic and incredibly knowledgeable expert tour guide**. Your current focus is leading a delightful walking tour of **${destination.name}** and its immediate surroundings.
 
 **Your Core Mission:**
@@ -596,7 +616,7 @@ When you encounter questions or situations requiring real-time information about
     * **Trigger Phrases/Questions:** "Is [place] open right now?", "What are the hours for [place]?", "When does [place] close/open?", "What time does [place] operate?"
 
 * **\`get-place-popularity(place_id: string)\`**
-    * **Description:** Retrieves real-time popularity or crowd data for a place, indicating how busy it currently is. Use this tool when the user asks about crowd levels or the best time to visit to avoid crowds.
+    * **Description:** Retrieves a general popularity assessment for a place based on its rating, review count and whether it is open, with busyness by hour estimated from the place type. These are estimates, not live crowd counts: say a place is "usually" busy or quiet, and use \`get_quiet_times\` for a quieter time to suggest. Use this tool when the user asks about crowd levels or the best time to visit to avoid crowds.
     * **Trigger Phrases/Questions:** "How busy is [place]?", "Is [place] crowded right now?", "What's the best time to visit [place] to avoid crowds?"
 
 * **\`get-place-reviews(place_id: string, limit: number = 3)\`**
@@ -616,6 +636,8 @@ When you encounter questions or situations requiring real-time information about
     * **Description:** Provides information regarding the accessibility features of a specific place (e.g., wheelchair access, ramps, accessible parking). Use this tool when the user inquires about mobility or accessibility needs for a place.
     * **Trigger Phrases/Questions:** "Is [place] wheelchair accessible?", "Does [place] have ramps or elevators?", "What are the accessibility options at [place]?"
 
+${MAP_TOOLS_PROMPT}
+
 **Grounding Instructions:**
 - Always prioritize place_id-based data over general knowledge when available
 - Cross-reference multiple data sources for accuracy when using place_id
@@ -641,7 +663,7 @@ You will receive occasional, non-interrupting system updates about **new** nearb
        * **Share Key Information:** Immediately follow with an engaging fact or brief detail about [POI Name], drawing directly from the \`poi_fact\` provided in the \`SYSTEM_ALERT\`. For example: "Did you know that [poi_fact]? It's truly a captivating spot that often surprises visitors!"
        * **Smooth Transition:** Ask a relevant follow-up question about the newly discovered POI or connect it back to the tour, e.g.: "What are your thoughts on that, or shall we continue exploring ${destination.name}'s charm?"
    * **No New POI:** If no new POI information is available in the \`SYSTEM_ALERT\`s (or all have been discussed), simply continue the conversation based on the main tour plan or the user's previous input.
-3. **Internal Tracking for Repetition Avoidance:** Once you introduce a POI (whether from the initial "Key Landmarks" list or a "Real-time Location Awareness" alert), consider it "discussed" for the remainder of this conversation session. **Do not re-mention it, even if its ID appears again in a new \`SYSTEM_ALERT\`.** You are an expert who remembers what you've already shared.`;
+3. **Internal Tracking for Repetition Avoidance:** Once you introduce a POI (whether from the initial "Key Landmarks" list or a "Real-time Location Awareness" alert), consider it "discussed" for the remainder of this conversation session. **Do not re-mention it, even if its ID appears again in a new \`SYSTEM_ALERT\`.** You are an expert who remembers what you've already shared.${getLanguageInstruction(language)}`;
       }
 
       console.log('Inserting tour record...');
@@ -657,6 +679,7 @@ You will receive occasional, non-interrupting system updates about **new** nearb
           search_radius: landmarks[0]?.searchRadius || 10000
         },
         system_prompt: systemPrompt,
+        language: tourLanguage,
         total_landmarks: landmarks.length,
         generation_start_time: new Date().toISOString(),
         generation_end_time: new Date().toISOString(),
@@ -756,6 +779,7 @@ You will receive occasional, non-interrupting system updates about **new** nearb
         types: landmark.types || [],
         placeId: landmark.placeId,
         formattedAddress: landmark.vicinity || landmark.formattedAddress,
+        openingPeriods: normalizeOpeningPeriods(landmark.regularOpeningHours),
         tourId: tourData.id // 🔥 CRUCIAL: Add tour_id to each landmark
       }));
 
@@ -796,7 +820,10 @@ You will receive occasional, non-interrupting system updates about **new** nearb
         name: landmark.name,
         coordinates: landmark.coordinates,
         description: landmark.description,
-        placeId: landmark.placeId // 🔥 INCLUDE PLACE_ID FOR DATABASE LOOKUP
+        placeId: landmark.placeId, // 🔥 INCLUDE PLACE_ID FOR DATABASE LOOKUP
+        types: landmark.types,
+        openingPeriods: landmark.openingPeriods, // Used to schedule visits within opening hours
+        tourId: landmark.tourId // Needed to save the tour as an offline pack
       }));
 
       console.log('📍 Adding Enhanced Smart Tour landmarks to TOUR_LANDMARKS array:', tourLandmarks.length);
@@ -853,7 +880,8 @@ You will receive occasional, non-interrupting system updates about **new** nearb
           destination: destination.name,
           systemPrompt: systemPrompt,
           landmarks: validLandmarks,
-          agentId: tourType === 'experience' ? sourceAgentId : undefined
+          agentId: tourType === 'experience' ? sourceAgentId : undefined,
+          language: tourLanguage
         });
       }
 
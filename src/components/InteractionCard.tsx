@@ -7,6 +7,7 @@ import InteractionCardHeader from './InteractionCardHeader';
 import InteractionCardContent from './InteractionCardContent';
 import InteractionCardActions from './InteractionCardActions';
 import { useImageDownload } from '@/hooks/useImageDownload';
+import { splitSnippet } from '@/utils/interactionSearch';
 
 interface Interaction {
   id: string;
@@ -19,6 +20,7 @@ interface Interaction {
   full_transcript: any;
   is_favorite: boolean;
   landmark_image_url: string | null;
+  snippet?: string | null;
 }
 
 interface InteractionCardProps {
@@ -86,6 +88,15 @@ const InteractionCard: React.FC<InteractionCardProps> = ({
           </div>
         )}
 
+        {/* Search match, with the matching words highlighted */}
+        {interaction.snippet && (
+          <p className="mb-2 rounded bg-gray-900/60 p-2 text-xs text-gray-300">
+            {splitSnippet(interaction.snippet).map((part, partIndex) => part.highlighted
+              ? <mark key={partIndex} className="rounded bg-yellow-400/30 px-0.5 text-yellow-100">{part.text}</mark>
+              : <React.Fragment key={partIndex}>{part.text}</React.Fragment>)}
+          </p>
+        )}
+
         {/* Main Content */}
         <div className="flex-1 mb-3">
           <InteractionCardContent interaction={interaction} />
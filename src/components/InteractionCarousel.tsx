@@ -31,6 +31,9 @@ const InteractionCarousel: React.FC<InteractionCarouselProps> = ({
   const {
     searchQuery,
     setSearchQuery,
+    filters,
+    setFilters,
+    activeFilterCount,
     interactions,
     searchResults,
     isLoading,
@@ -116,6 +119,9 @@ const InteractionCarousel: React.FC<InteractionCarouselProps> = ({
           onSearch={handleSearch}
           isSearching={isSearching}
           onBackToHistory={handleBackToHistory}
+          filters={filters}
+          onFiltersChange={setFilters}
+          activeFilterCount={activeFilterCount}
           showFavoritesOnly={showFavoritesOnly}
           onToggleFavoritesFilter={handleToggleFavoritesFilter}
           currentCount={currentInteractions.length}
@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Toggle } from '@/components/ui/toggle';
 import InteractionSearch from './InteractionSearch';
+import { InteractionFilters } from '@/utils/interactionSearch';
 import { X, Star, Plus, Loader2 } from 'lucide-react';
 
 interface InteractionCarouselHeaderProps {
@@ -13,6 +14,9 @@ interface InteractionCarouselHeaderProps {
   onSearch: () => void;
   isSearching: boolean;
   onBackToHistory: () => void;
+  filters: InteractionFilters;
+  onFiltersChange: (filters: InteractionFilters) => void;
+  activeFilterCount: number;
   showFavoritesOnly: boolean;
   onToggleFavoritesFilter: (show: boolean) => void;
   // Load More props
@@ -30,6 +34,9 @@ const InteractionCarouselHeader: React.FC<InteractionCarouselHeaderProps> = ({
   onSearch,
   isSearching,
   onBackToHistory,
+  filters,
+  onFiltersChange,
+  activeFilterCount,
   showFavoritesOnly,
   onToggleFavoritesFilter,
   currentCount = 0,
@@ -105,6 +112,9 @@ const InteractionCarouselHeader: React.FC<InteractionCarouselHeaderProps> = ({
           isSearching={isSearching}
           showingSearchResults={showingSearchResults}
           onBackToHistory={onBackToHistory}
+          filters={filters}
+          onFiltersChange={onFiltersChange}
+          activeFilterCount={activeFilterCount}
         />
       </div>
     </div>
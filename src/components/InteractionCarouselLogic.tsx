@@ -2,6 +2,12 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from './AuthProvider';
+import {
+  DEFAULT_INTERACTION_FILTERS,
+  InteractionFilters,
+  countActiveInteractionFilters,
+  toSearchFilters
+} from '@/utils/interactionSearch';
 
 interface Interaction {
   id: string;
@@ -18,7 +24,10 @@ interface Interaction {
   conversation_duration: number | null;
   audio_url: string | null;
   agent_id: string | null;
+  transportation_mode?: string | null;
   similarity?: number;
+  snippet?: string | null; // matching transcript text, matches wrapped in <mark>
+  distance_km?: number | null;
 }
 
 export const useInteractionCarouselLogic = () => {
@@ -30,9 +39,26 @@ export const useInteractionCarouselLogic = () => {
   const [showingSearchResults, setShowingSearchResults] = useState(false);
   const [currentLimit, setCurrentLimit] = useState(10);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [filters, setFilters] = useState<InteractionFilters>(DEFAULT_INTERACTION_FILTERS);
+  const [searchLocation, setSearchLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const activeFilterCount = countActiveInteractionFilters(filters);
+
+  // The distance filter needs to know where the user is
+  useEffect(() => {
+    if (filters.distance === 'any' || searchLocation || !('geolocation' in navigator)) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => setSearchLocation({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude
+      }),
+      (error) => console.warn('📍 Could not get location for interaction search:', error.message),
+      { timeout: 5000 }
+    );
+  }, [filters.distance, searchLocation]);
 
   const loadAllInteractions = async (limit: number = currentLimit) => {
     setIsLoading(true);
@@ -92,7 +118,7 @@ export const useInteractionCarouselLogic = () => {
   };
 
   const handleSearch = async () => {
-    if (!searchQuery.trim()) return;
+    if (!searchQuery.trim() && activeFilterCount === 0) return;
 
     if (!user) {
       toast({
@@ -107,19 +133,19 @@ export const useInteractionCarouselLogic = () => {
     try {
       console.log('Starting search with query:', searchQuery);
 
-      // Try vector search first
+      // Try hybrid keyword + semantic search first
       try {
         const { data, error } = await supabase.functions.invoke('search-interactions', {
-          body: { query: searchQuery }
+          body: { query: searchQuery.trim(), filters: toSearchFilters(filters, searchLocation) }
         });
 
         if (error) {
-          console.error('Vector search error:', error);
+          console.error('Hybrid search error:', error);
           throw error;
         }
 
         if (data && data.results) {
-          console.log('Vector search results:', data.results);
+          console.log('Hybrid search results:', data.results);
           setSearchResults(data.results);
           setShowingSearchResults(true);
           
@@ -132,14 +158,26 @@ export const useInteractionCarouselLogic = () => {
           return;
         }
       } catch (vectorError) {
-        console.log('Vector search not available, falling back to text search:', vectorError);
+        console.log('Hybrid search not available, falling back to text search:', vectorError);
       }
 
-      // Fallback to text search
-      const { data: textResults, error: searchError } = await supabase
+      // Fallback to text search, with the filters that don't need the search function
+      const searchFilters = toSearchFilters(filters, null);
+      let textQuery = supabase
         .from('interactions')
-        .select('*')
-        .or(`user_input.ilike.%${searchQuery}%,assistant_response.ilike.%${searchQuery}%,destination.ilike.%${searchQuery}%`)
+        .select('*');
+
+      if (searchQuery.trim()) {
+        textQuery = textQuery.or(`user_input.ilike.%${searchQuery}%,assistant_response.ilike.%${searchQuery}%,destination.ilike.%${searchQuery}%`);
+      }
+      if (searchFilters.interactionTypes) textQuery = textQuery.in('interaction_type', searchFilters.interactionTypes);
+      if (searchFilters.destination) textQuery = textQuery.ilike('destination', `%${searchFilters.destination}%`);
+      if (searchFilters.dateFrom) textQuery = textQuery.gte('created_at', searchFilters.dateFrom);
+      if (searchFilters.dateTo) textQuery = textQuery.lte('created_at', searchFilters.dateTo);
+      if (searchFilters.favoritesOnly) textQuery = textQuery.eq('is_favorite', true);
+      if (searchFilters.transportationMode) textQuery = textQuery.eq('transportation_mode', searchFilters.transportationMode);
+
+      const { data: textResults, error: searchError } = await textQuery
         .order('created_at', { ascending: false })
         .limit(20);
 
@@ -180,6 +218,7 @@ export const useInteractionCarouselLogic = () => {
     setShowingSearchResults(false);
     setSearchResults([]);
     setSearchQuery('');
+    setFilters(DEFAULT_INTERACTION_FILTERS);
   };
 
   const toggleFavorite = async (interaction: Interaction) => {
@@ -235,6 +274,9 @@ export const useInteractionCarouselLogic = () => {
   return {
     searchQuery,
     setSearchQuery,
+    filters,
+    setFilters,
+    activeFilterCount,
     interactions,
     searchResults,
     isLoading,
@@ -3,6 +3,8 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Search, ArrowLeft } from 'lucide-react';
+import InteractionSearchFilters from './InteractionSearchFilters';
+import { InteractionFilters } from '@/utils/interactionSearch';
 
 interface InteractionSearchProps {
   searchQuery: string;
@@ -11,6 +13,9 @@ interface InteractionSearchProps {
   isSearching: boolean;
   showingSearchResults: boolean;
   onBackToHistory: () => void;
+  filters: InteractionFilters;
+  onFiltersChange: (filters: InteractionFilters) => void;
+  activeFilterCount: number;
 }
 
 const InteractionSearch: React.FC<InteractionSearchProps> = ({
@@ -20,6 +25,9 @@ const InteractionSearch: React.FC<InteractionSearchProps> = ({
   isSearching,
   showingSearchResults,
   onBackToHistory,
+  filters,
+  onFiltersChange,
+  activeFilterCount,
 }) => {
   return (
     <div className="flex gap-2">
@@ -41,7 +49,8 @@ const InteractionSearch: React.FC<InteractionSearchProps> = ({
           onKeyPress={(e) => e.key === 'Enter' && onSearch()}
           className="flex-1 bg-gray-800 border-gray-600 text-white"
         />
-        <Button onClick={onSearch} disabled={isSearching || !searchQuery.trim()}>
+        <InteractionSearchFilters filters={filters} onChange={onFiltersChange} activeFilterCount={activeFilterCount} />
+        <Button onClick={onSearch} disabled={isSearching || (!searchQuery.trim() && activeFilterCount === 0)}>
           <Search className="w-4 h-4 mr-2" />
           {isSearching ? 'Searching...' : 'Search'}
         </Button>
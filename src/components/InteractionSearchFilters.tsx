@@ -0,0 +1,131 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Toggle } from '@/components/ui/toggle';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_INTERACTION_FILTERS,
+  INTERACTION_DISTANCE_OPTIONS,
+  INTERACTION_TYPE_OPTIONS,
+  InteractionFilters,
+  TRANSPORTATION_MODE_OPTIONS
+} from '@/utils/interactionSearch';
+
+interface InteractionSearchFiltersProps {
+  filters: InteractionFilters;
+  onChange: (filters: InteractionFilters) => void;
+  activeFilterCount: number;
+}
+
+// Radix Select can't hold an empty value, so "any" stands in for an unset filter
+const ANY = 'any';
+
+const InteractionSearchFilters: React.FC<InteractionSearchFiltersProps> = ({ filters, onChange, activeFilterCount }) => {
+  const update = (changes: Partial<InteractionFilters>) => onChange({ ...filters, ...changes });
+
+  const toggleType = (type: string, pressed: boolean) => update({
+    interactionTypes: pressed
+      ? [...filters.interactionTypes, type]
+      : filters.interactionTypes.filter(selected => selected !== type)
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="bg-gray-800 border-gray-600 text-white hover:bg-gray-700" title="Search filters">
+          <SlidersHorizontal className="h-4 w-4" />
+          {activeFilterCount > 0 && <Badge className="ml-1 h-5 px-1.5">{activeFilterCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <div className="flex gap-1">
+            {INTERACTION_TYPE_OPTIONS.map(option => (
+              <Toggle
+                key={option.value}
+                size="sm"
+                variant="outline"
+                pressed={filters.interactionTypes.includes(option.value)}
+                onPressedChange={(pressed) => toggleType(option.value, pressed)}
+              >
+                {option.label}
+              </Toggle>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Destination</Label>
+          <Input
+            placeholder="Any destination"
+            className="h-8"
+            value={filters.destination}
+            onChange={(e) => update({ destination: e.target.value })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input type="date" className="h-8" value={filters.dateFrom} onChange={(e) => update({ dateFrom: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input type="date" className="h-8" value={filters.dateTo} onChange={(e) => update({ dateTo: e.target.value })} />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Distance from you</Label>
+          <Select value={filters.distance} onValueChange={(value) => update({ distance: value as InteractionFilters['distance'] })}>
+            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {INTERACTION_DISTANCE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Getting around</Label>
+          <Select
+            value={filters.transportationMode || ANY}
+            onValueChange={(value) => update({ transportationMode: value === ANY ? undefined : value })}
+          >
+            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any way</SelectItem>
+              {TRANSPORTATION_MODE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="interaction-favorites-only" className="text-xs">Favorites only</Label>
+          <Switch
+            id="interaction-favorites-only"
+            checked={filters.favoritesOnly}
+            onCheckedChange={(favoritesOnly) => update({ favoritesOnly })}
+          />
+        </div>
+
+        {activeFilterCount > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange(DEFAULT_INTERACTION_FILTERS)}>
+            Clear filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default InteractionSearchFilters;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, Loader2, AlertTriangle, Sun, Sunset, GripVertical, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { useTourPlanner, ItineraryDay, ItineraryStop } from '@/hooks/useTourPlanner';
+import { TravelMode } from '@/components/TravelModeSelector';
+
+interface ItineraryPlannerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  landmarks: TourLandmark[];
+  onItineraryChange: (days: ItineraryDay[] | null) => void;
+}
+
+// TRANSIT can't optimize waypoint order in the Routes API
+const TRAVEL_MODES: Array<{ value: TravelMode; label: string }> = [
+  { value: 'WALK', label: 'Walking' },
+  { value: 'BICYCLE', label: 'Cycling' },
+  { value: 'DRIVE', label: 'Driving' }
+];
+
+const ItineraryPlannerDialog: React.FC<ItineraryPlannerDialogProps> = ({
+  open,
+  onOpenChange,
+  landmarks,
+  onItineraryChange
+}) => {
+  const { tourPlan, planItinerary, moveLandmarkToDay, clearItinerary, isPlanningItinerary } = useTourPlanner();
+  const [dayCount, setDayCount] = useState(3);
+  const [startDate, setStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [travelMode, setTravelMode] = useState<TravelMode>('WALK');
+  const [draggedPlaceId, setDraggedPlaceId] = useState<string | null>(null);
+  const [dropTargetDay, setDropTargetDay] = useState<number | null>(null);
+
+  const days = tourPlan?.days || null;
+
+  // A different tour on the map invalidates the plan
+  const tourKey = landmarks.map(landmark => landmark.placeId).sort().join('|');
+  const plannedTourKey = useRef<string | null>(null);
+  useEffect(() => {
+    if (plannedTourKey.current === tourKey) return;
+    plannedTourKey.current = tourKey;
+    clearItinerary();
+    onItineraryChange(null);
+  }, [tourKey, clearItinerary, onItineraryChange]);
+
+  const handlePlan = async () => {
+    const planned = await planItinerary(landmarks, {
+      dayCount,
+      startDate: new Date(`${startDate}T00:00:00`),
+      travelMode
+    });
+    if (planned) onItineraryChange(planned);
+  };
+
+  const handleClear = () => {
+    clearItinerary();
+    onItineraryChange(null);
+  };
+
+  const handleDrop = async (dayIndex: number, beforePlaceId?: string) => {
+    const placeId = draggedPlaceId;
+    setDraggedPlaceId(null);
+    setDropTargetDay(null);
+    if (!placeId || placeId === beforePlaceId) return;
+
+    const updated = await moveLandmarkToDay(placeId, dayIndex, beforePlaceId);
+    if (updated) onItineraryChange(updated);
+  };
+
+  const renderStop = (stop: ItineraryStop, day: ItineraryDay) => {
+    const slotMismatch = stop.preferredSlot && stop.preferredSlot !== stop.slot;
+
+    return (
+      <div
+        key={stop.landmark.placeId}
+        draggable={!isPlanningItinerary}
+        onDragStart={() => setDraggedPlaceId(stop.landmark.placeId)}
+        onDragEnd={() => {
+          setDraggedPlaceId(null);
+          setDropTargetDay(null);
+        }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={(event) => {
+          event.stopPropagation();
+          handleDrop(day.dayIndex, stop.landmark.placeId);
+        }}
+        className={`flex cursor-grab items-center gap-2 rounded border bg-background px-2 py-1.5 text-sm ${
+          draggedPlaceId === stop.landmark.placeId ? 'opacity-50' : ''
+        }`}
+      >
+        <GripVertical className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+        <span className="truncate">{stop.landmark.name}</span>
+        {!stop.isOpen && (
+          <Badge variant="destructive" className="ml-auto flex-shrink-0 gap-1 text-[10px]">
+            <AlertTriangle className="h-3 w-3" />Closed
+          </Badge>
+        )}
+        {stop.isOpen && slotMismatch && (
+          <Badge variant="outline" className="ml-auto flex-shrink-0 text-[10px] text-amber-700">
+            Best in the {stop.preferredSlot}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Multi-day Itinerary
+          </DialogTitle>
+          <DialogDescription>
+            Split the {landmarks.length} tour stops into days grouped by area, checked against opening hours.
+            Drag stops between days to adjust.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="itinerary-days">Days</Label>
+            <Select value={String(dayCount)} onValueChange={(value) => setDayCount(Number(value))}>
+              <SelectTrigger id="itinerary-days"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {[1, 2, 3, 4, 5, 6, 7].map(count => (
+                  <SelectItem key={count} value={String(count)} disabled={count > landmarks.length}>
+                    {count} day{count > 1 ? 's' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="itinerary-start">Start date</Label>
+            <Input
+              id="itinerary-start"
+              type="date"
+              value={startDate}
+              onChange={(event) => setStartDate(event.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="itinerary-mode">Getting around</Label>
+            <Select value={travelMode} onValueChange={(value) => setTravelMode(value as TravelMode)}>
+              <SelectTrigger id="itinerary-mode"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {TRAVEL_MODES.map(mode => (
+                  <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={handlePlan} disabled={isPlanningItinerary || landmarks.length === 0 || !startDate}>
+            {isPlanningItinerary && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {days ? 'Re-plan days' : 'Plan days'}
+          </Button>
+          {days && (
+            <Button variant="outline" onClick={handleClear} disabled={isPlanningItinerary}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {days && (
+          <div className="space-y-3">
+            {days.map(day => {
+              const morning = day.stops.filter(stop => stop.slot === 'morning');
+              const afternoon = day.stops.filter(stop => stop.slot === 'afternoon');
+
+              return (
+                <div
+                  key={day.dayIndex}
+                  onDragOver={(event) => {
+                    event.preventDefault();
+                    setDropTargetDay(day.dayIndex);
+                  }}
+                  onDragLeave={() => setDropTargetDay(current => current === day.dayIndex ? null : current)}
+                  onDrop={() => handleDrop(day.dayIndex)}
+                  className={`rounded-lg border-l-4 border p-3 transition-colors ${dropTargetDay === day.dayIndex ? 'bg-muted' : ''}`}
+                  style={{ borderLeftColor: day.color }}
+                >
+                  <div className="mb-2 flex items-center justify-between">
+                    <h4 className="font-medium">
+                      Day {day.dayIndex + 1}
+                      <span className="ml-2 text-sm font-normal text-muted-foreground">
+                        {format(new Date(`${day.date}T00:00:00`), 'EEE, MMM d')}
+                      </span>
+                    </h4>
+                    <span className="text-xs text-muted-foreground">
+                      {day.stops.length} stop{day.stops.length !== 1 ? 's' : ''}
+                      {day.routeStats && ` • ${day.routeStats.distanceKm}km • ${day.routeStats.durationText}`}
+                    </span>
+                  </div>
+
+                  {day.stops.length === 0 ? (
+                    <p className="py-2 text-center text-xs text-muted-foreground">Drop stops here</p>
+                  ) : (
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      <div className="space-y-1">
+                        <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                          <Sun className="h-3 w-3" />Morning
+                        </p>
+                        {morning.map(stop => renderStop(stop, day))}
+                      </div>
+                      <div className="space-y-1">
+                        <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                          <Sunset className="h-3 w-3" />Afternoon
+                        </p>
+                        {afternoon.map(stop => renderStop(stop, day))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ItineraryPlannerDialog;
@@ -40,8 +40,8 @@ interface MainLayoutProps {
   isIntelligentTourOpen: boolean;
   onIntelligentTourOpenChange: (open: boolean) => void;
   onTourGenerated?: (landmarks: any[], clearTransitRoute?: () => void) => void;
-  onTourReadyForVoice?: (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string }) => void;
-  voiceTourData?: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string } | null;
+  onTourReadyForVoice?: (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string; language?: string }) => void;
+  voiceTourData?: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string; language?: string } | null;
   tourKey?: string;
   onVoiceAgentStateChange?: (isActive: boolean) => void;
   onShowOnboarding?: () => void;
@@ -1,14 +1,14 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
 import { Capacitor } from '@capacitor/core';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
-import { Volume2, Eye, MapPin, Route, Navigation } from 'lucide-react';
+import { Volume2, Eye, MapPin, Route, Navigation, Download, FileDown, CalendarDays, Pencil, Hexagon, Circle, Square, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { useTTSContext } from '@/contexts/TTSContext';
 import { Landmark } from '@/data/landmarks';
 import { TOP_LANDMARKS } from '@/data/topLandmarks';
-import { TOUR_LANDMARKS, TourLandmark } from '@/data/tourLandmarks';
+import { TOUR_LANDMARKS, TourLandmark, setTourLandmarks as replaceTourLandmarks } from '@/data/tourLandmarks';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/AuthProvider';
 import { useProximityAlerts } from '@/hooks/useProximityAlerts';
@@ -21,13 +21,35 @@ import { PhotoData } from '@/hooks/useEnhancedPhotos';
 import { PhotoCarousel } from './photo-carousel';
 import { useLocationTracking } from '@/hooks/useLocationTracking';
 import { getEnhancedLandmarkText } from '@/utils/landmarkPromptUtils';
-import { useOptimalRoute } from '@/hooks/useOptimalRoute';
+import { useOptimalRoute, OptimalRouteResult } from '@/hooks/useOptimalRoute';
 import TravelModeSelector, { TravelMode } from '@/components/TravelModeSelector';
 import TransitRoutePlanner from '@/components/TransitRoutePlanner';
 import { useTransitRoute } from '@/hooks/useTransitRoute';
 import FloatingRouteCard from '@/components/FloatingRouteCard';
 import { usePermissionMonitor } from '@/hooks/usePermissionMonitor';
 import { setPostAuthAction, setPostAuthLandmark } from '@/utils/authActions';
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { useOfflineTourPacks, OfflineTourPack } from '@/hooks/useOfflineTourPacks';
+import OfflinePackManager from '@/components/OfflinePackManager';
+import { useMapTileCache } from '@/hooks/useMapTileCache';
+import { registerMapTileServiceWorker } from '@/utils/mapTileCache';
+import TourFileDialog from '@/components/TourFileDialog';
+import { TourFileData } from '@/utils/tourFileFormats';
+import ItineraryPlannerDialog from '@/components/ItineraryPlannerDialog';
+import RouteScheduleDialog from '@/components/RouteScheduleDialog';
+import { ItineraryDay } from '@/hooks/useTourPlanner';
+import TourEditorDialog from '@/components/TourEditorDialog';
+import { TourEditResult } from '@/hooks/useTourEditor';
+import GeofenceEditorPanel from '@/components/GeofenceEditorPanel';
+import { useGeofences, NewGeofence } from '@/hooks/useGeofences';
+import { GeofenceShape } from '@/types/proximityAlerts';
+import TripHistoryDialog from '@/components/TripHistoryDialog';
+import TripReplayPanel from '@/components/TripReplayPanel';
+import { useTripRecorder, TripRecording, TripInteraction } from '@/hooks/useTripRecorder';
+import { getTripPositionAt } from '@/utils/tripRecorder';
+import { placeWeatherProvider } from '@/utils/weatherProvider';
+import { useWeatherReplanning } from '@/hooks/useWeatherReplanning';
+import { normalizeAccessibilityProfile } from '@/utils/accessibilityProfile';
 
 interface MapProps {
   mapboxToken: string;
@@ -42,6 +64,14 @@ interface MapProps {
 
 const TOUR_LANDMARKS_SOURCE_ID = 'tour-landmarks-source';
 const TOUR_LANDMARKS_LAYER_ID = 'tour-landmarks-layer';
+
+// Today's date at the given HH:mm, used as the start of a scheduled route
+const getRouteStartDate = (time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
 const TOP_LANDMARKS_SOURCE_ID = 'top-landmarks-source';
 const TOP_LANDMARKS_LAYER_ID = 'top-landmarks-layer';
 const BASE_LANDMARKS_SOURCE_ID = 'base-landmarks-source';
@@ -87,6 +117,24 @@ const MapComponent: React.FC<MapProps> = React.memo(({
   const [showTravelModeSelector, setShowTravelModeSelector] = useState(false);
   const [selectedTravelMode, setSelectedTravelMode] = useState<TravelMode | null>(null);
   const [showTransitPlanner, setShowTransitPlanner] = useState(false);
+  const [showPackManager, setShowPackManager] = useState(false);
+  const [showTourFileDialog, setShowTourFileDialog] = useState(false);
+  const [showItineraryPlanner, setShowItineraryPlanner] = useState(false);
+  const [itineraryDays, setItineraryDays] = useState<ItineraryDay[] | null>(null);
+  const [showRouteSchedule, setShowRouteSchedule] = useState(false);
+  const [showTourEditor, setShowTourEditor] = useState(false);
+  const [showGeofencePanel, setShowGeofencePanel] = useState(false);
+  const [geofenceDrawShape, setGeofenceDrawShape] = useState<GeofenceShape | null>(null);
+  const [geofenceDraft, setGeofenceDraft] = useState<[number, number][]>([]);
+  const [showTripHistory, setShowTripHistory] = useState(false);
+  const [replayTrip, setReplayTrip] = useState<TripRecording | null>(null);
+  const [replayInteractions, setReplayInteractions] = useState<TripInteraction[]>([]);
+  const [replayTime, setReplayTime] = useState(0);
+  const [routeStartTime, setRouteStartTime] = useState(() => {
+    const now = new Date();
+    return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  });
+  const [weatherAwareRoute, setWeatherAwareRoute] = useState(false);
   
   const geolocateControl = useRef<mapboxgl.GeolocateControl | null>(null);
   const isUpdatingFromProximitySettings = useRef<boolean>(false);
@@ -94,12 +142,31 @@ const MapComponent: React.FC<MapProps> = React.memo(({
   const lastLocationEventTime = useRef<number>(0);
   const processedPlannedLandmarks = useRef<string[]>([]);
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const accessibilityProfile = useMemo(() => normalizeAccessibilityProfile(profile?.accessibility_profile), [profile?.accessibility_profile]);
+  const isCurator = profile?.role === 'travel_expert';
   const { speak: speakTTS, stop: stopTTS, isPlaying: isTTSPlaying } = useTTSContext();
   const { proximitySettings } = useProximityAlerts();
   const { fetchLandmarkPhotos: fetchPhotosWithHook } = useLandmarkPhotos();
   const { locationState } = useLocationTracking();
   const { permissionState, requestPermission, checkPermission } = usePermissionMonitor();
+  const { isOnline, shouldPreloadContent } = useNetworkStatus();
+  const { getOfflinePhotos, restorePackStreetView } = useOfflineTourPacks();
+  const { prefetchTourArea, touchArea, getArea, isPrefetching: isPrefetchingTiles } = useMapTileCache();
+  const { geofences, createGeofence, deleteGeofence } = useGeofences(tourLandmarks.find(landmark => landmark.tourId)?.tourId);
+  const {
+    isRecording,
+    pointCount,
+    trips,
+    isSaving: isSavingTrip,
+    isLoadingTrips,
+    loadTrips,
+    startRecording,
+    stopRecording,
+    deleteTrip,
+    loadTripInteractions
+  } = useTripRecorder();
+  const tileAreaRequestedTourIds = useRef<Set<string>>(new Set());
   
   // Helper function to handle Navigation button click with authentication check
   const handleNavigationButtonClick = useCallback((landmark: Landmark) => {
@@ -145,8 +212,11 @@ const MapComponent: React.FC<MapProps> = React.memo(({
     routeStats,
     isLocationBasedRoute,
     travelMode: currentTravelMode,
+    schedule: routeSchedule,
     calculateOptimalRoute,
-    clearRoute
+    clearRoute,
+    restoreRoute,
+    updateSchedule
   } = useOptimalRoute();
 
   const {
@@ -333,6 +403,44 @@ const MapComponent: React.FC<MapProps> = React.memo(({
     return () => clearInterval(interval);
   }, [tourLandmarks.length]);
 
+  // Serve cached Mapbox tiles when offline
+  useEffect(() => {
+    registerMapTileServiceWorker();
+  }, []);
+
+  // Cache map tiles around a tour as soon as it is on the map, or mark an already cached area as used
+  useEffect(() => {
+    const tourId = tourLandmarks[0]?.tourId;
+    if (!tourId || !mapboxToken) return;
+
+    if (getArea(tourId)) {
+      if (!tileAreaRequestedTourIds.current.has(tourId)) {
+        tileAreaRequestedTourIds.current.add(tourId);
+        touchArea(tourId);
+      }
+      return;
+    }
+
+    if (tileAreaRequestedTourIds.current.has(tourId) || isPrefetchingTiles || !shouldPreloadContent()) return;
+
+    tileAreaRequestedTourIds.current.add(tourId);
+    prefetchTourArea(tourId, `${tourLandmarks[0].name} +${tourLandmarks.length - 1}`, tourLandmarks, mapboxToken);
+  }, [tourLandmarks, mapboxToken, getArea, touchArea, prefetchTourArea, isPrefetchingTiles, shouldPreloadContent]);
+
+  // Saving an offline pack always (re)caches its map area, labelled with the destination
+  useEffect(() => {
+    const handlePackSaved = (event: Event) => {
+      const { tourId, destination, landmarks } = (event as CustomEvent<{ tourId: string; destination: string; landmarks: TourLandmark[] }>).detail;
+      if (!mapboxToken || !landmarks?.length) return;
+
+      tileAreaRequestedTourIds.current.add(tourId);
+      prefetchTourArea(tourId, destination, landmarks, mapboxToken);
+    };
+
+    window.addEventListener('offline-pack-saved', handlePackSaved);
+    return () => window.removeEventListener('offline-pack-saved', handlePackSaved);
+  }, [mapboxToken, prefetchTourArea]);
+
   const storeMapMarkerInteraction = async (landmark: Landmark, imageUrl?: string) => {
     if (!user) {
       console.log('User not authenticated, skipping interaction storage');
@@ -863,6 +971,13 @@ const MapComponent: React.FC<MapProps> = React.memo(({
 
   // Enhanced photo fetching function that optimally uses place_id with fallbacks
   const fetchLandmarkPhotos = async (landmark: Landmark) => {
+    // Offline: serve photos saved in offline tour packs instead of hitting the network
+    if (!isOnline) {
+      const offlinePhotos = landmark.placeId ? await getOfflinePhotos(landmark.placeId) : [];
+      console.log(`📦 Offline photos for ${landmark.name}: ${offlinePhotos.length}`);
+      return offlinePhotos;
+    }
+
     try {
       console.log(`🖼️ Fetching photos for landmark: ${landmark.name}`, {
         hasPlaceId: !!landmark.placeId,
@@ -1643,6 +1758,14 @@ const MapComponent: React.FC<MapProps> = React.memo(({
     };
   }, [showRouteOnMap, navigateToCoordinates, openStreetViewModal]); // 🔥 REMOVED landmarks dependency
 
+  // Expose the drawn route so the debug window can simulate walking it
+  useEffect(() => {
+    window.currentOptimalRoute = routeGeoJSON;
+    return () => {
+      delete window.currentOptimalRoute;
+    };
+  }, [routeGeoJSON]);
+
   useEffect(() => {
     if (!map.current) return;
 
@@ -1713,6 +1836,366 @@ const MapComponent: React.FC<MapProps> = React.memo(({
     }
   }, [routeGeoJSON]);
 
+  // Multi-day itinerary: one route color per day, with a matching ring around each day's stops
+  useEffect(() => {
+    if (!map.current) return;
+
+    const routesSourceId = 'itinerary-routes-source';
+    const routesLayerId = 'itinerary-routes-layer';
+    const stopsSourceId = 'itinerary-stops-source';
+    const stopsLayerId = 'itinerary-stops-layer';
+
+    [routesLayerId, stopsLayerId].forEach(layerId => {
+      if (map.current!.getLayer(layerId)) map.current!.removeLayer(layerId);
+    });
+    [routesSourceId, stopsSourceId].forEach(sourceId => {
+      if (map.current!.getSource(sourceId)) map.current!.removeSource(sourceId);
+    });
+
+    if (!itineraryDays) return;
+
+    map.current.addSource(routesSourceId, {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features: itineraryDays
+          .filter(day => day.routeGeoJSON)
+          .map(day => ({
+            type: 'Feature' as const,
+            properties: { day: day.dayIndex + 1, color: day.color },
+            geometry: day.routeGeoJSON!
+          }))
+      }
+    });
+
+    map.current.addLayer({
+      id: routesLayerId,
+      type: 'line',
+      source: routesSourceId,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': ['get', 'color'],
+        'line-width': 4,
+        'line-opacity': 0.85
+      }
+    }, ROUTE_MARKERS_LAYER_ID);
+
+    map.current.addSource(stopsSourceId, {
+      type: 'geojson',
+      data: {
+        type: 'FeatureCollection',
+        features: itineraryDays.flatMap(day => day.stops.map(stop => ({
+          type: 'Feature' as const,
+          properties: { day: day.dayIndex + 1, color: day.color },
+          geometry: { type: 'Point' as const, coordinates: stop.landmark.coordinates }
+        })))
+      }
+    });
+
+    map.current.addLayer({
+      id: stopsLayerId,
+      type: 'circle',
+      source: stopsSourceId,
+      paint: {
+        'circle-radius': 14,
+        'circle-color': 'rgba(0, 0, 0, 0)',
+        'circle-stroke-width': 3,
+        'circle-stroke-color': ['get', 'color']
+      }
+    }, TOUR_LANDMARKS_LAYER_ID);
+
+    const bounds = new mapboxgl.LngLatBounds();
+    itineraryDays.forEach(day => {
+      day.routeGeoJSON?.coordinates.forEach(coord => bounds.extend(coord as [number, number]));
+      day.stops.forEach(stop => bounds.extend(stop.landmark.coordinates));
+    });
+    if (!bounds.isEmpty()) {
+      map.current.fitBounds(bounds, { padding: 80, duration: 1500, maxZoom: 15 });
+    }
+
+    console.log('📅 Itinerary visualized on map:', itineraryDays.length, 'days');
+  }, [itineraryDays]);
+
+  // Geofences: filled areas and corridors, plus the outline being drawn
+  useEffect(() => {
+    if (!map.current) return;
+
+    const sourceId = 'geofences-source';
+    const fillLayerId = 'geofences-fill-layer';
+    const lineLayerId = 'geofences-line-layer';
+    const draftSourceId = 'geofence-draft-source';
+    const draftLineLayerId = 'geofence-draft-line-layer';
+    const draftPointsLayerId = 'geofence-draft-points-layer';
+
+    const drawGeofences = () => {
+      if (!map.current) return;
+
+      [fillLayerId, lineLayerId, draftLineLayerId, draftPointsLayerId].forEach(layerId => {
+        if (map.current!.getLayer(layerId)) map.current!.removeLayer(layerId);
+      });
+      [sourceId, draftSourceId].forEach(id => {
+        if (map.current!.getSource(id)) map.current!.removeSource(id);
+      });
+
+      if (geofences.length > 0) {
+        map.current.addSource(sourceId, {
+          type: 'geojson',
+          data: {
+            type: 'FeatureCollection',
+            features: geofences.map(geofence => ({
+              type: 'Feature' as const,
+              properties: { name: geofence.name, shape: geofence.shape },
+              geometry: geofence.shape === 'polygon'
+                ? { type: 'Polygon' as const, coordinates: [[...geofence.coordinates, geofence.coordinates[0]]] }
+                : { type: 'LineString' as const, coordinates: geofence.coordinates }
+            }))
+          }
+        });
+
+        map.current.addLayer({
+          id: fillLayerId,
+          type: 'fill',
+          source: sourceId,
+          filter: ['==', ['get', 'shape'], 'polygon'],
+          paint: {
+            'fill-color': '#8b5cf6',
+            'fill-opacity': 0.12
+          }
+        }, TOUR_LANDMARKS_LAYER_ID);
+
+        map.current.addLayer({
+          id: lineLayerId,
+          type: 'line',
+          source: sourceId,
+          layout: {
+            'line-join': 'round',
+            'line-cap': 'round'
+          },
+          paint: {
+            'line-color': '#8b5cf6',
+            'line-width': ['case', ['==', ['get', 'shape'], 'corridor'], 6, 2],
+            'line-opacity': 0.6
+          }
+        }, TOUR_LANDMARKS_LAYER_ID);
+      }
+
+      if (geofenceDrawShape && geofenceDraft.length > 0) {
+        const outline = geofenceDrawShape === 'polygon' && geofenceDraft.length >= 3
+          ? [...geofenceDraft, geofenceDraft[0]]
+          : geofenceDraft;
+
+        map.current.addSource(draftSourceId, {
+          type: 'geojson',
+          data: {
+            type: 'FeatureCollection',
+            features: [
+              ...(outline.length >= 2 ? [{
+                type: 'Feature' as const,
+                properties: {},
+                geometry: { type: 'LineString' as const, coordinates: outline }
+              }] : []),
+              ...geofenceDraft.map(coordinates => ({
+                type: 'Feature' as const,
+                properties: {},
+                geometry: { type: 'Point' as const, coordinates }
+              }))
+            ]
+          }
+        });
+
+        map.current.addLayer({
+          id: draftLineLayerId,
+          type: 'line',
+          source: draftSourceId,
+          filter: ['==', ['geometry-type'], 'LineString'],
+          paint: {
+            'line-color': '#8b5cf6',
+            'line-width': 2,
+            'line-dasharray': [2, 2]
+          }
+        });
+
+        map.current.addLayer({
+          id: draftPointsLayerId,
+          type: 'circle',
+          source: draftSourceId,
+          filter: ['==', ['geometry-type'], 'Point'],
+          paint: {
+            'circle-radius': 5,
+            'circle-color': '#ffffff',
+            'circle-stroke-width': 2,
+            'circle-stroke-color': '#8b5cf6'
+          }
+        });
+      }
+    };
+
+    // Geofences can load before the tour layers they sit under
+    if (map.current.getLayer(TOUR_LANDMARKS_LAYER_ID)) {
+      drawGeofences();
+      return;
+    }
+
+    map.current.once('load', drawGeofences);
+    return () => {
+      map.current?.off('load', drawGeofences);
+    };
+  }, [geofences, geofenceDrawShape, geofenceDraft]);
+
+  // While drawing a geofence, map taps add vertices
+  useEffect(() => {
+    if (!map.current || !geofenceDrawShape) return;
+
+    const handleDrawClick = (e: mapboxgl.MapMouseEvent) => {
+      setGeofenceDraft(current => [...current, [e.lngLat.lng, e.lngLat.lat]]);
+    };
+
+    const canvas = map.current.getCanvas();
+    canvas.style.cursor = 'crosshair';
+    map.current.on('click', handleDrawClick);
+
+    return () => {
+      canvas.style.cursor = '';
+      map.current?.off('click', handleDrawClick);
+    };
+  }, [geofenceDrawShape]);
+
+  // Trip replay: full trail, the part walked so far, stops, interactions and the moving position
+  useEffect(() => {
+    if (!map.current) return;
+
+    const sourceId = 'trip-replay-source';
+    const trailLayerId = 'trip-replay-trail-layer';
+    const walkedLayerId = 'trip-replay-walked-layer';
+    const stopsLayerId = 'trip-replay-stops-layer';
+    const positionLayerId = 'trip-replay-position-layer';
+    const layerIds = [trailLayerId, walkedLayerId, stopsLayerId, positionLayerId];
+
+    const removeReplayLayers = () => {
+      layerIds.forEach(layerId => {
+        if (map.current!.getLayer(layerId)) map.current!.removeLayer(layerId);
+      });
+      if (map.current!.getSource(sourceId)) map.current!.removeSource(sourceId);
+    };
+
+    if (!replayTrip) {
+      removeReplayLayers();
+      return;
+    }
+
+    const path = replayTrip.path;
+    const current = getTripPositionAt(path, replayTime);
+    if (!current) return;
+
+    const trail = path.map(([lng, lat]) => [lng, lat]);
+    const walked = [...trail.slice(0, current.index + 1), current.position];
+    const stops = [
+      ...replayTrip.visits.map(visit => ({ time: visit.arrivedAt, kind: 'visit', label: visit.name })),
+      ...replayInteractions.map(interaction => ({
+        time: new Date(interaction.createdAt).getTime(),
+        kind: 'interaction',
+        label: interaction.userInput
+      }))
+    ];
+
+    const data = {
+      type: 'FeatureCollection' as const,
+      features: [
+        {
+          type: 'Feature' as const,
+          properties: { role: 'trail' },
+          geometry: { type: 'LineString' as const, coordinates: trail }
+        },
+        {
+          type: 'Feature' as const,
+          properties: { role: 'walked' },
+          geometry: { type: 'LineString' as const, coordinates: walked }
+        },
+        ...stops.map(stop => ({
+          type: 'Feature' as const,
+          properties: { role: 'stop', kind: stop.kind, label: stop.label, reached: stop.time <= replayTime },
+          geometry: { type: 'Point' as const, coordinates: getTripPositionAt(path, stop.time)!.position }
+        })),
+        {
+          type: 'Feature' as const,
+          properties: { role: 'position' },
+          geometry: { type: 'Point' as const, coordinates: current.position }
+        }
+      ]
+    };
+
+    const drawReplay = () => {
+      if (!map.current) return;
+
+      // Scrubbing only moves the data, layers are added once per trip
+      const source = map.current.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data);
+        return;
+      }
+
+      map.current.addSource(sourceId, { type: 'geojson', data });
+
+      map.current.addLayer({
+        id: trailLayerId,
+        type: 'line',
+        source: sourceId,
+        filter: ['==', ['get', 'role'], 'trail'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#94a3b8', 'line-width': 4, 'line-opacity': 0.6 }
+      });
+
+      map.current.addLayer({
+        id: walkedLayerId,
+        type: 'line',
+        source: sourceId,
+        filter: ['==', ['get', 'role'], 'walked'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#ef4444', 'line-width': 4 }
+      });
+
+      map.current.addLayer({
+        id: stopsLayerId,
+        type: 'circle',
+        source: sourceId,
+        filter: ['==', ['get', 'role'], 'stop'],
+        paint: {
+          'circle-radius': ['case', ['==', ['get', 'kind'], 'visit'], 7, 5],
+          'circle-color': ['case', ['==', ['get', 'kind'], 'visit'], '#10b981', '#3b82f6'],
+          'circle-opacity': ['case', ['get', 'reached'], 1, 0.35],
+          'circle-stroke-width': 2,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+
+      map.current.addLayer({
+        id: positionLayerId,
+        type: 'circle',
+        source: sourceId,
+        filter: ['==', ['get', 'role'], 'position'],
+        paint: {
+          'circle-radius': 8,
+          'circle-color': '#ef4444',
+          'circle-stroke-width': 3,
+          'circle-stroke-color': '#ffffff'
+        }
+      });
+    };
+
+    if (map.current.getLayer(TOUR_LANDMARKS_LAYER_ID)) {
+      drawReplay();
+      return;
+    }
+
+    map.current.once('load', drawReplay);
+    return () => {
+      map.current?.off('load', drawReplay);
+    };
+  }, [replayTrip, replayInteractions, replayTime]);
+
   // Transit route visualization effect
   useEffect(() => {
     if (!map.current) return;
@@ -1989,13 +2472,202 @@ const MapComponent: React.FC<MapProps> = React.memo(({
           travelMode: mode
         });
 
-        await calculateOptimalRoute(currentLocation, tourLandmarks, mode);
+        await calculateOptimalRoute(currentLocation, tourLandmarks, mode, {
+          startTime: getRouteStartDate(routeStartTime),
+          weatherProvider: weatherAwareRoute ? placeWeatherProvider : undefined,
+          accessibility: accessibilityProfile
+        });
       } catch (error) {
         console.error('❌ Error in handleOptimalRoute:', error);
         toast.error("Failed to calculate optimal route. Please try again.");
       }
     }
-  }, [tourLandmarks, calculateOptimalRoute, userLocation, checkPermission, requestPermission, clearTransitRoute]);
+  }, [tourLandmarks, calculateOptimalRoute, userLocation, checkPermission, requestPermission, clearTransitRoute, routeStartTime, weatherAwareRoute, accessibilityProfile]);
+
+  const handleRouteStartTimeChange = useCallback((startTime: string) => {
+    setRouteStartTime(startTime);
+    if (startTime && routeSchedule) {
+      updateSchedule(getRouteStartDate(startTime), {});
+    }
+  }, [routeSchedule, updateSchedule]);
+
+  const handleDwellChange = useCallback((placeId: string, minutes: number) => {
+    updateSchedule(getRouteStartDate(routeStartTime), { [placeId]: minutes });
+  }, [routeStartTime, updateSchedule]);
+
+  // Run the optimizer again with the edited dwell times, so it can reorder around the new schedule
+  const handleReoptimizeSchedule = useCallback(async (weatherAware: boolean = weatherAwareRoute) => {
+    if (!currentTravelMode || optimizedLandmarks.length < 2) return;
+    const origin = userLocation || optimizedLandmarks[0].coordinates;
+    await calculateOptimalRoute(origin, optimizedLandmarks, currentTravelMode, {
+      startTime: getRouteStartDate(routeStartTime),
+      weatherProvider: weatherAware ? placeWeatherProvider : undefined,
+      accessibility: accessibilityProfile
+    });
+  }, [currentTravelMode, optimizedLandmarks, userLocation, calculateOptimalRoute, routeStartTime, weatherAwareRoute, accessibilityProfile]);
+
+  const handleWeatherAwareChange = useCallback((weatherAware: boolean) => {
+    setWeatherAwareRoute(weatherAware);
+    handleReoptimizeSchedule(weatherAware);
+  }, [handleReoptimizeSchedule]);
+
+  // Re-plan the stops still ahead when the forecast changes mid-tour
+  const handleForecastChanged = useCallback(async (remainingStops: TourLandmark[]) => {
+    if (!currentTravelMode) return;
+    const origin = userLocation || remainingStops[0].coordinates;
+    const startTime = new Date(Math.max(Date.now(), routeSchedule ? new Date(routeSchedule.startTime).getTime() : 0));
+
+    toast.info('The forecast changed - re-planning the rest of your tour');
+    await calculateOptimalRoute(origin, remainingStops, currentTravelMode, {
+      startTime,
+      weatherProvider: placeWeatherProvider,
+      accessibility: accessibilityProfile
+    });
+  }, [currentTravelMode, userLocation, routeSchedule, calculateOptimalRoute, accessibilityProfile]);
+
+  useWeatherReplanning({
+    schedule: routeSchedule,
+    weatherProvider: weatherAwareRoute ? placeWeatherProvider : null,
+    onForecastChanged: handleForecastChanged
+  });
+
+  // Replace the tour layer with saved or imported landmarks, restoring their route if there is one
+  const showTourOnMap = useCallback((landmarks: TourLandmark[], route: OptimalRouteResult | null) => {
+    clearTransitRoute();
+    replaceTourLandmarks(landmarks);
+    setTourLandmarks([...TOUR_LANDMARKS]);
+
+    if (route?.routeGeoJSON) {
+      restoreRoute(route);
+    } else {
+      clearRoute();
+      if (map.current && landmarks.length > 0) {
+        const bounds = new mapboxgl.LngLatBounds();
+        landmarks.forEach(landmark => bounds.extend(landmark.coordinates));
+        map.current.fitBounds(bounds, { padding: 100, duration: 1500, maxZoom: 15 });
+      }
+    }
+  }, [clearTransitRoute, restoreRoute, clearRoute]);
+
+  // Put an offline pack's landmarks and route back on the map
+  const handleLoadOfflinePack = useCallback((pack: OfflineTourPack) => {
+    console.log('📦 Loading offline pack onto map:', pack.destination);
+    showTourOnMap(pack.tourLandmarks, pack.route);
+    restorePackStreetView(pack);
+  }, [showTourOnMap, restorePackStreetView]);
+
+  const handleStartGeofenceDrawing = useCallback((shape: GeofenceShape) => {
+    setGeofenceDraft([]);
+    setGeofenceDrawShape(shape);
+  }, []);
+
+  const handleCancelGeofenceDrawing = useCallback(() => {
+    setGeofenceDraft([]);
+    setGeofenceDrawShape(null);
+  }, []);
+
+  const handleSaveGeofence = useCallback(async (details: Omit<NewGeofence, 'shape' | 'coordinates'>) => {
+    if (!geofenceDrawShape) return false;
+
+    const created = await createGeofence({
+      ...details,
+      shape: geofenceDrawShape,
+      coordinates: geofenceDraft,
+      tour_id: tourLandmarks.find(landmark => landmark.tourId)?.tourId || null
+    });
+
+    if (!created) {
+      toast.error('Failed to save geofence');
+      return false;
+    }
+
+    toast.success(`Geofence "${created.name}" saved`);
+    handleCancelGeofenceDrawing();
+    return true;
+  }, [geofenceDrawShape, geofenceDraft, tourLandmarks, createGeofence, handleCancelGeofenceDrawing]);
+
+  const handleDeleteGeofence = useCallback(async (geofenceId: string) => {
+    const deleted = await deleteGeofence(geofenceId);
+    if (!deleted) toast.error('Failed to delete geofence');
+  }, [deleteGeofence]);
+
+  const handleToggleTripRecording = useCallback(async () => {
+    if (!isRecording) {
+      await startRecording();
+      toast.success('Recording your trip', {
+        description: 'Your path is saved on this device until you stop recording.'
+      });
+      return;
+    }
+
+    const trip = await stopRecording();
+    if (trip) {
+      toast.success(`Trip saved: ${trip.visits.length} stops, ${(trip.distanceMeters / 1000).toFixed(1)}km`);
+    } else {
+      toast.info('Recording stopped - not enough movement to save a trip');
+    }
+  }, [isRecording, startRecording, stopRecording]);
+
+  const handleOpenTripHistory = useCallback(() => {
+    setShowTripHistory(true);
+    loadTrips();
+  }, [loadTrips]);
+
+  const handleReplayTrip = useCallback(async (trip: TripRecording) => {
+    if (trip.path.length < 2 || !map.current) return;
+
+    console.log('🎞️ Replaying trip:', trip.destination);
+    setShowTripHistory(false);
+    clearRoute();
+    clearTransitRoute();
+    setReplayInteractions([]);
+    setReplayTime(trip.path[0][2]);
+    setReplayTrip(trip);
+
+    const bounds = trip.path.reduce(
+      (bounds, [lng, lat]) => bounds.extend([lng, lat]),
+      new mapboxgl.LngLatBounds([trip.path[0][0], trip.path[0][1]], [trip.path[0][0], trip.path[0][1]])
+    );
+    map.current.fitBounds(bounds, { padding: 80, duration: 1500, maxZoom: 17 });
+
+    setReplayInteractions(await loadTripInteractions(trip));
+  }, [clearRoute, clearTransitRoute, loadTripInteractions]);
+
+  const handleDeleteTrip = useCallback(async (tripId: string) => {
+    const deleted = await deleteTrip(tripId);
+    if (!deleted) {
+      toast.error('Failed to delete trip');
+      return;
+    }
+    if (replayTrip?.id === tripId) setReplayTrip(null);
+  }, [deleteTrip, replayTrip]);
+
+  // Edited landmarks invalidate any route drawn for the old list
+  const handleTourEdited = useCallback((result: TourEditResult) => {
+    console.log('✏️ Showing edited tour on map:', result.destination);
+    showTourOnMap(result.landmarks, null);
+  }, [showTourOnMap]);
+
+  // An imported GPX/KML/GeoJSON file becomes a regular tour layer
+  const handleImportTourFile = useCallback((tour: TourFileData) => {
+    console.log('📥 Loading imported tour onto map:', tour.name);
+    showTourOnMap(tour.landmarks, tour.routeGeoJSON ? {
+      routeGeoJSON: tour.routeGeoJSON,
+      optimizedLandmarks: tour.landmarks,
+      routeStats: tour.routeStats,
+      isLocationBasedRoute: false,
+      travelMode: null
+    } : null);
+  }, [showTourOnMap]);
+
+  const handleItineraryChange = useCallback((days: ItineraryDay[] | null) => {
+    // Day routes replace the single optimal route
+    if (days) {
+      clearRoute();
+      clearTransitRoute();
+    }
+    setItineraryDays(days);
+  }, [clearRoute, clearTransitRoute]);
 
   const handleTravelModeCancel = useCallback(() => {
     setShowTravelModeSelector(false);
@@ -2079,6 +2751,9 @@ const MapComponent: React.FC<MapProps> = React.memo(({
     return "Calculate optimal walking route";
   };
 
+  // Only tours saved in generated_tours can be edited
+  const editableTourId = tourLandmarks.find(landmark => landmark.tourId)?.tourId;
+
   return (
     <>
       <div ref={mapContainer} className="absolute inset-0" />
@@ -2101,6 +2776,122 @@ const MapComponent: React.FC<MapProps> = React.memo(({
         </div>
       )}
 
+      {/* Offline Packs Button - next to the optimal route button */}
+      {user && (
+        <div className="absolute top-[58px] right-[50px] z-10">
+          <button
+            onClick={() => setShowPackManager(true)}
+            className="w-8 h-8 bg-white hover:bg-gray-50 rounded border border-gray-200 shadow-md flex items-center justify-center transition-all duration-200"
+            title={isOnline ? "Offline tour packs" : "Offline tour packs (you're offline)"}
+          >
+            <Download className={`w-4 h-4 ${isOnline ? 'text-gray-700' : 'text-amber-600'}`} />
+          </button>
+        </div>
+      )}
+
+      {/* Export/Import Tour Button */}
+      <div className={`absolute top-[58px] ${user ? 'right-[90px]' : 'right-[50px]'} z-10`}>
+        <button
+          onClick={() => setShowTourFileDialog(true)}
+          className="w-8 h-8 bg-white hover:bg-gray-50 rounded border border-gray-200 shadow-md flex items-center justify-center transition-all duration-200"
+          title="Export or import tour (GPX, KML, GeoJSON)"
+        >
+          <FileDown className="w-4 h-4 text-gray-700" />
+        </button>
+      </div>
+
+      {/* Multi-day Itinerary Button */}
+      {tourLandmarks.length >= 2 && (
+        <div className={`absolute top-[58px] ${user ? 'right-[130px]' : 'right-[90px]'} z-10`}>
+          <button
+            onClick={() => setShowItineraryPlanner(true)}
+            className={`w-8 h-8 ${itineraryDays ? 'bg-blue-50 border-blue-300' : 'bg-white border-gray-200'} hover:bg-gray-50 rounded border shadow-md flex items-center justify-center transition-all duration-200`}
+            title="Plan tour over multiple days"
+          >
+            <CalendarDays className="w-4 h-4 text-gray-700" />
+          </button>
+        </div>
+      )}
+
+      {/* Edit Tour Button - only for generated tours the user can save */}
+      {user && editableTourId && (
+        <div className="absolute top-[58px] right-[170px] z-10">
+          <button
+            onClick={() => setShowTourEditor(true)}
+            className="w-8 h-8 bg-white hover:bg-gray-50 rounded border border-gray-200 shadow-md flex items-center justify-center transition-all duration-200"
+            title="Edit tour landmarks"
+          >
+            <Pencil className="w-4 h-4 text-gray-700" />
+          </button>
+        </div>
+      )}
+
+      {/* Geofence Drawing Button - curators only */}
+      {user && isCurator && (
+        <div className="absolute top-[58px] right-[210px] z-10">
+          <button
+            onClick={() => setShowGeofencePanel(current => !current)}
+            className={`w-8 h-8 ${showGeofencePanel ? 'bg-violet-50 border-violet-300' : 'bg-white border-gray-200'} hover:bg-gray-50 rounded border shadow-md flex items-center justify-center transition-all duration-200`}
+            title="Draw geofences"
+          >
+            <Hexagon className="w-4 h-4 text-gray-700" />
+          </button>
+        </div>
+      )}
+
+      {user && isCurator && showGeofencePanel && (
+        <GeofenceEditorPanel
+          geofences={geofences}
+          currentUserId={user.id}
+          landmarks={tourLandmarks}
+          drawShape={geofenceDrawShape}
+          vertexCount={geofenceDraft.length}
+          onStartDrawing={handleStartGeofenceDrawing}
+          onUndoVertex={() => setGeofenceDraft(current => current.slice(0, -1))}
+          onCancelDrawing={handleCancelGeofenceDrawing}
+          onSave={handleSaveGeofence}
+          onDelete={handleDeleteGeofence}
+          onClose={() => {
+            handleCancelGeofenceDrawing();
+            setShowGeofencePanel(false);
+          }}
+        />
+      )}
+
+      {/* Trip Recording Button - next to the clear route button */}
+      {user && (
+        <div className="absolute top-[100px] right-[50px] z-10">
+          <button
+            onClick={handleToggleTripRecording}
+            disabled={isSavingTrip}
+            className={`h-8 min-w-8 px-2 ${isRecording ? 'bg-red-50 border-red-300' : 'bg-white border-gray-200'} hover:bg-gray-50 disabled:opacity-50 rounded border shadow-md flex items-center justify-center gap-1 transition-all duration-200`}
+            title={isRecording ? 'Stop recording trip' : 'Record trip'}
+          >
+            {isRecording ? (
+              <>
+                <Square className="w-3 h-3 fill-red-500 text-red-500" />
+                <span className="text-[10px] font-medium text-red-600">{pointCount}</span>
+              </>
+            ) : (
+              <Circle className="w-4 h-4 fill-red-500 text-red-500" />
+            )}
+          </button>
+        </div>
+      )}
+
+      {/* Trip History Button */}
+      {user && (
+        <div className="absolute top-[100px] right-[90px] z-10">
+          <button
+            onClick={handleOpenTripHistory}
+            className="w-8 h-8 bg-white hover:bg-gray-50 rounded border border-gray-200 shadow-md flex items-center justify-center transition-all duration-200"
+            title="Recorded trips"
+          >
+            <History className="w-4 h-4 text-gray-700" />
+          </button>
+        </div>
+      )}
+
       {/* Clear Route Button - only show when route exists */}
       {routeGeoJSON && (
         <div className="absolute top-[100px] right-[10px] z-10">
@@ -2121,6 +2912,15 @@ const MapComponent: React.FC<MapProps> = React.memo(({
             <div>📏 {routeStats.distanceKm}km</div>
             <div>⏱️ {routeStats.durationText}</div>
             <div>📍 {routeStats.waypointCount} stops</div>
+            {routeSchedule && (
+              <button
+                onClick={() => setShowRouteSchedule(true)}
+                className={`w-full text-left underline-offset-2 hover:underline ${routeSchedule.errorCount > 0 ? 'text-red-600 font-medium' : 'text-blue-700'}`}
+                title="View schedule"
+              >
+                {routeSchedule.errorCount > 0 ? `⚠️ ${routeSchedule.errorCount} conflict${routeSchedule.errorCount > 1 ? 's' : ''}` : '🕒 Schedule'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -2136,12 +2936,95 @@ const MapComponent: React.FC<MapProps> = React.memo(({
         }}
       />
 
+      <OfflinePackManager
+        open={showPackManager}
+        onOpenChange={setShowPackManager}
+        currentTourId={tourLandmarks[0]?.tourId}
+        currentRoute={routeGeoJSON ? {
+          routeGeoJSON,
+          optimizedLandmarks,
+          routeStats,
+          isLocationBasedRoute,
+          travelMode: currentTravelMode,
+          schedule: routeSchedule
+        } : null}
+        onLoadPack={handleLoadOfflinePack}
+      />
+
+      <TourFileDialog
+        open={showTourFileDialog}
+        onOpenChange={setShowTourFileDialog}
+        tourName={tourLandmarks.length > 0 ? `${tourLandmarks[0].name} tour` : 'Exploraria tour'}
+        landmarks={routeGeoJSON && optimizedLandmarks.length > 0 ? optimizedLandmarks : tourLandmarks}
+        routeGeoJSON={routeGeoJSON}
+        routeStats={routeStats}
+        onImport={handleImportTourFile}
+      />
+
+      {routeSchedule && (
+        <RouteScheduleDialog
+          open={showRouteSchedule}
+          onOpenChange={setShowRouteSchedule}
+          schedule={routeSchedule}
+          startTime={routeStartTime}
+          onStartTimeChange={handleRouteStartTimeChange}
+          onDwellChange={handleDwellChange}
+          onReoptimize={() => handleReoptimizeSchedule()}
+          isOptimizing={isCalculatingRoute}
+          weatherAware={weatherAwareRoute}
+          onWeatherAwareChange={handleWeatherAwareChange}
+        />
+      )}
+
+      <ItineraryPlannerDialog
+        open={showItineraryPlanner}
+        onOpenChange={setShowItineraryPlanner}
+        landmarks={tourLandmarks}
+        onItineraryChange={handleItineraryChange}
+      />
+
+      <TripHistoryDialog
+        open={showTripHistory}
+        onOpenChange={setShowTripHistory}
+        trips={trips}
+        isLoading={isLoadingTrips}
+        onReplay={handleReplayTrip}
+        onDelete={handleDeleteTrip}
+      />
+
+      {replayTrip && (
+        <TripReplayPanel
+          trip={replayTrip}
+          interactions={replayInteractions}
+          currentTime={replayTime}
+          onTimeChange={setReplayTime}
+          onClose={() => {
+            setReplayTrip(null);
+            setReplayInteractions([]);
+          }}
+        />
+      )}
+
+      {editableTourId && (
+        <TourEditorDialog
+          open={showTourEditor}
+          onOpenChange={setShowTourEditor}
+          tourId={editableTourId}
+          landmarks={tourLandmarks}
+          onSaved={handleTourEdited}
+        />
+      )}
+
       {/* Travel Mode Selector Modal */}
       {showTravelModeSelector && (
         <TravelModeSelector
           selectedMode={selectedTravelMode}
           onSelectMode={handleTravelModeSelect}
           onCancel={handleTravelModeCancel}
+          startTime={routeStartTime}
+          onStartTimeChange={setRouteStartTime}
+          weatherAware={weatherAwareRoute}
+          onWeatherAwareChange={setWeatherAwareRoute}
         />
       )}
 
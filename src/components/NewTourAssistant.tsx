@@ -8,17 +8,24 @@ import { useConversation } from '@11labs/react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthProvider';
 import { useContextualPOIPolling } from '@/hooks/useContextualPOIPolling';
+import { useAgentClientTools } from '@/hooks/useAgentClientTools';
+import { usePOIAnnouncer } from '@/hooks/usePOIAnnouncer';
+import { useConversationTranscript } from '@/hooks/useConversationTranscript';
+import ConversationTranscript from './ConversationTranscript';
+import { DEFAULT_TOUR_LANGUAGE, getFirstMessage, getLanguageVoiceId, normalizeTourLanguage } from '@/utils/tourLanguage';
 
 interface NewTourAssistantProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  voiceTourData?: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string } | null;
+  voiceTourData?: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string; language?: string } | null;
   landmarks: Landmark[];
   onSessionStateChange?: (isActive: boolean, state: AssistantState) => void;
 }
 
 type AssistantState = 'not-started' | 'started' | 'listening' | 'recording' | 'playback';
 
+const CONTEXTUAL_POI_RADIUS = 150; // meters
+
 const NewTourAssistant: React.FC<NewTourAssistantProps> = ({ 
   open, 
   onOpenChange, 
@@ -34,6 +41,11 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
   const [connectionError, setConnectionError] = useState<string | null>(null);
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [conversationId, setConversationId] = useState<string>('');
+  const clientTools = useAgentClientTools(landmarks);
+  const { entries: transcriptEntries, start: startTranscript, addEntry: addTranscriptEntry, saveTranscript } = useConversationTranscript();
+
+  // Session details for saving the transcript; the disconnect callback runs after state is cleared
+  const transcriptSessionRef = useRef<{ conversationId: string; destination: string; agentId?: string } | null>(null);
 
   // 🚀 IN-MEMORY STATE: Store destination and system prompt from voiceTourData
   const [destination, setDestination] = useState<string>('');
@@ -65,6 +77,14 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
       setAssistantState('not-started');
       setIsSessionActive(false);
       setConversationId(''); // Clear conversation ID on disconnect
+
+      // Save our own transcript in case the ElevenLabs webhook never arrives
+      const transcriptSession = transcriptSessionRef.current;
+      transcriptSessionRef.current = null;
+      if (transcriptSession) {
+        saveTranscript(transcriptSession);
+      }
+
       onOpenChange(false); // Close dialog when conversation ends
       // toast({
       //   title: "Conversation Ended",
@@ -73,6 +93,7 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
     },
     onMessage: (message) => {
       console.log('Received message:', message.source, message.message);
+      addTranscriptEntry(message.source === 'ai' ? 'agent' : 'user', message.message);
       if (message.source === 'ai') {
         setAssistantState('playback');
       } else if (message.source === 'user') {
@@ -100,48 +121,14 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
     conversationRef.current = conversation;
   }, [conversation]);
 
-  // 🎯 NEW: Contextual POI polling system with direct ElevenLabs WebSocket access
-  const handleContextualUpdate = useCallback((update: any) => {
+  // 🎯 NEW: Contextual POI updates sent with direct ElevenLabs WebSocket access
+  const sendContextualAlert = useCallback((systemAlertMessage: string) => {
     const currentConversation = conversationRef.current;
     if (!currentConversation || currentConversation.status !== 'connected') {
       console.log('⚠️ Skipping contextual update - conversation not connected');
       return;
     }
 
-    // Get the most relevant POI (first one, as backend prioritizes by distance/relevance)
-    const nearestPOI = update.pois[0];
-    if (!nearestPOI) {
-      console.log('⚠️ No POIs in contextual update, skipping');
-      return;
-    }
-
-    // Enhanced POI fact generation for better context
-    const primaryType = nearestPOI.types?.[0] || 'place';
-    let poiFact = '';
-    
-    if (nearestPOI.rating && nearestPOI.userRatingsTotal) {
-      poiFact = `Highly rated at ${nearestPOI.rating}/5 stars by ${nearestPOI.userRatingsTotal} visitors`;
-    } else if (nearestPOI.rating) {
-      poiFact = `Rated ${nearestPOI.rating}/5 stars by visitors`;
-    } else if (nearestPOI.editorialSummary) {
-      poiFact = nearestPOI.editorialSummary.length > 100 
-        ? nearestPOI.editorialSummary.substring(0, 100) + '...'
-        : nearestPOI.editorialSummary;
-    } else {
-      poiFact = `A notable ${primaryType} in the area worth exploring`;
-    }
-    
-    // Format as structured JSON SYSTEM_ALERT per Gemini's improved specification
-    const systemAlertMessage = `SYSTEM_ALERT: {"poi_name": "${nearestPOI.name}", "poi_type": "${primaryType}", "poi_fact": "${poiFact}", "poi_id": "${nearestPOI.place_id || nearestPOI.placeId || 'unknown'}"}`;
-
-    console.log('📡 Sending SYSTEM_ALERT to ElevenLabs agent:', {
-      poiName: nearestPOI.name,
-      primaryType,
-      distance: nearestPOI.distance,
-      reason: update.updateReason,
-      isInitialLocation: update.updateReason === 'initial_location'
-    });
-
     // Send contextual update using direct WebSocket access as suggested
     try {
       // Type cast to access websocket property (may not be exposed in types)
@@ -168,12 +155,19 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
     }
   }, []);
 
+  // Ranks each update's places and paces announcements around the guide's speech
+  const { handleUpdate: handleContextualUpdate, reset: resetPOIAnnouncements } = usePOIAnnouncer({
+    isSpeaking: conversation.isSpeaking,
+    radius: CONTEXTUAL_POI_RADIUS,
+    sendAlert: sendContextualAlert
+  });
+
   // 🎯 RE-ENABLED: Contextual POI polling for location-aware conversations
   const { isPolling, lastUpdate, error: poiError } = useContextualPOIPolling({
     enabled: isSessionActive && conversation?.status === 'connected' && !!conversationId,
     pollInterval: 30000, // 30 seconds
-    radius: 150, // 150 meters  
-    maxResults: 3,
+    radius: CONTEXTUAL_POI_RADIUS,
+    maxResults: 10, // enough candidates for scoring to choose from
     onUpdate: handleContextualUpdate,
     conversationId
   });
@@ -296,18 +290,40 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
       
       const dynamicVariables = prepareDynamicVariables();
       
+      // Agents are configured in English. Other languages switch the session's speech recognition and
+      // voice; experience agents keep their curator's voice and greeting.
+      // Requires language, first message and voice overrides to be enabled in each agent's security settings.
+      const language = normalizeTourLanguage(voiceTourData?.language);
+      const overrides = language === DEFAULT_TOUR_LANGUAGE ? undefined : {
+        agent: {
+          language,
+          ...(!voiceTourData?.agentId && { firstMessage: getFirstMessage(language) })
+        },
+        ...(!voiceTourData?.agentId && { tts: { voiceId: getLanguageVoiceId(language) } })
+      };
+      console.log('🌐 Tour language:', language, { hasOverrides: !!overrides });
+      
       console.log('Requesting microphone permission...');
       await navigator.mediaDevices.getUserMedia({ audio: true });
       console.log('Microphone permission granted');
       
       console.log('Starting session with dynamic variables...');
+      startTranscript();
+      resetPOIAnnouncements();
       const sessionConversationId = await conversation.startSession({ 
         agentId: effectiveAgentId,
-        dynamicVariables: dynamicVariables
+        dynamicVariables: dynamicVariables,
+        overrides,
+        clientTools
       });
       
       console.log('ElevenLabs session started successfully:', sessionConversationId);
       setConversationId(sessionConversationId);
+      transcriptSessionRef.current = {
+        conversationId: sessionConversationId,
+        destination,
+        agentId: effectiveAgentId
+      };
       
     } catch (error) {
       console.error('Error starting tour:', error);
@@ -331,6 +347,15 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
     }
   };
 
+  // Typed messages for places where speaking aloud isn't possible
+  const handleSendText = (text: string) => {
+    if (conversation.status !== 'connected') return;
+
+    console.log('⌨️ Sending typed message to tour guide');
+    conversation.sendUserMessage(text);
+    addTranscriptEntry('user', text, true);
+  };
+
   // Simplified dialog close handler - just closes the dialog, session continues
   const handleDialogClose = () => {
     console.log('Dialog closing - session remains active:', isSessionActive);
@@ -462,7 +487,7 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
 
   return (
     <CleanDialog open={open} onOpenChange={handleDialogClose}>
-      <CleanDialogContent className="sm:max-w-xs p-8 bg-transparent border-none shadow-none">
+      <CleanDialogContent className="sm:max-w-sm p-8 bg-transparent border-none shadow-none">
         <CleanDialogTitle className="sr-only">Tour Guide Assistant</CleanDialogTitle>
         <div className="flex items-center justify-center">
           <div className="relative flex items-center justify-center">
@@ -499,6 +524,17 @@ const NewTourAssistant: React.FC<NewTourAssistantProps> = ({
             )}
           </div>
         </div>
+
+        {(isSessionActive || transcriptEntries.length > 0) && (
+          <div className="mt-6">
+            <ConversationTranscript
+              entries={transcriptEntries}
+              landmarks={landmarks}
+              canSend={isSessionActive && conversation.status === 'connected'}
+              onSendText={handleSendText}
+            />
+          </div>
+        )}
       </CleanDialogContent>
     </CleanDialog>
   );
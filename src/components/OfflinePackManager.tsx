@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, Trash2, RefreshCw, MapPin, Image, Route, Loader2, WifiOff, Map as MapIcon } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { useOfflineTourPacks, formatPackSize, OfflineTourPack } from '@/hooks/useOfflineTourPacks';
+import { OptimalRouteResult } from '@/hooks/useOptimalRoute';
+import { useMapTileCache } from '@/hooks/useMapTileCache';
+
+interface OfflinePackManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentTourId?: string;
+  currentRoute?: OptimalRouteResult | null;
+  onLoadPack: (pack: OfflineTourPack) => void;
+}
+
+const OfflinePackManager: React.FC<OfflinePackManagerProps> = ({
+  open,
+  onOpenChange,
+  currentTourId,
+  currentRoute,
+  onLoadPack
+}) => {
+  const { toast } = useToast();
+  const { isOnline } = useNetworkStatus();
+  const {
+    packs,
+    isSupported,
+    isReady,
+    downloadProgress,
+    isDownloading,
+    downloadPack,
+    getPack,
+    deletePack
+  } = useOfflineTourPacks();
+  const {
+    areas: tileAreas,
+    totalBytes: tileBytes,
+    quotaBytes: tileQuotaBytes,
+    isSupported: tilesSupported,
+    prefetchProgress: tileProgress,
+    getArea: getTileArea,
+    deleteArea: deleteTileArea
+  } = useMapTileCache();
+  const [deletingTourId, setDeletingTourId] = useState<string | null>(null);
+
+  const totalSize = packs.reduce((total, pack) => total + pack.sizeBytes, 0);
+  const currentTourSaved = !!currentTourId && packs.some(pack => pack.tourId === currentTourId);
+  // Tours whose map tiles were cached automatically but never saved as a pack
+  const tileOnlyAreas = tileAreas.filter(area => !packs.some(pack => pack.tourId === area.tourId));
+
+  const handleDownload = async (tourId: string, route: OptimalRouteResult | null) => {
+    try {
+      const pack = await downloadPack(tourId, route);
+      if (pack) {
+        toast({
+          title: "Tour saved for offline use",
+          description: `${pack.destination} • ${pack.tourLandmarks.length} landmarks • ${formatPackSize(pack.sizeBytes)}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not save this tour for offline use.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleResync = async (tourId: string) => {
+    // Keep the stored route unless this is the tour currently on the map
+    const existing = await getPack(tourId);
+    const route = tourId === currentTourId && currentRoute?.routeGeoJSON ? currentRoute : existing?.route || null;
+    await handleDownload(tourId, route);
+  };
+
+  const handleLoad = async (tourId: string) => {
+    const pack = await getPack(tourId);
+    if (!pack) {
+      toast({
+        title: "Pack not found",
+        description: "This offline pack has expired. Download it again when you're online.",
+        variant: "destructive"
+      });
+      return;
+    }
+    onLoadPack(pack);
+    onOpenChange(false);
+  };
+
+  const handleDelete = async (tourId: string) => {
+    setDeletingTourId(tourId);
+    try {
+      await deletePack(tourId);
+      await deleteTileArea(tourId);
+    } finally {
+      setDeletingTourId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5 text-primary" />
+            Offline Tour Packs
+          </DialogTitle>
+          <DialogDescription>
+            Save tours with photos, Street View, route and map tiles so they work without a data connection.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isSupported ? (
+          <p className="text-sm text-muted-foreground">Offline storage is not supported in this browser.</p>
+        ) : (
+          <div className="space-y-4">
+            {!isOnline && (
+              <div className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <WifiOff className="h-4 w-4 flex-shrink-0" />
+                You're offline. Saved packs can be loaded, new packs can't be downloaded.
+              </div>
+            )}
+
+            {currentTourId && (
+              <Button
+                className="w-full"
+                onClick={() => handleDownload(currentTourId, currentRoute?.routeGeoJSON ? currentRoute : null)}
+                disabled={!isOnline || !isReady || isDownloading}
+              >
+                {isDownloading && downloadProgress?.tourId === currentTourId ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                {currentTourSaved ? 'Update current tour pack' : 'Save current tour for offline'}
+              </Button>
+            )}
+
+            {downloadProgress && (
+              <div className="space-y-1">
+                <Progress value={downloadProgress.percentage} />
+                <p className="text-xs text-muted-foreground">{downloadProgress.step}</p>
+              </div>
+            )}
+
+            {tileProgress && (
+              <div className="space-y-1">
+                <Progress value={tileProgress.total ? (tileProgress.done / tileProgress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Caching map tiles... {tileProgress.done}/{tileProgress.total || '?'}
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{packs.length} saved pack{packs.length !== 1 ? 's' : ''}</span>
+              <span>{formatPackSize(totalSize)} used</span>
+            </div>
+
+            {tilesSupported && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1"><MapIcon className="h-3 w-3" />Offline map tiles</span>
+                <span>{formatPackSize(tileBytes)} of {formatPackSize(tileQuotaBytes)}</span>
+              </div>
+            )}
+
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {packs.length === 0 && (
+                <p className="py-6 text-center text-sm text-muted-foreground">No offline packs yet.</p>
+              )}
+
+              {packs.map(pack => (
+                <div key={pack.tourId} className="rounded-lg border p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h4 className="truncate font-medium">{pack.destination}</h4>
+                        {pack.tourId === currentTourId && <Badge variant="secondary">On map</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Synced {formatDistanceToNow(new Date(pack.savedAt), { addSuffix: true })} • {formatPackSize(pack.sizeBytes)}
+                      </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => handleResync(pack.tourId)}
+                        disabled={!isOnline || isDownloading}
+                        title="Re-sync pack"
+                      >
+                        <RefreshCw className={`h-4 w-4 ${downloadProgress?.tourId === pack.tourId ? 'animate-spin' : ''}`} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(pack.tourId)}
+                        disabled={deletingTourId === pack.tourId}
+                        title="Delete pack"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="mt-2 flex items-center justify-between">
+                    <div className="flex gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{pack.landmarkCount}</span>
+                      <span className="flex items-center gap-1"><Image className="h-3 w-3" />{pack.photoCount}</span>
+                      {pack.hasRoute && <span className="flex items-center gap-1"><Route className="h-3 w-3" />Route</span>}
+                      {getTileArea(pack.tourId) && (
+                        <span className="flex items-center gap-1" title={formatPackSize(getTileArea(pack.tourId)!.bytes)}>
+                          <MapIcon className="h-3 w-3" />{getTileArea(pack.tourId)!.tileCount} tiles
+                        </span>
+                      )}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleLoad(pack.tourId)}>
+                      Load on map
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              {tileOnlyAreas.map(area => (
+                <div key={area.tourId} className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="truncate text-sm font-medium">{area.label}</h4>
+                      {area.tourId === currentTourId && <Badge variant="secondary">On map</Badge>}
+                    </div>
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <MapIcon className="h-3 w-3" />
+                      {area.tileCount} tiles • {formatPackSize(area.bytes)} • Used {formatDistanceToNow(new Date(area.lastAccess), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 flex-shrink-0 p-0 text-destructive hover:text-destructive"
+                    onClick={() => deleteTileArea(area.tourId)}
+                    title="Delete cached map tiles"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OfflinePackManager;
@@ -22,15 +22,41 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/components/AuthProvider';
 import { toast } from 'sonner';
+import { EXPERIENCE_LANGUAGES } from '@/utils/experienceCatalog';
+import { normalizeTourLanguage } from '@/utils/tourLanguage';
+import { AccessibilityProfile, WALKING_DISTANCE_OPTIONS, normalizeAccessibilityProfile } from '@/utils/accessibilityProfile';
 
 const personalInfoSchema = z.object({
   full_name: z.string().min(1, 'Full name is required').max(100, 'Full name is too long'),
   bio: z.string().max(500, 'Bio is too long').optional(),
   avatar_url: z.string().url('Please enter a valid URL').optional().or(z.literal('')),
+  preferred_language: z.string(),
+  wheelchair: z.boolean(),
+  step_free_only: z.boolean(),
+  max_walking_meters: z.string(), // 'none' or meters, as Select values are strings
+  needs_rest_stops: z.boolean(),
 });
 
+const ACCESSIBILITY_SWITCHES: Array<{ name: 'wheelchair' | 'step_free_only' | 'needs_rest_stops'; label: string }> = [
+  { name: 'wheelchair', label: 'I use a wheelchair' },
+  { name: 'step_free_only', label: 'Step-free entrances only' },
+  { name: 'needs_rest_stops', label: 'I need rest stops on longer walks' },
+];
+
+const getAccessibilityDefaults = (value: Parameters<typeof normalizeAccessibilityProfile>[0]) => {
+  const accessibility = normalizeAccessibilityProfile(value);
+  return {
+    wheelchair: accessibility.wheelchair,
+    step_free_only: accessibility.step_free_only,
+    max_walking_meters: accessibility.max_walking_meters ? String(accessibility.max_walking_meters) : 'none',
+    needs_rest_stops: accessibility.needs_rest_stops,
+  };
+};
+
 type PersonalInfoFormData = z.infer<typeof personalInfoSchema>;
 
 interface PersonalInfoDialogProps {
@@ -50,6 +76,8 @@ export const PersonalInfoDialog: React.FC<PersonalInfoDialogProps> = ({
       full_name: profile?.full_name || '',
       bio: profile?.bio || '',
       avatar_url: profile?.avatar_url || '',
+      preferred_language: normalizeTourLanguage(profile?.preferred_language),
+      ...getAccessibilityDefaults(profile?.accessibility_profile),
     },
   });
 
@@ -60,16 +88,27 @@ export const PersonalInfoDialog: React.FC<PersonalInfoDialogProps> = ({
         full_name: profile.full_name || '',
         bio: profile.bio || '',
         avatar_url: profile.avatar_url || '',
+        preferred_language: normalizeTourLanguage(profile.preferred_language),
+        ...getAccessibilityDefaults(profile.accessibility_profile),
       });
     }
   }, [open, profile, form]);
 
   const onSubmit = async (data: PersonalInfoFormData) => {
     try {
+      const accessibilityProfile: AccessibilityProfile = {
+        wheelchair: data.wheelchair,
+        step_free_only: data.step_free_only,
+        max_walking_meters: data.max_walking_meters === 'none' ? null : Number(data.max_walking_meters),
+        needs_rest_stops: data.needs_rest_stops,
+      };
+
       await updateProfile({
         full_name: data.full_name,
         bio: data.bio || null,
         avatar_url: data.avatar_url || null,
+        preferred_language: data.preferred_language,
+        accessibility_profile: { ...accessibilityProfile },
       });
       
       toast.success('Profile updated successfully!');
@@ -82,7 +121,7 @@ export const PersonalInfoDialog: React.FC<PersonalInfoDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Personal Information</DialogTitle>
           <DialogDescription>
@@ -160,6 +199,82 @@ export const PersonalInfoDialog: React.FC<PersonalInfoDialogProps> = ({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="preferred_language"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tour Language</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EXPERIENCE_LANGUAGES.map(language => (
+                        <SelectItem key={language.code} value={language.code}>{language.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Your voice guide and new tours will use this language. Experiences are narrated in their curator's language.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-3 rounded-lg border p-3">
+              <div>
+                <FormLabel>Accessibility</FormLabel>
+                <FormDescription>
+                  New tours and routes skip or flag stops and walks that don't suit you.
+                </FormDescription>
+              </div>
+
+              {ACCESSIBILITY_SWITCHES.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-3 space-y-0">
+                      <FormLabel className="font-normal">{label}</FormLabel>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+
+              <FormField
+                control={form.control}
+                name="max_walking_meters"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-3 space-y-0">
+                    <FormLabel className="font-normal">Longest walk between stops</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No limit</SelectItem>
+                        {WALKING_DISTANCE_OPTIONS.map(meters => (
+                          <SelectItem key={meters} value={String(meters)}>
+                            {meters >= 1000 ? `${meters / 1000} km` : `${meters} m`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <DialogFooter>
               <Button 
                 type="button" 
@@ -0,0 +1,183 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Clock, AlertTriangle, Loader2, RefreshCw, Hourglass, CloudRain, Umbrella } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { RouteSchedule } from '@/utils/routeSchedule';
+import { findDryWindows, getLandmarkSetting } from '@/utils/weatherPlanner';
+
+interface RouteScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schedule: RouteSchedule;
+  startTime: string; // HH:mm
+  onStartTimeChange: (startTime: string) => void;
+  onDwellChange: (placeId: string, minutes: number) => void;
+  onReoptimize: () => void;
+  isOptimizing: boolean;
+  weatherAware: boolean;
+  onWeatherAwareChange: (weatherAware: boolean) => void;
+}
+
+const DWELL_OPTIONS = [15, 30, 45, 60, 90, 120, 180];
+
+const formatTime = (iso: string) => format(new Date(iso), 'HH:mm');
+
+const RouteScheduleDialog: React.FC<RouteScheduleDialogProps> = ({
+  open,
+  onOpenChange,
+  schedule,
+  startTime,
+  onStartTimeChange,
+  onDwellChange,
+  onReoptimize,
+  isOptimizing,
+  weatherAware,
+  onWeatherAwareChange
+}) => {
+  const weather = schedule.weather;
+  const dryWindows = weather ? findDryWindows(weather.forecast) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-primary" />
+            Tour Schedule
+          </DialogTitle>
+          <DialogDescription>
+            Arrival and departure for each stop, checked against opening hours.
+            {schedule.reordered && ' Stops were reordered to fit opening hours.'}
+            {weather?.movedToDryHours && ' Outdoor stops were moved into dry hours.'}
+            {schedule.crowds?.movedToQuietHours && ' Stops were moved to their usually quieter hours (estimated).'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+          <div className="min-w-0">
+            <Label htmlFor="route-weather-aware" className="flex items-center gap-2">
+              <CloudRain className="h-4 w-4 text-primary" />
+              Plan around the weather
+            </Label>
+            {weather && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                {dryWindows.length === 0
+                  ? 'Rain is likely all day.'
+                  : `Dry ${dryWindows.slice(0, 3).map(window => `${formatTime(window.start)}–${formatTime(window.end)}`).join(', ')}`}
+                {' '}• checked {formatTime(weather.checkedAt)}
+              </p>
+            )}
+          </div>
+          <Switch
+            id="route-weather-aware"
+            checked={weatherAware}
+            onCheckedChange={onWeatherAwareChange}
+            disabled={isOptimizing}
+          />
+        </div>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="route-start-time">Start at</Label>
+            <Input
+              id="route-start-time"
+              type="time"
+              value={startTime}
+              onChange={(event) => onStartTimeChange(event.target.value)}
+              className="w-32"
+            />
+          </div>
+          <div className="flex-1 text-right text-sm text-muted-foreground">
+            Ends {formatTime(schedule.endTime)}
+            {schedule.errorCount > 0 && (
+              <span className="ml-2 font-medium text-destructive">
+                {schedule.errorCount} conflict{schedule.errorCount > 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <ol className="space-y-2">
+          {schedule.stops.map((stop, index) => {
+            const hasError = stop.violations.some(violation => violation.severity === 'error');
+            const indoorSwap = weather?.indoorSwaps.find(swap => swap.placeId === stop.landmark.placeId);
+
+            return (
+              <li
+                key={stop.landmark.placeId}
+                className={`rounded-lg border p-3 ${hasError ? 'border-destructive/50 bg-destructive/5' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">
+                      {index + 1}. {stop.landmark.name}
+                      {weather && getLandmarkSetting(stop.landmark.types) === 'outdoor' && (
+                        <span className="ml-1 text-xs font-normal text-muted-foreground">(outdoor)</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {stop.travelMinutes} min travel • arrive {formatTime(stop.eta)}
+                      {stop.waitMinutes > 0 && ` • wait ${stop.waitMinutes} min`}
+                      {' '}• leave {formatTime(stop.departure)}
+                    </p>
+                  </div>
+                  <Select
+                    value={String(stop.dwellMinutes)}
+                    onValueChange={(value) => onDwellChange(stop.landmark.placeId, Number(value))}
+                  >
+                    <SelectTrigger className="h-8 w-24 flex-shrink-0 text-xs" title="Time at this stop">
+                      <Hourglass className="mr-1 h-3 w-3" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...DWELL_OPTIONS, stop.dwellMinutes])).sort((a, b) => a - b).map(minutes => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {stop.violations.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {stop.violations.map(violation => (
+                      <Badge
+                        key={violation.type}
+                        variant={violation.severity === 'error' ? 'destructive' : 'outline'}
+                        className="gap-1 text-[10px]"
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        {violation.message}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {indoorSwap && (
+                  <p className="mt-2 flex items-start gap-1 text-xs text-muted-foreground">
+                    <Umbrella className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                    <span>
+                      Indoor instead: {indoorSwap.alternatives.map(alternative => `${alternative.name} (${alternative.distance} m)`).join(', ')}
+                    </span>
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        <Button onClick={onReoptimize} disabled={isOptimizing} className="w-full">
+          {isOptimizing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Re-optimize with these times
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RouteScheduleDialog;
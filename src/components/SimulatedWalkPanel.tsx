@@ -0,0 +1,123 @@
+import React, { useRef } from 'react';
+import { Footprints, Play, Pause, Square, Route, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSimulatedWalk } from '@/hooks/useSimulatedWalk';
+
+// Walking pace first, faster speeds fast-forward through cooldowns
+const SPEED_OPTIONS = [3, 5, 8, 15, 30, 60];
+
+const formatMeters = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(2)}km` : `${Math.round(meters)}m`;
+
+const SimulatedWalkPanel: React.FC = () => {
+  const { walk, loadCurrentRoute, loadTrackFile, play, pause, seek, setSpeed, stop } = useSimulatedWalk();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUseRoute = () => {
+    if (!loadCurrentRoute()) {
+      toast.error('No route on the map', {
+        description: 'Calculate an optimal route first, or load a GPX track.'
+      });
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      await loadTrackFile(file);
+    } catch (error) {
+      toast.error('Could not load track', {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+
+  const remainingMinutes = walk
+    ? Math.round((walk.totalDistance - walk.progress) / (walk.speedKmh / 3.6) / 60)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-2">
+            <Footprints className="h-4 w-4" />
+            Simulated GPS Walk
+          </span>
+          <Badge variant={walk ? 'default' : 'secondary'} className="text-xs">
+            {walk ? (walk.isPlaying ? 'Walking' : 'Paused') : 'Device GPS'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-xs">
+        <div className="grid grid-cols-2 gap-2">
+          <Button size="sm" variant="outline" onClick={handleUseRoute}>
+            <Route className="mr-1 h-3 w-3" />Current route
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-1 h-3 w-3" />GPX track
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,.kml,.geojson,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+        </div>
+
+        {walk ? (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Track:</span>
+              <span className="truncate pl-2 font-medium">{walk.name}</span>
+            </div>
+
+            <Slider
+              min={0}
+              max={walk.totalDistance}
+              step={1}
+              value={[walk.progress]}
+              onValueChange={([value]) => seek(value)}
+            />
+            <div className="flex justify-between font-mono text-muted-foreground">
+              <span>{formatMeters(walk.progress)} / {formatMeters(walk.totalDistance)}</span>
+              <span>~{remainingMinutes} min left</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={walk.isPlaying ? pause : play}>
+                {walk.isPlaying ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+              </Button>
+              <Select value={String(walk.speedKmh)} onValueChange={(value) => setSpeed(Number(value))}>
+                <SelectTrigger className="h-8 flex-1 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SPEED_OPTIONS.map(speed => (
+                    <SelectItem key={speed} value={String(speed)}>{speed} km/h</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="destructive" onClick={stop} title="Stop and use device GPS">
+                <Square className="h-3 w-3" />
+              </Button>
+            </div>
+          </>
+        ) : (
+          <p className="text-muted-foreground">
+            Load a route or GPX track to replace device GPS with a synthetic walk. Proximity alerts, Street View preloading and nearby POIs react as if you were there.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SimulatedWalkPanel;
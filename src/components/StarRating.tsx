@@ -0,0 +1,31 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void; // makes the stars clickable
+  className?: string;
+  starClassName?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, className, starClassName = 'h-4 w-4' }) => (
+  <div className={cn('flex items-center gap-0.5', className)}>
+    {[1, 2, 3, 4, 5].map(star => {
+      const filled = value >= star - 0.25;
+      const icon = (
+        <Star className={cn(starClassName, filled ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground/40')} />
+      );
+
+      return onChange ? (
+        <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} star${star === 1 ? '' : 's'}`}>
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
+
+export default StarRating;
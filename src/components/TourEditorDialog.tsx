@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Pencil, GripVertical, Trash2, Loader2, Star, ChevronUp, ChevronDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import ProximityAutocomplete from '@/components/ProximityAutocomplete';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { useTourEditor, TourEditResult } from '@/hooks/useTourEditor';
+import { calculateCentroid } from '@/utils/proximityUtils';
+
+interface TourEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tourId: string;
+  landmarks: TourLandmark[];
+  onSaved: (result: TourEditResult) => void;
+}
+
+const ADDABLE_PLACE_TYPES = ['tourist_attraction', 'museum', 'park', 'church', 'art_gallery'];
+const SEARCH_RADIUS_METERS = 10000;
+
+const TourEditorDialog: React.FC<TourEditorDialogProps> = ({
+  open,
+  onOpenChange,
+  tourId,
+  landmarks,
+  onSaved
+}) => {
+  const { fetchPlaceAsLandmark, saveTourEdits, isSaving, isFetchingPlace } = useTourEditor();
+  const [draft, setDraft] = useState<TourLandmark[]>([]);
+  const [searchValue, setSearchValue] = useState('');
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  // Start every edit session from the tour currently on the map
+  const [wasOpen, setWasOpen] = useState(false);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) {
+      setDraft(landmarks);
+      setSearchValue('');
+    }
+  }
+
+  const center = landmarks.length > 0 ? calculateCentroid(landmarks) : null;
+  const hasChanges = draft.map(landmark => landmark.placeId).join('|') !== landmarks.map(landmark => landmark.placeId).join('|');
+
+  const handleRemove = (placeId: string) => {
+    setDraft(current => current.filter(landmark => landmark.placeId !== placeId));
+  };
+
+  const moveLandmark = (fromIndex: number, toIndex: number) => {
+    setDraft(current => {
+      if (toIndex < 0 || toIndex >= current.length) return current;
+      const next = current.slice();
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(toIndex, 0, moved);
+      return next;
+    });
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedIndex !== null && draggedIndex !== targetIndex) {
+      moveLandmark(draggedIndex, targetIndex);
+    }
+    setDraggedIndex(null);
+  };
+
+  const handleAddPlace = async (suggestion: { place_id: string; description: string }) => {
+    setSearchValue('');
+
+    if (draft.some(landmark => landmark.placeId === suggestion.place_id)) {
+      toast.info(`${suggestion.description} is already in this tour`);
+      return;
+    }
+
+    const landmark = await fetchPlaceAsLandmark(suggestion.place_id, tourId);
+    if (!landmark) {
+      toast.error("Couldn't load that place, try another one");
+      return;
+    }
+
+    setDraft(current => [...current, landmark]);
+  };
+
+  const handleSave = async () => {
+    const result = await saveTourEdits(tourId, draft);
+    if (!result) {
+      toast.error('Failed to save tour changes');
+      return;
+    }
+
+    toast.success(`Tour updated with ${result.landmarks.length} landmarks`);
+    onSaved(result);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5 text-primary" />
+            Edit Tour
+          </DialogTitle>
+          <DialogDescription>
+            Remove stops, add places and drag or use the arrows to reorder. Your guide will know the updated list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <ProximityAutocomplete
+            placeholder="Add a place to the tour..."
+            value={searchValue}
+            onChange={setSearchValue}
+            onSuggestionSelect={handleAddPlace}
+            serviceTypes={ADDABLE_PLACE_TYPES}
+            locationBias={center ? {
+              circle: {
+                center: { latitude: center[1], longitude: center[0] },
+                radius: SEARCH_RADIUS_METERS
+              }
+            } : undefined}
+          />
+          {isFetchingPlace && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />Adding place...
+            </p>
+          )}
+        </div>
+
+        <ol className="space-y-1">
+          {draft.map((landmark, index) => (
+            <li
+              key={landmark.placeId}
+              draggable={!isSaving}
+              onDragStart={() => setDraggedIndex(index)}
+              onDragEnd={() => setDraggedIndex(null)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              className={`flex cursor-grab items-center gap-2 rounded border bg-background px-2 py-1.5 text-sm ${
+                draggedIndex === index ? 'opacity-50' : ''
+              }`}
+            >
+              <GripVertical className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+              <span className="w-5 flex-shrink-0 text-xs text-muted-foreground">{index + 1}.</span>
+              <span className="truncate">{landmark.name}</span>
+              {!!landmark.rating && (
+                <span className="flex flex-shrink-0 items-center gap-0.5 text-xs text-muted-foreground">
+                  <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />{landmark.rating}
+                </span>
+              )}
+              {/* HTML5 drag and drop doesn't work on touch screens, the arrows do */}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-7 w-7 flex-shrink-0"
+                onClick={() => moveLandmark(index, index - 1)}
+                disabled={isSaving || index === 0}
+                title="Move up"
+              >
+                <ChevronUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 flex-shrink-0"
+                onClick={() => moveLandmark(index, index + 1)}
+                disabled={isSaving || index === draft.length - 1}
+                title="Move down"
+              >
+                <ChevronDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 flex-shrink-0"
+                onClick={() => handleRemove(landmark.placeId)}
+                disabled={isSaving || draft.length <= 1}
+                title="Remove from tour"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={handleSave} disabled={isSaving || !hasChanges || draft.length === 0}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save changes
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TourEditorDialog;
@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { FileDown, FileUp, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { OptimalRouteResult } from '@/hooks/useOptimalRoute';
+import { downloadTourFile, parseTourFile, TourFileData, TourFileFormat } from '@/utils/tourFileFormats';
+
+interface TourFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tourName: string;
+  landmarks: TourLandmark[];
+  routeGeoJSON: GeoJSON.LineString | null;
+  routeStats: OptimalRouteResult['routeStats'];
+  onImport: (tour: TourFileData) => void;
+}
+
+const EXPORT_FORMATS: Array<{ format: TourFileFormat; label: string; hint: string }> = [
+  { format: 'gpx', label: 'GPX', hint: 'GPS watches & hiking apps' },
+  { format: 'kml', label: 'KML', hint: 'Google Earth & My Maps' },
+  { format: 'geojson', label: 'GeoJSON', hint: 'QGIS & other GIS tools' }
+];
+
+const TourFileDialog: React.FC<TourFileDialogProps> = ({
+  open,
+  onOpenChange,
+  tourName,
+  landmarks,
+  routeGeoJSON,
+  routeStats,
+  onImport
+}) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = (format: TourFileFormat) => {
+    downloadTourFile({ name: tourName, landmarks, routeGeoJSON, routeStats }, format);
+    console.log(`📤 Exported tour as ${format}:`, { landmarks: landmarks.length, hasRoute: !!routeGeoJSON });
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // allow re-importing the same file
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const tour = parseTourFile(file.name, await file.text());
+      onImport(tour);
+      toast({
+        title: "Tour imported",
+        description: `${tour.name} • ${tour.landmarks.length} stops${tour.routeGeoJSON ? ' • with route' : ''}`
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('❌ Tour import failed:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read this file.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileDown className="h-5 w-5 text-primary" />
+            Export & Import Tour
+          </DialogTitle>
+          <DialogDescription>
+            Take the current tour to GPS devices and GIS tools, or bring a route planned elsewhere onto the map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Export current tour</h4>
+            {landmarks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">There's no tour on the map to export.</p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  {landmarks.length} stops{routeGeoJSON ? ` • route ${routeStats ? `${routeStats.distanceKm}km` : 'included'}` : ' • no route calculated'}
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {EXPORT_FORMATS.map(({ format, label, hint }) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      className="h-auto flex-col gap-1 py-3"
+                      onClick={() => handleExport(format)}
+                    >
+                      <span className="font-semibold">{label}</span>
+                      <span className="text-[10px] font-normal text-muted-foreground">{hint}</span>
+                    </Button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="text-sm font-medium">Import a tour</h4>
+            <p className="text-xs text-muted-foreground">
+              Points become tour stops, tracks and lines become the route. This replaces the tour on the map.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.kml,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/geo+json"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+            <Button
+              className="w-full"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              {isImporting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileUp className="mr-2 h-4 w-4" />
+              )}
+              Choose GPX, KML or GeoJSON file
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TourFileDialog;
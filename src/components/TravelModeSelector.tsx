@@ -1,6 +1,9 @@
 import React from 'react';
 import { Car, PersonStanding, Bike, Bus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 
 export type TravelMode = 'WALK' | 'BICYCLE' | 'DRIVE' | 'TRANSIT';
 
@@ -8,12 +11,20 @@ interface TravelModeSelectorProps {
   selectedMode: TravelMode | null;
   onSelectMode: (mode: TravelMode) => void;
   onCancel: () => void;
+  startTime?: string; // HH:mm, used to schedule visits against opening hours
+  onStartTimeChange?: (startTime: string) => void;
+  weatherAware?: boolean; // plan outdoor stops around the forecast
+  onWeatherAwareChange?: (weatherAware: boolean) => void;
 }
 
 const TravelModeSelector: React.FC<TravelModeSelectorProps> = ({
   selectedMode,
   onSelectMode,
-  onCancel
+  onCancel,
+  startTime,
+  onStartTimeChange,
+  weatherAware,
+  onWeatherAwareChange
 }) => {
   const modes = [
     { 
@@ -84,6 +95,30 @@ const TravelModeSelector: React.FC<TravelModeSelectorProps> = ({
           })}
         </div>
 
+        {onStartTimeChange && (
+          <div className="flex items-center justify-between gap-3 mb-6">
+            <Label htmlFor="tour-start-time" className="text-sm">Start the tour at</Label>
+            <Input
+              id="tour-start-time"
+              type="time"
+              value={startTime || ''}
+              onChange={(event) => onStartTimeChange(event.target.value)}
+              className="w-32"
+            />
+          </div>
+        )}
+
+        {onWeatherAwareChange && (
+          <div className="flex items-center justify-between gap-3 mb-6">
+            <Label htmlFor="tour-weather-aware" className="text-sm">Plan around the weather</Label>
+            <Switch
+              id="tour-weather-aware"
+              checked={!!weatherAware}
+              onCheckedChange={onWeatherAwareChange}
+            />
+          </div>
+        )}
+
         <div className="flex gap-3">
           <Button
             onClick={onCancel}
@@ -0,0 +1,112 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { History, Play, Trash2, Loader2, MapPin, MessageSquare, BookOpen } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { TripRecording } from '@/hooks/useTripRecorder';
+import { useTravelJournal } from '@/hooks/useTravelJournal';
+import { JournalFormat } from '@/utils/travelJournal';
+import { formatDistance } from '@/utils/proximityUtils';
+
+interface TripHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trips: TripRecording[];
+  isLoading: boolean;
+  onReplay: (trip: TripRecording) => void;
+  onDelete: (tripId: string) => void;
+}
+
+const JOURNAL_FORMATS: Array<{ format: JournalFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'Web page (HTML)' }
+];
+
+const formatDuration = (startedAt: string, endedAt: string) => {
+  const minutes = Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes} min`;
+};
+
+const TripHistoryDialog: React.FC<TripHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  trips,
+  isLoading,
+  onReplay,
+  onDelete
+}) => {
+  const { exportingTripId, exportJournal } = useTravelJournal();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Recorded Trips
+          </DialogTitle>
+          <DialogDescription>
+            Replay the path you walked, the places you stopped and what you asked your guide, or keep it as a travel journal.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : trips.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No trips yet. Start recording from the map before your next walk.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {trips.map(trip => (
+              <li key={trip.id} className="rounded-lg border p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{trip.destination}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(trip.startedAt), 'EEE, MMM d • HH:mm')} • {formatDuration(trip.startedAt, trip.endedAt)} • {formatDistance(trip.distanceMeters)}
+                    </p>
+                    <p className="mt-1 flex gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{trip.visits.length} stops</span>
+                      <span className="flex items-center gap-1"><MessageSquare className="h-3 w-3" />{trip.interactionIds.length} interactions</span>
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-1">
+                    <Button size="sm" onClick={() => onReplay(trip)}>
+                      <Play className="mr-1 h-3 w-3" />Replay
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="outline" disabled={exportingTripId === trip.id} title="Export travel journal">
+                          {exportingTripId === trip.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <BookOpen className="h-4 w-4" />}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {JOURNAL_FORMATS.map(({ format: journalFormat, label }) => (
+                          <DropdownMenuItem key={journalFormat} onClick={() => exportJournal(trip, journalFormat)}>
+                            {label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button size="sm" variant="ghost" onClick={() => onDelete(trip.id)} title="Delete trip">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TripHistoryDialog;
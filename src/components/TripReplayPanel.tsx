@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Play, Pause, X, MapPin, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TripInteraction, TripRecording } from '@/hooks/useTripRecorder';
+
+interface TripReplayPanelProps {
+  trip: TripRecording;
+  interactions: TripInteraction[];
+  currentTime: number;
+  onTimeChange: (time: number) => void;
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [30, 60, 120, 300];
+const FRAME_INTERVAL = 100; // ms
+
+const TripReplayPanel: React.FC<TripReplayPanelProps> = ({
+  trip,
+  interactions,
+  currentTime,
+  onTimeChange,
+  onClose
+}) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+
+  const startTime = trip.path[0][2];
+  const endTime = trip.path[trip.path.length - 1][2];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (currentTime >= endTime) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      onTimeChange(Math.min(endTime, currentTime + FRAME_INTERVAL * speed));
+    }, FRAME_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [isPlaying, currentTime, endTime, speed, onTimeChange]);
+
+  const handlePlayPause = () => {
+    if (!isPlaying && currentTime >= endTime) onTimeChange(startTime);
+    setIsPlaying(current => !current);
+  };
+
+  const currentVisit = trip.visits.find(visit => visit.arrivedAt <= currentTime && visit.leftAt >= currentTime);
+  const latestInteraction = interactions
+    .filter(interaction => new Date(interaction.createdAt).getTime() <= currentTime)
+    .pop();
+
+  return (
+    <div className="absolute bottom-20 left-1/2 z-20 w-[min(92vw,28rem)] -translate-x-1/2 rounded-lg border border-gray-200 bg-white/95 p-3 shadow-lg backdrop-blur-sm">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold">{trip.destination}</p>
+          <p className="text-xs text-muted-foreground">{format(new Date(currentTime), 'HH:mm:ss')}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Close replay">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button size="icon" variant="outline" className="h-8 w-8 flex-shrink-0" onClick={handlePlayPause}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Slider
+          min={startTime}
+          max={endTime}
+          step={1000}
+          value={[currentTime]}
+          onValueChange={([value]) => onTimeChange(value)}
+          className="flex-1"
+        />
+        <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-20 flex-shrink-0 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="mt-1 flex justify-between text-[10px] text-muted-foreground">
+        <span>{format(new Date(startTime), 'HH:mm')}</span>
+        <span>{format(new Date(endTime), 'HH:mm')}</span>
+      </div>
+
+      {currentVisit && (
+        <p className="mt-2 flex items-center gap-1 text-xs">
+          <MapPin className="h-3 w-3 text-primary" />
+          At {currentVisit.name} for {Math.round(currentVisit.dwellSeconds / 60)} min
+        </p>
+      )}
+      {latestInteraction && (
+        <p className="mt-1 flex items-start gap-1 text-xs text-muted-foreground">
+          <MessageSquare className="mt-0.5 h-3 w-3 flex-shrink-0" />
+          <span className="line-clamp-2">{latestInteraction.userInput || latestInteraction.assistantResponse}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TripReplayPanel;
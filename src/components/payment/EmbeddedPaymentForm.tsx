@@ -7,11 +7,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2 } from "lucide-react";
+import { formatPrice } from "@/utils/experiencePricing";
 
 interface EmbeddedPaymentFormProps {
   onSuccess: () => void;
   onError: (error: string) => void;
   amount: number;
+  listPrice?: number; // shown struck through when a discount applies
+  currency?: string;
   experienceTitle: string;
   isMobile?: boolean;
 }
@@ -20,6 +23,8 @@ export const EmbeddedPaymentForm: React.FC<EmbeddedPaymentFormProps> = ({
   onSuccess,
   onError,
   amount,
+  listPrice,
+  currency = "usd",
   experienceTitle,
   isMobile = false,
 }) => {
@@ -57,9 +62,6 @@ export const EmbeddedPaymentForm: React.FC<EmbeddedPaymentFormProps> = ({
     }
   };
 
-  const formatAmount = (amount: number) => {
-    return (amount / 100).toFixed(2);
-  };
 
   return (
     <form onSubmit={handleSubmit} className={`space-y-4 ${isMobile ? 'sm:space-y-6' : 'space-y-6'}`}>
@@ -71,7 +73,12 @@ export const EmbeddedPaymentForm: React.FC<EmbeddedPaymentFormProps> = ({
           {experienceTitle}
         </p>
         <p className={`font-bold text-foreground ${isMobile ? 'text-base' : 'text-lg'}`}>
-          ${formatAmount(amount)} USD
+          {listPrice && (
+            <span className="mr-2 font-normal text-muted-foreground line-through">
+              {formatPrice(listPrice, currency)}
+            </span>
+          )}
+          {formatPrice(amount, currency)} {currency.toUpperCase()}
         </p>
       </div>
 
@@ -103,7 +110,7 @@ export const EmbeddedPaymentForm: React.FC<EmbeddedPaymentFormProps> = ({
             Processing...
           </>
         ) : (
-          `Pay $${formatAmount(amount)}`
+          `Pay ${formatPrice(amount, currency)}`
         )}
       </Button>
     </form>
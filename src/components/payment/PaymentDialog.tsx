@@ -10,27 +10,36 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { EmbeddedPaymentForm } from "./EmbeddedPaymentForm";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { CheckCircle, XCircle } from "lucide-react";
+import { CheckCircle, XCircle, Tag, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { supabase } from "@/integrations/supabase/client";
 import { Experience } from "@/hooks/useExperiences";
+import { ExperiencePaymentSession } from "@/hooks/useExperiencePayment";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 interface PaymentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   experience: Experience | null;
-  clientSecret: string | null;
+  session: ExperiencePaymentSession | null;
   onPaymentSuccess: () => void;
+  onApplyPromoCode?: (code: string) => Promise<string | null>;
 }
 
 export const PaymentDialog: React.FC<PaymentDialogProps> = ({
   open,
   onOpenChange,
   experience,
-  clientSecret,
+  session,
   onPaymentSuccess,
+  onApplyPromoCode,
 }) => {
+  const clientSecret = session?.clientSecret ?? null;
   const [stripe, setStripe] = useState<any>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [promoError, setPromoError] = useState("");
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [statusMessage, setStatusMessage] = useState<string>("");
   const [resetKey, setResetKey] = useState<number>(0);
@@ -58,10 +67,10 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
       }
     };
 
-    if (open && clientSecret) {
+    if (open && clientSecret && !stripe) {
       initializeStripe();
     }
-  }, [open, clientSecret]);
+  }, [open, clientSecret, stripe]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -77,9 +86,26 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
     if (open) {
       setPaymentStatus('idle');
       setStatusMessage('');
+      setPromoCode('');
+      setPromoError('');
     }
   }, [open]);
 
+  const handleApplyPromoCode = async () => {
+    if (!onApplyPromoCode || !promoCode.trim()) return;
+
+    setIsApplyingPromo(true);
+    setPromoError('');
+    const error = await onApplyPromoCode(promoCode.trim());
+    setIsApplyingPromo(false);
+
+    if (error) {
+      setPromoError(error);
+    } else {
+      setPromoCode('');
+    }
+  };
+
   const handleOpenChange = (newOpen: boolean) => {
     // If closing the dialog with an error, increment resetKey to force remount
     if (!newOpen && paymentStatus === 'error') {
@@ -107,7 +133,7 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
     setStatusMessage(error);
   };
 
-  if (!experience || !clientSecret || !stripe) {
+  if (!experience || !session || !clientSecret || !stripe) {
     return null;
   }
 
@@ -158,12 +184,46 @@ export const PaymentDialog: React.FC<PaymentDialogProps> = ({
               </Alert>
             )}
             
+            {paymentStatus === 'idle' && onApplyPromoCode && (
+              <div className="space-y-1">
+                {session.promoCode ? (
+                  <p className="flex items-center gap-1 text-sm text-green-700">
+                    <Tag className="h-3 w-3" />
+                    Code {session.promoCode.toUpperCase()} applied
+                  </p>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Promo code"
+                      value={promoCode}
+                      onChange={(e) => setPromoCode(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyPromoCode()}
+                      className="h-9"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="h-9"
+                      onClick={handleApplyPromoCode}
+                      disabled={!promoCode.trim() || isApplyingPromo}
+                    >
+                      {isApplyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+                    </Button>
+                  </div>
+                )}
+                {promoError && <p className="text-xs text-destructive">{promoError}</p>}
+              </div>
+            )}
+
             {paymentStatus === 'idle' && (
-              <Elements key={resetKey} stripe={stripe} options={options}>
+              // A new client secret (after a promo code) needs a fresh Elements instance
+              <Elements key={`${resetKey}-${clientSecret}`} stripe={stripe} options={options}>
                 <EmbeddedPaymentForm
                   onSuccess={handlePaymentSuccess}
                   onError={handlePaymentError}
-                  amount={999} // $9.99 in cents
+                  amount={session.amountCents}
+                  listPrice={session.discountCents > 0 ? session.listPriceCents : undefined}
+                  currency={session.currency}
                   experienceTitle={experience.destination}
                   isMobile={isMobile}
                 />
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useState, useRef, ReactNode } from 'react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { getSpeechLocale, getStoredTourLanguage } from '@/utils/tourLanguage';
 
 interface TTSContextType {
   speak: (text: string, isMemoryNarration?: boolean, interactionId?: string, voiceGender?: 'male' | 'female') => Promise<void>;
@@ -54,7 +55,8 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children, isVoiceAgent
           const { data, error } = await supabase.functions.invoke('gemini-tts', {
             body: { 
               text,
-              isMemoryNarration 
+              isMemoryNarration,
+              language: getStoredTourLanguage()
             }
           });
 
@@ -106,7 +108,10 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children, isVoiceAgent
   const fallbackToWebSpeech = (text: string, voiceGender: 'male' | 'female' = 'female') => {
     // Ensure voices are loaded
     const selectVoiceAndSpeak = () => {
+      const locale = getSpeechLocale(getStoredTourLanguage());
+      const languagePrefix = locale.split('-')[0];
       const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = locale;
       utterance.rate = 0.9;
       utterance.pitch = voiceGender === 'male' ? 0.7 : 1.1; // Lower pitch for male, higher for female
       utterance.volume = 1;
@@ -119,8 +124,8 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children, isVoiceAgent
           const voiceName = voice.name.toLowerCase();
           const voiceLang = voice.lang.toLowerCase();
           
-          // Prefer English voices
-          if (!voiceLang.startsWith('en')) return false;
+          // Prefer voices in the traveler's language
+          if (!voiceLang.startsWith(languagePrefix)) return false;
           
           if (voiceGender === 'male') {
             return voiceName.includes('male') || voiceName.includes('david') || 
@@ -135,11 +140,11 @@ export const TTSProvider: React.FC<TTSProviderProps> = ({ children, isVoiceAgent
           utterance.voice = preferredVoice;
           console.log(`🎭 Using voice: ${preferredVoice.name} for ${voiceGender}`);
         } else {
-          // Fallback: use first available English voice
-          const englishVoice = voices.find(voice => voice.lang.toLowerCase().startsWith('en'));
-          if (englishVoice) {
-            utterance.voice = englishVoice;
-            console.log(`🎭 Using fallback English voice: ${englishVoice.name} for ${voiceGender}`);
+          // Fallback: use first available voice in the traveler's language
+          const languageVoice = voices.find(voice => voice.lang.toLowerCase().startsWith(languagePrefix));
+          if (languageVoice) {
+            utterance.voice = languageVoice;
+            console.log(`🎭 Using fallback ${locale} voice: ${languageVoice.name} for ${voiceGender}`);
           }
         }
       }
@@ -1,3 +1,5 @@
+import { AccessibilityStatus, PlaceAccessibility } from '@/utils/accessibilityProfile';
+
 export interface Landmark {
   id: string;
   name: string;
@@ -29,6 +31,10 @@ export interface EnhancedLandmark extends Landmark {
   website_uri?: string;
   opening_hours?: any;
   editorial_summary?: string;
+  // Set when the tour was generated for a traveler with accessibility needs
+  accessibility?: PlaceAccessibility | null;
+  accessibilityStatus?: AccessibilityStatus;
+  accessibilityNotes?: string[];
 }
 
 export const landmarks: Landmark[] = [
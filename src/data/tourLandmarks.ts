@@ -1,3 +1,6 @@
+import { OpeningPeriod } from '@/utils/itineraryPlanner';
+import { AccessibilityStatus } from '@/utils/accessibilityProfile';
+
 
 export interface TourLandmark {
   // Core identification (using placeId as the unique key)
@@ -15,6 +18,14 @@ export interface TourLandmark {
   
   // Tour metadata
   tourId?: string;                    // Reference to generating tour
+
+  // Visit planning
+  openingPeriods?: OpeningPeriod[];   // Weekly opening hours (Places API v1 periods)
+  dwellMinutes?: number;              // Planned time spent at the stop
+
+  // Accessibility (tours generated for a traveler with an accessibility profile)
+  accessibilityStatus?: AccessibilityStatus; // step-free entrance: accessible | not_accessible | unknown
+  accessibilityNotes?: string[];
   
   // Generation quality metrics
   coordinateSource?: string;          // 'google_places' | 'geocoding' | 'fallback'
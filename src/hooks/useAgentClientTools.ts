@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Landmark } from '@/data/landmarks';
+import { TOUR_LANDMARKS } from '@/data/tourLandmarks';
+import { useLocationTracking } from '@/hooks/useLocationTracking';
+import { useTourEditor } from '@/hooks/useTourEditor';
+import { AgentClientToolName } from '@/utils/agentClientTools';
+import { BUSY_THRESHOLD, formatHour, getBusynessAt, getPopularTimes, getQuietTimeSuggestion } from '@/utils/placePopularity';
+
+interface PlaceParameters {
+  place_id?: string;
+  landmark_name?: string;
+  travel_mode?: string;
+}
+
+interface MapPlace {
+  id?: string;
+  placeId?: string;
+  name: string;
+  coordinates: [number, number];
+}
+
+// Published by Map.tsx
+declare global {
+  interface Window {
+    navigateToMapCoordinates?: (coordinates: [number, number], interaction?: unknown) => void;
+    showRouteOnMap?: (route: unknown, landmark: MapPlace) => void;
+    handleStreetViewOpen?: (landmarkId: string) => Promise<void>;
+  }
+}
+
+const TRAVEL_MODES = ['walking', 'cycling', 'driving'];
+
+/**
+ * Handlers for the voice guide's client tools. Each returns a short sentence the agent can relay,
+ * including when the action could not be done.
+ */
+export const useAgentClientTools = (landmarks: Landmark[]) => {
+  const { userLocation } = useLocationTracking();
+  const { fetchPlaceAsLandmark, saveTourEdits } = useTourEditor();
+
+  // Tools run mid-conversation, long after the session captured them, so read the latest values
+  const landmarksRef = useRef(landmarks);
+  const userLocationRef = useRef(userLocation);
+  useEffect(() => {
+    landmarksRef.current = landmarks;
+  }, [landmarks]);
+  useEffect(() => {
+    userLocationRef.current = userLocation;
+  }, [userLocation]);
+
+  return useMemo(() => {
+    const findLocalPlace = ({ place_id, landmark_name }: PlaceParameters): MapPlace | null => {
+      const candidates: MapPlace[] = [...TOUR_LANDMARKS, ...landmarksRef.current];
+      const name = landmark_name?.trim().toLowerCase();
+
+      return (place_id && candidates.find(place => place.placeId === place_id))
+        || (name && candidates.find(place => place.name.toLowerCase() === name))
+        || (name && candidates.find(place => place.name.toLowerCase().includes(name) || name.includes(place.name.toLowerCase())))
+        || null;
+    };
+
+    // Places the guide heard about in a SYSTEM_ALERT aren't on the map yet, so look them up
+    const findPlace = async (parameters: PlaceParameters): Promise<MapPlace | null> =>
+      findLocalPlace(parameters) || (parameters.place_id ? await fetchPlaceAsLandmark(parameters.place_id) : null);
+
+    const tools: Record<AgentClientToolName, (parameters: PlaceParameters) => Promise<string>> = {
+      navigate_to_landmark: async (parameters) => {
+        console.log('🧰 Agent tool navigate_to_landmark:', parameters);
+        const place = await findPlace(parameters);
+        if (!place) return 'I could not find that place on the map.';
+        if (!window.navigateToMapCoordinates) return 'The map is not available right now.';
+
+        window.navigateToMapCoordinates(place.coordinates);
+        return `The map is now centered on ${place.name}.`;
+      },
+
+      show_route: async (parameters) => {
+        console.log('🧰 Agent tool show_route:', parameters);
+        const location = userLocationRef.current;
+        if (!location) return 'Location access is required to show a route. Ask the user to allow location access.';
+
+        const place = await findPlace(parameters);
+        if (!place) return 'I could not find that place on the map.';
+
+        const profile = TRAVEL_MODES.includes(parameters.travel_mode || '') ? parameters.travel_mode : 'walking';
+        const { data, error } = await supabase.functions.invoke('mapbox-directions', {
+          body: {
+            origin: [location.longitude, location.latitude],
+            destination: place.coordinates,
+            profile
+          }
+        });
+
+        const route = data?.routes?.[0];
+        if (error || !route) {
+          console.error('❌ Agent route lookup failed:', error);
+          return `I could not find a ${profile} route to ${place.name}.`;
+        }
+
+        window.showRouteOnMap?.(route, place);
+        return `Route to ${place.name} shown on the map: ${(route.distance / 1000).toFixed(1)} km, about ${Math.round(route.duration / 60)} minutes ${profile}.`;
+      },
+
+      open_street_view: async (parameters) => {
+        console.log('🧰 Agent tool open_street_view:', parameters);
+        const place = findLocalPlace(parameters);
+        if (!place) return 'Street View is only available for landmarks on the current tour.';
+        if (!window.handleStreetViewOpen) return 'Street View is not available right now.';
+
+        // The map identifies tour landmarks by their position in the tour
+        const tourIndex = TOUR_LANDMARKS.findIndex(landmark => landmark.placeId === place.placeId && landmark.name === place.name);
+        const landmarkId = tourIndex !== -1 ? `tour-landmark-${tourIndex}` : place.id;
+        if (!landmarkId) return 'Street View is only available for landmarks on the current tour.';
+
+        await window.handleStreetViewOpen(landmarkId);
+        return `Opened Street View of ${place.name}.`;
+      },
+
+      add_to_tour: async (parameters) => {
+        console.log('🧰 Agent tool add_to_tour:', parameters);
+        const tourId = TOUR_LANDMARKS.find(landmark => landmark.tourId)?.tourId;
+        if (!tourId) return 'There is no saved tour to add places to.';
+        if (!parameters.place_id) return 'A place_id is needed to add a place to the tour.';
+
+        const existing = TOUR_LANDMARKS.find(landmark => landmark.placeId === parameters.place_id);
+        if (existing) return `${existing.name} is already part of the tour.`;
+
+        const landmark = await fetchPlaceAsLandmark(parameters.place_id, tourId);
+        if (!landmark) return 'I could not find that place.';
+
+        const result = await saveTourEdits(tourId, [...TOUR_LANDMARKS, landmark]);
+        return result
+          ? `${landmark.name} was added to the tour as stop ${result.landmarks.length}.`
+          : `I could not add ${landmark.name} to the tour.`;
+      },
+
+      get_opening_hours: async (parameters) => {
+        console.log('🧰 Agent tool get_opening_hours:', parameters);
+        const placeId = parameters.place_id || findLocalPlace(parameters)?.placeId;
+        if (!placeId) return 'A place_id is needed to look up opening hours.';
+
+        const { data, error } = await supabase.functions.invoke('get-place-hours', {
+          body: { place_id: placeId }
+        });
+
+        if (error || !data) {
+          console.error('❌ Agent opening hours lookup failed:', error);
+          return 'Opening hours are not available for that place right now.';
+        }
+
+        const weekly = data.weekday_descriptions?.length ? ` Weekly hours: ${data.weekday_descriptions.join('; ')}.` : '';
+        return `${data.place_name}: ${data.message}.${weekly}`;
+      },
+
+      get_quiet_times: async (parameters) => {
+        console.log('🧰 Agent tool get_quiet_times:', parameters);
+        const place = findLocalPlace(parameters);
+        const placeId = parameters.place_id || place?.placeId;
+        if (!placeId) return 'A place_id is needed to look up busy hours.';
+
+        const times = await getPopularTimes(placeId);
+        if (!times) return 'Busy hours are not available for that place right now.';
+
+        const now = new Date();
+        const busyness = getBusynessAt(times, now);
+        const busyHours = times.hours.filter(hour => hour.busyness >= BUSY_THRESHOLD).map(hour => formatHour(hour.hour));
+        const name = place?.name || 'The place';
+        const current = busyness ? `${name} is usually ${busyness}% busy at this hour.` : `${name} is usually closed at this hour.`;
+        const peak = busyHours.length > 0 ? ` Busiest today around ${busyHours.join(', ')}.` : ' It is not usually busy today.';
+        const suggestion = getQuietTimeSuggestion(times, now);
+
+        const source = times.source === 'estimated'
+          ? ' (Estimated from the place type and popularity, not live crowd counts.)'
+          : '';
+
+        return `${current}${peak}${suggestion ? ` ${suggestion}` : ''}${source}`;
+      }
+    };
+
+    return tools;
+  }, [fetchPlaceAsLandmark, saveTourEdits]);
+};
@@ -3,7 +3,7 @@ import { useLocationTracking } from './useLocationTracking';
 import { supabase } from '@/integrations/supabase/client';
 import { isSignificantLocationChange } from '@/utils/locationUtils';
 
-interface ContextualPOI {
+export interface ContextualPOI {
   placeId: string;
   name: string;
   rating?: number;
@@ -15,10 +15,13 @@ interface ContextualPOI {
   photoUrl?: string;
   editorialSummary?: string;
   website?: string;
+  geometry?: {
+    location: { lat: number; lng: number };
+  };
   distance: number;
 }
 
-interface ContextualPOIUpdate {
+export interface ContextualPOIUpdate {
   timestamp: number;
   userLocation: {
     latitude: number;
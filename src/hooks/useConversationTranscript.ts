@@ -0,0 +1,74 @@
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Same shape as the transcript ElevenLabs sends to the webhook, so either source renders the same
+export interface TranscriptEntry {
+  role: 'user' | 'agent';
+  message: string;
+  time_in_call_secs: number;
+  typed?: boolean; // sent from the text input instead of spoken
+}
+
+interface SaveTranscriptOptions {
+  conversationId: string;
+  destination: string;
+  agentId?: string;
+}
+
+export const useConversationTranscript = () => {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const entriesRef = useRef<TranscriptEntry[]>([]);
+  const startedAtRef = useRef<number | null>(null);
+
+  const start = useCallback(() => {
+    startedAtRef.current = Date.now();
+    entriesRef.current = [];
+    setEntries([]);
+  }, []);
+
+  const addEntry = useCallback((role: TranscriptEntry['role'], message: string, typed = false) => {
+    if (!message.trim()) return;
+
+    const entry: TranscriptEntry = {
+      role,
+      message,
+      time_in_call_secs: startedAtRef.current ? Math.round((Date.now() - startedAtRef.current) / 1000) : 0,
+      ...(typed && { typed })
+    };
+    entriesRef.current = [...entriesRef.current, entry];
+    setEntries(entriesRef.current);
+  }, []);
+
+  /**
+   * Store the transcript as the conversation's interaction. The ElevenLabs webhook adds its
+   * analysis to the same row when it arrives, and nothing is stored if it already did.
+   */
+  const saveTranscript = useCallback(async ({ conversationId, destination, agentId }: SaveTranscriptOptions) => {
+    const transcript = entriesRef.current;
+    if (!conversationId || transcript.length === 0) return;
+
+    const firstUserMessage = transcript.find(entry => entry.role === 'user')?.message;
+    const firstAgentMessage = transcript.find(entry => entry.role === 'agent')?.message;
+
+    const { data, error } = await supabase.functions.invoke('store-interaction', {
+      body: {
+        userInput: firstUserMessage || '(no question asked)',
+        assistantResponse: firstAgentMessage || '(no response)',
+        destination: destination || 'Unknown destination',
+        interactionType: 'voice',
+        conversationId,
+        agentId,
+        fullTranscript: transcript
+      }
+    });
+
+    if (error) {
+      console.error('❌ Failed to save conversation transcript:', error);
+      return;
+    }
+
+    console.log(data?.skipped ? '📝 Transcript already stored by webhook' : `📝 Saved transcript with ${transcript.length} turns`);
+  }, []);
+
+  return { entries, start, addEntry, saveTranscript };
+};
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { EarningsPayment } from '@/utils/curatorEarnings';
+
+export interface CuratorEarningsData {
+  payments: EarningsPayment[];
+  destinations: Record<string, string>; // tour id -> destination
+  experienceCount: number;
+}
+
+export const useCuratorEarnings = (userId: string | undefined) => {
+  return useQuery({
+    queryKey: ['curator-earnings', userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<CuratorEarningsData> => {
+      const { data: tours, error: toursError } = await supabase
+        .from('generated_tours')
+        .select('id, destination')
+        .eq('user_id', userId!)
+        .eq('experience', true);
+
+      if (toursError) throw toursError;
+
+      const destinations = Object.fromEntries((tours || []).map(tour => [tour.id, tour.destination]));
+      const tourIds = Object.keys(destinations);
+      if (tourIds.length === 0) {
+        return { payments: [], destinations, experienceCount: 0 };
+      }
+
+      const { data: payments, error: paymentsError } = await supabase
+        .from('payments')
+        .select('id, tour_id, tourist_user_id, stripe_payment_intent_id, status, currency, amount, discount_amount, platform_fee_amount, tour_guide_payout_amount, refunded_amount, disputed_amount, dispute_status, created_at')
+        .in('tour_id', tourIds)
+        .eq('payment_type', 'experience')
+        .order('created_at', { ascending: false });
+
+      if (paymentsError) throw paymentsError;
+
+      return { payments: payments || [], destinations, experienceCount: tourIds.length };
+    }
+  });
+};
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Capacitor } from '@capacitor/core';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Experience } from '@/hooks/useExperiences';
+
+interface StoreReceipt {
+  platform: string;
+  nativeData?: { appStoreReceipt?: string };
+}
+
+export interface OwnedExperience {
+  entitlementId: string;
+  source: string;
+  grantedAt: string;
+  experience: Experience;
+  versionNumber: number | null;
+  updateAvailable: boolean; // the curator published a newer version than the one owned
+}
+
+/**
+ * Whether the user owns an experience. Revoked entitlements (refunds, lost disputes) don't count.
+ */
+export const fetchExperienceEntitlement = async (userId: string, tourId: string): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase
+      .from('experience_entitlements')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('tour_id', tourId)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  } catch (error) {
+    console.error('Error checking experience entitlement:', error);
+    return false;
+  }
+};
+
+export const isRestorePurchasesAvailable = () =>
+  Capacitor.isNativePlatform() && Capacitor.getPlatform() === 'ios';
+
+export const useExperienceLibrary = (userId: string | undefined) => {
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['experience-library', userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<OwnedExperience[]> => {
+      const { data, error } = await supabase
+        .from('experience_entitlements')
+        .select('id, source, granted_at, version_id, experience_versions!experience_entitlements_version_id_fkey(version_number), generated_tours!experience_entitlements_tour_id_fkey(id, destination, description, photo, created_at, destination_details, system_prompt, published_version_id)')
+        .eq('user_id', userId!)
+        .is('revoked_at', null)
+        .order('granted_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || [])
+        .filter(entitlement => entitlement.generated_tours)
+        .map(entitlement => {
+          const tour = entitlement.generated_tours as unknown as Experience & { published_version_id: string | null };
+          const version = entitlement.experience_versions as unknown as { version_number: number } | null;
+          return {
+            entitlementId: entitlement.id,
+            source: entitlement.source,
+            grantedAt: entitlement.granted_at,
+            experience: tour,
+            versionNumber: version?.version_number ?? null,
+            updateAvailable: !!tour.published_version_id && entitlement.version_id !== tour.published_version_id
+          };
+        });
+    }
+  });
+
+  /**
+   * Move an owned experience to the version the curator has published since
+   */
+  const updateToLatestVersion = async (tourId: string) => {
+    const { error } = await supabase.rpc('update_experience_entitlement_version', { p_tour_id: tourId });
+    if (error) {
+      console.error('Error updating experience version:', error);
+      toast.error('Could not update this experience');
+      return;
+    }
+
+    await query.refetch();
+    toast.success('Experience updated to the latest version');
+  };
+
+  /**
+   * Re-validate the App Store receipt so experiences bought on another device show up
+   */
+  const restorePurchases = async () => {
+    const store = window.CdvPurchase?.store;
+    if (!isRestorePurchasesAvailable() || !store) {
+      toast.error('Restore purchases is only available in the iOS app');
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      console.log('🍎 Restoring experience purchases...');
+      await new Promise((resolve) => {
+        store.refresh();
+        setTimeout(resolve, 3000); // Give it time to process
+      });
+
+      const iOSReceipt = (store.receipts as StoreReceipt[] || []).find(receipt => receipt.platform === 'ios-appstore');
+      if (!iOSReceipt?.nativeData?.appStoreReceipt) {
+        throw new Error('App Store receipt not available');
+      }
+
+      const { data, error } = await supabase.functions.invoke('validate-apple-receipt', {
+        body: { receiptData: iOSReceipt.nativeData.appStoreReceipt, sandbox: true }
+      });
+
+      if (error) throw error;
+      if (!data.valid) throw new Error(data.error || 'Receipt validation failed');
+
+      await query.refetch();
+      const restoredCount = data.experience_ids?.length || 0;
+      if (restoredCount > 0) {
+        toast.success(`Restored ${restoredCount} experience${restoredCount === 1 ? '' : 's'}`);
+      } else {
+        toast.info('No experience purchases found for this Apple ID');
+      }
+    } catch (error) {
+      console.error('🍎 Restore error:', error);
+      toast.error(`Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return {
+    ...query,
+    isRestoring,
+    restorePurchases,
+    updateToLatestVersion
+  };
+};
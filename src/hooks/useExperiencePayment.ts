@@ -0,0 +1,103 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ExperiencePaymentSession {
+  clientSecret: string;
+  paymentIntentId: string;
+  amountCents: number;
+  listPriceCents: number;
+  discountCents: number;
+  currency: string;
+  promoCode: string | null;
+}
+
+interface CreateExperiencePaymentResponse {
+  client_secret?: string;
+  payment_intent_id?: string;
+  amount_cents?: number;
+  list_price_cents?: number;
+  discount_cents?: number;
+  currency?: string;
+  promo_valid?: boolean;
+  promo_error?: string;
+}
+
+export const toExperiencePaymentSession = (
+  data: CreateExperiencePaymentResponse,
+  promoCode: string | null = null
+): ExperiencePaymentSession | null => {
+  if (!data.client_secret || !data.payment_intent_id) return null;
+
+  return {
+    clientSecret: data.client_secret,
+    paymentIntentId: data.payment_intent_id,
+    amountCents: data.amount_cents ?? 0,
+    listPriceCents: data.list_price_cents ?? data.amount_cents ?? 0,
+    discountCents: data.discount_cents ?? 0,
+    currency: data.currency || 'usd',
+    promoCode
+  };
+};
+
+/**
+ * Open a PaymentIntent for an experience. The server prices it from the curator's settings.
+ */
+export const createExperiencePayment = async (
+  experienceId: string,
+  promoCode?: string,
+  previousPaymentIntentId?: string
+): Promise<ExperiencePaymentSession | null> => {
+  const { data, error } = await supabase.functions.invoke('create-experience-payment', {
+    body: { experienceId, promoCode, previousPaymentIntentId }
+  });
+
+  if (error) throw error;
+  return toExperiencePaymentSession(data, promoCode || null);
+};
+
+export const useExperiencePayment = () => {
+  const [session, setSession] = useState<ExperiencePaymentSession | null>(null);
+
+  const startPayment = useCallback(async (experienceId: string): Promise<ExperiencePaymentSession | null> => {
+    const newSession = await createExperiencePayment(experienceId);
+    setSession(newSession);
+    return newSession;
+  }, []);
+
+  /**
+   * Check a promo code server-side, then replace the open PaymentIntent with a discounted one
+   * @returns An error message for the user, or null when the code was applied
+   */
+  const applyPromoCode = useCallback(async (experienceId: string, code: string): Promise<string | null> => {
+    const { data: preview, error: previewError } = await supabase.functions.invoke('create-experience-payment', {
+      body: { experienceId, promoCode: code, previewOnly: true }
+    });
+
+    if (previewError) {
+      console.error('❌ Promo code check failed:', previewError);
+      return 'Could not check this promo code. Please try again.';
+    }
+    if (preview?.promo_valid === false) {
+      return preview.promo_error || 'This promo code is not valid';
+    }
+
+    try {
+      const newSession = await createExperiencePayment(experienceId, code, session?.paymentIntentId);
+      if (!newSession) return 'Failed to apply promo code';
+
+      console.log(`🏷️ Promo code ${code} applied: ${newSession.discountCents} cents off`);
+      setSession(newSession);
+      return null;
+    } catch (error) {
+      console.error('❌ Failed to apply promo code:', error);
+      return 'Failed to apply promo code';
+    }
+  }, [session?.paymentIntentId]);
+
+  return {
+    session,
+    setSession,
+    startPayment,
+    applyPromoCode
+  };
+};
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { EvaluationStatusCount } from '@/utils/experienceRatings';
+
+export type ExperienceReview = Tables<'experience_reviews'>;
+
+/**
+ * Reviews of one experience, and whether the signed-in user may write one
+ * (they own it, or have talked to its guide)
+ */
+export const useExperienceReviews = (tourId: string, userId: string | undefined, enabled = true) => {
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reviewsQuery = useQuery({
+    queryKey: ['experience-reviews', tourId],
+    enabled,
+    queryFn: async (): Promise<ExperienceReview[]> => {
+      const { data, error } = await supabase
+        .from('experience_reviews')
+        .select('*')
+        .eq('tour_id', tourId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    }
+  });
+
+  const { data: canReview = false } = useQuery({
+    queryKey: ['experience-can-review', tourId, userId],
+    enabled: enabled && !!userId,
+    queryFn: async (): Promise<boolean> => {
+      const { data, error } = await supabase.rpc('can_review_experience', { p_tour_id: tourId });
+      if (error) throw error;
+      return !!data;
+    }
+  });
+
+  const ownReview = reviewsQuery.data?.find(review => review.user_id === userId) || null;
+
+  const refreshAfterChange = async () => {
+    await reviewsQuery.refetch();
+    // Aggregate ratings live on the experience row
+    queryClient.invalidateQueries({ queryKey: ['experiences'] });
+  };
+
+  const submitReview = async (rating: number, reviewText: string) => {
+    if (!userId) return false;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('experience_reviews')
+        .upsert(
+          { tour_id: tourId, user_id: userId, rating, review_text: reviewText.trim() || null },
+          { onConflict: 'tour_id,user_id' }
+        );
+
+      if (error) throw error;
+      await refreshAfterChange();
+      toast.success(ownReview ? 'Review updated' : 'Thanks for your review!');
+      return true;
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast.error('Could not save your review');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteReview = async () => {
+    if (!ownReview) return;
+
+    const { error } = await supabase.from('experience_reviews').delete().eq('id', ownReview.id);
+    if (error) {
+      console.error('Error deleting review:', error);
+      toast.error('Could not delete your review');
+      return;
+    }
+
+    await refreshAfterChange();
+    toast.success('Review deleted');
+  };
+
+  return {
+    ...reviewsQuery,
+    canReview,
+    ownReview,
+    isSubmitting,
+    submitReview,
+    deleteReview
+  };
+};
+
+export interface CuratorExperienceFeedback {
+  tourId: string;
+  destination: string;
+  ratingAverage: number | null;
+  ratingCount: number;
+  reviews: ExperienceReview[];
+  evaluations: EvaluationStatusCount[];
+}
+
+/**
+ * Reviews and AI conversation evaluations for every experience the curator owns
+ */
+export const useCuratorReviews = (userId: string | undefined) => {
+  const query = useQuery({
+    queryKey: ['curator-reviews', userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<CuratorExperienceFeedback[]> => {
+      const { data: tours, error: toursError } = await supabase
+        .from('generated_tours')
+        .select('id, destination, rating_average, rating_count')
+        .eq('user_id', userId!)
+        .eq('experience', true)
+        .order('created_at', { ascending: false });
+
+      if (toursError) throw toursError;
+      if (!tours || tours.length === 0) return [];
+
+      const { data: reviews, error: reviewsError } = await supabase
+        .from('experience_reviews')
+        .select('*')
+        .in('tour_id', tours.map(tour => tour.id))
+        .order('created_at', { ascending: false });
+
+      if (reviewsError) throw reviewsError;
+
+      return Promise.all(tours.map(async tour => {
+        const { data: evaluations, error: evaluationsError } = await supabase
+          .rpc('get_experience_evaluation_summary', { p_tour_id: tour.id });
+
+        if (evaluationsError) {
+          console.error('Error loading evaluation summary for', tour.destination, evaluationsError);
+        }
+
+        return {
+          tourId: tour.id,
+          destination: tour.destination,
+          ratingAverage: tour.rating_average,
+          ratingCount: tour.rating_count,
+          reviews: (reviews || []).filter(review => review.tour_id === tour.id),
+          evaluations: evaluations || []
+        };
+      }));
+    }
+  });
+
+  const replyToReview = async (reviewId: string, reply: string) => {
+    const { error } = await supabase.rpc('reply_to_experience_review', { p_review_id: reviewId, p_reply: reply });
+    if (error) {
+      console.error('Error replying to review:', error);
+      toast.error('Could not save your reply');
+      return false;
+    }
+
+    await query.refetch();
+    toast.success(reply.trim() ? 'Reply posted' : 'Reply removed');
+    return true;
+  };
+
+  return {
+    ...query,
+    replyToReview
+  };
+};
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { Experience } from '@/hooks/useExperiences';
+
+export type ExperienceVersion = Tables<'experience_versions'>;
+
+export interface KnowledgeDoc {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface VersionSnapshotLandmark {
+  landmark_id: string;
+  name: string;
+  formatted_address: string | null;
+}
+
+export interface VersionedExperience {
+  experience: Experience;
+  publishedVersionId: string | null;
+  versions: ExperienceVersion[]; // newest first
+  draft: ExperienceVersion | null;
+}
+
+export type ExperienceDraftChanges = Partial<
+  Pick<ExperienceVersion, 'description' | 'system_prompt' | 'notes' | 'landmarks' | 'knowledge_docs'>
+>;
+
+const asArray = (value: Json): Json[] => (Array.isArray(value) ? value : []);
+
+export const getVersionLandmarks = (version: ExperienceVersion) =>
+  asArray(version.landmarks) as unknown as VersionSnapshotLandmark[];
+
+export const getVersionKnowledgeDocs = (version: ExperienceVersion) =>
+  asArray(version.knowledge_docs) as unknown as KnowledgeDoc[];
+
+/**
+ * Draft changes that drop one landmark or knowledge doc from the snapshot
+ */
+export const removeDraftLandmark = (draft: ExperienceVersion, landmarkId: string): ExperienceDraftChanges => ({
+  landmarks: asArray(draft.landmarks).filter(landmark => (landmark as { landmark_id?: string })?.landmark_id !== landmarkId)
+});
+
+export const removeDraftKnowledgeDoc = (draft: ExperienceVersion, docId: string): ExperienceDraftChanges => ({
+  knowledge_docs: asArray(draft.knowledge_docs).filter(doc => (doc as { id?: string })?.id !== docId)
+});
+
+export const useExperienceVersions = (userId: string | undefined) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['experience-versions', userId],
+    enabled: !!userId,
+    queryFn: async (): Promise<VersionedExperience[]> => {
+      const { data: tours, error: toursError } = await supabase
+        .from('generated_tours')
+        .select('id, destination, description, photo, created_at, destination_details, system_prompt, published_version_id')
+        .eq('user_id', userId!)
+        .eq('experience', true)
+        .order('created_at', { ascending: false });
+
+      if (toursError) throw toursError;
+      if (!tours || tours.length === 0) return [];
+
+      const { data: versions, error: versionsError } = await supabase
+        .from('experience_versions')
+        .select('*')
+        .in('tour_id', tours.map(tour => tour.id))
+        .order('version_number', { ascending: false });
+
+      if (versionsError) throw versionsError;
+
+      return tours.map(tour => {
+        const tourVersions = (versions || []).filter(version => version.tour_id === tour.id);
+        return {
+          experience: tour,
+          publishedVersionId: tour.published_version_id,
+          versions: tourVersions,
+          draft: tourVersions.find(version => version.status === 'draft') || null
+        };
+      });
+    }
+  });
+
+  const runAction = async <T,>(action: () => Promise<T>, successMessage: string): Promise<T | null> => {
+    setIsSaving(true);
+    try {
+      const result = await action();
+      await query.refetch();
+      toast.success(successMessage);
+      return result;
+    } catch (error) {
+      console.error('🏷️ Experience version error:', error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Start a draft from what's live, or return the draft already in progress
+   */
+  const createDraft = (tourId: string) =>
+    runAction(async () => {
+      const { data, error } = await supabase.rpc('create_experience_draft', { p_tour_id: tourId });
+      if (error) throw error;
+      return data;
+    }, 'Draft ready for editing');
+
+  const updateDraft = (versionId: string, changes: ExperienceDraftChanges) =>
+    runAction(async () => {
+      const { error } = await supabase
+        .from('experience_versions')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', versionId)
+        .eq('status', 'draft');
+      if (error) throw error;
+    }, 'Draft saved');
+
+  const discardDraft = (versionId: string) =>
+    runAction(async () => {
+      const { error } = await supabase
+        .from('experience_versions')
+        .delete()
+        .eq('id', versionId)
+        .eq('status', 'draft');
+      if (error) throw error;
+    }, 'Draft discarded');
+
+  /**
+   * Make a version live. Publishing a draft and rolling back to an archived version are the same call;
+   * existing buyers stay on the version they bought until they update from their library. The version's
+   * prompt, voice and knowledge docs go onto its own agent first, so those buyers keep the guide they had.
+   */
+  const publishVersion = (version: ExperienceVersion) =>
+    runAction(async () => {
+      const { data: applied, error: applyError } = await supabase.functions.invoke('elevenlabs-agents-api', {
+        body: { action: 'apply_experience_version', versionId: version.id }
+      });
+      if (applyError) throw applyError;
+      if (applied?.error) throw new Error(applied.details || applied.error);
+
+      const { error } = await supabase.rpc('publish_experience_version', { p_version_id: version.id });
+      if (error) throw error;
+    }, version.status === 'draft'
+      ? `Version ${version.version_number} published`
+      : `Rolled back to version ${version.version_number}`);
+
+  return {
+    ...query,
+    isSaving,
+    createDraft,
+    updateDraft,
+    discardDraft,
+    publishVersion
+  };
+};
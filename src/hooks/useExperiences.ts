@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { DISTANCE_OPTIONS, DURATION_OPTIONS, ExperienceFilters } from '@/utils/experienceCatalog';
 
 export interface Experience {
   id: string;
@@ -8,21 +9,82 @@ export interface Experience {
   photo: any;
   created_at: string;
   destination_details?: any; // jsonb field containing destination details
-  system_prompt?: string; // For TTS overview generation
+  system_prompt?: string; // Only loaded for experiences the user curates or owns
+  price_cents?: number;
+  currency?: string;
+  launch_discount_percent?: number | null;
+  launch_discount_ends_at?: string | null;
+  rating_average?: number | null;
+  rating_count?: number;
 }
 
 export const useExperiences = () => {
   return useQuery({
     queryKey: ['experiences'],
     queryFn: async (): Promise<Experience[]> => {
+      // The catalog view leaves out the curator's prompt and agent, which only owners get (get-tour-details)
       const { data, error } = await supabase
-        .from('generated_tours')
-        .select('id, destination, description, photo, created_at, destination_details, system_prompt')
-        .eq('experience', true)
+        .from('experience_catalog')
+        .select('id, destination, description, photo, created_at, destination_details, price_cents, currency, launch_discount_percent, launch_discount_ends_at, rating_average, rating_count')
         .order('created_at', { ascending: false });
       
       if (error) throw error;
-      return data || [];
+      return (data || []) as Experience[];
     }
   });
-};
\ No newline at end of file
+};
+export interface MarketplaceExperience extends Experience {
+  language?: string;
+  voice_id?: string | null;
+  duration_minutes?: number | null;
+  distance_km?: number | null;
+}
+
+export interface SearchLocation {
+  latitude: number;
+  longitude: number;
+}
+
+const MARKETPLACE_PAGE_SIZE = 12;
+
+/**
+ * Marketplace search, one page at a time. Filtering, ranking and distance are computed by search_experiences.
+ * Distance filters and the nearest sort need the user's location.
+ */
+export const useExperienceSearch = (filters: ExperienceFilters, location: SearchLocation | null) => {
+  const duration = DURATION_OPTIONS.find(option => option.value === filters.duration);
+  const distance = DISTANCE_OPTIONS.find(option => option.value === filters.distance);
+
+  return useInfiniteQuery({
+    queryKey: ['experiences', 'search', filters, location],
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const { data, error } = await supabase.rpc('search_experiences', {
+        p_query: filters.query.trim() || undefined,
+        p_language: filters.language,
+        p_voice_id: filters.voiceId,
+        p_min_duration: duration?.min,
+        p_max_duration: duration?.max,
+        p_max_price_cents: filters.maxPrice ? Math.round(filters.maxPrice * 100) : undefined,
+        p_min_rating: filters.minRating,
+        p_latitude: location?.latitude,
+        p_longitude: location?.longitude,
+        p_max_distance_km: location ? distance?.km : undefined,
+        p_sort: filters.sort,
+        p_limit: MARKETPLACE_PAGE_SIZE,
+        p_offset: pageParam
+      });
+
+      if (error) throw error;
+      return {
+        experiences: (data || []) as MarketplaceExperience[],
+        totalCount: data?.[0]?.total_count ?? 0,
+        offset: pageParam
+      };
+    },
+    getNextPageParam: (lastPage) => {
+      const nextOffset = lastPage.offset + lastPage.experiences.length;
+      return nextOffset < lastPage.totalCount ? nextOffset : undefined;
+    }
+  });
+};
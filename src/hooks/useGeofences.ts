@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { Geofence, GeofenceEventType, GeofenceShape } from '@/types/proximityAlerts';
+
+export interface NewGeofence {
+  name: string;
+  shape: GeofenceShape;
+  coordinates: [number, number][];
+  corridor_width?: number;
+  place_id?: string | null;
+  tour_id?: string | null;
+  events?: GeofenceEventType[];
+  dwell_seconds?: number;
+  message?: string | null;
+}
+
+const GEOFENCES_UPDATED_EVENT = 'geofences-updated';
+
+const toGeofence = (row: Tables<'geofences'>): Geofence => ({
+  ...row,
+  shape: row.shape as GeofenceShape,
+  coordinates: row.coordinates as [number, number][],
+  events: row.events as GeofenceEventType[]
+});
+
+/**
+ * Geofences of the given tour, plus every geofence the current user drew.
+ * Tour geofences only come back when the tour's creator drew them (see the geofences RLS policy).
+ * @param tourId Tour currently on the map, if any
+ */
+export const useGeofences = (tourId: string | null | undefined) => {
+  const { user } = useAuth();
+  const [geofences, setGeofences] = useState<Geofence[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshGeofences = useCallback(async () => {
+    if (!user) {
+      setGeofences([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const filters = [`user_id.eq.${user.id}`];
+      if (tourId) filters.push(`tour_id.eq.${tourId}`);
+
+      const { data, error } = await supabase
+        .from('geofences')
+        .select('*')
+        .or(filters.join(','));
+
+      if (error) {
+        console.error('❌ Failed to load geofences:', error);
+        return;
+      }
+
+      setGeofences((data || []).map(toGeofence));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, tourId]);
+
+  useEffect(() => {
+    refreshGeofences();
+
+    // Keep every mounted instance (map, proximity notifications) in sync
+    window.addEventListener(GEOFENCES_UPDATED_EVENT, refreshGeofences);
+    return () => window.removeEventListener(GEOFENCES_UPDATED_EVENT, refreshGeofences);
+  }, [refreshGeofences]);
+
+  const createGeofence = useCallback(async (geofence: NewGeofence): Promise<Geofence | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('geofences')
+      .insert({ ...geofence, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Failed to create geofence:', error);
+      return null;
+    }
+
+    console.log(`📐 Geofence created: ${geofence.name} (${geofence.shape}, ${geofence.coordinates.length} points)`);
+    window.dispatchEvent(new CustomEvent(GEOFENCES_UPDATED_EVENT));
+    return toGeofence(data);
+  }, [user]);
+
+  const deleteGeofence = useCallback(async (geofenceId: string): Promise<boolean> => {
+    const { error } = await supabase.from('geofences').delete().eq('id', geofenceId);
+
+    if (error) {
+      console.error('❌ Failed to delete geofence:', error);
+      return false;
+    }
+
+    console.log('🗑️ Geofence deleted:', geofenceId);
+    window.dispatchEvent(new CustomEvent(GEOFENCES_UPDATED_EVENT));
+    return true;
+  }, []);
+
+  return {
+    geofences,
+    isLoading,
+    createGeofence,
+    deleteGeofence,
+    refreshGeofences
+  };
+};
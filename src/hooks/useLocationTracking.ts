@@ -12,6 +12,9 @@ import {
   MovementState,
   LocationHistory
 } from '@/utils/locationUtils';
+import { recordTripPoint } from '@/utils/tripRecorder';
+import { isNativeLocationAvailable, subscribeToNativeLocation } from '@/utils/nativeLocationBridge';
+import { getSimulatedLocation, isSimulatedWalkActive, subscribeToSimulatedLocation } from '@/utils/simulatedWalk';
 
 interface LocationTrackingState {
   isTracking: boolean;
@@ -60,6 +63,8 @@ export const useLocationTracking = (): LocationTrackingHook => {
   const pollCountRef = useRef<number>(0);
   const locationHistoryRef = useRef<LocationHistory[]>([]);
   const lastSignificantLocationRef = useRef<UserLocation | null>(null);
+  // On iOS/Android the native watcher pushes fixes, including while the phone is locked
+  const nativeUnsubscribeRef = useRef<(() => void) | null>(null);
 
   // Get nearby landmarks using outer_distance for enhanced Street View pre-loading
   const nearbyLandmarks = useNearbyLandmarks({
@@ -109,6 +114,9 @@ export const useLocationTracking = (): LocationTrackingHook => {
     const isSignificant = !lastSignificant || 
       isSignificantLocationChange(lastSignificant, newLocationHistory, LOCATION_CHANGE_THRESHOLD);
 
+    // Full breadcrumb trail for the opt-in trip recorder
+    recordTripPoint(newLocation);
+
     // Update location history
     locationHistoryRef.current.push(newLocationHistory);
     if (locationHistoryRef.current.length > MAX_LOCATION_HISTORY) {
@@ -192,6 +200,27 @@ export const useLocationTracking = (): LocationTrackingHook => {
     }
   }, [setUserLocation, nearbyLandmarks.length, locationState.isInBackground, locationState.pollInterval, preloadForProximity, nearbyLandmarks, proximitySettings?.outer_distance]);
 
+  // The native watcher outlives renders, so it always calls the latest handler
+  const handleLocationUpdateRef = useRef(handleLocationUpdate);
+  handleLocationUpdateRef.current = handleLocationUpdate;
+
+  const handleExternalLocation = useCallback((location: UserLocation) => {
+    handleLocationUpdateRef.current({
+      coords: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: location.accuracy
+      },
+      timestamp: location.timestamp
+    } as GeolocationPosition);
+  }, []);
+
+  // A simulated walk from the debug window stands in for GPS while it is loaded
+  useEffect(() => {
+    if (!locationState.isTracking) return;
+    return subscribeToSimulatedLocation(handleExternalLocation);
+  }, [locationState.isTracking, handleExternalLocation]);
+
   const handleLocationError = useCallback((error: GeolocationPositionError) => {
     let errorMessage = 'Location access failed';
     
@@ -223,6 +252,12 @@ export const useLocationTracking = (): LocationTrackingHook => {
   }, []);
 
   const requestCurrentLocation = useCallback(async (): Promise<UserLocation | null> => {
+    const simulatedLocation = getSimulatedLocation();
+    if (simulatedLocation) {
+      handleExternalLocation(simulatedLocation);
+      return simulatedLocation;
+    }
+
     if (!navigator.geolocation) {
       return null;
     }
@@ -251,7 +286,7 @@ export const useLocationTracking = (): LocationTrackingHook => {
         options
       );
     });
-  }, [handleLocationUpdate, handleLocationError, locationState.movementState, nearbyLandmarks.length]);
+  }, [handleLocationUpdate, handleLocationError, handleExternalLocation, locationState.movementState, nearbyLandmarks.length]);
 
   const forceLocationUpdate = useCallback(async (): Promise<void> => {
     await requestCurrentLocation();
@@ -262,11 +297,20 @@ export const useLocationTracking = (): LocationTrackingHook => {
       clearTimeout(pollIntervalRef.current);
     }
 
+    // Native fixes arrive on their own, no polling needed
+    if (nativeUnsubscribeRef.current) return;
+
     const pollInterval = interval || locationState.pollInterval;
     pollIntervalRef.current = setTimeout(requestLocationUpdate, pollInterval);
   }, [locationState.pollInterval]);
 
   const requestLocationUpdate = useCallback(() => {
+    // Keep the poll loop alive but ignore the device while a simulated walk drives location
+    if (isSimulatedWalkActive()) {
+      scheduleNextPoll();
+      return;
+    }
+
     const options = getOptimalLocationOptions(
       locationState.movementState,
       nearbyLandmarks.length,
@@ -293,6 +337,26 @@ export const useLocationTracking = (): LocationTrackingHook => {
     locationHistoryRef.current = [];
     lastSignificantLocationRef.current = null;
 
+    if (isNativeLocationAvailable()) {
+      nativeUnsubscribeRef.current?.();
+      nativeUnsubscribeRef.current = subscribeToNativeLocation(
+        (location) => {
+          if (!isSimulatedWalkActive()) handleExternalLocation(location);
+        },
+        (errorMessage) => {
+          setLocationState(prev => ({ ...prev, error: errorMessage, consecutiveFailures: prev.consecutiveFailures + 1 }));
+        }
+      );
+
+      setLocationState(prev => ({
+        ...prev,
+        isTracking: true,
+        error: null,
+        consecutiveFailures: 0
+      }));
+      return;
+    }
+
     // Get initial location
     try {
       await requestCurrentLocation();
@@ -309,7 +373,7 @@ export const useLocationTracking = (): LocationTrackingHook => {
 
     // Start adaptive polling
     scheduleNextPoll(BASE_POLLING_INTERVAL);
-  }, [requestCurrentLocation, scheduleNextPoll]);
+  }, [requestCurrentLocation, scheduleNextPoll, handleExternalLocation]);
 
   const stopTracking = useCallback(() => {
     if (pollIntervalRef.current !== null) {
@@ -317,6 +381,11 @@ export const useLocationTracking = (): LocationTrackingHook => {
       pollIntervalRef.current = null;
     }
 
+    if (nativeUnsubscribeRef.current) {
+      nativeUnsubscribeRef.current();
+      nativeUnsubscribeRef.current = null;
+    }
+
     // Reset state
     pollCountRef.current = 0;
     locationHistoryRef.current = [];
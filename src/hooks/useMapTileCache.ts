@@ -0,0 +1,213 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useOfflineCache } from '@/hooks/useOfflineCache';
+import { TourLandmark } from '@/data/tourLandmarks';
+import {
+  BoundingBox,
+  DEFAULT_MIN_ZOOM,
+  DEFAULT_MAX_ZOOM,
+  getBoundingBox,
+  prefetchMapArea,
+  deleteUnreferencedMapResources,
+  isTileCacheSupported
+} from '@/utils/mapTileCache';
+
+export interface MapTileArea {
+  tourId: string;
+  label: string;
+  bbox: BoundingBox;
+  minZoom: number;
+  maxZoom: number;
+  keys: string[];
+  tileCount: number;
+  bytes: number;
+  savedAt: number;
+  lastAccess: number;
+}
+
+export interface TilePrefetchProgress {
+  tourId: string;
+  done: number;
+  total: number;
+}
+
+export const MAP_TILE_QUOTA_BYTES = 100 * 1024 * 1024; // 100 MB across all tours
+const AREA_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days, same as offline tour packs
+const MAX_AREAS = 50;
+const AREAS_UPDATED_EVENT = 'map-tile-areas-updated';
+
+// Vector tiles are .mvt/.pbf, everything else is style, sprite or glyph data
+const isTileKey = (key: string) => /\.(mvt|pbf)$/.test(key) && !key.includes('/fonts/');
+
+// Prefetches and deletions share one Cache Storage and sweep whatever no area references, so they run
+// one at a time across every hook instance. Otherwise a sweep deletes tiles another prefetch just stored.
+let cacheTaskQueue: Promise<unknown> = Promise.resolve();
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = cacheTaskQueue.then(task);
+  cacheTaskQueue = result.catch(() => undefined);
+  return result;
+};
+
+export const useMapTileCache = () => {
+  const [areas, setAreas] = useState<MapTileArea[]>([]);
+  const [prefetchProgress, setPrefetchProgress] = useState<TilePrefetchProgress | null>(null);
+
+  const areaCache = useOfflineCache<MapTileArea>({
+    storeName: 'map-tile-areas',
+    maxAge: AREA_MAX_AGE,
+    maxItems: MAX_AREAS
+  });
+  const { getAllItems: getAllAreaItems, getItem: getAreaItem, setItem: setAreaItem, removeItem: removeAreaItem } = areaCache;
+
+  const refreshAreas = useCallback(async () => {
+    const items = await getAllAreaItems();
+    setAreas(items.map(item => item.data).sort((a, b) => b.lastAccess - a.lastAccess));
+  }, [getAllAreaItems]);
+
+  useEffect(() => {
+    if (!areaCache.isReady) return;
+
+    refreshAreas();
+
+    // Keep every mounted instance (map, pack manager) in sync
+    window.addEventListener(AREAS_UPDATED_EVENT, refreshAreas);
+    return () => window.removeEventListener(AREAS_UPDATED_EVENT, refreshAreas);
+  }, [areaCache.isReady, refreshAreas]);
+
+  // Drop cached responses that no remaining area references (expired or evicted index entries)
+  const sweepOrphans = useCallback(async (remaining: MapTileArea[]) => {
+    const referenced = new Set(remaining.flatMap(area => area.keys));
+    const deleted = await deleteUnreferencedMapResources(referenced);
+    if (deleted > 0) {
+      console.log(`🧹 Removed ${deleted} unreferenced map tiles`);
+    }
+  }, []);
+
+  /**
+   * Evict least recently used areas until `incomingBytes` fits in the quota.
+   * The area being refreshed is never evicted.
+   */
+  const enforceQuota = useCallback(async (incomingBytes: number, keepTourId: string) => {
+    const items = await getAllAreaItems();
+    let remaining = items.map(item => item.data).filter(area => area.tourId !== keepTourId);
+    let usedBytes = remaining.reduce((total, area) => total + area.bytes, 0);
+
+    // Respect the browser's storage quota as well as ours
+    let quota = MAP_TILE_QUOTA_BYTES;
+    if (navigator.storage?.estimate) {
+      try {
+        const estimate = await navigator.storage.estimate();
+        if (estimate.quota && estimate.usage !== undefined) {
+          quota = Math.min(quota, usedBytes + (estimate.quota - estimate.usage));
+        }
+      } catch (error) {
+        console.warn('⚠️ Storage estimate unavailable:', error);
+      }
+    }
+
+    const byLastAccess = [...remaining].sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const area of byLastAccess) {
+      if (usedBytes + incomingBytes <= quota) break;
+
+      console.log('🗑️ Evicting cached map area (LRU):', area.label);
+      await removeAreaItem(area.tourId);
+      remaining = remaining.filter(other => other.tourId !== area.tourId);
+      usedBytes -= area.bytes;
+    }
+
+    return remaining;
+  }, [getAllAreaItems, removeAreaItem]);
+
+  const prefetchTourArea = useCallback(async (
+    tourId: string,
+    label: string,
+    landmarks: TourLandmark[],
+    accessToken: string
+  ): Promise<MapTileArea | null> => {
+    if (!isTileCacheSupported() || !areaCache.isReady) {
+      console.log('🗺️ Map tile caching unavailable');
+      return null;
+    }
+
+    const bbox = getBoundingBox(landmarks.map(landmark => landmark.coordinates));
+    if (!bbox) return null;
+
+    console.log('🗺️ Caching map tiles for tour:', { tourId, label, bbox });
+
+    return runExclusive(async () => {
+      setPrefetchProgress({ tourId, done: 0, total: 0 });
+      try {
+        const result = await prefetchMapArea(bbox, accessToken, {
+          minZoom: DEFAULT_MIN_ZOOM,
+          maxZoom: DEFAULT_MAX_ZOOM,
+          onProgress: (done, total) => setPrefetchProgress({ tourId, done, total })
+        });
+
+        const remaining = await enforceQuota(result.bytes, tourId);
+
+        const now = Date.now();
+        const area: MapTileArea = {
+          tourId,
+          label,
+          bbox,
+          minZoom: DEFAULT_MIN_ZOOM,
+          maxZoom: DEFAULT_MAX_ZOOM,
+          keys: result.keys,
+          tileCount: result.keys.filter(isTileKey).length,
+          bytes: result.bytes,
+          savedAt: now,
+          lastAccess: now
+        };
+
+        await setAreaItem(tourId, area);
+        await sweepOrphans([...remaining, area]);
+
+        console.log('✅ Map tiles cached:', {
+          label,
+          tiles: area.tileCount,
+          failed: result.failed,
+          size: `${(area.bytes / (1024 * 1024)).toFixed(1)} MB`
+        });
+
+        window.dispatchEvent(new CustomEvent(AREAS_UPDATED_EVENT));
+        return area;
+      } catch (error) {
+        console.error('❌ Failed to cache map tiles:', error);
+        return null;
+      } finally {
+        setPrefetchProgress(null);
+      }
+    });
+  }, [areaCache.isReady, enforceQuota, setAreaItem, sweepOrphans]);
+
+  // Mark an area as recently used so LRU eviction keeps it
+  const touchArea = useCallback(async (tourId: string) => {
+    const area = await getAreaItem(tourId);
+    if (!area) return;
+
+    await setAreaItem(tourId, { ...area, lastAccess: Date.now() });
+    window.dispatchEvent(new CustomEvent(AREAS_UPDATED_EVENT));
+  }, [getAreaItem, setAreaItem]);
+
+  const deleteArea = useCallback((tourId: string) => runExclusive(async () => {
+    await removeAreaItem(tourId);
+    const items = await getAllAreaItems();
+    await sweepOrphans(items.map(item => item.data));
+    console.log('🗑️ Cached map area deleted:', tourId);
+    window.dispatchEvent(new CustomEvent(AREAS_UPDATED_EVENT));
+  }), [removeAreaItem, getAllAreaItems, sweepOrphans]);
+
+  const getArea = useCallback((tourId: string) => areas.find(area => area.tourId === tourId) || null, [areas]);
+
+  return {
+    areas,
+    totalBytes: areas.reduce((total, area) => total + area.bytes, 0),
+    quotaBytes: MAP_TILE_QUOTA_BYTES,
+    isSupported: isTileCacheSupported() && areaCache.isSupported,
+    isPrefetching: prefetchProgress !== null,
+    prefetchProgress,
+    prefetchTourArea,
+    touchArea,
+    deleteArea,
+    getArea
+  };
+};
@@ -151,6 +151,31 @@ export const useOfflineCache = <T>(config: OfflineCacheConfig) => {
     }
   }, [isSupported, dbReady, getDB, storeName]);
 
+  const getAllItems = useCallback(async (): Promise<Array<{ key: string; data: T; timestamp: number }>> => {
+    if (!isSupported || !dbReady) return [];
+
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+
+      const items = await new Promise<Array<CacheItem<T> & { id: string }>>((resolve, reject) => {
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Skip expired or outdated items, cleanup() will remove them
+      const now = Date.now();
+      return items
+        .filter(item => now - item.timestamp <= maxAge && item.version === version)
+        .map(item => ({ key: item.id, data: item.data, timestamp: item.timestamp }));
+    } catch (error) {
+      console.error('Failed to list cached items:', error);
+      return [];
+    }
+  }, [isSupported, dbReady, getDB, storeName, maxAge, version]);
+
   const cleanup = useCallback(async (): Promise<void> => {
     if (!isSupported || !dbReady) return;
 
@@ -213,6 +238,7 @@ export const useOfflineCache = <T>(config: OfflineCacheConfig) => {
     setItem,
     getItem,
     removeItem,
+    getAllItems,
     cleanup,
     clear
   };
@@ -0,0 +1,370 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useOfflineCache } from '@/hooks/useOfflineCache';
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { useStreetView } from '@/hooks/useStreetView';
+import { PhotoData } from '@/hooks/useEnhancedPhotos';
+import { OptimalRouteResult } from '@/hooks/useOptimalRoute';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { Tables } from '@/integrations/supabase/types';
+import { normalizeOpeningPeriods } from '@/utils/itineraryPlanner';
+
+export interface OfflineStreetViewData {
+  imageUrl: string;
+  heading: number;
+  pitch: number;
+  fov: number;
+  location: {
+    lat: number;
+    lng: number;
+  };
+  landmarkName: string;
+  metadata: {
+    status: string;
+    copyright?: string;
+  };
+}
+
+export interface OfflineTourPack {
+  tourId: string;
+  destination: string;
+  tour: Tables<'generated_tours'>;
+  landmarks: Tables<'generated_landmarks'>[];
+  tourLandmarks: TourLandmark[];
+  photos: Record<string, PhotoData[]>; // keyed by place_id
+  streetView: Record<string, OfflineStreetViewData>; // keyed by TourLandmark.placeId
+  route: OptimalRouteResult | null;
+  savedAt: number;
+  sizeBytes: number;
+}
+
+export interface OfflineTourPackSummary {
+  tourId: string;
+  destination: string;
+  landmarkCount: number;
+  photoCount: number;
+  hasRoute: boolean;
+  savedAt: number;
+  sizeBytes: number;
+}
+
+export interface DownloadProgress {
+  tourId: string;
+  step: string;
+  percentage: number;
+}
+
+const PACK_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_PACKS = 20;
+const MAX_PHOTOS_PER_LANDMARK = 3;
+
+// Same id scheme Map.tsx uses for tour landmark features. Those ids only hold for the tour currently on
+// the map, so packs keep Street View by place and copy it under these ids when they are loaded.
+const STREETVIEW_CACHE_STORE = 'streetview-images';
+const getMapLandmarkId = (index: number) => `tour-landmark-${index}`;
+
+// PostgreSQL point format: "(lng,lat)"
+const parsePointCoordinates = (coordinates: unknown): [number, number] | null => {
+  if (!coordinates) return null;
+  const matches = coordinates.toString().match(/\(([^,]+),([^)]+)\)/);
+  if (!matches) return null;
+
+  const lng = parseFloat(matches[1]);
+  const lat = parseFloat(matches[2]);
+  if (isNaN(lng) || isNaN(lat)) return null;
+
+  return [lng, lat];
+};
+
+// Convert a remote image to a data URL so it can be rendered without network access
+const toDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not inline image for offline use:', error);
+    return null;
+  }
+};
+
+export const summarizePack = (pack: OfflineTourPack): OfflineTourPackSummary => ({
+  tourId: pack.tourId,
+  destination: pack.destination,
+  landmarkCount: pack.tourLandmarks.length,
+  photoCount: Object.values(pack.photos).reduce((total, photos) => total + photos.length, 0),
+  hasRoute: !!pack.route?.routeGeoJSON,
+  savedAt: pack.savedAt,
+  sizeBytes: pack.sizeBytes
+});
+
+export const formatPackSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const useOfflineTourPacks = () => {
+  const [packs, setPacks] = useState<OfflineTourPackSummary[]>([]);
+  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
+  const { isOnline } = useNetworkStatus();
+  const { fetchStreetView } = useStreetView();
+
+  const packCache = useOfflineCache<OfflineTourPack>({
+    storeName: 'tour-packs',
+    maxAge: PACK_MAX_AGE,
+    maxItems: MAX_PACKS
+  });
+  const { getAllItems: getAllPackItems, getItem: getPackItem } = packCache;
+
+  // Shared with useEnhancedStreetView (same store and limits) so Map.tsx popups find Street View while offline
+  const streetViewCache = useOfflineCache<OfflineStreetViewData>({
+    storeName: STREETVIEW_CACHE_STORE,
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    maxItems: 200
+  });
+
+  const refreshPacks = useCallback(async () => {
+    const items = await getAllPackItems();
+    setPacks(
+      items
+        .map(item => summarizePack(item.data))
+        .sort((a, b) => b.savedAt - a.savedAt)
+    );
+  }, [getAllPackItems]);
+
+  useEffect(() => {
+    if (packCache.isReady) {
+      refreshPacks();
+    }
+  }, [packCache.isReady, refreshPacks]);
+
+  const resolvePhotos = async (landmarks: Tables<'generated_landmarks'>[]): Promise<Record<string, PhotoData[]>> => {
+    const photoRequests = landmarks
+      .filter(landmark => landmark.place_id && landmark.photo_references?.length)
+      .flatMap(landmark => landmark.photo_references!.slice(0, MAX_PHOTOS_PER_LANDMARK).map(photoReference => ({
+        photoReference,
+        placeId: landmark.place_id!,
+        sizes: [
+          { name: 'thumb' as const, maxWidth: 400 },
+          { name: 'medium' as const, maxWidth: 800 },
+          { name: 'large' as const, maxWidth: 800 } // large is only used for zoom, keep the pack small
+        ]
+      })));
+
+    if (photoRequests.length === 0) return {};
+
+    const { data, error } = await supabase.functions.invoke('google-photo-urls-batch', {
+      body: { photoReferences: photoRequests }
+    });
+
+    if (error || !data?.success) {
+      console.warn('⚠️ Photo URL batch failed for offline pack:', error || data?.errors);
+      return {};
+    }
+
+    const photos: Record<string, PhotoData[]> = {};
+
+    for (const [index, request] of photoRequests.entries()) {
+      const urls = data.photos[request.photoReference];
+      if (!urls) continue;
+
+      const inlined = await toDataUrl(urls.medium);
+      const photoData: PhotoData = {
+        id: index + 1,
+        photoReference: request.photoReference,
+        urls: {
+          thumb: inlined || urls.thumb,
+          medium: inlined || urls.medium,
+          large: inlined || urls.large
+        },
+        attributions: [],
+        width: 800,
+        height: 600,
+        photoSource: 'google_places_api'
+      };
+
+      photos[request.placeId] = [...(photos[request.placeId] || []), photoData];
+    }
+
+    return photos;
+  };
+
+  const downloadPack = useCallback(async (tourId: string, route: OptimalRouteResult | null = null): Promise<OfflineTourPack | null> => {
+    if (!isOnline) {
+      console.warn('📴 Cannot download tour pack while offline');
+      return null;
+    }
+
+    if (!packCache.isReady) {
+      console.warn('⚠️ Offline storage is not ready');
+      return null;
+    }
+
+    console.log('📦 Downloading offline tour pack:', tourId);
+
+    try {
+      setDownloadProgress({ tourId, step: 'Fetching tour...', percentage: 10 });
+
+      const { data: tour, error: tourError } = await supabase
+        .from('generated_tours')
+        .select('*')
+        .eq('id', tourId)
+        .single();
+
+      if (tourError || !tour) {
+        throw new Error(tourError?.message || 'Tour not found');
+      }
+
+      const { data: landmarks, error: landmarksError } = await supabase
+        .from('generated_landmarks')
+        .select('*')
+        .eq('tour_id', tourId);
+
+      if (landmarksError) {
+        throw new Error(landmarksError.message);
+      }
+
+      // landmark_id is "landmark-{n}", sort numerically to keep the generated order
+      const landmarkOrder = (landmarkId: string) => parseInt(landmarkId.replace(/\D/g, ''), 10) || 0;
+      landmarks?.sort((a, b) => landmarkOrder(a.landmark_id) - landmarkOrder(b.landmark_id));
+
+      const tourLandmarks: TourLandmark[] = (landmarks || [])
+        .map((landmark): TourLandmark | null => {
+          const coordinates = parsePointCoordinates(landmark.coordinates);
+          if (!coordinates) return null;
+
+          return {
+            placeId: landmark.place_id || landmark.landmark_id,
+            id: landmark.place_id || landmark.landmark_id,
+            name: landmark.name,
+            coordinates,
+            description: landmark.description || landmark.editorial_summary || '',
+            rating: landmark.rating ?? undefined,
+            types: landmark.types || [],
+            formattedAddress: landmark.formatted_address ?? undefined,
+            openingPeriods: normalizeOpeningPeriods(landmark.opening_hours),
+            tourId,
+            confidence: (landmark.confidence as TourLandmark['confidence']) ?? undefined
+          };
+        })
+        .filter((landmark): landmark is TourLandmark => landmark !== null);
+
+      setDownloadProgress({ tourId, step: 'Downloading photos...', percentage: 35 });
+      const photos = await resolvePhotos(landmarks || []);
+
+      setDownloadProgress({ tourId, step: 'Caching Street View...', percentage: 70 });
+      const streetView: Record<string, OfflineStreetViewData> = {};
+      for (const landmark of tourLandmarks) {
+        try {
+          const data = await fetchStreetView({
+            id: `${tourId}:${landmark.placeId}`,
+            name: landmark.name,
+            coordinates: landmark.coordinates,
+            description: landmark.description
+          });
+          if (data) {
+            streetView[landmark.placeId] = data;
+          }
+        } catch (error) {
+          console.warn(`⚠️ Street View unavailable for ${landmark.name}:`, error);
+        }
+      }
+
+      setDownloadProgress({ tourId, step: 'Saving pack...', percentage: 90 });
+
+      const pack: OfflineTourPack = {
+        tourId,
+        destination: tour.destination,
+        tour,
+        landmarks: landmarks || [],
+        tourLandmarks,
+        photos,
+        streetView,
+        route,
+        savedAt: Date.now(),
+        sizeBytes: 0
+      };
+      pack.sizeBytes = new Blob([JSON.stringify(pack)]).size;
+
+      await packCache.setItem(tourId, pack);
+      await refreshPacks();
+
+      console.log('✅ Offline tour pack saved:', {
+        destination: pack.destination,
+        landmarks: tourLandmarks.length,
+        size: formatPackSize(pack.sizeBytes)
+      });
+
+      window.dispatchEvent(new CustomEvent('offline-pack-saved', { detail: { tourId, destination: pack.destination, landmarks: tourLandmarks } }));
+
+      return pack;
+    } catch (error) {
+      console.error('❌ Failed to download offline tour pack:', error);
+      throw error;
+    } finally {
+      setDownloadProgress(null);
+    }
+  }, [isOnline, packCache, fetchStreetView, refreshPacks]);
+
+  const getPack = useCallback(async (tourId: string): Promise<OfflineTourPack | null> => {
+    return getPackItem(tourId);
+  }, [getPackItem]);
+
+  const deletePack = useCallback(async (tourId: string): Promise<void> => {
+    await packCache.removeItem(tourId);
+    await refreshPacks();
+    console.log('🗑️ Offline tour pack deleted:', tourId);
+  }, [packCache, refreshPacks]);
+
+  // Make a loaded pack's Street View the one map popups find for its landmarks, in the order they are shown
+  const restorePackStreetView = useCallback(async (pack: OfflineTourPack): Promise<void> => {
+    if (!streetViewCache.isReady) return;
+
+    for (const [index, landmark] of pack.tourLandmarks.entries()) {
+      const mapLandmarkId = getMapLandmarkId(index);
+      const data = pack.streetView[landmark.placeId];
+      try {
+        if (data) {
+          await streetViewCache.setItem(mapLandmarkId, data);
+        } else {
+          // Don't leave another tour's image behind under this id
+          await streetViewCache.removeItem(mapLandmarkId);
+        }
+      } catch (error) {
+        console.warn(`⚠️ Could not restore Street View for ${landmark.name}:`, error);
+      }
+    }
+  }, [streetViewCache]);
+
+  // Look up photos for a landmark across all saved packs (used by map popups while offline)
+  const getOfflinePhotos = useCallback(async (placeId: string): Promise<PhotoData[]> => {
+    const items = await getAllPackItems();
+    for (const item of items) {
+      const photos = item.data.photos[placeId];
+      if (photos?.length) return photos;
+    }
+    return [];
+  }, [getAllPackItems]);
+
+  return {
+    packs,
+    isReady: packCache.isReady,
+    isSupported: packCache.isSupported,
+    isDownloading: downloadProgress !== null,
+    downloadProgress,
+    downloadPack,
+    getPack,
+    deletePack,
+    getOfflinePhotos,
+    restorePackStreetView,
+    refreshPacks
+  };
+};
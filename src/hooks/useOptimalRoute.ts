@@ -1,13 +1,39 @@
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { decodePolyline, createRouteGeoJSON } from '@/utils/polylineDecoder';
 import { TourLandmark } from '@/data/tourLandmarks';
 import { toast } from "sonner";
 import { calculateCentroid, calculateDistance, findNearestLandmark, formatDistance } from '@/utils/proximityUtils';
 import { TravelMode } from '@/components/TravelModeSelector';
+import { OpeningPeriod } from '@/utils/itineraryPlanner';
+import {
+  RouteSchedule,
+  ScheduleAccessibility,
+  ScheduleCrowds,
+  ScheduleWeather,
+  buildRouteSchedule,
+  estimateTravelMinutes,
+  findTimeWindowOrder,
+  parseDurationMinutes
+} from '@/utils/routeSchedule';
+import { WeatherProvider } from '@/utils/weatherProvider';
+import { applyCrowdsToSchedule, findQuietOrder, resolvePopularTimes, totalBusyMinutes } from '@/utils/crowdPlanner';
+import { AccessibilityProfile, AccessibilityStatus, getMaxSegmentMeters, hasAccessibilityNeeds } from '@/utils/accessibilityProfile';
+import {
+  applyAccessibilityToSchedule,
+  findShortSegmentOrder,
+  resolveAccessibilityStatuses
+} from '@/utils/accessibleRouting';
+import {
+  FORECAST_HOURS,
+  applyWeatherToSchedule,
+  findDryOrder,
+  suggestIndoorSwaps,
+  totalWetOutdoorMinutes
+} from '@/utils/weatherPlanner';
 
-interface OptimalRouteResult {
+export interface OptimalRouteResult {
   routeGeoJSON: GeoJSON.LineString | null;
   optimizedLandmarks: TourLandmark[];
   routeStats: {
@@ -17,6 +43,13 @@ interface OptimalRouteResult {
   } | null;
   isLocationBasedRoute: boolean;
   travelMode: TravelMode | null;
+  schedule?: RouteSchedule | null;
+}
+
+export interface RouteScheduleOptions {
+  startTime: Date;
+  weatherProvider?: WeatherProvider; // plan outdoor stops around the forecast
+  accessibility?: AccessibilityProfile; // cap walking segments and check step-free access
 }
 
 interface UseOptimalRouteReturn extends OptimalRouteResult {
@@ -25,9 +58,12 @@ interface UseOptimalRouteReturn extends OptimalRouteResult {
   calculateOptimalRoute: (
     userLocation: [number, number], 
     landmarks: TourLandmark[],
-    travelMode: TravelMode
+    travelMode: TravelMode,
+    scheduleOptions?: RouteScheduleOptions
   ) => Promise<void>;
   clearRoute: () => void;
+  restoreRoute: (route: OptimalRouteResult) => void;
+  updateSchedule: (startTime: Date, dwellMinutes: Record<string, number>) => void;
 }
 
 export const useOptimalRoute = (): UseOptimalRouteReturn => {
@@ -38,11 +74,39 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
   const [routeStats, setRouteStats] = useState<OptimalRouteResult['routeStats']>(null);
   const [isLocationBasedRoute, setIsLocationBasedRoute] = useState(false);
   const [travelMode, setTravelMode] = useState<TravelMode | null>(null);
+  const [schedule, setSchedule] = useState<RouteSchedule | null>(null);
+  const openingHoursCache = useRef<Record<string, OpeningPeriod[]>>({});
+  const accessibilityCache = useRef<Record<string, AccessibilityStatus>>({});
+  // Routed leg times of the current route, so dwell/start time edits can be rescheduled without the API
+  const lastScheduleInput = useRef<{ legMinutes: number[]; hours: Record<string, OpeningPeriod[] | undefined>; reordered: boolean; weather?: ScheduleWeather; crowds?: ScheduleCrowds; accessibility?: ScheduleAccessibility } | null>(null);
+
+  // Opening hours from the landmark itself, otherwise from get-place-hours (cached per place)
+  const resolveOpeningHours = async (landmarks: TourLandmark[]): Promise<Record<string, OpeningPeriod[] | undefined>> => {
+    await Promise.all(landmarks.map(async landmark => {
+      if (landmark.openingPeriods || openingHoursCache.current[landmark.placeId] || landmark.placeId.startsWith('imported-')) return;
+
+      try {
+        const { data, error: hoursError } = await supabase.functions.invoke('get-place-hours', {
+          body: { place_id: landmark.placeId }
+        });
+        if (hoursError) throw hoursError;
+        openingHoursCache.current[landmark.placeId] = data?.regular_periods || [];
+      } catch (hoursErr) {
+        console.warn(`⚠️ Opening hours unavailable for ${landmark.name}:`, hoursErr);
+      }
+    }));
+
+    return Object.fromEntries(landmarks.map(landmark => [
+      landmark.placeId,
+      landmark.openingPeriods || openingHoursCache.current[landmark.placeId]
+    ]));
+  };
 
   const calculateOptimalRoute = useCallback(async (
     userLocation: [number, number], 
     landmarks: TourLandmark[],
-    selectedTravelMode: TravelMode
+    selectedTravelMode: TravelMode,
+    scheduleOptions?: RouteScheduleOptions
   ) => {
     if (!landmarks || landmarks.length === 0) {
       toast.error("No landmarks available for route optimization");
@@ -64,6 +128,8 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
     setRouteGeoJSON(null);
     setOptimizedLandmarks([]);
     setRouteStats(null);
+    setSchedule(null);
+    lastScheduleInput.current = null;
 
     try {
       // Step 1: Calculate tour centroid and determine optimal starting point
@@ -113,50 +179,54 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
         });
       }
 
-      // Prepare waypoints for the API
-      const waypoints = landmarks.map(landmark => ({
-        placeId: landmark.placeId,
-        coordinates: landmark.coordinates as [number, number]
-      }));
+      // Call the edge function with determined origin
+      const requestRoute = async (orderedLandmarks: TourLandmark[], optimizeWaypointOrder: boolean) => {
+        const waypoints = orderedLandmarks.map(landmark => ({
+          placeId: landmark.placeId,
+          coordinates: landmark.coordinates as [number, number]
+        }));
+
+        console.log('📍 Prepared waypoints:', waypoints.length, optimizeWaypointOrder ? '(optimizing order)' : '(fixed order)');
 
-      console.log('📍 Prepared waypoints:', waypoints.length);
+        const { data, error: apiError } = await supabase.functions.invoke('google-routes-optimization', {
+          body: {
+            origin: { coordinates: routeOrigin },
+            waypoints,
+            returnToOrigin: true,
+            travelMode: selectedTravelMode,
+            optimizeWaypointOrder
+          }
+        });
 
-      // Call the edge function with determined origin
-      const { data, error: apiError } = await supabase.functions.invoke('google-routes-optimization', {
-        body: {
-          origin: { coordinates: routeOrigin },
-          waypoints,
-          returnToOrigin: true,
-          travelMode: selectedTravelMode
+        if (apiError) {
+          console.error('❌ Edge function error:', apiError);
+          throw new Error(apiError.message || 'Route optimization failed');
         }
-      });
 
-      if (apiError) {
-        console.error('❌ Edge function error:', apiError);
-        throw new Error(apiError.message || 'Route optimization failed');
-      }
-
-      if (!data.success) {
-        throw new Error(data.error || 'Route optimization failed');
-      }
+        if (!data.success) {
+          throw new Error(data.error || 'Route optimization failed');
+        }
 
-      console.log('✅ Route optimization successful:', data);
+        console.log('✅ Route optimization successful:', data);
+        return data.route;
+      };
 
-      const { route } = data;
+      const parseLegMinutes = (routeLegs: Array<{ duration?: string }> | undefined) =>
+        (routeLegs || []).map(leg => parseDurationMinutes(leg.duration));
 
-      // Decode the polyline
-      const decodedCoordinates = decodePolyline(route.encodedPolyline);
-      if (decodedCoordinates.length === 0) {
-        throw new Error('Failed to decode route polyline');
-      }
+      // Calibrate straight-line estimates against the routed legs before searching for a better order
+      const getTravelScale = (order: TourLandmark[], legMinutes: number[]) => {
+        const estimatedTotal = order.reduce((total, landmark, index) =>
+          total + estimateTravelMinutes(index === 0 ? routeOrigin : order[index - 1].coordinates, landmark.coordinates, selectedTravelMode), 0);
+        const routedTotal = legMinutes.slice(0, order.length).reduce((total, minutes) => total + minutes, 0);
+        return estimatedTotal > 0 && routedTotal > 0 ? routedTotal / estimatedTotal : 1;
+      };
 
-      // Create GeoJSON for the route
-      const geoJSON = createRouteGeoJSON(decodedCoordinates);
-      setRouteGeoJSON(geoJSON);
+      let route = await requestRoute(landmarks, true);
 
       // Reorder landmarks based on optimization
       const optimizedOrder = route.optimizedWaypointOrder || [];
-      const reorderedLandmarks: TourLandmark[] = [];
+      let reorderedLandmarks: TourLandmark[] = [];
       
       // Add landmarks in optimized order
       optimizedOrder.forEach((originalIndex: number) => {
@@ -170,7 +240,165 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
         reorderedLandmarks.push(...landmarks);
       }
 
+      // Walkers with a distance limit: reorder so no walk between stops is longer than they can manage
+      const accessibility = scheduleOptions?.accessibility && hasAccessibilityNeeds(scheduleOptions.accessibility)
+        ? scheduleOptions.accessibility
+        : null;
+      const maxSegmentMeters = accessibility && selectedTravelMode === 'WALK' ? getMaxSegmentMeters(accessibility) : null;
+      const getLongestLeg = (routeLegs: Array<{ distanceMeters?: number }> | undefined) =>
+        Math.max(0, ...(routeLegs || []).slice(0, reorderedLandmarks.length).map(leg => leg.distanceMeters || 0));
+
+      if (maxSegmentMeters !== null && getLongestLeg(route.legs) > maxSegmentMeters) {
+        const shortOrder = findShortSegmentOrder(routeOrigin, reorderedLandmarks, maxSegmentMeters);
+        if (shortOrder) {
+          console.log('♿ Reordering stops to shorten walks:', shortOrder.map(landmark => landmark.name));
+          const shortRoute = await requestRoute(shortOrder, false);
+          if (getLongestLeg(shortRoute.legs) < getLongestLeg(route.legs)) {
+            route = shortRoute;
+            reorderedLandmarks = shortOrder;
+          }
+        }
+      }
+
+      // Check the optimized order against opening hours and visit durations
+      let routeSchedule: RouteSchedule | null = null;
+      if (scheduleOptions) {
+        const hours = await resolveOpeningHours(landmarks);
+        const legMinutes = parseLegMinutes(route.legs);
+        const startTime = scheduleOptions.startTime;
+        routeSchedule = buildRouteSchedule(reorderedLandmarks, legMinutes, startTime, hours);
+
+        if (routeSchedule.errorCount > 0) {
+          const travelScale = getTravelScale(reorderedLandmarks, legMinutes);
+          const betterOrder = findTimeWindowOrder(routeOrigin, reorderedLandmarks, startTime, selectedTravelMode, hours, travelScale);
+          if (betterOrder) {
+            console.log('🕒 Reordering stops to fit opening hours:', betterOrder.map(landmark => landmark.name));
+            const fixedRoute = await requestRoute(betterOrder, false);
+            const fixedLegs = parseLegMinutes(fixedRoute.legs);
+            const fixedSchedule = buildRouteSchedule(betterOrder, fixedLegs, startTime, hours, true);
+
+            if (fixedSchedule.errorCount < routeSchedule.errorCount) {
+              route = fixedRoute;
+              reorderedLandmarks = betterOrder;
+              routeSchedule = fixedSchedule;
+            }
+          }
+        }
+
+        // Prefer each stop's quieter hours where popular times are known
+        const popularTimes = await resolvePopularTimes(reorderedLandmarks, startTime.getDay());
+        const hasPopularTimes = Object.keys(popularTimes).length > 0;
+        let movedToQuietHours = false;
+
+        if (hasPopularTimes) {
+          const travelScale = getTravelScale(reorderedLandmarks, parseLegMinutes(route.legs));
+          const quietOrder = findQuietOrder(routeOrigin, reorderedLandmarks, startTime, selectedTravelMode, hours, popularTimes, travelScale);
+          if (quietOrder) {
+            console.log('👥 Reordering stops around busy hours:', quietOrder.map(landmark => landmark.name));
+            const quietRoute = await requestRoute(quietOrder, false);
+            const quietSchedule = buildRouteSchedule(quietOrder, parseLegMinutes(quietRoute.legs), startTime, hours, true);
+
+            if (quietSchedule.errorCount <= routeSchedule.errorCount &&
+                totalBusyMinutes(quietSchedule, popularTimes) < totalBusyMinutes(routeSchedule, popularTimes)) {
+              route = quietRoute;
+              reorderedLandmarks = quietOrder;
+              routeSchedule = quietSchedule;
+              movedToQuietHours = true;
+            }
+          }
+        }
+
+        // Forecast-aware mode: move outdoor stops into dry hours, then offer indoor swaps for the rest
+        const weatherProvider = scheduleOptions.weatherProvider;
+        const forecastPlaceId = reorderedLandmarks.find(landmark => !landmark.placeId.startsWith('imported-'))?.placeId;
+        const forecast = weatherProvider && forecastPlaceId
+          ? await weatherProvider.getHourlyForecast(forecastPlaceId, FORECAST_HOURS)
+          : null;
+
+        if (weatherProvider && forecast) {
+          routeSchedule = applyWeatherToSchedule(routeSchedule, forecast);
+          let movedToDryHours = false;
+
+          const travelScale = getTravelScale(reorderedLandmarks, parseLegMinutes(route.legs));
+          const dryOrder = findDryOrder(routeOrigin, reorderedLandmarks, startTime, selectedTravelMode, hours, forecast, travelScale);
+          if (dryOrder) {
+            console.log('🌦️ Reordering stops around forecast rain:', dryOrder.map(landmark => landmark.name));
+            const dryRoute = await requestRoute(dryOrder, false);
+            const drySchedule = applyWeatherToSchedule(
+              buildRouteSchedule(dryOrder, parseLegMinutes(dryRoute.legs), startTime, hours, true),
+              forecast
+            );
+
+            if (drySchedule.errorCount <= routeSchedule.errorCount &&
+                totalWetOutdoorMinutes(drySchedule, forecast) < totalWetOutdoorMinutes(routeSchedule, forecast)) {
+              route = dryRoute;
+              reorderedLandmarks = dryOrder;
+              routeSchedule = drySchedule;
+              movedToDryHours = true;
+            }
+          }
+
+          const indoorSwaps = await suggestIndoorSwaps(routeSchedule);
+          routeSchedule = {
+            ...routeSchedule,
+            weather: {
+              provider: weatherProvider.name,
+              checkedAt: new Date().toISOString(),
+              forecast,
+              movedToDryHours,
+              indoorSwaps
+            }
+          };
+
+          if (indoorSwaps.length > 0) {
+            toast.info(`Rain is forecast during ${indoorSwaps.length} outdoor stop${indoorSwaps.length > 1 ? 's' : ''} - see the schedule for indoor alternatives`);
+          }
+        } else if (weatherProvider) {
+          toast.warning('Weather forecast unavailable, planned without it');
+        }
+
+        if (hasPopularTimes) {
+          routeSchedule = { ...applyCrowdsToSchedule(routeSchedule, popularTimes), crowds: { popularTimes, movedToQuietHours } };
+        }
+
+        let scheduleAccessibility: ScheduleAccessibility | undefined;
+        if (accessibility) {
+          scheduleAccessibility = {
+            profile: accessibility,
+            legMeters: selectedTravelMode === 'WALK'
+              ? (route.legs || []).map((leg: { distanceMeters?: number }) => leg.distanceMeters || 0)
+              : [],
+            statusByPlaceId: await resolveAccessibilityStatuses(reorderedLandmarks, accessibility, accessibilityCache.current)
+          };
+          routeSchedule = applyAccessibilityToSchedule(routeSchedule, scheduleAccessibility);
+        }
+
+        lastScheduleInput.current = {
+          legMinutes: parseLegMinutes(route.legs),
+          hours,
+          reordered: routeSchedule.reordered,
+          weather: routeSchedule.weather,
+          crowds: routeSchedule.crowds,
+          accessibility: scheduleAccessibility
+        };
+
+        if (routeSchedule.errorCount > 0) {
+          toast.warning(`${routeSchedule.errorCount} stop${routeSchedule.errorCount > 1 ? 's' : ''} can't be visited within opening hours`);
+        }
+      }
+
+      // Decode the polyline
+      const decodedCoordinates = decodePolyline(route.encodedPolyline);
+      if (decodedCoordinates.length === 0) {
+        throw new Error('Failed to decode route polyline');
+      }
+
+      // Create GeoJSON for the route
+      const geoJSON = createRouteGeoJSON(decodedCoordinates);
+      setRouteGeoJSON(geoJSON);
+
       setOptimizedLandmarks(reorderedLandmarks);
+      setSchedule(routeSchedule);
 
       // Set route statistics
       const distanceKm = Math.round((route.distanceMeters || 0) / 1000 * 100) / 100;
@@ -210,10 +438,49 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
     setRouteStats(null);
     setIsLocationBasedRoute(false);
     setTravelMode(null);
+    setSchedule(null);
+    lastScheduleInput.current = null;
     setError(null);
     console.log('🧹 Route cleared');
   }, []);
 
+  // Re-apply a previously calculated route (e.g. from an offline tour pack) without calling the API
+  const restoreRoute = useCallback((route: OptimalRouteResult) => {
+    setRouteGeoJSON(route.routeGeoJSON);
+    setOptimizedLandmarks(route.optimizedLandmarks || []);
+    setRouteStats(route.routeStats);
+    setIsLocationBasedRoute(route.isLocationBasedRoute);
+    setTravelMode(route.travelMode);
+    setSchedule(route.schedule || null);
+    lastScheduleInput.current = route.schedule ? {
+      legMinutes: route.schedule.stops.map(stop => stop.travelMinutes),
+      hours: Object.fromEntries(route.optimizedLandmarks.map(landmark => [landmark.placeId, landmark.openingPeriods])),
+      reordered: route.schedule.reordered,
+      weather: route.schedule.weather,
+      crowds: route.schedule.crowds,
+      accessibility: route.schedule.accessibility
+    } : null;
+    setError(null);
+    console.log('♻️ Route restored:', route.optimizedLandmarks?.length || 0, 'stops');
+  }, []);
+
+  // Recompute ETAs after changing the start time or a stop's dwell time, keeping the current order
+  const updateSchedule = useCallback((startTime: Date, dwellMinutes: Record<string, number>) => {
+    if (!lastScheduleInput.current) return;
+
+    const { legMinutes, hours, reordered, weather, crowds, accessibility } = lastScheduleInput.current;
+    const landmarks = optimizedLandmarks.map(landmark =>
+      dwellMinutes[landmark.placeId] !== undefined ? { ...landmark, dwellMinutes: dwellMinutes[landmark.placeId] } : landmark
+    );
+
+    setOptimizedLandmarks(landmarks);
+    let nextSchedule = buildRouteSchedule(landmarks, legMinutes, startTime, hours, reordered);
+    if (weather) nextSchedule = { ...applyWeatherToSchedule(nextSchedule, weather.forecast), weather };
+    if (crowds) nextSchedule = { ...applyCrowdsToSchedule(nextSchedule, crowds.popularTimes), crowds };
+    if (accessibility) nextSchedule = applyAccessibilityToSchedule(nextSchedule, accessibility);
+    setSchedule(nextSchedule);
+  }, [optimizedLandmarks]);
+
   return {
     isLoading,
     error,
@@ -222,7 +489,10 @@ export const useOptimalRoute = (): UseOptimalRouteReturn => {
     routeStats,
     isLocationBasedRoute,
     travelMode,
+    schedule,
     calculateOptimalRoute,
-    clearRoute
+    clearRoute,
+    restoreRoute,
+    updateSchedule
   };
 };
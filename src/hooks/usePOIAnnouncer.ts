@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { ContextualPOIUpdate } from '@/hooks/useContextualPOIPolling';
+import { TOUR_LANDMARKS } from '@/data/tourLandmarks';
+import { calculateBearing, calculateDistance } from '@/utils/locationUtils';
+import { buildPOISystemAlert, MIN_ANNOUNCEMENT_SCORE, ScoredPOI, scorePOIs } from '@/utils/poiRelevance';
+
+interface UsePOIAnnouncerOptions {
+  isSpeaking: boolean; // whether the agent is talking right now
+  radius: number;
+  sendAlert: (message: string) => void;
+  minIntervalMs?: number;
+}
+
+interface PendingAnnouncement {
+  candidate: ScoredPOI;
+  queuedAt: number;
+}
+
+const MIN_HEADING_DISTANCE = 10; // meters moved before the direction of travel means anything
+const PENDING_TTL = 120000; // a place queued this long ago is probably behind us
+
+/**
+ * Picks the one nearby place worth mentioning from each contextual POI update and hands it to the
+ * guide at most once per session, never while the guide is talking and never more often than minIntervalMs.
+ */
+export const usePOIAnnouncer = ({
+  isSpeaking,
+  radius,
+  sendAlert,
+  minIntervalMs = 90000 // 90 seconds
+}: UsePOIAnnouncerOptions) => {
+  const announcedIdsRef = useRef<Set<string>>(new Set());
+  const lastLocationRef = useRef<{ latitude: number; longitude: number } | null>(null);
+  const headingRef = useRef<number | null>(null);
+  const pendingRef = useRef<PendingAnnouncement | null>(null);
+  const lastSentAtRef = useRef(0);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const isSpeakingRef = useRef(isSpeaking);
+  const sendAlertRef = useRef(sendAlert);
+
+  useEffect(() => {
+    sendAlertRef.current = sendAlert;
+  }, [sendAlert]);
+
+  const flush = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+
+    if (Date.now() - pending.queuedAt > PENDING_TTL) {
+      console.log('⏭️ Dropping stale POI announcement:', pending.candidate.poi.name);
+      pendingRef.current = null;
+      return;
+    }
+
+    // Wait for the guide to finish its turn; the isSpeaking effect calls us again
+    if (isSpeakingRef.current) {
+      console.log('🤫 Guide is speaking, holding POI announcement:', pending.candidate.poi.name);
+      return;
+    }
+
+    const wait = lastSentAtRef.current + minIntervalMs - Date.now();
+    if (wait > 0) {
+      if (!retryTimeoutRef.current) {
+        retryTimeoutRef.current = setTimeout(() => {
+          retryTimeoutRef.current = null;
+          flush();
+        }, wait);
+      }
+      return;
+    }
+
+    const { poi, score } = pending.candidate;
+    pendingRef.current = null;
+    announcedIdsRef.current.add(poi.placeId);
+    lastSentAtRef.current = Date.now();
+
+    console.log('📡 Announcing POI to guide:', { name: poi.name, score, distance: poi.distance });
+    sendAlertRef.current(buildPOISystemAlert(poi));
+  }, [minIntervalMs]);
+
+  useEffect(() => {
+    isSpeakingRef.current = isSpeaking;
+    if (!isSpeaking) {
+      flush();
+    }
+  }, [isSpeaking, flush]);
+
+  useEffect(() => () => {
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+    }
+  }, []);
+
+  const handleUpdate = useCallback((update: ContextualPOIUpdate) => {
+    const location = update.userLocation;
+    const lastLocation = lastLocationRef.current;
+
+    if (lastLocation) {
+      const moved = calculateDistance(lastLocation.latitude, lastLocation.longitude, location.latitude, location.longitude);
+      if (moved >= MIN_HEADING_DISTANCE) {
+        headingRef.current = calculateBearing(lastLocation.latitude, lastLocation.longitude, location.latitude, location.longitude);
+        lastLocationRef.current = location;
+      }
+    } else {
+      lastLocationRef.current = location;
+    }
+
+    const ranked = scorePOIs(update.pois, {
+      location,
+      heading: headingRef.current,
+      radius,
+      preferredTypes: TOUR_LANDMARKS.flatMap(landmark => landmark.types || []),
+      announcedIds: announcedIdsRef.current
+    });
+
+    console.log('🎯 Ranked contextual POIs:', ranked.map(({ poi, score }) => `${poi.name} (${score})`));
+
+    const best = ranked[0];
+    if (!best || best.score < MIN_ANNOUNCEMENT_SCORE) {
+      console.log('⚠️ No new POI worth announcing, skipping');
+      return;
+    }
+
+    pendingRef.current = { candidate: best, queuedAt: Date.now() };
+    flush();
+  }, [radius, flush]);
+
+  // Each conversation starts with a clean slate
+  const reset = useCallback(() => {
+    announcedIdsRef.current = new Set();
+    lastLocationRef.current = null;
+    headingRef.current = null;
+    pendingRef.current = null;
+    lastSentAtRef.current = 0;
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+  }, []);
+
+  return { handleUpdate, reset };
+};
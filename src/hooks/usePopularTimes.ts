@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { PopularTimes, getPopularTimes } from '@/utils/placePopularity';
+
+/**
+ * Popular times for a place on a weekday. Results are cached per place and weekday,
+ * so reopening a card doesn't fetch them again.
+ */
+export const usePopularTimes = (placeId: string | undefined, weekday: number) => {
+  const [popularTimes, setPopularTimes] = useState<PopularTimes | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!placeId) {
+      setPopularTimes(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getPopularTimes(placeId, weekday).then(times => {
+      if (cancelled) return;
+      setPopularTimes(times);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [placeId, weekday]);
+
+  return { popularTimes, isLoading };
+};
@@ -1,12 +1,22 @@
-import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { toast } from 'sonner';
 import { useProximityAlerts } from '@/hooks/useProximityAlerts';
 import { useLocationTracking } from '@/hooks/useLocationTracking';
 import { useNearbyLandmarks } from '@/hooks/useNearbyLandmarks';
 import { useTTSContext } from '@/contexts/TTSContext';
 import { useStreetView } from '@/hooks/useStreetView';
-import { TourLandmark } from '@/data/tourLandmarks';
+import { useGeofences } from '@/hooks/useGeofences';
+import { TourLandmark, TOUR_LANDMARKS } from '@/data/tourLandmarks';
 import { supabase } from '@/integrations/supabase/client';
+import { Geofence, GeofenceEvent, GeofenceEventType } from '@/types/proximityAlerts';
+import { isLocationInGeofence } from '@/utils/proximityUtils';
+import {
+  NOTIFICATION_OPENED_EVENT,
+  consumePendingNotificationPlaceId,
+  isNativeLocationAvailable,
+  requestNotificationPermission,
+  showNativeLandmarkNotification
+} from '@/utils/nativeLocationBridge';
 
 interface NotificationState {
   [placeId: string]: number; // timestamp of last notification
@@ -27,11 +37,20 @@ interface CardState {
   };
 }
 
+interface GeofenceState {
+  [geofenceId: string]: {
+    inside: boolean;
+    enteredAt: number;
+    dwellNotified: boolean;
+  };
+}
+
 const NOTIFICATION_COOLDOWN = 5 * 60 * 1000; // 5 minutes in milliseconds
 const CARD_COOLDOWN = 10 * 60 * 1000; // 10 minutes in milliseconds for cards
 const STORAGE_KEY = 'proximity_notifications_state';
 const PREP_ZONE_STORAGE_KEY = 'prep_zone_state';
 const CARD_STORAGE_KEY = 'proximity_cards_state';
+const GEOFENCE_STORAGE_KEY = 'geofence_state';
 
 // Global singleton state to prevent multiple instances
 let globalProximityManager: {
@@ -54,6 +73,7 @@ export const useProximityNotifications = () => {
   const notificationStateRef = useRef<NotificationState>({});
   const prepZoneStateRef = useRef<PrepZoneState>({});
   const cardStateRef = useRef<CardState>({});
+  const geofenceStateRef = useRef<GeofenceState>({});
   const previousNearbyLandmarksRef = useRef<Set<string>>(new Set());
   const previousCardZoneLandmarksRef = useRef<Set<string>>(new Set());
 
@@ -118,6 +138,25 @@ export const useProximityNotifications = () => {
     notificationDistance: isProximitySettingsReady ? proximitySettings.card_distance : 75
   });
 
+  // Polygon and corridor geofences for the current tour
+  const { geofences } = useGeofences(TOUR_LANDMARKS.find(landmark => landmark.tourId)?.tourId);
+
+  // Landmarks with a geofence only alert on its boundary, not on the radius tiers
+  const geofencedPlaceIds = useMemo(
+    () => new Set(geofences.map(geofence => geofence.place_id).filter(Boolean)),
+    [geofences]
+  );
+
+  const radiusNearbyLandmarks = useMemo(
+    () => nearbyLandmarks.filter(({ landmark }) => !geofencedPlaceIds.has(landmark.placeId)),
+    [nearbyLandmarks, geofencedPlaceIds]
+  );
+
+  const radiusCardZoneLandmarks = useMemo(
+    () => cardZoneLandmarks.filter(({ landmark }) => !geofencedPlaceIds.has(landmark.placeId)),
+    [cardZoneLandmarks, geofencedPlaceIds]
+  );
+
   // Load notification state from localStorage
   useEffect(() => {
     if (!isActiveInstance) return;
@@ -137,6 +176,11 @@ export const useProximityNotifications = () => {
       if (savedCardState) {
         cardStateRef.current = JSON.parse(savedCardState);
       }
+
+      const savedGeofenceState = localStorage.getItem(GEOFENCE_STORAGE_KEY);
+      if (savedGeofenceState) {
+        geofenceStateRef.current = JSON.parse(savedGeofenceState);
+      }
     } catch (error) {
       console.error('Failed to load notification state:', error);
     }
@@ -150,6 +194,7 @@ export const useProximityNotifications = () => {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(notificationStateRef.current));
       localStorage.setItem(PREP_ZONE_STORAGE_KEY, JSON.stringify(prepZoneStateRef.current));
       localStorage.setItem(CARD_STORAGE_KEY, JSON.stringify(cardStateRef.current));
+      localStorage.setItem(GEOFENCE_STORAGE_KEY, JSON.stringify(geofenceStateRef.current));
     } catch (error) {
       console.error('Failed to save notification state:', error);
     }
@@ -354,6 +399,46 @@ export const useProximityNotifications = () => {
     console.log(`🏪 [${instanceIdRef.current}] Updated global activeCards:`, globalProximityManager.activeCards);
   }, [isActiveInstance, activeCards]);
 
+  // While the app is backgrounded on a device, alerts go to the OS notification center instead of a toast
+  const showBackgroundNotification = useCallback(async (placeId: string, title: string, body: string): Promise<boolean> => {
+    if (!isNativeLocationAvailable() || !document.hidden) return false;
+    return showNativeLandmarkNotification(placeId, title, body);
+  }, []);
+
+  // Ask for notification permission once proximity alerts are switched on
+  useEffect(() => {
+    if (isActiveInstance && isProximitySettingsReady && isNativeLocationAvailable()) {
+      requestNotificationPermission();
+    }
+  }, [isActiveInstance, isProximitySettingsReady]);
+
+  // Tapping a native notification opens that landmark's card, even if it was shown recently
+  useEffect(() => {
+    if (!isActiveInstance) return;
+
+    const openCardForPlace = (placeId: string) => {
+      const landmark = TOUR_LANDMARKS.find(tourLandmark => tourLandmark.placeId === placeId);
+      if (!landmark) {
+        console.log(`👆 [${instanceIdRef.current}] Notification landmark ${placeId} is no longer on the tour`);
+        return;
+      }
+
+      delete lastCardTimeRef.current[placeId];
+      showProximityCard(landmark);
+    };
+
+    const handleNotificationOpened = (event: CustomEvent<{ placeId: string }>) => {
+      consumePendingNotificationPlaceId();
+      openCardForPlace(event.detail.placeId);
+    };
+
+    const pendingPlaceId = consumePendingNotificationPlaceId();
+    if (pendingPlaceId) openCardForPlace(pendingPlaceId);
+
+    window.addEventListener(NOTIFICATION_OPENED_EVENT, handleNotificationOpened as EventListener);
+    return () => window.removeEventListener(NOTIFICATION_OPENED_EVENT, handleNotificationOpened as EventListener);
+  }, [isActiveInstance, showProximityCard]);
+
   // Function to close a proximity card - FIXED: Update both local and global state
   const closeProximityCard = useCallback((placeId: string) => {
     console.log(`🏪 [${instanceIdRef.current}] Closing proximity card for landmark ${placeId}`);
@@ -412,6 +497,10 @@ export const useProximityNotifications = () => {
 
     console.log(`🔔 [${instanceIdRef.current}] Showing proximity notification for ${landmark.name} at ${formattedDistance} - Round ${currentPollRound} at ${timestamp}`);
 
+    if (await showBackgroundNotification(placeId, `🗺️ ${landmark.name}`, `You're ${formattedDistance} away. Tap to learn more.`)) {
+      return;
+    }
+
     // Play notification sound first
     playNotificationSound();
 
@@ -439,7 +528,7 @@ export const useProximityNotifications = () => {
         }
       }
     });
-  }, [saveNotificationState, showRouteToLandmark, playNotificationSound, speak, getCachedData, currentPollRound, isActiveInstance]);
+  }, [saveNotificationState, showRouteToLandmark, playNotificationSound, speak, getCachedData, currentPollRound, isActiveInstance, showBackgroundNotification]);
 
   // Monitor prep zone entries - only when settings are ready and this is the active instance
   useEffect(() => {
@@ -470,11 +559,11 @@ export const useProximityNotifications = () => {
 
   // Monitor card zone entries - only when settings are ready and this is the active instance
   useEffect(() => {
-    if (!isActiveInstance || !isProximitySettingsReady || !proximitySettings || !userLocation || cardZoneLandmarks.length === 0) {
+    if (!isActiveInstance || !isProximitySettingsReady || !proximitySettings || !userLocation || radiusCardZoneLandmarks.length === 0) {
       return;
     }
 
-    const currentCardZoneIds = new Set(cardZoneLandmarks.map(nl => nl.landmark.placeId));
+    const currentCardZoneIds = new Set(radiusCardZoneLandmarks.map(nl => nl.landmark.placeId));
     const previousCardZoneIds = previousCardZoneLandmarksRef.current;
 
     // Find newly entered card zone landmarks
@@ -484,7 +573,7 @@ export const useProximityNotifications = () => {
 
     // Show card for newly entered landmarks (one at a time, closest first)
     if (newlyEnteredCardIds.length > 0) {
-      const closestNewCardLandmark = cardZoneLandmarks.find(nl => 
+      const closestNewCardLandmark = radiusCardZoneLandmarks.find(nl => 
         newlyEnteredCardIds.includes(nl.landmark.placeId)
       );
 
@@ -533,15 +622,15 @@ export const useProximityNotifications = () => {
 
     // Update previous card zone landmarks
     previousCardZoneLandmarksRef.current = currentCardZoneIds;
-  }, [cardZoneLandmarks, isProximitySettingsReady, proximitySettings, userLocation, activeCards, closeProximityCard, isActiveInstance]);
+  }, [radiusCardZoneLandmarks, isProximitySettingsReady, proximitySettings, userLocation, activeCards, closeProximityCard, isActiveInstance]);
 
   // Monitor for newly entered proximity zones - only when settings are ready and this is the active instance
   useEffect(() => {
-    if (!isActiveInstance || !isProximitySettingsReady || !proximitySettings || !userLocation || nearbyLandmarks.length === 0) {
+    if (!isActiveInstance || !isProximitySettingsReady || !proximitySettings || !userLocation || radiusNearbyLandmarks.length === 0) {
       return;
     }
 
-    const currentNearbyIds = new Set(nearbyLandmarks.map(nl => nl.landmark.placeId));
+    const currentNearbyIds = new Set(radiusNearbyLandmarks.map(nl => nl.landmark.placeId));
     const previousNearbyIds = previousNearbyLandmarksRef.current;
 
     // Find newly entered landmarks (in current but not in previous)
@@ -554,7 +643,7 @@ export const useProximityNotifications = () => {
     if (newlyEnteredIds.length > 0) {
       // Find the first (closest) newly entered landmark
       // nearbyLandmarks is already sorted by distance (closest first)
-      const closestNewLandmark = nearbyLandmarks.find(nl => 
+      const closestNewLandmark = radiusNearbyLandmarks.find(nl => 
         newlyEnteredIds.includes(nl.landmark.placeId)
       );
 
@@ -565,7 +654,105 @@ export const useProximityNotifications = () => {
 
     // Update previous nearby landmarks
     previousNearbyLandmarksRef.current = currentNearbyIds;
-  }, [nearbyLandmarks, isProximitySettingsReady, proximitySettings, userLocation, showProximityToast, currentPollRound, isActiveInstance]);
+  }, [radiusNearbyLandmarks, isProximitySettingsReady, proximitySettings, userLocation, showProximityToast, currentPollRound, isActiveInstance]);
+
+  // Announce a geofence enter, exit or dwell event - cooldown per geofence and event type absorbs GPS jitter at the boundary
+  const handleGeofenceEvent = useCallback(async (geofence: Geofence, type: GeofenceEventType) => {
+    if (!isActiveInstance) return;
+
+    const event: GeofenceEvent = { geofence, type, timestamp: Date.now() };
+    window.dispatchEvent(new CustomEvent('geofence-event', { detail: event }));
+
+    if (!geofence.events.includes(type)) return;
+
+    const cooldownKey = `geofence:${geofence.id}:${type}`;
+    const lastNotification = notificationStateRef.current[cooldownKey];
+    if (lastNotification && Date.now() - lastNotification < NOTIFICATION_COOLDOWN) {
+      console.log(`🔕 [${instanceIdRef.current}] Geofence ${type} for ${geofence.name} still in cooldown`);
+      return;
+    }
+
+    notificationStateRef.current[cooldownKey] = Date.now();
+    saveNotificationState();
+
+    const landmark = geofence.place_id
+      ? TOUR_LANDMARKS.find(tourLandmark => tourLandmark.placeId === geofence.place_id)
+      : undefined;
+
+    console.log(`📐 [${instanceIdRef.current}] Geofence ${type}: ${geofence.name} - Round ${currentPollRound}`);
+
+    if (type !== 'exit') {
+      const notificationBody = type === 'enter'
+        ? geofence.message || `You've entered ${geofence.name}`
+        : `You've spent ${Math.round(geofence.dwell_seconds / 60)} min at ${geofence.name}`;
+      if (await showBackgroundNotification(geofence.place_id || `geofence:${geofence.id}`, `🗺️ ${geofence.name}`, notificationBody)) {
+        return;
+      }
+    }
+
+    if (type === 'enter') {
+      playNotificationSound();
+      if (landmark) showProximityCard(landmark);
+
+      toast(`🗺️ ${geofence.name}`, {
+        description: geofence.message || `You've entered ${geofence.name}`,
+        duration: 8000
+      });
+
+      try {
+        await speak(`Welcome to ${geofence.name}`, false);
+      } catch (error) {
+        console.log('TTS announcement failed:', error);
+      }
+    } else if (type === 'dwell') {
+      toast(`⏱️ ${geofence.name}`, {
+        description: `You've spent ${Math.round(geofence.dwell_seconds / 60)} min at ${geofence.name}`,
+        duration: 8000
+      });
+    } else {
+      if (landmark && activeCards[landmark.placeId]) {
+        closeProximityCard(landmark.placeId);
+      }
+
+      toast(`👋 Leaving ${geofence.name}`, {
+        description: landmark ? `Hope you enjoyed ${landmark.name}` : undefined,
+        duration: 5000
+      });
+    }
+  }, [isActiveInstance, saveNotificationState, playNotificationSound, showProximityCard, speak, activeCards, closeProximityCard, currentPollRound, showBackgroundNotification]);
+
+  // Evaluate polygon and corridor geofences on every location poll
+  useEffect(() => {
+    if (!isActiveInstance || !userLocation || geofences.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    let hasChanges = false;
+
+    geofences.forEach(geofence => {
+      const inside = isLocationInGeofence(userLocation, geofence);
+      const state = geofenceStateRef.current[geofence.id];
+
+      if (inside && !state?.inside) {
+        geofenceStateRef.current[geofence.id] = { inside: true, enteredAt: now, dwellNotified: false };
+        hasChanges = true;
+        handleGeofenceEvent(geofence, 'enter');
+      } else if (inside && !state.dwellNotified && now - state.enteredAt >= geofence.dwell_seconds * 1000) {
+        geofenceStateRef.current[geofence.id] = { ...state, dwellNotified: true };
+        hasChanges = true;
+        handleGeofenceEvent(geofence, 'dwell');
+      } else if (!inside && state?.inside) {
+        geofenceStateRef.current[geofence.id] = { ...state, inside: false };
+        hasChanges = true;
+        handleGeofenceEvent(geofence, 'exit');
+      }
+    });
+
+    if (hasChanges) {
+      saveNotificationState();
+    }
+  }, [geofences, userLocation, currentPollRound, handleGeofenceEvent, saveNotificationState, isActiveInstance]);
 
   // Cleanup expired notifications from state
   useEffect(() => {
@@ -591,6 +778,14 @@ export const useProximityNotifications = () => {
         }
       }
 
+      // Clean up geofence state for visits that ended over an hour ago
+      for (const [geofenceId, state] of Object.entries(geofenceStateRef.current)) {
+        if (!state.inside && now - state.enteredAt > 60 * 60 * 1000) {
+          delete geofenceStateRef.current[geofenceId];
+          hasChanges = true;
+        }
+      }
+
       // Clean up card state (keep for 2x cooldown period)
       for (const [placeId, state] of Object.entries(cardStateRef.current)) {
         if (now - state.timestamp > CARD_COOLDOWN * 2) {
@@ -611,10 +806,12 @@ export const useProximityNotifications = () => {
     nearbyLandmarks,
     prepZoneLandmarks,
     cardZoneLandmarks,
+    geofences,
     activeCards: isActiveInstance ? activeCards : globalProximityManager.activeCards,
     notificationState: notificationStateRef.current,
     prepZoneState: prepZoneStateRef.current,
     cardState: cardStateRef.current,
+    geofenceState: geofenceStateRef.current,
     isEnabled: true, // Always enabled now
     closeProximityCard,
     showRouteToService,
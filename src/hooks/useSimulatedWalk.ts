@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SimulatedWalkState } from '@/types/debugOverrides';
+import { parseTourFile } from '@/utils/tourFileFormats';
+import {
+  getSimulatedWalkState,
+  loadSimulatedWalk,
+  pauseSimulatedWalk,
+  playSimulatedWalk,
+  seekSimulatedWalk,
+  setSimulatedWalkSpeed,
+  stopSimulatedWalk,
+  subscribeToSimulatedWalk
+} from '@/utils/simulatedWalk';
+
+declare global {
+  interface Window {
+    currentOptimalRoute?: GeoJSON.LineString | null;
+  }
+}
+
+export const useSimulatedWalk = () => {
+  const [walk, setWalk] = useState<SimulatedWalkState | null>(getSimulatedWalkState);
+
+  useEffect(() => subscribeToSimulatedWalk(setWalk), []);
+
+  // Map.tsx publishes the optimal route it is currently drawing
+  const loadCurrentRoute = useCallback((): boolean => {
+    const route = window.currentOptimalRoute;
+    if (!route || route.coordinates.length < 2) return false;
+
+    loadSimulatedWalk(route.coordinates as [number, number][], 'route', 'Current optimal route');
+    return true;
+  }, []);
+
+  /**
+   * Walk along the track of a GPX (or KML/GeoJSON) file
+   * @throws Error when the file has no track to follow
+   */
+  const loadTrackFile = useCallback(async (file: File) => {
+    const tour = parseTourFile(file.name, await file.text());
+    if (!tour.routeGeoJSON) {
+      throw new Error('This file has no track to walk along');
+    }
+
+    loadSimulatedWalk(tour.routeGeoJSON.coordinates as [number, number][], 'gpx', tour.name);
+  }, []);
+
+  return {
+    walk,
+    loadCurrentRoute,
+    loadTrackFile,
+    play: playSimulatedWalk,
+    pause: pauseSimulatedWalk,
+    seek: seekSimulatedWalk,
+    setSpeed: setSimulatedWalkSpeed,
+    stop: stopSimulatedWalk
+  };
+};
@@ -0,0 +1,201 @@
+import { useState, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, TablesInsert } from '@/integrations/supabase/types';
+import { TourLandmark, setTourLandmarks } from '@/data/tourLandmarks';
+import { normalizeOpeningPeriods } from '@/utils/itineraryPlanner';
+import { generateAlexisPrompt } from '@/utils/alexisPromptGenerator';
+import { generateLandmarkHighlights } from '@/utils/landmarkHighlights';
+
+export interface TourEditResult {
+  tourId: string;
+  destination: string;
+  systemPrompt: string;
+  landmarks: TourLandmark[];
+}
+
+// Subset of the google-places-details response used for new landmarks
+interface PlaceDetails {
+  name: string;
+  location?: { latitude: number; longitude: number };
+  address?: string;
+  rating?: number;
+  userRatingsTotal?: number;
+  website?: string;
+  editorialSummary?: string;
+  types?: string[];
+}
+
+interface RawPlace {
+  regularOpeningHours?: Json;
+  photos?: Array<{ name: string }>;
+}
+
+// Places added in the editor keep their full details until the edit is saved
+interface PendingPlace {
+  details: PlaceDetails;
+  raw: RawPlace;
+}
+
+type PromptDestination = Parameters<typeof generateAlexisPrompt>[0];
+
+const toPointString = (coordinates: [number, number]) => `(${coordinates[0]},${coordinates[1]})`;
+
+export const useTourEditor = () => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFetchingPlace, setIsFetchingPlace] = useState(false);
+  const pendingPlaces = useRef<Map<string, PendingPlace>>(new Map());
+
+  /**
+   * Look up a place picked from autocomplete and turn it into a tour landmark
+   * @returns The landmark, or null when the place has no usable location
+   */
+  const fetchPlaceAsLandmark = useCallback(async (placeId: string, tourId?: string): Promise<TourLandmark | null> => {
+    setIsFetchingPlace(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('google-places-details', {
+        body: { placeId }
+      });
+
+      if (error || !data?.data?.location) {
+        console.error('❌ Failed to fetch place details for tour edit:', error || data);
+        return null;
+      }
+
+      const details: PlaceDetails = data.data;
+      const raw: RawPlace = data.rawGooglePlacesData || {};
+      pendingPlaces.current.set(placeId, { details, raw });
+
+      return {
+        placeId,
+        id: placeId,
+        name: details.name,
+        coordinates: [details.location!.longitude, details.location!.latitude],
+        description: details.editorialSummary || `${details.name} - ${(details.types || []).join(', ')}`,
+        rating: details.rating || 0,
+        photos: [],
+        types: details.types || [],
+        formattedAddress: details.address,
+        tourId,
+        openingPeriods: normalizeOpeningPeriods(raw.regularOpeningHours),
+        coordinateSource: 'google_places',
+        confidence: 'high'
+      };
+    } finally {
+      setIsFetchingPlace(false);
+    }
+  }, []);
+
+  /**
+   * Persist the edited landmark list to generated_landmarks, regenerate the voice guide prompt
+   * and put the new list on the map. landmark_id is renumbered to follow the new order.
+   * The database changes are made by the save_tour_edits RPC in a single transaction.
+   * @returns The saved tour, or null when saving failed
+   */
+  const saveTourEdits = useCallback(async (tourId: string, landmarks: TourLandmark[]): Promise<TourEditResult | null> => {
+    setIsSaving(true);
+    try {
+      const { data: tour, error: tourError } = await supabase
+        .from('generated_tours')
+        .select('destination, destination_details, language')
+        .eq('id', tourId)
+        .single();
+
+      if (tourError || !tour) {
+        throw new Error(`Failed to load tour: ${tourError?.message || 'not found'}`);
+      }
+
+      const { data: existingRows, error: rowsError } = await supabase
+        .from('generated_landmarks')
+        .select('place_id, editorial_summary')
+        .eq('tour_id', tourId);
+
+      if (rowsError) {
+        throw new Error(`Failed to load tour landmarks: ${rowsError.message}`);
+      }
+
+      const rowsByPlaceId = new Map((existingRows || []).map(row => [row.place_id, row]));
+      const keptPlaceIds = new Set(landmarks.map(landmark => landmark.placeId));
+      const removedCount = (existingRows || []).filter(row => !row.place_id || !keptPlaceIds.has(row.place_id)).length;
+
+      // Kept stops are matched by place_id, new ones are sent as full rows (tour_id and landmark_id are set by save_tour_edits)
+      const payload: Partial<TablesInsert<'generated_landmarks'>>[] = landmarks.map(landmark => {
+        if (rowsByPlaceId.has(landmark.placeId)) {
+          return { place_id: landmark.placeId };
+        }
+
+        const pending = pendingPlaces.current.get(landmark.placeId);
+        return {
+          name: landmark.name,
+          coordinates: toPointString(landmark.coordinates),
+          description: landmark.description,
+          rating: landmark.rating,
+          user_ratings_total: pending?.details.userRatingsTotal,
+          website_uri: pending?.details.website,
+          opening_hours: pending?.raw.regularOpeningHours || null,
+          editorial_summary: pending?.details.editorialSummary,
+          photo_references: pending?.raw.photos?.map(photo => photo.name) || [],
+          photos: landmark.photos || [],
+          formatted_address: landmark.formattedAddress,
+          types: landmark.types || [],
+          place_id: landmark.placeId,
+          coordinate_source: 'manual_edit',
+          confidence: 'high',
+          raw_data: (pending?.raw as Json) || null
+        };
+      });
+      const addedCount = landmarks.filter(landmark => !rowsByPlaceId.has(landmark.placeId)).length;
+
+      // The voice guide only knows the landmarks listed in its prompt
+      const destinationDetails = (tour.destination_details || {}) as unknown as PromptDestination;
+      const systemPrompt = generateAlexisPrompt(
+        { ...destinationDetails, name: destinationDetails.name || tour.destination },
+        landmarks.map(landmark => ({
+          place_id: landmark.placeId,
+          name: landmark.name,
+          description: landmark.description,
+          types: landmark.types || [],
+          coordinates: { latitude: landmark.coordinates[1], longitude: landmark.coordinates[0] },
+          rating: landmark.rating
+        })),
+        generateLandmarkHighlights(landmarks.map(landmark => ({
+          ...landmark,
+          editorialSummary: rowsByPlaceId.get(landmark.placeId)?.editorial_summary ||
+            pendingPlaces.current.get(landmark.placeId)?.details.editorialSummary
+        }))),
+        undefined, // default agent name
+        tour.language
+      );
+
+      // Landmarks and prompt are saved together so a failure can't leave the tour half edited
+      const { error: saveError } = await supabase.rpc('save_tour_edits', {
+        p_tour_id: tourId,
+        p_landmarks: payload as unknown as Json,
+        p_system_prompt: systemPrompt
+      });
+
+      if (saveError) throw new Error(`Failed to save tour edits: ${saveError.message}`);
+
+      const savedLandmarks = landmarks.map(landmark => ({ ...landmark, tourId }));
+      setTourLandmarks(savedLandmarks);
+      pendingPlaces.current.clear();
+
+      const result: TourEditResult = { tourId, destination: tour.destination, systemPrompt, landmarks: savedLandmarks };
+      window.dispatchEvent(new CustomEvent('tour-landmarks-edited', { detail: result }));
+
+      console.log(`✏️ Saved tour edits for ${tourId}: ${savedLandmarks.length} landmarks (${addedCount} added, ${removedCount} removed)`);
+      return result;
+    } catch (error) {
+      console.error('❌ Failed to save tour edits:', error);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  return {
+    fetchPlaceAsLandmark,
+    saveTourEdits,
+    isSaving,
+    isFetchingPlace
+  };
+};
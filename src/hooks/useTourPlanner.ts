@@ -1,16 +1,60 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
+import { format, parse } from 'date-fns';
 import { Landmark, EnhancedLandmark } from '@/data/landmarks';
-import { setTourLandmarks, clearTourMarkers } from '@/data/tourLandmarks';
+import { setTourLandmarks, clearTourMarkers, TourLandmark } from '@/data/tourLandmarks';
 import { toast } from "sonner";
 import { supabase } from '@/integrations/supabase/client';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useTourStats } from '@/hooks/useTourStats';
 import { useMarkerLoadingState } from '@/hooks/useMarkerLoadingState';
+import { useAuth } from '@/components/AuthProvider';
+import { normalizeTourLanguage } from '@/utils/tourLanguage';
+import { hasAccessibilityNeeds, normalizeAccessibilityProfile } from '@/utils/accessibilityProfile';
+import { TravelMode } from '@/components/TravelModeSelector';
+import { decodePolyline, createRouteGeoJSON } from '@/utils/polylineDecoder';
+import {
+  DaySlot,
+  OpeningPeriod,
+  clusterLandmarksByDay,
+  getDayColor,
+  getPreferredSlot,
+  getTripWeekdays,
+  isOpenOnWeekday,
+  normalizeOpeningPeriods,
+  pickDayEndpoints,
+  rebalanceForOpeningHours
+} from '@/utils/itineraryPlanner';
+
+export interface ItineraryStop {
+  landmark: TourLandmark;
+  slot: DaySlot;
+  preferredSlot: DaySlot | null; // from opening hours, null when either half of the day works
+  isOpen: boolean; // open at all on this day's weekday
+}
+
+export interface ItineraryDay {
+  dayIndex: number;
+  date: string; // YYYY-MM-DD
+  color: string;
+  stops: ItineraryStop[];
+  routeGeoJSON: GeoJSON.LineString | null;
+  routeStats: {
+    distanceKm: number;
+    durationText: string;
+  } | null;
+}
+
+export interface ItineraryOptions {
+  dayCount: number;
+  startDate: Date;
+  travelMode: TravelMode;
+}
 
 export interface TourPlan {
   landmarks: EnhancedLandmark[];
   systemPrompt: string;
   destination: string;
+  days?: ItineraryDay[];
   metadata?: {
     totalLandmarks: number;
     coordinateQuality: {
@@ -50,8 +94,13 @@ export const useTourPlanner = () => {
     errors: []
   });
   const { subscriptionData } = useSubscription();
+  const { profile } = useAuth();
+  const accessibilityProfile = normalizeAccessibilityProfile(profile?.accessibility_profile);
   const { tourStats, forceRefresh } = useTourStats();
   const { startMarkerLoading, finishMarkerLoading } = useMarkerLoadingState(1000);
+  const [isPlanningItinerary, setIsPlanningItinerary] = useState(false);
+  const openingHoursCache = useRef<Record<string, OpeningPeriod[]>>({});
+  const itineraryTravelMode = useRef<TravelMode>('WALK');
 
   // Keep backward compatibility - convert enhanced landmarks to basic landmarks for components that need it
   const plannedLandmarks: Landmark[] = tourPlan?.landmarks?.map(landmark => ({
@@ -149,7 +198,11 @@ export const useTourPlanner = () => {
 
       // Call the enhanced tour generation edge function
       const { data: enhancedTourData, error: enhancedTourError } = await supabase.functions.invoke('generate-enhanced-tour', {
-        body: { destination }
+        body: {
+          destination,
+          language: normalizeTourLanguage(profile?.preferred_language),
+          accessibility: hasAccessibilityNeeds(accessibilityProfile) ? accessibilityProfile : null
+        }
       });
 
       if (enhancedTourError) {
@@ -211,7 +264,11 @@ export const useTourPlanner = () => {
         rating: enhancedLandmark.rating,
         photos: enhancedLandmark.photos,
         types: enhancedLandmark.types,
-        formattedAddress: enhancedLandmark.formattedAddress
+        formattedAddress: enhancedLandmark.formattedAddress,
+        opening_hours: enhancedLandmark.opening_hours,
+        accessibility: enhancedLandmark.accessibility,
+        accessibilityStatus: enhancedLandmark.accessibilityStatus,
+        accessibilityNotes: enhancedLandmark.accessibilityNotes
         // 🔥 NOTE: Removed quality_score field completely
       }));
 
@@ -236,6 +293,9 @@ export const useTourPlanner = () => {
           photos: landmark.photos,
           types: landmark.types,
           formattedAddress: landmark.formattedAddress,
+          openingPeriods: normalizeOpeningPeriods(landmark.opening_hours),
+          accessibilityStatus: landmark.accessibilityStatus,
+          accessibilityNotes: landmark.accessibilityNotes,
           tourId: undefined, // Will be set when we have tour persistence
           coordinateSource: landmark.coordinateSource,
           confidence: convertConfidenceToString(landmark.confidence) // Convert number to string literal
@@ -311,6 +371,19 @@ export const useTourPlanner = () => {
       
       // COMMENTED OUT: Toast notification overloads the UI - keeping for potential future use
       // toast.success(`Generated an enhanced tour for ${destination}!${qualityMessage} Tour landmarks added with green markers.`);
+
+      // Accessibility results are worth interrupting for: the traveler relies on them
+      const accessibilityInfo = enhancedTourData.metadata?.accessibility;
+      if (accessibilityInfo?.removed?.length > 0) {
+        toast.info(`Skipped ${accessibilityInfo.removed.length} stop${accessibilityInfo.removed.length > 1 ? 's' : ''} without step-free access: ${accessibilityInfo.removed.join(', ')}`);
+      }
+      if (accessibilityInfo?.shortfall > 0) {
+        const stopCount = enhancedTourData.landmarks.length;
+        toast.warning(`Only ${stopCount} stop${stopCount === 1 ? '' : 's'} with step-free access found - this tour is shorter than usual`);
+      }
+      if (accessibilityInfo?.unknown?.length > 0) {
+        toast.warning(`${accessibilityInfo.unknown.length} stop${accessibilityInfo.unknown.length > 1 ? 's have' : ' has'} no accessibility data - check before visiting`);
+      }
       
       // After 5 seconds, set phase to 'ready' to signal progress should hide
       setTimeout(() => {
@@ -355,12 +428,245 @@ export const useTourPlanner = () => {
     }
   };
 
+  // Weekly opening hours per place, fetched once per place for the lifetime of the planner
+  const fetchOpeningHours = async (landmarks: TourLandmark[]): Promise<Record<string, OpeningPeriod[]>> => {
+    landmarks.forEach(landmark => {
+      if (landmark.openingPeriods) openingHoursCache.current[landmark.placeId] = landmark.openingPeriods;
+    });
+
+    const missing = landmarks.filter(landmark =>
+      !openingHoursCache.current[landmark.placeId] && !landmark.placeId.startsWith('imported-')
+    );
+
+    await Promise.all(missing.map(async landmark => {
+      try {
+        const { data, error: hoursError } = await supabase.functions.invoke('get-place-hours', {
+          body: { place_id: landmark.placeId }
+        });
+        if (hoursError) throw hoursError;
+        openingHoursCache.current[landmark.placeId] = data?.regular_periods || [];
+      } catch (hoursErr) {
+        console.warn(`⚠️ Opening hours unavailable for ${landmark.name}:`, hoursErr);
+        openingHoursCache.current[landmark.placeId] = [];
+      }
+    }));
+
+    return openingHoursCache.current;
+  };
+
+  // Optimize one day's stops with google-routes-optimization, from one end of the cluster to the other.
+  // With keepOrder the stops are routed in the order given, e.g. after the traveler placed one by hand.
+  const optimizeDay = async (
+    dayIndex: number,
+    date: Date,
+    landmarks: TourLandmark[],
+    travelMode: TravelMode,
+    keepOrder = false
+  ): Promise<ItineraryDay> => {
+    const weekday = date.getDay();
+    const hours = openingHoursCache.current;
+    let orderedLandmarks = landmarks;
+    let routeGeoJSON: ItineraryDay['routeGeoJSON'] = null;
+    let routeStats: ItineraryDay['routeStats'] = null;
+
+    const endpoints = keepOrder
+      ? landmarks.length >= 2
+        ? { start: landmarks[0], end: landmarks[landmarks.length - 1], intermediates: landmarks.slice(1, -1) }
+        : null
+      : pickDayEndpoints(landmarks);
+    if (endpoints) {
+      let { start, end } = endpoints;
+      // Begin at the end of the cluster that wants to be visited in the morning
+      if (!keepOrder && getPreferredSlot(hours[end.placeId], weekday) === 'morning' || getPreferredSlot(hours[start.placeId], weekday) === 'afternoon') {
+        [start, end] = [end, start];
+      }
+
+      try {
+        const { data, error: routeError } = await supabase.functions.invoke('google-routes-optimization', {
+          body: {
+            origin: { coordinates: start.coordinates },
+            destination: { coordinates: end.coordinates },
+            waypoints: endpoints.intermediates.map(landmark => ({
+              placeId: landmark.placeId.startsWith('imported-') ? undefined : landmark.placeId,
+              coordinates: landmark.coordinates
+            })),
+            returnToOrigin: false,
+            travelMode,
+            optimizeWaypointOrder: !keepOrder
+          }
+        });
+
+        if (routeError || !data?.success) {
+          throw new Error(routeError?.message || data?.error || 'Route optimization failed');
+        }
+
+        const { route } = data;
+        const optimizedOrder: number[] = route.optimizedWaypointOrder || [];
+        const intermediates = optimizedOrder.length === endpoints.intermediates.length
+          ? optimizedOrder.map(index => endpoints.intermediates[index])
+          : endpoints.intermediates;
+        orderedLandmarks = [start, ...intermediates, end];
+
+        const coordinates = decodePolyline(route.encodedPolyline);
+        routeGeoJSON = coordinates.length > 0 ? createRouteGeoJSON(coordinates) : null;
+
+        const durationMinutes = route.duration ? parseInt(route.duration.replace('s', '')) / 60 : 0;
+        routeStats = {
+          distanceKm: Math.round((route.distanceMeters || 0) / 1000 * 100) / 100,
+          durationText: durationMinutes > 60
+            ? `${Math.floor(durationMinutes / 60)}h ${Math.round(durationMinutes % 60)}m`
+            : `${Math.round(durationMinutes)}m`
+        };
+      } catch (routeErr) {
+        console.error(`❌ Day ${dayIndex + 1} route optimization failed:`, routeErr);
+        orderedLandmarks = [start, ...endpoints.intermediates, end];
+      }
+    }
+
+    // First half of the day's route is the morning, the rest the afternoon
+    const morningCount = Math.ceil(orderedLandmarks.length / 2);
+    const stops: ItineraryStop[] = orderedLandmarks.map((landmark, index) => ({
+      landmark,
+      slot: index < morningCount ? 'morning' : 'afternoon',
+      preferredSlot: getPreferredSlot(hours[landmark.placeId], weekday),
+      isOpen: isOpenOnWeekday(hours[landmark.placeId], weekday)
+    }));
+
+    return {
+      dayIndex,
+      date: format(date, 'yyyy-MM-dd'), // local calendar day, toISOString would shift it across UTC
+      color: getDayColor(dayIndex),
+      stops,
+      routeGeoJSON,
+      routeStats
+    };
+  };
+
+  const getDayDate = (startDate: Date, dayIndex: number) => {
+    const date = new Date(startDate);
+    date.setDate(date.getDate() + dayIndex);
+    return date;
+  };
+
+  const applyDays = (days: ItineraryDay[], landmarks: TourLandmark[], destination: string) => {
+    setTourPlan(prev => prev
+      ? { ...prev, days }
+      : {
+          // Tours generated elsewhere (e.g. the intelligent tour dialog) only exist as map landmarks
+          landmarks: landmarks.map(landmark => ({
+            id: landmark.id || landmark.placeId,
+            name: landmark.name,
+            coordinates: landmark.coordinates,
+            description: landmark.description,
+            placeId: landmark.placeId,
+            coordinateSource: landmark.coordinateSource || 'tour',
+            confidence: landmark.confidence === 'high' ? 0.9 : landmark.confidence === 'low' ? 0.3 : 0.6,
+            rating: landmark.rating,
+            types: landmark.types,
+            formattedAddress: landmark.formattedAddress
+          })),
+          systemPrompt: '',
+          destination,
+          days
+        });
+  };
+
+  /**
+   * Split the tour into days: cluster by distance, move stops to days they're open,
+   * then optimize each day's route separately.
+   */
+  const planItinerary = async (landmarks: TourLandmark[], options: ItineraryOptions, destination: string = tourPlan?.destination || '') => {
+    if (landmarks.length === 0) {
+      toast.error("Add some landmarks to the tour before planning days.");
+      return null;
+    }
+
+    const dayCount = Math.max(1, Math.min(options.dayCount, landmarks.length));
+    console.log('📅 Planning multi-day itinerary:', { landmarks: landmarks.length, dayCount, startDate: options.startDate });
+
+    setIsPlanningItinerary(true);
+    itineraryTravelMode.current = options.travelMode;
+
+    try {
+      const hours = await fetchOpeningHours(landmarks);
+      const weekdays = getTripWeekdays(options.startDate, dayCount);
+      const { clusters, unresolved } = rebalanceForOpeningHours(
+        clusterLandmarksByDay(landmarks, dayCount),
+        weekdays,
+        hours
+      );
+
+      if (unresolved.length > 0) {
+        toast.warning(`${unresolved.length} landmark${unresolved.length > 1 ? 's are' : ' is'} closed on every day of the trip.`);
+      }
+
+      const days: ItineraryDay[] = [];
+      for (const [dayIndex, cluster] of clusters.entries()) {
+        days.push(await optimizeDay(dayIndex, getDayDate(options.startDate, dayIndex), cluster, options.travelMode));
+      }
+
+      applyDays(days, landmarks, destination);
+      console.log('✅ Itinerary planned:', days.map(day => `${day.date}: ${day.stops.length} stops`));
+      return days;
+    } catch (planErr) {
+      console.error('❌ Itinerary planning failed:', planErr);
+      toast.error("Failed to plan the itinerary. Please try again.");
+      return null;
+    } finally {
+      setIsPlanningItinerary(false);
+    }
+  };
+
+  /**
+   * Move a landmark to another day (optionally before a given stop) and re-route only the two affected days,
+   * keeping their stops in the order the traveler left them
+   */
+  const moveLandmarkToDay = async (placeId: string, toDayIndex: number, beforePlaceId?: string) => {
+    const days = tourPlan?.days;
+    if (!days) return null;
+
+    const fromDay = days.find(day => day.stops.some(stop => stop.landmark.placeId === placeId));
+    const toDay = days[toDayIndex];
+    if (!fromDay || !toDay || (fromDay.dayIndex === toDayIndex && !beforePlaceId)) return days;
+
+    const moved = fromDay.stops.find(stop => stop.landmark.placeId === placeId)!.landmark;
+    const sourceLandmarks = fromDay.stops.map(stop => stop.landmark).filter(landmark => landmark.placeId !== placeId);
+    const targetLandmarks = (fromDay.dayIndex === toDayIndex ? sourceLandmarks : toDay.stops.map(stop => stop.landmark)).slice();
+    const insertAt = beforePlaceId ? targetLandmarks.findIndex(landmark => landmark.placeId === beforePlaceId) : -1;
+    targetLandmarks.splice(insertAt >= 0 ? insertAt : targetLandmarks.length, 0, moved);
+
+    console.log(`📅 Moving ${moved.name} from day ${fromDay.dayIndex + 1} to day ${toDayIndex + 1}`);
+    setIsPlanningItinerary(true);
+
+    try {
+      const startDate = parse(days[0].date, 'yyyy-MM-dd', new Date());
+      const updatedDays = days.slice();
+      updatedDays[toDayIndex] = await optimizeDay(toDayIndex, getDayDate(startDate, toDayIndex), targetLandmarks, itineraryTravelMode.current, true);
+      if (fromDay.dayIndex !== toDayIndex) {
+        updatedDays[fromDay.dayIndex] = await optimizeDay(fromDay.dayIndex, getDayDate(startDate, fromDay.dayIndex), sourceLandmarks, itineraryTravelMode.current, true);
+      }
+
+      setTourPlan(prev => prev ? { ...prev, days: updatedDays } : prev);
+      return updatedDays;
+    } finally {
+      setIsPlanningItinerary(false);
+    }
+  };
+
+  const clearItinerary = () => {
+    setTourPlan(prev => prev ? { ...prev, days: undefined } : prev);
+  };
+
   return { 
     tourPlan, 
     plannedLandmarks, // Keep for backward compatibility
     isLoading, 
     error, 
     generateTour,
-    progressState
+    progressState,
+    planItinerary,
+    moveLandmarkToDay,
+    clearItinerary,
+    isPlanningItinerary
   };
 };
@@ -0,0 +1,62 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { TripRecording } from '@/hooks/useTripRecorder';
+import {
+  JournalFormat,
+  buildTravelJournal,
+  downloadJournalFile,
+  downloadJournalPDF,
+  toJournalEntry
+} from '@/utils/travelJournal';
+
+export const useTravelJournal = () => {
+  const [exportingTripId, setExportingTripId] = useState<string | null>(null);
+
+  /**
+   * Turn a trip's interactions into a travel journal and download it
+   */
+  const exportJournal = useCallback(async (trip: TripRecording, journalFormat: JournalFormat): Promise<boolean> => {
+    setExportingTripId(trip.id);
+    try {
+      const { data, error } = trip.interactionIds.length > 0
+        ? await supabase
+            .from('interactions')
+            .select('id, created_at, interaction_type, destination, user_input, assistant_response, conversation_summary, full_transcript, landmark_image_url, landmark_coordinates, user_location')
+            .in('id', trip.interactionIds)
+            .order('created_at', { ascending: true })
+        : { data: [], error: null };
+
+      if (error) {
+        console.error('❌ Failed to load journal interactions:', error);
+        toast.error('Could not load this trip\'s interactions');
+        return false;
+      }
+
+      const journal = buildTravelJournal(trip, (data || []).map(toJournalEntry));
+      if (journal.chapters.length === 0) {
+        toast.info('Nothing to put in a journal yet - this trip has no stops or interactions');
+        return false;
+      }
+
+      console.log(`📔 Travel journal: ${journal.chapters.length} chapters, ${data?.length || 0} entries`);
+      if (journalFormat === 'pdf') {
+        await downloadJournalPDF(journal);
+      } else {
+        downloadJournalFile(journal, journalFormat);
+      }
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to export travel journal:', error);
+      toast.error('Could not create the travel journal');
+      return false;
+    } finally {
+      setExportingTripId(null);
+    }
+  }, []);
+
+  return {
+    exportingTripId,
+    exportJournal
+  };
+};
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { TOUR_LANDMARKS } from '@/data/tourLandmarks';
+import {
+  ActiveTripSession,
+  TripPoint,
+  TripVisit,
+  detectLandmarkVisits,
+  getActiveTripSession,
+  getTripDistance,
+  startTripRecording,
+  stopTripRecording,
+  subscribeToTripRecorder
+} from '@/utils/tripRecorder';
+
+export interface TripRecording {
+  id: string;
+  tourId: string | null;
+  destination: string;
+  startedAt: string;
+  endedAt: string;
+  path: TripPoint[];
+  distanceMeters: number;
+  visits: TripVisit[];
+  interactionIds: string[];
+}
+
+export interface TripInteraction {
+  id: string;
+  createdAt: string;
+  interactionType: string | null;
+  userInput: string;
+  assistantResponse: string;
+}
+
+const toTripRecording = (row: Tables<'trip_recordings'>): TripRecording => ({
+  id: row.id,
+  tourId: row.tour_id,
+  destination: row.destination,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  path: row.path as unknown as TripPoint[],
+  distanceMeters: row.distance_meters,
+  visits: row.visits as unknown as TripVisit[],
+  interactionIds: row.interaction_ids
+});
+
+export const useTripRecorder = () => {
+  const { user } = useAuth();
+  const [activeSession, setActiveSession] = useState<ActiveTripSession | null>(getActiveTripSession);
+  const [pointCount, setPointCount] = useState(() => getActiveTripSession()?.path.length || 0);
+  const [trips, setTrips] = useState<TripRecording[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoadingTrips, setIsLoadingTrips] = useState(false);
+
+  useEffect(() => {
+    return subscribeToTripRecorder(session => {
+      setActiveSession(session);
+      setPointCount(session?.path.length || 0);
+    });
+  }, []);
+
+  const loadTrips = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoadingTrips(true);
+    try {
+      const { data, error } = await supabase
+        .from('trip_recordings')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('started_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('❌ Failed to load trip recordings:', error);
+        return;
+      }
+
+      setTrips((data || []).map(toTripRecording));
+    } finally {
+      setIsLoadingTrips(false);
+    }
+  }, [user]);
+
+  // Trips are labelled with the tour on the map, if any
+  const startRecording = useCallback(async () => {
+    const tourId = TOUR_LANDMARKS.find(landmark => landmark.tourId)?.tourId || null;
+    let destination = 'Free exploration';
+
+    if (tourId) {
+      const { data } = await supabase
+        .from('generated_tours')
+        .select('destination')
+        .eq('id', tourId)
+        .maybeSingle();
+      if (data?.destination) destination = data.destination;
+    }
+
+    startTripRecording(tourId, destination);
+  }, []);
+
+  /**
+   * Stop recording and save the trail with the landmarks visited and the interactions captured during the trip
+   * @returns The saved trip, or null when there was nothing worth saving or saving failed
+   */
+  const stopRecording = useCallback(async (): Promise<TripRecording | null> => {
+    const session = stopTripRecording();
+    if (!session || !user) return null;
+
+    if (session.path.length < 2) {
+      console.log('⏹️ Trip too short to save:', session.path.length, 'points');
+      return null;
+    }
+
+    setIsSaving(true);
+    try {
+      const startedAt = new Date(session.startedAt).toISOString();
+      const endedAt = new Date(session.path[session.path.length - 1][2]).toISOString();
+
+      const { data: interactions, error: interactionsError } = await supabase
+        .from('interactions')
+        .select('id')
+        .eq('user_id', user.id)
+        .gte('created_at', startedAt)
+        .lte('created_at', new Date().toISOString());
+
+      if (interactionsError) {
+        console.warn('⚠️ Could not collect trip interactions:', interactionsError);
+      }
+
+      const visits = detectLandmarkVisits(session.path, TOUR_LANDMARKS);
+
+      const { data, error } = await supabase
+        .from('trip_recordings')
+        .insert({
+          user_id: user.id,
+          tour_id: session.tourId,
+          destination: session.destination,
+          started_at: startedAt,
+          ended_at: endedAt,
+          path: session.path as unknown as Json,
+          distance_meters: Math.round(getTripDistance(session.path)),
+          visits: visits as unknown as Json,
+          interaction_ids: (interactions || []).map(interaction => interaction.id)
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Failed to save trip recording:', error);
+        return null;
+      }
+
+      const trip = toTripRecording(data);
+      console.log(`💾 Trip saved: ${trip.path.length} points, ${trip.visits.length} visits, ${trip.interactionIds.length} interactions`);
+      setTrips(current => [trip, ...current]);
+      return trip;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [user]);
+
+  const deleteTrip = useCallback(async (tripId: string): Promise<boolean> => {
+    const { error } = await supabase.from('trip_recordings').delete().eq('id', tripId);
+
+    if (error) {
+      console.error('❌ Failed to delete trip recording:', error);
+      return false;
+    }
+
+    setTrips(current => current.filter(trip => trip.id !== tripId));
+    return true;
+  }, []);
+
+  const loadTripInteractions = useCallback(async (trip: TripRecording): Promise<TripInteraction[]> => {
+    if (trip.interactionIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('interactions')
+      .select('id, created_at, interaction_type, user_input, assistant_response')
+      .in('id', trip.interactionIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Failed to load trip interactions:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      createdAt: row.created_at,
+      interactionType: row.interaction_type,
+      userInput: row.user_input,
+      assistantResponse: row.assistant_response
+    }));
+  }, []);
+
+  return {
+    isRecording: activeSession !== null,
+    activeSession,
+    pointCount,
+    trips,
+    isSaving,
+    isLoadingTrips,
+    loadTrips,
+    startRecording,
+    stopRecording,
+    deleteTrip,
+    loadTripInteractions
+  };
+};
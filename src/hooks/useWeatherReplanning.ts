@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { RouteSchedule } from '@/utils/routeSchedule';
+import { WeatherProvider } from '@/utils/weatherProvider';
+import { FORECAST_HOURS, hasForecastChanged } from '@/utils/weatherPlanner';
+
+interface UseWeatherReplanningOptions {
+  schedule: RouteSchedule | null;
+  weatherProvider: WeatherProvider | null;
+  onForecastChanged: (remainingStops: TourLandmark[]) => void;
+  intervalMs?: number;
+}
+
+/**
+ * Re-checks the forecast while a weather-aware tour is under way and reports the stops not yet visited
+ * when rain moves onto or off any of them.
+ */
+export const useWeatherReplanning = ({
+  schedule,
+  weatherProvider,
+  onForecastChanged,
+  intervalMs = 30 * 60 * 1000 // 30 minutes
+}: UseWeatherReplanningOptions) => {
+  const onForecastChangedRef = useRef(onForecastChanged);
+
+  useEffect(() => {
+    onForecastChangedRef.current = onForecastChanged;
+  }, [onForecastChanged]);
+
+  useEffect(() => {
+    if (!schedule?.weather || !weatherProvider) return;
+
+    const checkForecast = async () => {
+      const now = new Date();
+      if (now > new Date(schedule.endTime)) return;
+
+      const remainingStops = schedule.stops
+        .filter(stop => new Date(stop.visitStart) > now)
+        .map(stop => stop.landmark);
+      if (remainingStops.length < 2) return;
+
+      const latest = await weatherProvider.getHourlyForecast(remainingStops[0].placeId, FORECAST_HOURS);
+      if (!latest || !hasForecastChanged(schedule, schedule.weather!.forecast, latest, now)) {
+        console.log('🌦️ Forecast unchanged for the rest of the tour');
+        return;
+      }
+
+      console.log('🌦️ Forecast changed, re-planning', remainingStops.length, 'remaining stops');
+      onForecastChangedRef.current(remainingStops);
+    };
+
+    const interval = setInterval(checkForecast, intervalMs);
+    return () => clearInterval(interval);
+  }, [schedule, weatherProvider, intervalMs]);
+};
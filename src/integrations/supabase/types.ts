@@ -44,6 +44,226 @@ export type Database = {
         }
         Relationships: []
       }
+      experience_entitlements: {
+        Row: {
+          apple_transaction_id: string | null
+          created_at: string
+          granted_at: string
+          id: string
+          payment_id: string | null
+          revoked_at: string | null
+          source: string
+          tour_id: string
+          updated_at: string
+          user_id: string
+          version_id: string | null
+        }
+        Insert: {
+          apple_transaction_id?: string | null
+          created_at?: string
+          granted_at?: string
+          id?: string
+          payment_id?: string | null
+          revoked_at?: string | null
+          source: string
+          tour_id: string
+          updated_at?: string
+          user_id: string
+          version_id?: string | null
+        }
+        Update: {
+          apple_transaction_id?: string | null
+          created_at?: string
+          granted_at?: string
+          id?: string
+          payment_id?: string | null
+          revoked_at?: string | null
+          source?: string
+          tour_id?: string
+          updated_at?: string
+          user_id?: string
+          version_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experience_entitlements_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "experience_entitlements_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "experience_entitlements_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "experience_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      experience_promo_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          discount_amount_cents: number | null
+          discount_percent: number | null
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          redemption_count: number
+          tour_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          discount_amount_cents?: number | null
+          discount_percent?: number | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          redemption_count?: number
+          tour_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          discount_amount_cents?: number | null
+          discount_percent?: number | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          redemption_count?: number
+          tour_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experience_promo_codes_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      experience_reviews: {
+        Row: {
+          created_at: string
+          curator_replied_at: string | null
+          curator_reply: string | null
+          id: string
+          rating: number
+          review_text: string | null
+          tour_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          curator_replied_at?: string | null
+          curator_reply?: string | null
+          id?: string
+          rating: number
+          review_text?: string | null
+          tour_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          curator_replied_at?: string | null
+          curator_reply?: string | null
+          id?: string
+          rating?: number
+          review_text?: string | null
+          tour_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experience_reviews_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      experience_versions: {
+        Row: {
+          agent_id: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          knowledge_docs: Json
+          landmarks: Json
+          notes: string | null
+          published_at: string | null
+          status: string
+          system_prompt: string | null
+          tour_id: string
+          updated_at: string
+          version_number: number
+          voice_id: string | null
+        }
+        Insert: {
+          agent_id?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          knowledge_docs?: Json
+          landmarks?: Json
+          notes?: string | null
+          published_at?: string | null
+          status?: string
+          system_prompt?: string | null
+          tour_id: string
+          updated_at?: string
+          version_number: number
+          voice_id?: string | null
+        }
+        Update: {
+          agent_id?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          knowledge_docs?: Json
+          landmarks?: Json
+          notes?: string | null
+          published_at?: string | null
+          status?: string
+          system_prompt?: string | null
+          tour_id?: string
+          updated_at?: string
+          version_number?: number
+          voice_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experience_versions_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generated_landmarks: {
         Row: {
           api_calls_made: number | null
@@ -149,13 +369,16 @@ export type Database = {
         Row: {
           account_id: string | null
           agentid: string | null
+          apple_product_id: string | null
           coordinate_quality_high: number | null
           coordinate_quality_low: number | null
           coordinate_quality_medium: number | null
           created_at: string
+          currency: string
           description: string
           destination: string
           destination_details: Json | null
+          duration_minutes: number | null
           error_count: number | null
           experience: boolean
           fallbacks_used: string[] | null
@@ -163,26 +386,38 @@ export type Database = {
           generation_end_time: string | null
           generation_start_time: string
           id: string
+          language: string
+          launch_discount_ends_at: string | null
+          launch_discount_percent: number | null
           photo: Json | null
           places_api_calls: number | null
+          price_cents: number
           product_id: string | null
+          published_version_id: string | null
+          rating_average: number | null
+          rating_count: number
+          search_vector: unknown | null
           success_rate: number | null
           system_prompt: string
           total_landmarks: number
           total_processing_time_ms: number | null
           updated_at: string
           user_id: string
+          voice_id: string | null
         }
         Insert: {
           account_id?: string | null
           agentid?: string | null
+          apple_product_id?: string | null
           coordinate_quality_high?: number | null
           coordinate_quality_low?: number | null
           coordinate_quality_medium?: number | null
           created_at?: string
+          currency?: string
           description?: string
           destination: string
           destination_details?: Json | null
+          duration_minutes?: number | null
           error_count?: number | null
           experience?: boolean
           fallbacks_used?: string[] | null
@@ -190,26 +425,38 @@ export type Database = {
           generation_end_time?: string | null
           generation_start_time: string
           id?: string
+          language?: string
+          launch_discount_ends_at?: string | null
+          launch_discount_percent?: number | null
           photo?: Json | null
           places_api_calls?: number | null
+          price_cents?: number
           product_id?: string | null
+          published_version_id?: string | null
+          rating_average?: number | null
+          rating_count?: number
+          search_vector?: unknown | null
           success_rate?: number | null
           system_prompt: string
           total_landmarks?: number
           total_processing_time_ms?: number | null
           updated_at?: string
           user_id: string
+          voice_id?: string | null
         }
         Update: {
           account_id?: string | null
           agentid?: string | null
+          apple_product_id?: string | null
           coordinate_quality_high?: number | null
           coordinate_quality_low?: number | null
           coordinate_quality_medium?: number | null
           created_at?: string
+          currency?: string
           description?: string
           destination?: string
           destination_details?: Json | null
+          duration_minutes?: number | null
           error_count?: number | null
           experience?: boolean
           fallbacks_used?: string[] | null
@@ -217,17 +464,90 @@ export type Database = {
           generation_end_time?: string | null
           generation_start_time?: string
           id?: string
+          language?: string
+          launch_discount_ends_at?: string | null
+          launch_discount_percent?: number | null
           photo?: Json | null
           places_api_calls?: number | null
+          price_cents?: number
           product_id?: string | null
+          published_version_id?: string | null
+          rating_average?: number | null
+          rating_count?: number
+          search_vector?: unknown | null
           success_rate?: number | null
           system_prompt?: string
           total_landmarks?: number
           total_processing_time_ms?: number | null
           updated_at?: string
           user_id?: string
+          voice_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "generated_tours_published_version_id_fkey"
+            columns: ["published_version_id"]
+            isOneToOne: false
+            referencedRelation: "experience_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geofences: {
+        Row: {
+          coordinates: Json
+          corridor_width: number
+          created_at: string
+          dwell_seconds: number
+          events: string[]
+          id: string
+          message: string | null
+          name: string
+          place_id: string | null
+          shape: string
+          tour_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          coordinates: Json
+          corridor_width?: number
+          created_at?: string
+          dwell_seconds?: number
+          events?: string[]
+          id?: string
+          message?: string | null
+          name: string
+          place_id?: string | null
+          shape: string
+          tour_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          coordinates?: Json
+          corridor_width?: number
+          created_at?: string
+          dwell_seconds?: number
+          events?: string[]
+          id?: string
+          message?: string | null
+          name?: string
+          place_id?: string | null
+          shape?: string
+          tour_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "geofences_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       interactions: {
         Row: {
@@ -263,6 +583,7 @@ export type Database = {
           points_of_interest_mentioned: string[] | null
           problem_resolution_explanation: string | null
           problem_resolution_status: string | null
+          search_vector: unknown | null
           start_time: number | null
           transportation_mode: string | null
           user_id: string | null
@@ -305,6 +626,7 @@ export type Database = {
           points_of_interest_mentioned?: string[] | null
           problem_resolution_explanation?: string | null
           problem_resolution_status?: string | null
+          search_vector?: unknown | null
           start_time?: number | null
           transportation_mode?: string | null
           user_id?: string | null
@@ -347,6 +669,7 @@ export type Database = {
           points_of_interest_mentioned?: string[] | null
           problem_resolution_explanation?: string | null
           problem_resolution_status?: string | null
+          search_vector?: unknown | null
           start_time?: number | null
           transportation_mode?: string | null
           user_id?: string | null
@@ -366,12 +689,20 @@ export type Database = {
           apple_transaction_id: string | null
           created_at: string
           currency: string
+          discount_amount: number
+          dispute_status: string | null
+          disputed_amount: number
+          disputed_at: string | null
           id: string
+          list_price_amount: number | null
           metadata: Json | null
           payment_platform: string | null
           payment_type: string | null
           platform_fee_amount: number
           product_id: string | null
+          promo_code_id: string | null
+          refunded_amount: number
+          refunded_at: string | null
           status: string
           stripe_charge_id: string | null
           stripe_customer_id: string | null
@@ -392,12 +723,20 @@ export type Database = {
           apple_transaction_id?: string | null
           created_at?: string
           currency?: string
+          discount_amount?: number
+          dispute_status?: string | null
+          disputed_amount?: number
+          disputed_at?: string | null
           id?: string
+          list_price_amount?: number | null
           metadata?: Json | null
           payment_platform?: string | null
           payment_type?: string | null
           platform_fee_amount: number
           product_id?: string | null
+          promo_code_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
           status?: string
           stripe_charge_id?: string | null
           stripe_customer_id?: string | null
@@ -418,12 +757,20 @@ export type Database = {
           apple_transaction_id?: string | null
           created_at?: string
           currency?: string
+          discount_amount?: number
+          dispute_status?: string | null
+          disputed_amount?: number
+          disputed_at?: string | null
           id?: string
+          list_price_amount?: number | null
           metadata?: Json | null
           payment_platform?: string | null
           payment_type?: string | null
           platform_fee_amount?: number
           product_id?: string | null
+          promo_code_id?: string | null
+          refunded_amount?: number
+          refunded_at?: string | null
           status?: string
           stripe_charge_id?: string | null
           stripe_customer_id?: string | null
@@ -437,10 +784,19 @@ export type Database = {
           transaction_date?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payments_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "experience_promo_codes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
+          accessibility_profile: Json
           avatar_url: string | null
           bio: string | null
           created_at: string
@@ -448,6 +804,7 @@ export type Database = {
           first_login_at: string | null
           full_name: string | null
           id: string
+          preferred_language: string
           role: string
           session_count: number | null
           stripe_account_id: string | null
@@ -460,6 +817,7 @@ export type Database = {
           upgrade_card_dismissed_at: string | null
         }
         Insert: {
+          accessibility_profile?: Json
           avatar_url?: string | null
           bio?: string | null
           created_at?: string
@@ -467,6 +825,7 @@ export type Database = {
           first_login_at?: string | null
           full_name?: string | null
           id: string
+          preferred_language?: string
           role?: string
           session_count?: number | null
           stripe_account_id?: string | null
@@ -479,6 +838,7 @@ export type Database = {
           upgrade_card_dismissed_at?: string | null
         }
         Update: {
+          accessibility_profile?: Json
           avatar_url?: string | null
           bio?: string | null
           created_at?: string
@@ -486,6 +846,7 @@ export type Database = {
           first_login_at?: string | null
           full_name?: string | null
           id?: string
+          preferred_language?: string
           role?: string
           session_count?: number | null
           stripe_account_id?: string | null
@@ -770,6 +1131,56 @@ export type Database = {
           },
         ]
       }
+      trip_recordings: {
+        Row: {
+          created_at: string
+          destination: string
+          distance_meters: number
+          ended_at: string
+          id: string
+          interaction_ids: string[]
+          path: Json
+          started_at: string
+          tour_id: string | null
+          user_id: string
+          visits: Json
+        }
+        Insert: {
+          created_at?: string
+          destination: string
+          distance_meters?: number
+          ended_at: string
+          id?: string
+          interaction_ids?: string[]
+          path?: Json
+          started_at: string
+          tour_id?: string | null
+          user_id: string
+          visits?: Json
+        }
+        Update: {
+          created_at?: string
+          destination?: string
+          distance_meters?: number
+          ended_at?: string
+          id?: string
+          interaction_ids?: string[]
+          path?: Json
+          started_at?: string
+          tour_id?: string | null
+          user_id?: string
+          visits?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_recordings_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "generated_tours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_tour_stats: {
         Row: {
           created_at: string
@@ -799,17 +1210,44 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      experience_catalog: {
+        Row: {
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          destination: string | null
+          destination_details: Json | null
+          duration_minutes: number | null
+          id: string | null
+          language: string | null
+          launch_discount_ends_at: string | null
+          launch_discount_percent: number | null
+          photo: Json | null
+          price_cents: number | null
+          rating_average: number | null
+          rating_count: number | null
+          voice_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      can_review_experience: {
+        Args: { p_tour_id: string }
+        Returns: boolean
+      }
       cleanup_all_data: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      create_experience_draft: {
+        Args: { p_tour_id: string }
+        Returns: string
+      }
       custom_access_token_hook: {
         Args: { event: Json }
         Returns: Json
@@ -818,6 +1256,14 @@ export type Database = {
         Args: { target_user_id: string }
         Returns: Json
       }
+      get_experience_evaluation_summary: {
+        Args: { p_tour_id: string }
+        Returns: {
+          criterion: string
+          status: string
+          sessions: number
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -878,6 +1324,63 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      publish_experience_version: {
+        Args: { p_version_id: string }
+        Returns: undefined
+      }
+      release_promo_code_redemption: {
+        Args: { p_promo_code_id: string }
+        Returns: undefined
+      }
+      reply_to_experience_review: {
+        Args: { p_reply: string; p_review_id: string }
+        Returns: undefined
+      }
+      reserve_promo_code_redemption: {
+        Args: { p_promo_code_id: string }
+        Returns: boolean
+      }
+      save_tour_edits: {
+        Args: { p_landmarks: Json; p_system_prompt: string; p_tour_id: string }
+        Returns: undefined
+      }
+      search_experiences: {
+        Args: {
+          p_language?: string
+          p_latitude?: number
+          p_limit?: number
+          p_longitude?: number
+          p_max_distance_km?: number
+          p_max_duration?: number
+          p_max_price_cents?: number
+          p_min_duration?: number
+          p_min_price_cents?: number
+          p_min_rating?: number
+          p_offset?: number
+          p_query?: string
+          p_sort?: string
+          p_voice_id?: string
+        }
+        Returns: {
+          created_at: string
+          currency: string
+          description: string
+          destination: string
+          destination_details: Json
+          distance_km: number
+          duration_minutes: number
+          id: string
+          language: string
+          launch_discount_ends_at: string
+          launch_discount_percent: number
+          photo: Json
+          price_cents: number
+          rating_average: number
+          rating_count: number
+          total_count: number
+          voice_id: string
+        }[]
+      }
       search_interactions: {
         Args: {
           match_count: number
@@ -903,6 +1406,47 @@ export type Database = {
           user_input: string
         }[]
       }
+      search_interactions_hybrid: {
+        Args: {
+          p_destination?: string
+          p_favorites_only?: boolean
+          p_from?: string
+          p_interaction_types?: string[]
+          p_latitude?: number
+          p_limit?: number
+          p_longitude?: number
+          p_match_threshold?: number
+          p_max_distance_km?: number
+          p_query?: string
+          p_query_embedding?: string
+          p_to?: string
+          p_transportation_mode?: string
+          p_user_id: string
+        }
+        Returns: {
+          agent_id: string
+          assistant_response: string
+          audio_url: string
+          conversation_duration: number
+          conversation_id: string
+          created_at: string
+          destination: string
+          distance_km: number
+          full_transcript: Json
+          id: string
+          interaction_type: string
+          is_favorite: boolean
+          keyword_score: number
+          landmark_coordinates: unknown
+          landmark_image_url: string
+          recency_score: number
+          score: number
+          semantic_score: number
+          snippet: string
+          transportation_mode: string
+          user_input: string
+        }[]
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -915,6 +1459,10 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      update_experience_entitlement_version: {
+        Args: { p_tour_id: string }
+        Returns: undefined
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
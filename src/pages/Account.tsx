@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, User, Shield, FileText, LogOut, Trash2, Lock, RefreshCw } from 'lucide-react';
+import { ArrowLeft, User, Shield, FileText, LogOut, Trash2, Lock, RefreshCw, BookOpen } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/components/AuthProvider';
 import { PersonalInfoDialog } from '@/components/PersonalInfoDialog';
@@ -128,6 +128,15 @@ const Account: React.FC = () => {
               Personal Info
             </Button>
             
+            <Button 
+              variant="outline" 
+              className="w-full justify-start gap-3 h-12"
+              onClick={() => navigate('/account/library')}
+            >
+              <BookOpen className="w-5 h-5" />
+              My Library
+            </Button>
+            
             <Button 
               variant="outline" 
               className="w-full justify-start gap-3 h-12"
@@ -9,6 +9,12 @@ import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useDemoMode } from '@/hooks/useDemoMode';
+import { useCuratorEarnings } from '@/hooks/useCuratorEarnings';
+import CuratorEarningsDashboard from '@/components/CuratorEarningsDashboard';
+import ExperienceVersionsPanel from '@/components/ExperienceVersionsPanel';
+import CuratorReviewsPanel from '@/components/CuratorReviewsPanel';
+import { summarizeTotals } from '@/utils/curatorEarnings';
+import { formatPrice } from '@/utils/experiencePricing';
 
 const CuratorPortal: React.FC = () => {
   const { user, profile, signOut } = useAuth();
@@ -22,6 +28,7 @@ const CuratorPortal: React.FC = () => {
     chargesEnabled?: boolean;
   }>({});
   const [isAccessingStripe, setIsAccessingStripe] = useState(false);
+  const { data: earnings, isLoading: isLoadingEarnings, refetch: refetchEarnings } = useCuratorEarnings(user?.id);
 
   // Handle Stripe Connect return flow
   useEffect(() => {
@@ -199,13 +206,17 @@ const CuratorPortal: React.FC = () => {
         onClose={() => setShowCreateExperience(false)}
         onExperienceCreated={() => {
           setShowCreateExperience(false);
-          // TODO: Refresh experiences list
+          refetchEarnings();
         }}
       />
     );
   }
 
   const stripeStatusDisplay = getStripeStatusDisplay();
+  const earningsTotals = summarizeTotals(earnings?.payments || []);
+  const totalUsers = new Set(
+    (earnings?.payments || []).filter(payment => payment.status === 'succeeded').map(payment => payment.tourist_user_id)
+  ).size;
 
   return (
     <ProtectedRoute requiredRole="travel_expert">
@@ -266,7 +277,7 @@ const CuratorPortal: React.FC = () => {
                 <div className="flex items-center space-x-4">
                   <BookOpen className="h-8 w-8 text-primary" />
                   <div>
-                    <p className="text-2xl font-bold">0</p>
+                    <p className="text-2xl font-bold">{earnings?.experienceCount ?? 0}</p>
                     <p className="text-sm text-muted-foreground">Experiences Created</p>
                   </div>
                 </div>
@@ -277,7 +288,7 @@ const CuratorPortal: React.FC = () => {
                 <div className="flex items-center space-x-4">
                   <Users className="h-8 w-8 text-primary" />
                   <div>
-                    <p className="text-2xl font-bold">0</p>
+                    <p className="text-2xl font-bold">{totalUsers}</p>
                     <p className="text-sm text-muted-foreground">Total Users</p>
                   </div>
                 </div>
@@ -288,7 +299,11 @@ const CuratorPortal: React.FC = () => {
                 <div className="flex items-center space-x-4">
                   <TrendingUp className="h-8 w-8 text-primary" />
                   <div>
-                    <p className="text-2xl font-bold">$0</p>
+                    <p className="text-2xl font-bold">
+                      {earningsTotals.length > 0
+                        ? earningsTotals.map(total => formatPrice(Math.round(total.netPayout * 100), total.currency)).join(' + ')
+                        : '$0'}
+                    </p>
                     <p className="text-sm text-muted-foreground">Total Earnings</p>
                     <div className="flex items-center gap-2 mt-2">
                       {stripeStatusDisplay.variant === 'success' && (
@@ -322,6 +337,12 @@ const CuratorPortal: React.FC = () => {
             </Card>
           </div>
 
+          <CuratorEarningsDashboard data={earnings} isLoading={isLoadingEarnings} />
+
+          <CuratorReviewsPanel userId={user?.id} />
+
+          <ExperienceVersionsPanel userId={user?.id} />
+
           {/* Create Experience Section */}
           <div className="flex flex-col items-center justify-center space-y-6 py-12">
             <div className="text-center space-y-4">
@@ -398,12 +419,6 @@ const CuratorPortal: React.FC = () => {
                     Track user engagement, popular landmarks, and experience performance metrics.
                   </p>
                 </div>
-                <div className="p-4 border border-border rounded-lg">
-                  <h3 className="font-semibold mb-2">Revenue Sharing</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Monetize your experiences with automatic payouts and transparent earnings tracking.
-                  </p>
-                </div>
                 <div className="p-4 border border-border rounded-lg">
                   <h3 className="font-semibold mb-2">Experience Marketplace</h3>
                   <p className="text-sm text-muted-foreground">
@@ -11,6 +11,7 @@ import { VoiceDemoAudioGenerator } from '@/components/VoiceDemoAudioGenerator';
 import { Link } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { AGENT_CLIENT_TOOLS, provisionAgentClientTools } from '@/utils/agentClientTools';
 
 const ElevenLabsPlayground: React.FC = () => {
   const { user, signOut } = useAuth();
@@ -208,6 +209,37 @@ const ElevenLabsPlayground: React.FC = () => {
     }
   };
 
+  const provisionMapTools = async () => {
+    if (!selectedAgent) {
+      toast({
+        title: "No Agent Selected",
+        description: "Please select an agent first",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const toolIds = await provisionAgentClientTools(selectedAgent.agent_id);
+      setToolsData({ agent_id: selectedAgent.agent_id, map_tool_ids: toolIds });
+
+      toast({
+        title: "Map Tools Added",
+        description: `${toolIds.length} map tools are attached to ${selectedAgent.name}`,
+      });
+    } catch (error) {
+      console.error('Map tools provisioning error:', error);
+      toast({
+        title: "Failed to Add Map Tools",
+        description: "Could not create or attach the map tools",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const duplicateAgent = async () => {
     if (!selectedAgent) {
       toast({
@@ -997,10 +1029,19 @@ const ElevenLabsPlayground: React.FC = () => {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Button onClick={fetchAgentTools} disabled={loading}>
-              <Play className="mr-2 h-4 w-4" />
-              List Agent Tools
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={fetchAgentTools} disabled={loading}>
+                <Play className="mr-2 h-4 w-4" />
+                List Agent Tools
+              </Button>
+              <Button variant="outline" onClick={provisionMapTools} disabled={loading}>
+                <Wrench className="mr-2 h-4 w-4" />
+                Add Map Tools
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Map tools let the guide act on the app: {AGENT_CLIENT_TOOLS.map(tool => tool.tool_config.name as string).join(', ')}
+            </p>
             
             {toolsData && (
               <div className="mt-4 p-4 bg-muted rounded-lg">
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import SplashScreen from '@/components/SplashScreen';
 import MainLayout from '@/components/MainLayout';
 import Footer from '@/components/Footer';
@@ -9,6 +9,7 @@ import { landmarks as staticLandmarks, Landmark } from '@/data/landmarks';
 import { useAuth } from '@/components/AuthProvider';
 import { useMapboxToken } from '@/hooks/useMapboxToken';
 import { PaymentDialog } from '@/components/payment/PaymentDialog';
+import { useExperiencePayment } from '@/hooks/useExperiencePayment';
 import { Experience } from '@/hooks/useExperiences';
 import { useDialogStates } from '@/hooks/useDialogStates';
 import { useProximityNotifications } from '@/hooks/useProximityNotifications';
@@ -35,15 +36,17 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
     systemPrompt: string;
     landmarks: any[];
     agentId?: string;
+    language?: string;
   } | null>(null);
   const [tourKey, setTourKey] = useState<string>('initial');
   
   // Payment dialog state for experiences
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
-  const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const { session: paymentSession, setSession: setPaymentSession, applyPromoCode } = useExperiencePayment();
   const [selectedExperience, setSelectedExperience] = useState<Experience | null>(null);
   
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
   
   const { user, signOut } = useAuth();
@@ -81,7 +84,7 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
           if (pendingPayment) {
             console.log('🎯 Post-auth experience payment flow detected');
             // This will trigger the payment dialog for the experience
-            setClientSecret(pendingPayment.clientSecret);
+            setPaymentSession(pendingPayment.session);
             setSelectedExperience(pendingPayment.experience);
             setIsPaymentDialogOpen(true);
             // Clear the pending payment
@@ -99,6 +102,21 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
     }
   }, [onRegisterPostAuthActions]);
   
+  // Keep the voice guide in sync when the tour's landmarks are edited after generation
+  useEffect(() => {
+    const handleTourEdited = (event: Event) => {
+      const { destination, systemPrompt, landmarks } = (event as CustomEvent).detail;
+      console.log('✏️ Updating voice tour data after tour edit:', destination);
+      setVoiceTourData(current => current && current.destination === destination
+        ? { ...current, systemPrompt, landmarks }
+        : current
+      );
+    };
+
+    window.addEventListener('tour-landmarks-edited', handleTourEdited);
+    return () => window.removeEventListener('tour-landmarks-edited', handleTourEdited);
+  }, []);
+
   // Combine static landmarks with smart tour landmarks
   const allLandmarks: Landmark[] = useMemo(() => {
     return [...staticLandmarks, ...smartTourLandmarks];
@@ -160,7 +178,7 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
   };
 
   // Enhanced handler for Intelligent Tour with comprehensive reset
-  const handleIntelligentTourOpen = () => {
+  const handleIntelligentTourOpen = useCallback(() => {
     console.log('🎯 Opening Intelligent Tour dialog - performing comprehensive reset');
     
     // Perform comprehensive reset before opening dialog
@@ -181,7 +199,16 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
     setTimeout(() => {
       setIsIntelligentTourOpen(true);
     }, 200);
-  };
+  }, [setIsIntelligentTourOpen, setIsNewTourAssistantOpen, setIsInteractionHistoryOpen, setSelectedLandmark]);
+
+  // Start an owned experience picked in My Library
+  useEffect(() => {
+    if ((location.state as { openIntelligentTour?: boolean } | null)?.openIntelligentTour) {
+      console.log('📚 Starting experience from library');
+      navigate(location.pathname, { replace: true, state: null });
+      handleIntelligentTourOpen();
+    }
+  }, [location.state, location.pathname, navigate, handleIntelligentTourOpen]);
 
   // Handler for auth required from IntelligentTourDialog
   const handleIntelligentTourAuthRequired = () => {
@@ -189,7 +216,7 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
   };
 
   // Enhanced handler for when tour is ready for voice agent
-  const handleTourReadyForVoice = (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string }) => {
+  const handleTourReadyForVoice = (tourData: { destination: string; systemPrompt: string; landmarks: any[]; agentId?: string; language?: string }) => {
     console.log('🎙️ Tour ready for voice agent:', tourData.destination);
     console.log('🎙️ Previous voice tour data:', voiceTourData?.destination || 'none');
     
@@ -318,8 +345,9 @@ const Index: React.FC<IndexProps> = ({ onRegisterPostAuthActions, onVoiceAgentSt
         open={isPaymentDialogOpen}
         onOpenChange={setIsPaymentDialogOpen}
         experience={selectedExperience}
-        clientSecret={clientSecret}
+        session={paymentSession}
         onPaymentSuccess={handleExperiencePaymentSuccess}
+        onApplyPromoCode={selectedExperience ? (code) => applyPromoCode(selectedExperience.id, code) : undefined}
       />
     </>
   );
@@ -0,0 +1,117 @@
+import React from 'react';
+import { ArrowLeft, ArrowUpCircle, BookOpen, MapPin, Play, RefreshCw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/components/AuthProvider';
+import { isRestorePurchasesAvailable, useExperienceLibrary } from '@/hooks/useExperienceEntitlements';
+import { Experience } from '@/hooks/useExperiences';
+import { convertExperienceToLandmark } from '@/utils/experienceUtils';
+
+const getPhotoUrl = (photo: Experience['photo']): string | null => {
+  if (!photo) return null;
+  if (typeof photo === 'string') return photo;
+  if (Array.isArray(photo) && photo.length > 0) return photo[0];
+  if (typeof photo === 'object' && photo.url) return photo.url;
+  return null;
+};
+
+const Library: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: ownedExperiences, isLoading, isRestoring, restorePurchases, updateToLatestVersion } = useExperienceLibrary(user?.id);
+
+  const handleStartTour = (experience: Experience) => {
+    // Index opens the tour dialog for the pending destination when it sees this state
+    window.pendingLandmarkDestination = convertExperienceToLandmark(experience);
+    navigate('/', { state: { openIntelligentTour: true } });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Sticky Header with proper iOS safe area support */}
+      <div className="sticky top-0 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b safe-area-header">
+        <div className="max-w-2xl mx-auto px-4">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/account')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Account
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto p-4">
+        <div className="bg-card p-6 rounded-lg border">
+          <div className="flex items-center justify-between mb-8">
+            <h1 className="text-3xl font-bold">My Library</h1>
+            {isRestorePurchasesAvailable() && (
+              <Button variant="outline" size="sm" onClick={restorePurchases} disabled={isRestoring}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isRestoring ? 'animate-spin' : ''}`} />
+                {isRestoring ? 'Restoring...' : 'Restore Purchases'}
+              </Button>
+            )}
+          </div>
+
+          {!user ? (
+            <p className="text-muted-foreground">Sign in to see the experiences you own.</p>
+          ) : isLoading ? (
+            <p className="text-muted-foreground">Loading your experiences...</p>
+          ) : !ownedExperiences || ownedExperiences.length === 0 ? (
+            <div className="text-center py-8 space-y-2">
+              <BookOpen className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="font-medium">No experiences yet</p>
+              <p className="text-sm text-muted-foreground">
+                Experiences you buy show up here, on every device you sign in to.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {ownedExperiences.map(({ entitlementId, source, grantedAt, experience, versionNumber, updateAvailable }) => {
+                const photoUrl = getPhotoUrl(experience.photo);
+                return (
+                  <div key={entitlementId} className="flex gap-4 p-3 border rounded-lg">
+                    {photoUrl ? (
+                      <img src={photoUrl} alt={experience.destination} className="w-20 h-20 rounded-md object-cover" />
+                    ) : (
+                      <div className="w-20 h-20 rounded-md bg-muted flex items-center justify-center">
+                        <MapPin className="w-6 h-6 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold truncate">{experience.destination}</h3>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{experience.description}</p>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        <span>Purchased {new Date(grantedAt).toLocaleDateString()}</span>
+                        <Badge variant="secondary" className="text-xs">
+                          {source === 'apple' ? 'App Store' : 'Card'}
+                        </Badge>
+                        {versionNumber && <span>v{versionNumber}</span>}
+                      </div>
+                    </div>
+                    <div className="flex flex-col gap-2 self-center">
+                      <Button size="sm" onClick={() => handleStartTour(experience)}>
+                        <Play className="w-4 h-4 mr-1" />
+                        Start
+                      </Button>
+                      {updateAvailable && (
+                        <Button size="sm" variant="outline" onClick={() => updateToLatestVersion(experience.id)}>
+                          <ArrowUpCircle className="w-4 h-4 mr-1" />
+                          Update
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Library;
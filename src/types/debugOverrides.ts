@@ -4,3 +4,15 @@ export interface DebugOverrides {
   targetLandmarkId: string | null;
   forcedDistance: number | null;
 }
+
+export type SimulatedWalkSource = 'route' | 'gpx';
+
+export interface SimulatedWalkState {
+  source: SimulatedWalkSource;
+  name: string;
+  track: [number, number][]; // [longitude, latitude]
+  totalDistance: number; // meters
+  progress: number; // meters walked along the track
+  speedKmh: number;
+  isPlaying: boolean;
+}
@@ -19,6 +19,31 @@ export interface ProximitySettings {
   updated_at?: string;
 }
 
+export type GeofenceShape = 'polygon' | 'corridor';
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface Geofence {
+  id: string;
+  user_id: string;
+  name: string;
+  shape: GeofenceShape;
+  coordinates: [number, number][]; // [lng, lat] - polygon ring or corridor centerline
+  corridor_width: number; // in meters - total width for corridors
+  place_id?: string | null; // landmark whose radius alerts this geofence replaces
+  tour_id?: string | null;
+  events: GeofenceEventType[];
+  dwell_seconds: number;
+  message?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GeofenceEvent {
+  geofence: Geofence;
+  type: GeofenceEventType;
+  timestamp: number;
+}
+
 export interface UserLocation {
   latitude: number;
   longitude: number;
@@ -0,0 +1,76 @@
+import { Json } from '@/integrations/supabase/types';
+
+// Stored on profiles.accessibility_profile
+export interface AccessibilityProfile {
+  wheelchair: boolean;
+  step_free_only: boolean;
+  max_walking_meters: number | null; // longest walk between stops, null for no limit
+  needs_rest_stops: boolean;
+}
+
+// Places API v1 accessibilityOptions, as returned by get-place-accessibility
+export interface PlaceAccessibility {
+  wheelchairAccessibleEntrance?: boolean;
+  wheelchairAccessibleParking?: boolean;
+  wheelchairAccessibleRestroom?: boolean;
+  wheelchairAccessibleSeating?: boolean;
+}
+
+export type AccessibilityStatus = 'accessible' | 'not_accessible' | 'unknown';
+
+export const DEFAULT_ACCESSIBILITY_PROFILE: AccessibilityProfile = {
+  wheelchair: false,
+  step_free_only: false,
+  max_walking_meters: null,
+  needs_rest_stops: false
+};
+
+export const WALKING_DISTANCE_OPTIONS = [200, 400, 800, 1500];
+
+// Wheelchair users get a limit even if they didn't set one
+const WHEELCHAIR_MAX_SEGMENT_METERS = 1500;
+// Walks longer than this get a rest stop suggestion
+export const REST_STOP_INTERVAL_METERS = 400;
+
+export const normalizeAccessibilityProfile = (value: Json | null | undefined): AccessibilityProfile => {
+  const stored = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  const maxWalking = stored.max_walking_meters;
+
+  return {
+    wheelchair: stored.wheelchair === true,
+    step_free_only: stored.step_free_only === true,
+    max_walking_meters: typeof maxWalking === 'number' && maxWalking > 0 ? maxWalking : null,
+    needs_rest_stops: stored.needs_rest_stops === true
+  };
+};
+
+export const hasAccessibilityNeeds = (profile: AccessibilityProfile) =>
+  profile.wheelchair || profile.step_free_only || profile.max_walking_meters !== null || profile.needs_rest_stops;
+
+/**
+ * Whether stops must have a step-free entrance
+ */
+export const requiresStepFree = (profile: AccessibilityProfile) => profile.wheelchair || profile.step_free_only;
+
+/**
+ * Longest walking segment between stops, or null for no limit
+ */
+export const getMaxSegmentMeters = (profile: AccessibilityProfile): number | null => {
+  if (profile.max_walking_meters !== null) return profile.max_walking_meters;
+  return profile.wheelchair ? WHEELCHAIR_MAX_SEGMENT_METERS : null;
+};
+
+/**
+ * Whether a place works for the profile. Places without data are unknown rather than excluded,
+ * since Google has no accessibility data for many landmarks.
+ */
+export const getAccessibilityStatus = (
+  accessibility: PlaceAccessibility | null | undefined,
+  profile: AccessibilityProfile = { ...DEFAULT_ACCESSIBILITY_PROFILE, step_free_only: true }
+): AccessibilityStatus => {
+  if (!requiresStepFree(profile)) return 'accessible';
+
+  const entrance = accessibility?.wheelchairAccessibleEntrance;
+  if (entrance === undefined || entrance === null) return 'unknown';
+  return entrance ? 'accessible' : 'not_accessible';
+};
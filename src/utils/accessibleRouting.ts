@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { calculateDistance } from '@/utils/proximityUtils';
+import { RouteSchedule, ScheduleAccessibility, ScheduleViolation, improveStopOrder } from '@/utils/routeSchedule';
+import {
+  AccessibilityProfile,
+  AccessibilityStatus,
+  REST_STOP_INTERVAL_METERS,
+  getAccessibilityStatus,
+  getMaxSegmentMeters,
+  requiresStepFree
+} from '@/utils/accessibilityProfile';
+
+const DETOUR_FACTOR = 1.3;
+
+const formatMeters = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+/**
+ * Step-free status of each stop: from the tour when it was generated with the profile, otherwise
+ * looked up with get-place-accessibility (cached by the caller)
+ */
+export const resolveAccessibilityStatuses = async (
+  landmarks: TourLandmark[],
+  profile: AccessibilityProfile,
+  cache: Record<string, AccessibilityStatus>
+): Promise<Record<string, AccessibilityStatus>> => {
+  if (!requiresStepFree(profile)) return {};
+
+  await Promise.all(landmarks.map(async landmark => {
+    if (landmark.accessibilityStatus || cache[landmark.placeId] || landmark.placeId.startsWith('imported-')) return;
+
+    const { data, error } = await supabase.functions.invoke('get-place-accessibility', {
+      body: { place_id: landmark.placeId }
+    });
+    if (error) {
+      console.warn(`⚠️ Accessibility unavailable for ${landmark.name}:`, error);
+      return;
+    }
+    cache[landmark.placeId] = getAccessibilityStatus(data?.accessibility_info?.accessibility_options, profile);
+  }));
+
+  return Object.fromEntries(landmarks.map(landmark => [
+    landmark.placeId,
+    landmark.accessibilityStatus || cache[landmark.placeId] || 'unknown'
+  ]));
+};
+
+/**
+ * Flag stops without step-free access and walks over the traveler's limit or needing a rest
+ */
+export const applyAccessibilityToSchedule = (schedule: RouteSchedule, accessibility: ScheduleAccessibility): RouteSchedule => {
+  const { profile, legMeters, statusByPlaceId } = accessibility;
+  const maxSegmentMeters = getMaxSegmentMeters(profile);
+  let errorCount = schedule.errorCount;
+  let warningCount = schedule.warningCount;
+
+  const stops = schedule.stops.map((stop, index) => {
+    const violations: ScheduleViolation[] = [];
+    const status = statusByPlaceId[stop.landmark.placeId];
+    const meters = legMeters[index] ?? 0;
+
+    if (requiresStepFree(profile) && status === 'not_accessible') {
+      violations.push({ type: 'not_step_free', severity: 'error', message: 'Entrance is not step-free' });
+    } else if (requiresStepFree(profile) && status === 'unknown') {
+      violations.push({ type: 'accessibility_unknown', severity: 'warning', message: 'No step-free entrance data' });
+    }
+
+    if (maxSegmentMeters !== null && meters > maxSegmentMeters) {
+      violations.push({
+        type: 'walk_too_long',
+        severity: 'error',
+        message: `${formatMeters(meters)} walk, over your ${formatMeters(maxSegmentMeters)} limit - consider a taxi`
+      });
+    } else if (profile.needs_rest_stops && meters > REST_STOP_INTERVAL_METERS) {
+      violations.push({
+        type: 'rest_stop_needed',
+        severity: 'warning',
+        message: `${formatMeters(meters)} walk - plan a rest on the way`
+      });
+    }
+
+    violations.forEach(violation => violation.severity === 'error' ? errorCount++ : warningCount++);
+    return violations.length > 0 ? { ...stop, violations: [...stop.violations, ...violations] } : stop;
+  });
+
+  return { ...schedule, stops, errorCount, warningCount, accessibility };
+};
+
+/**
+ * Search for an order whose walks stay under `maxSegmentMeters`, using straight-line estimates
+ * @returns A better order, or null when no order shortens the walks over the limit
+ */
+export const findShortSegmentOrder = (
+  origin: [number, number],
+  landmarks: TourLandmark[],
+  maxSegmentMeters: number
+): TourLandmark[] | null => {
+  const segmentMeters = (order: TourLandmark[]) => order.map((landmark, index) => {
+    const from = index === 0 ? origin : order[index - 1].coordinates;
+    return calculateDistance(from[1], from[0], landmark.coordinates[1], landmark.coordinates[0]) * DETOUR_FACTOR;
+  });
+  const excess = (meters: number[]) => meters.reduce((total, leg) => total + Math.max(0, leg - maxSegmentMeters), 0);
+  // Walking over the limit dominates; total distance breaks ties
+  const evaluate = (order: TourLandmark[]) => {
+    const meters = segmentMeters(order);
+    return excess(meters) * 1000 + meters.reduce((total, leg) => total + leg, 0);
+  };
+
+  const initialExcess = excess(segmentMeters(landmarks));
+  if (initialExcess === 0) return null;
+
+  const { order } = improveStopOrder(landmarks, evaluate);
+  return excess(segmentMeters(order)) < initialExcess ? order : null;
+};
@@ -0,0 +1,170 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Client tools run in the app, so the voice guide can act on the map instead of only describing it.
+// Their names must match the handlers registered in useAgentClientTools and the map tools elevenlabs-tools-api
+// lets onto the default guide.
+export type AgentClientToolName =
+  | 'navigate_to_landmark'
+  | 'show_route'
+  | 'open_street_view'
+  | 'add_to_tour'
+  | 'get_opening_hours'
+  | 'get_quiet_times';
+
+const PLACE_ID_PARAMETER = {
+  type: 'string',
+  description: 'Google place_id of the place, as listed in your landmark data or a SYSTEM_ALERT'
+};
+
+const LANDMARK_NAME_PARAMETER = {
+  type: 'string',
+  description: 'Name of the place, used when the place_id is not known'
+};
+
+/**
+ * Tool configs in the shape the ElevenLabs tools API expects
+ */
+export const AGENT_CLIENT_TOOLS: { tool_config: Record<string, unknown> }[] = [
+  {
+    tool_config: {
+      type: 'client',
+      name: 'navigate_to_landmark',
+      description: 'Centers the map on a place and highlights it. Use when the user asks where something is or wants to see it on the map.',
+      expects_response: true,
+      response_timeout_secs: 10,
+      parameters: {
+        type: 'object',
+        properties: { place_id: PLACE_ID_PARAMETER, landmark_name: LANDMARK_NAME_PARAMETER },
+        required: []
+      }
+    }
+  },
+  {
+    tool_config: {
+      type: 'client',
+      name: 'show_route',
+      description: "Draws a route on the map from the user's current location to a place and returns its distance and duration. Use when the user asks how to get somewhere.",
+      expects_response: true,
+      response_timeout_secs: 15,
+      parameters: {
+        type: 'object',
+        properties: {
+          place_id: PLACE_ID_PARAMETER,
+          landmark_name: LANDMARK_NAME_PARAMETER,
+          travel_mode: { type: 'string', description: 'One of walking, cycling or driving. Defaults to walking.' }
+        },
+        required: []
+      }
+    }
+  },
+  {
+    tool_config: {
+      type: 'client',
+      name: 'open_street_view',
+      description: 'Opens Street View imagery of a landmark on the current tour. Use when the user wants to see what a place looks like.',
+      expects_response: true,
+      response_timeout_secs: 10,
+      parameters: {
+        type: 'object',
+        properties: { place_id: PLACE_ID_PARAMETER, landmark_name: LANDMARK_NAME_PARAMETER },
+        required: []
+      }
+    }
+  },
+  {
+    tool_config: {
+      type: 'client',
+      name: 'add_to_tour',
+      description: "Adds a place to the user's current tour and map. Use when the user asks to include a place they heard about in their tour.",
+      expects_response: true,
+      response_timeout_secs: 20,
+      parameters: {
+        type: 'object',
+        properties: { place_id: PLACE_ID_PARAMETER },
+        required: ['place_id']
+      }
+    }
+  },
+  {
+    tool_config: {
+      type: 'client',
+      name: 'get_opening_hours',
+      description: 'Returns whether a place is open now and its weekly opening hours.',
+      expects_response: true,
+      response_timeout_secs: 10,
+      parameters: {
+        type: 'object',
+        properties: { place_id: PLACE_ID_PARAMETER },
+        required: ['place_id']
+      }
+    }
+  },
+  {
+    tool_config: {
+      type: 'client',
+      name: 'get_quiet_times',
+      description: "Returns how busy a place usually is at this hour and today's quieter hours, estimated from its type and popularity. Use when the user is at or heading to a busy place, or asks when to avoid crowds.",
+      expects_response: true,
+      response_timeout_secs: 10,
+      parameters: {
+        type: 'object',
+        properties: { place_id: PLACE_ID_PARAMETER, landmark_name: LANDMARK_NAME_PARAMETER },
+        required: []
+      }
+    }
+  }
+];
+
+/**
+ * Prompt section telling the guide when to use its map tools
+ */
+export const MAP_TOOLS_PROMPT = `**Map Tools (act on the user's screen):**
+
+* **\`navigate_to_landmark(place_id, landmark_name)\`**: "Where is [place]?", "Show me [place] on the map"
+* **\`show_route(place_id, landmark_name, travel_mode)\`**: "Show me how to get there", "How do I walk to [place]?" Summarize the returned distance and time instead of reading turn-by-turn steps.
+* **\`open_street_view(place_id, landmark_name)\`**: "What does [place] look like?", "Can I see it?"
+* **\`add_to_tour(place_id)\`**: "Add that to my tour", "Save [place] for later"
+* **\`get_opening_hours(place_id)\`**: same triggers as \`get-place-hours\`; prefer this one while a tour is running.
+* **\`get_quiet_times(place_id, landmark_name)\`**: "Is it crowded?", "When is it quieter?" Also call it when the user arrives at a popular stop; if it's usually busy, suggest the quieter time in one sentence, e.g. "It's usually quieter after 4pm." The hours are estimates, so say "usually" and never claim it's busy right now.
+
+Tell the user what you did on their map in one short sentence after each map tool call.`;
+
+/**
+ * Creates the map tools that don't exist yet and attaches all of them to the agent
+ * @returns The ids of the agent's map tools
+ */
+export const provisionAgentClientTools = async (agentId: string): Promise<string[]> => {
+  const { data: existing, error: listError } = await supabase.functions.invoke('elevenlabs-tools-api', {
+    body: { action: 'list_tools' }
+  });
+  if (listError) throw listError;
+
+  const existingIds = new Map<string, string>(
+    (existing?.tools || []).map((tool: { id: string; tool_config?: { name?: string } }) => [tool.tool_config?.name, tool.id])
+  );
+
+  const toolIds: string[] = [];
+  for (const tool of AGENT_CLIENT_TOOLS) {
+    const name = tool.tool_config.name as string;
+    const existingId = existingIds.get(name);
+    if (existingId) {
+      toolIds.push(existingId);
+      continue;
+    }
+
+    const { data: created, error: createError } = await supabase.functions.invoke('elevenlabs-tools-api', {
+      body: { action: 'create_tool', toolData: tool }
+    });
+    if (createError) throw createError;
+
+    console.log(`🧰 Created agent tool ${name}:`, created.id);
+    toolIds.push(created.id);
+  }
+
+  const { error: assignError } = await supabase.functions.invoke('elevenlabs-tools-api', {
+    body: { action: 'add_agent_tools', agentId, toolIds }
+  });
+  if (assignError) throw assignError;
+
+  return toolIds;
+};
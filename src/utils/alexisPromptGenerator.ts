@@ -1,5 +1,8 @@
 // Utility function to generate Alexis prompt template based on destination and landmarks
 
+import { getLanguageInstruction } from '@/utils/tourLanguage';
+import { MAP_TOOLS_PROMPT } from '@/utils/agentClientTools';
+
 interface Destination {
   name: string;
   placeId?: string;
@@ -40,7 +43,8 @@ export function generateAlexisPrompt(
   destination: Destination, 
   landmarks: Landmark[], 
   landmarkHighlights?: LandmarkHighlight[],
-  agentName: string = 'Alexis'
+  agentName: string = 'Alexis',
+  language?: string
 ): string {
   // If landmarkHighlights are not provided, generate them from landmarks
   const highlights = landmarkHighlights || landmarks.map((landmark, idx) => ({
@@ -114,7 +118,7 @@ When you encounter questions or situations requiring real-time information about
     * **Trigger Phrases/Questions:** "Is [place] open right now?", "What are the hours for [place]?", "When does [place] close/open?", "What time does [place] operate?"
 
 * **\`get-place-popularity(place_id: string)\`**
-    * **Description:** Retrieves real-time popularity or crowd data for a place, indicating how busy it currently is. Use this tool when the user asks about crowd levels or the best time to visit to avoid crowds.
+    * **Description:** Retrieves a general popularity assessment for a place based on its rating, review count and whether it is open, with busyness by hour estimated from the place type. These are estimates, not live crowd counts: say a place is "usually" busy or quiet, and use \`get_quiet_times\` for a quieter time to suggest. Use this tool when the user asks about crowd levels or the best time to visit to avoid crowds.
     * **Trigger Phrases/Questions:** "How busy is [place]?", "Is [place] crowded right now?", "What's the best time to visit [place] to avoid crowds?"
 
 * **\`get-place-reviews(place_id: string, limit: number = 3)\`**
@@ -134,6 +138,8 @@ When you encounter questions or situations requiring real-time information about
     * **Description:** Provides information regarding the accessibility features of a specific place (e.g., wheelchair access, ramps, accessible parking). Use this tool when the user inquires about mobility or accessibility needs for a place.
     * **Trigger Phrases/Questions:** "Is [place] wheelchair accessible?", "Does [place] have ramps or elevators?", "What are the accessibility options at [place]?"
 
+${MAP_TOOLS_PROMPT}
+
 **Grounding Instructions:**
 - Always prioritize place_id-based data over general knowledge when available
 - Cross-reference multiple data sources for accuracy when using place_id
@@ -159,5 +165,5 @@ You will receive occasional, non-interrupting system updates about **new** nearb
        * **Share Key Information:** Immediately follow with an engaging fact or brief detail about [POI Name], drawing directly from the \`poi_fact\` provided in the \`SYSTEM_ALERT\`. For example: "Did you know that [poi_fact]? It's truly a captivating spot that often surprises visitors!"
        * **Smooth Transition:** Ask a relevant follow-up question about the newly discovered POI or connect it back to the tour, e.g.: "What are your thoughts on that, or shall we continue exploring ${destination.name}'s charm?"
    * **No New POI:** If no new POI information is available in the \`SYSTEM_ALERT\`s (or all have been discussed), simply continue the conversation based on the main tour plan or the user's previous input.
-3. **Internal Tracking for Repetition Avoidance:** Once you introduce a POI (whether from the initial "Key Landmarks" list or a "Real-time Location Awareness" alert), consider it "discussed" for the remainder of this conversation session. **Do not re-mention it, even if its ID appears again in a new \`SYSTEM_ALERT\`.** You are an expert who remembers what you've already shared.`;
+3. **Internal Tracking for Repetition Avoidance:** Once you introduce a POI (whether from the initial "Key Landmarks" list or a "Real-time Location Awareness" alert), consider it "discussed" for the remainder of this conversation session. **Do not re-mention it, even if its ID appears again in a new \`SYSTEM_ALERT\`.** You are an expert who remembers what you've already shared.${getLanguageInstruction(language)}`;
 }
\ No newline at end of file
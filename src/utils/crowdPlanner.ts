@@ -0,0 +1,112 @@
+import { TourLandmark } from '@/data/tourLandmarks';
+import { TravelMode } from '@/components/TravelModeSelector';
+import { OpeningPeriod } from '@/utils/itineraryPlanner';
+import {
+  RouteSchedule,
+  ScheduledStop,
+  buildRouteSchedule,
+  estimateLegMinutes,
+  improveStopOrder,
+  scheduleCost
+} from '@/utils/routeSchedule';
+import { PopularTimes, findQuietHour, formatHour, getPlaceTime, getPopularTimes, isBusyHour } from '@/utils/placePopularity';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Popular times for each stop on the tour's weekday. Stops without data are left out. The hours are
+ * estimated from each place's type and popularity, so the schedule only talks about usual busy hours.
+ */
+export const resolvePopularTimes = async (landmarks: TourLandmark[], weekday: number): Promise<Record<string, PopularTimes>> => {
+  const entries = await Promise.all(landmarks
+    .filter(landmark => !landmark.placeId.startsWith('imported-'))
+    .map(async landmark => [landmark.placeId, await getPopularTimes(landmark.placeId, weekday)] as const));
+
+  return Object.fromEntries(entries.filter((entry): entry is readonly [string, PopularTimes] => entry[1] !== null));
+};
+
+/**
+ * Minutes between `start` and `end` that fall in the place's busy hours, read on the place's clock
+ */
+export const getBusyMinutes = (times: PopularTimes, start: Date, end: Date): number => {
+  const { weekday, dayStart } = getPlaceTime(times, start);
+  if (weekday !== times.weekday) return 0;
+
+  return times.hours.filter(isBusyHour).reduce((total, hour) => {
+    const hourStart = dayStart + hour.hour * HOUR_MS;
+    const overlap = Math.min(end.getTime(), hourStart + HOUR_MS) - Math.max(start.getTime(), hourStart);
+    return total + Math.max(0, overlap) / 60000;
+  }, 0);
+};
+
+const getStopBusyMinutes = (stop: ScheduledStop, popularTimes: Record<string, PopularTimes>) => {
+  const times = popularTimes[stop.landmark.placeId];
+  return times ? getBusyMinutes(times, new Date(stop.visitStart), new Date(stop.departure)) : 0;
+};
+
+/**
+ * Flag stops visited during their usual busy hours
+ */
+export const applyCrowdsToSchedule = (schedule: RouteSchedule, popularTimes: Record<string, PopularTimes>): RouteSchedule => {
+  let warningCount = schedule.warningCount;
+
+  const stops = schedule.stops.map(stop => {
+    const withoutCrowds = stop.violations.filter(violation => violation.type !== 'busy_during_visit');
+    warningCount -= stop.violations.length - withoutCrowds.length;
+
+    const busyMinutes = Math.round(getStopBusyMinutes(stop, popularTimes));
+    if (busyMinutes === 0) return { ...stop, violations: withoutCrowds };
+
+    const times = popularTimes[stop.landmark.placeId];
+    const quietHour = findQuietHour(times, getPlaceTime(times, new Date(stop.visitStart)).hour);
+    warningCount++;
+    return {
+      ...stop,
+      violations: [...withoutCrowds, {
+        type: 'busy_during_visit' as const,
+        severity: 'warning' as const,
+        message: quietHour !== null
+          ? `Usually busy for ${busyMinutes} min of your visit, quieter after ${formatHour(quietHour)}`
+          : `Usually busy for ${busyMinutes} min of your visit`
+      }]
+    };
+  });
+
+  return { ...schedule, stops, warningCount };
+};
+
+export const totalBusyMinutes = (schedule: RouteSchedule, popularTimes: Record<string, PopularTimes>) =>
+  schedule.stops.reduce((total, stop) => total + getStopBusyMinutes(stop, popularTimes), 0);
+
+/**
+ * Search for an order that visits stops in their quieter hours without breaking opening hours
+ * @returns A better order, or null when no order avoids more of the crowds
+ */
+export const findQuietOrder = (
+  origin: [number, number],
+  landmarks: TourLandmark[],
+  startTime: Date,
+  travelMode: TravelMode,
+  hoursByPlaceId: Record<string, OpeningPeriod[] | undefined>,
+  popularTimes: Record<string, PopularTimes>,
+  travelScale: number = 1
+): TourLandmark[] | null => {
+  const scheduleFor = (order: TourLandmark[]) =>
+    buildRouteSchedule(order, estimateLegMinutes(origin, order, travelMode, travelScale), startTime, hoursByPlaceId);
+  // Crowds are a nuisance, not a blocker: a busy minute weighs less than a wet one
+  const evaluate = (order: TourLandmark[]) => {
+    const schedule = scheduleFor(order);
+    return scheduleCost(schedule) + totalBusyMinutes(schedule, popularTimes) * 2;
+  };
+
+  const initial = scheduleFor(landmarks);
+  const initialBusyMinutes = totalBusyMinutes(initial, popularTimes);
+  if (initialBusyMinutes === 0) return null;
+
+  const { order } = improveStopOrder(landmarks, evaluate);
+  const improved = scheduleFor(order);
+
+  return improved.errorCount <= initial.errorCount && totalBusyMinutes(improved, popularTimes) < initialBusyMinutes
+    ? order
+    : null;
+};
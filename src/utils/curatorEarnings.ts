@@ -0,0 +1,200 @@
+import { Tables } from '@/integrations/supabase/types';
+
+export type EarningsPayment = Pick<
+  Tables<'payments'>,
+  | 'id'
+  | 'tour_id'
+  | 'tourist_user_id'
+  | 'stripe_payment_intent_id'
+  | 'status'
+  | 'currency'
+  | 'amount'
+  | 'discount_amount'
+  | 'platform_fee_amount'
+  | 'tour_guide_payout_amount'
+  | 'refunded_amount'
+  | 'disputed_amount'
+  | 'dispute_status'
+  | 'created_at'
+>;
+
+export interface EarningsTotals {
+  currency: string;
+  sales: number;
+  gross: number;
+  discounts: number;
+  refunds: number;
+  disputes: number;
+  platformFees: number;
+  netPayout: number;
+}
+
+export interface ExperienceEarnings extends EarningsTotals {
+  tourId: string;
+  destination: string;
+}
+
+// Statuses of payments that actually charged the tourist
+const CHARGED_STATUSES = ['succeeded', 'refunded', 'disputed'];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const emptyTotals = (currency: string): EarningsTotals => ({
+  currency,
+  sales: 0,
+  gross: 0,
+  discounts: 0,
+  refunds: 0,
+  disputes: 0,
+  platformFees: 0,
+  netPayout: 0
+});
+
+export const isChargedPayment = (payment: EarningsPayment) => CHARGED_STATUSES.includes(payment.status);
+
+/**
+ * Money withdrawn by a dispute: open and lost disputes hold the funds, won ones return them
+ */
+const getDisputeDeduction = (payment: EarningsPayment) =>
+  Number(payment.disputed_amount) > 0 && payment.dispute_status !== 'won' ? Number(payment.disputed_amount) : 0;
+
+/**
+ * What one payment is worth after refunds and disputes.
+ * Refunds reverse the transfer and the application fee, so both shrink in proportion.
+ */
+export const getPaymentBreakdown = (payment: EarningsPayment) => {
+  const amount = Number(payment.amount);
+  // Refunds recorded before refunded_amount existed only set the status
+  const refunds = payment.status === 'refunded' && !Number(payment.refunded_amount) ? amount : Number(payment.refunded_amount);
+  const disputes = getDisputeDeduction(payment);
+  const keptRatio = amount > 0 ? Math.max(0, 1 - (refunds + disputes) / amount) : 0;
+
+  return {
+    gross: amount,
+    discounts: Number(payment.discount_amount),
+    refunds,
+    disputes,
+    platformFees: roundCents(Number(payment.platform_fee_amount) * keptRatio),
+    netPayout: roundCents(Number(payment.tour_guide_payout_amount) * keptRatio)
+  };
+};
+
+const addPayment = <T extends EarningsTotals>(totals: T, payment: EarningsPayment): T => {
+  const breakdown = getPaymentBreakdown(payment);
+  return {
+    ...totals,
+    sales: totals.sales + 1,
+    gross: roundCents(totals.gross + breakdown.gross),
+    discounts: roundCents(totals.discounts + breakdown.discounts),
+    refunds: roundCents(totals.refunds + breakdown.refunds),
+    disputes: roundCents(totals.disputes + breakdown.disputes),
+    platformFees: roundCents(totals.platformFees + breakdown.platformFees),
+    netPayout: roundCents(totals.netPayout + breakdown.netPayout)
+  };
+};
+
+/**
+ * Earnings per experience, one row per currency it was sold in
+ */
+export const summarizeByExperience = (
+  payments: EarningsPayment[],
+  destinations: Record<string, string>
+): ExperienceEarnings[] => {
+  const rows = new Map<string, ExperienceEarnings>();
+
+  payments.filter(isChargedPayment).forEach(payment => {
+    const tourId = payment.tour_id || 'unknown';
+    const key = `${tourId}|${payment.currency}`;
+    const row = rows.get(key) || {
+      ...emptyTotals(payment.currency),
+      tourId,
+      destination: destinations[tourId] || 'Deleted experience'
+    };
+    rows.set(key, addPayment(row, payment));
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.netPayout - a.netPayout);
+};
+
+/**
+ * Totals across all experiences, one entry per currency
+ */
+export const summarizeTotals = (payments: EarningsPayment[]): EarningsTotals[] => {
+  const totals = new Map<string, EarningsTotals>();
+
+  payments.filter(isChargedPayment).forEach(payment => {
+    totals.set(payment.currency, addPayment(totals.get(payment.currency) || emptyTotals(payment.currency), payment));
+  });
+
+  return Array.from(totals.values());
+};
+
+/**
+ * Months with charged payments, newest first, as YYYY-MM
+ */
+export const getEarningsMonths = (payments: EarningsPayment[]): string[] =>
+  Array.from(new Set(payments.filter(isChargedPayment).map(payment => payment.created_at.slice(0, 7))))
+    .sort()
+    .reverse();
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One line per charged payment in the month, for the curator's bookkeeping
+ * @param month YYYY-MM
+ */
+export const exportMonthlyEarningsCsv = (
+  payments: EarningsPayment[],
+  destinations: Record<string, string>,
+  month: string
+): string => {
+  const header = [
+    'Date', 'Experience', 'Payment ID', 'Status', 'Currency', 'Gross', 'Discount',
+    'Refunded', 'Disputed', 'Platform Fee', 'Net Payout'
+  ];
+
+  const rows = payments
+    .filter(payment => isChargedPayment(payment) && payment.created_at.startsWith(month))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(payment => {
+      const breakdown = getPaymentBreakdown(payment);
+      return [
+        payment.created_at.slice(0, 10),
+        destinations[payment.tour_id || ''] || 'Deleted experience',
+        payment.stripe_payment_intent_id,
+        payment.dispute_status ? `${payment.status} (dispute ${payment.dispute_status})` : payment.status,
+        payment.currency.toUpperCase(),
+        breakdown.gross.toFixed(2),
+        breakdown.discounts.toFixed(2),
+        breakdown.refunds.toFixed(2),
+        breakdown.disputes.toFixed(2),
+        breakdown.platformFees.toFixed(2),
+        breakdown.netPayout.toFixed(2)
+      ];
+    });
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+/**
+ * Trigger a browser download of a month's earnings
+ */
+export const downloadMonthlyEarningsCsv = (
+  payments: EarningsPayment[],
+  destinations: Record<string, string>,
+  month: string
+) => {
+  const blob = new Blob([exportMonthlyEarningsCsv(payments, destinations, month)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `exploraria-earnings-${month}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,74 @@
+// Voices curators can give their experience guide
+export const ELEVENLABS_VOICES = [
+  { id: 'EXAVITQu4vr4xnSDxMaL', name: 'Sarah', description: 'Professional and clear' },
+  { id: 'CwhRBWXzGAHq8TQ4Fs17', name: 'Roger', description: 'Warm and engaging' },
+  { id: '9BWtsMINqrJLrRacOk9x', name: 'Aria', description: 'Friendly and enthusiastic' },
+  { id: 'FGY2WhTYpPnrIDTdsKH5', name: 'Laura', description: 'Calm and informative' },
+];
+
+export const EXPERIENCE_LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'zh', name: 'Chinese' },
+] as const;
+
+export const getLanguageName = (code: string | null | undefined) =>
+  EXPERIENCE_LANGUAGES.find(language => language.code === code)?.name || code || '';
+
+export type ExperienceSort = 'relevance' | 'newest' | 'top_rated' | 'most_reviewed' | 'price_low' | 'nearest';
+
+export const EXPERIENCE_SORT_OPTIONS: { value: ExperienceSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'top_rated', label: 'Top rated' },
+  { value: 'most_reviewed', label: 'Most reviewed' },
+  { value: 'price_low', label: 'Price: low to high' },
+  { value: 'nearest', label: 'Nearest' },
+];
+
+export const DURATION_OPTIONS = [
+  { value: 'any', label: 'Any length', min: undefined, max: undefined },
+  { value: 'short', label: 'Under 1 hour', min: undefined, max: 59 },
+  { value: 'medium', label: '1-2 hours', min: 60, max: 120 },
+  { value: 'long', label: 'Over 2 hours', min: 121, max: undefined },
+] as const;
+
+export const DISTANCE_OPTIONS = [
+  { value: 'any', label: 'Anywhere', km: undefined },
+  { value: '5', label: 'Within 5 km', km: 5 },
+  { value: '25', label: 'Within 25 km', km: 25 },
+  { value: '100', label: 'Within 100 km', km: 100 },
+] as const;
+
+export interface ExperienceFilters {
+  query: string;
+  language?: string;
+  voiceId?: string;
+  duration: typeof DURATION_OPTIONS[number]['value'];
+  maxPrice?: number; // major units, in each experience's own currency
+  minRating?: number;
+  distance: typeof DISTANCE_OPTIONS[number]['value'];
+  sort: ExperienceSort;
+}
+
+export const DEFAULT_EXPERIENCE_FILTERS: ExperienceFilters = {
+  query: '',
+  duration: 'any',
+  distance: 'any',
+  sort: 'newest',
+};
+
+export const countActiveFilters = (filters: ExperienceFilters) =>
+  [
+    filters.language,
+    filters.voiceId,
+    filters.duration !== 'any',
+    filters.maxPrice,
+    filters.minRating,
+    filters.distance !== 'any',
+  ].filter(Boolean).length;
@@ -0,0 +1,33 @@
+export const EXPERIENCE_CURRENCIES = ['usd', 'eur', 'gbp', 'cad', 'aud'] as const;
+export type ExperienceCurrency = typeof EXPERIENCE_CURRENCIES[number];
+
+export const DEFAULT_EXPERIENCE_PRICE_CENTS = 999;
+export const MIN_EXPERIENCE_PRICE_CENTS = 50; // Stripe's minimum charge
+
+export interface ExperiencePricing {
+  price_cents: number;
+  currency: string;
+  launch_discount_percent?: number | null;
+  launch_discount_ends_at?: string | null;
+}
+
+/**
+ * Format an amount in cents for display, e.g. 999 usd -> "$9.99"
+ */
+export const formatPrice = (cents: number, currency: string): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(cents / 100);
+
+export const isLaunchDiscountActive = (pricing: ExperiencePricing, now: Date = new Date()): boolean =>
+  !!pricing.launch_discount_percent &&
+  (!pricing.launch_discount_ends_at || new Date(pricing.launch_discount_ends_at) > now);
+
+/**
+ * Price before promo codes, with the launch discount applied while it runs.
+ * Mirrors the calculation in create-experience-payment, which stays the source of truth.
+ */
+export const getEffectivePriceCents = (pricing: ExperiencePricing): number => {
+  if (!isLaunchDiscountActive(pricing)) return pricing.price_cents;
+
+  const discounted = Math.round(pricing.price_cents * (100 - pricing.launch_discount_percent!) / 100);
+  return Math.max(MIN_EXPERIENCE_PRICE_CENTS, discounted);
+};
@@ -0,0 +1,54 @@
+// The AI evaluation of each conversation uses four levels, spread evenly over the 1-5 star scale
+const EVALUATION_SCORES: Record<string, number> = {
+  excellent: 5,
+  good: 11 / 3,
+  fair: 7 / 3,
+  poor: 1
+};
+
+export const EVALUATION_CRITERIA: { key: string; label: string }[] = [
+  { key: 'user_satisfaction', label: 'User satisfaction' },
+  { key: 'info_accuracy', label: 'Info accuracy' },
+  { key: 'navigation_effectiveness', label: 'Navigation' },
+  { key: 'engagement_interactivity', label: 'Engagement' },
+  { key: 'problem_resolution', label: 'Problem resolution' },
+  { key: 'efficiency_conciseness', label: 'Conciseness' }
+];
+
+export interface EvaluationStatusCount {
+  criterion: string;
+  status: string;
+  sessions: number;
+}
+
+export interface CriterionEvaluation {
+  key: string;
+  label: string;
+  sessions: number;
+  score: number | null; // on the 1-5 star scale, null without evaluated sessions
+  statuses: Record<string, number>;
+}
+
+/**
+ * Evaluation results per criterion, scored on the same scale as star ratings so curators can compare them
+ */
+export const summarizeEvaluations = (counts: EvaluationStatusCount[]): CriterionEvaluation[] =>
+  EVALUATION_CRITERIA.map(({ key, label }) => {
+    const rows = counts.filter(row => row.criterion === key && row.status in EVALUATION_SCORES);
+    const sessions = rows.reduce((sum, row) => sum + Number(row.sessions), 0);
+    const total = rows.reduce((sum, row) => sum + EVALUATION_SCORES[row.status] * Number(row.sessions), 0);
+
+    return {
+      key,
+      label,
+      sessions,
+      score: sessions > 0 ? total / sessions : null,
+      statuses: Object.fromEntries(rows.map(row => [row.status, Number(row.sessions)]))
+    };
+  });
+
+/**
+ * Explicit rating minus the AI satisfaction score; positive when buyers rate higher than their conversations suggest
+ */
+export const getRatingGap = (ratingAverage: number | null | undefined, satisfactionScore: number | null) =>
+  ratingAverage != null && satisfactionScore != null ? ratingAverage - satisfactionScore : null;
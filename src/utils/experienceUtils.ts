@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { Experience } from '@/hooks/useExperiences';
 
 // Define the GeneratedLandmark type based on the database schema
 export interface GeneratedLandmark {
@@ -23,25 +24,77 @@ export interface GeneratedLandmark {
   created_at: string;
 }
 
+/**
+ * Picks the version snapshot to read landmarks from: the requested one (curator preview),
+ * or the version the user bought when it is no longer the published one.
+ * Returns null when the live generated_landmarks should be used.
+ */
+const resolveLandmarksVersionId = async (tourId: string, versionId?: string): Promise<string | null> => {
+  if (versionId) return versionId;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const [{ data: entitlement }, { data: tour }] = await Promise.all([
+    supabase
+      .from('experience_entitlements')
+      .select('version_id')
+      .eq('user_id', user.id)
+      .eq('tour_id', tourId)
+      .is('revoked_at', null)
+      .maybeSingle(),
+    supabase
+      .from('generated_tours')
+      .select('published_version_id')
+      .eq('id', tourId)
+      .maybeSingle()
+  ]);
+
+  if (entitlement?.version_id && entitlement.version_id !== tour?.published_version_id) {
+    return entitlement.version_id;
+  }
+  return null;
+};
+
 /**
  * Fetches experience landmarks from the database for a given tour ID
  * Returns data in the same format as Google Places API for consistency
+ * @param versionId Read a specific version snapshot instead of the one the user owns
  */
-export const fetchExperienceLandmarks = async (tourId: string): Promise<{ places: any[], error: any }> => {
+export const fetchExperienceLandmarks = async (tourId: string, versionId?: string): Promise<{ places: any[], error: any }> => {
   try {
     console.log('🎯 Fetching experience landmarks for tour:', tourId);
-    
-    const { data, error } = await supabase
-      .from('generated_landmarks')
-      .select('*')
-      .eq('tour_id', tourId);
-
-    if (error) {
-      console.error('❌ Error fetching experience landmarks:', error);
-      return { places: [], error };
-    }
 
-    const landmarks = data as GeneratedLandmark[];
+    let landmarks: GeneratedLandmark[];
+    const snapshotVersionId = await resolveLandmarksVersionId(tourId, versionId);
+
+    if (snapshotVersionId) {
+      console.log('🏷️ Using landmarks from experience version:', snapshotVersionId);
+      const { data, error } = await supabase
+        .from('experience_versions')
+        .select('landmarks')
+        .eq('id', snapshotVersionId)
+        .single();
+
+      if (error) {
+        console.error('❌ Error fetching experience version landmarks:', error);
+        return { places: [], error };
+      }
+
+      landmarks = data.landmarks as unknown as GeneratedLandmark[];
+    } else {
+      const { data, error } = await supabase
+        .from('generated_landmarks')
+        .select('*')
+        .eq('tour_id', tourId);
+
+      if (error) {
+        console.error('❌ Error fetching experience landmarks:', error);
+        return { places: [], error };
+      }
+
+      landmarks = data as GeneratedLandmark[];
+    }
     
     // Transform database landmarks to match Google Places API structure
     const transformedLandmarks = landmarks.map(landmark => {
@@ -102,4 +155,41 @@ export const fetchExperienceLandmarks = async (tourId: string): Promise<{ places
     console.error('❌ Failed to fetch experience landmarks:', error);
     return { places: [], error };
   }
-};
\ No newline at end of file
+};
+
+export type ExperienceLandmark = ReturnType<typeof convertExperienceToLandmark> & {
+  previewVersionId?: string; // set by the curator portal to try a draft or archived version
+};
+
+declare global {
+  interface Window {
+    pendingLandmarkDestination?: ExperienceLandmark;
+  }
+}
+
+// Convert an experience to the landmark shape IntelligentTourDialog expects as its destination
+export const convertExperienceToLandmark = (experience: Experience) => {
+  const details = experience.destination_details;
+  if (!details) {
+    console.error('Experience missing destination_details:', experience);
+    return {
+      id: experience.id,
+      name: experience.destination,
+      description: experience.description,
+      coordinates: [0, 0], // Will be updated later
+      experience: true
+    };
+  }
+  return {
+    id: experience.id,
+    name: details.name || experience.destination,
+    description: details.editorialSummary || experience.description,
+    coordinates: [details.location.longitude, details.location.latitude],
+    placeId: details.placeId,
+    formattedAddress: details.address,
+    types: details.types || details.destination_types || ['tourist_attraction'],
+    rating: details.rating,
+    tourId: experience.id,
+    experience: true
+  };
+};
@@ -0,0 +1,80 @@
+export const INTERACTION_TYPE_OPTIONS = [
+  { value: 'voice', label: 'Voice' },
+  { value: 'image_recognition', label: 'Photo' },
+  { value: 'map_marker', label: 'Map' },
+] as const;
+
+export const TRANSPORTATION_MODE_OPTIONS = [
+  { value: 'walking', label: 'Walking' },
+  { value: 'cycling', label: 'Cycling' },
+  { value: 'driving', label: 'Driving' },
+  { value: 'transit', label: 'Transit' },
+] as const;
+
+export const INTERACTION_DISTANCE_OPTIONS = [
+  { value: 'any', label: 'Anywhere', km: undefined },
+  { value: '1', label: 'Within 1 km', km: 1 },
+  { value: '5', label: 'Within 5 km', km: 5 },
+  { value: '25', label: 'Within 25 km', km: 25 },
+] as const;
+
+export interface InteractionFilters {
+  interactionTypes: string[];
+  destination: string;
+  dateFrom: string; // yyyy-MM-dd, from a date input
+  dateTo: string;
+  favoritesOnly: boolean;
+  distance: typeof INTERACTION_DISTANCE_OPTIONS[number]['value']; // from the user's current location
+  transportationMode?: string;
+}
+
+export const DEFAULT_INTERACTION_FILTERS: InteractionFilters = {
+  interactionTypes: [],
+  destination: '',
+  dateFrom: '',
+  dateTo: '',
+  favoritesOnly: false,
+  distance: 'any',
+};
+
+export const countActiveInteractionFilters = (filters: InteractionFilters) =>
+  [
+    filters.interactionTypes.length > 0,
+    filters.destination.trim(),
+    filters.dateFrom || filters.dateTo,
+    filters.favoritesOnly,
+    filters.distance !== 'any',
+    filters.transportationMode,
+  ].filter(Boolean).length;
+
+/**
+ * Filters in the shape search-interactions expects. Dates cover whole days in the user's timezone.
+ */
+export const toSearchFilters = (
+  filters: InteractionFilters,
+  location: { latitude: number; longitude: number } | null
+) => {
+  const distance = INTERACTION_DISTANCE_OPTIONS.find(option => option.value === filters.distance);
+
+  return {
+    interactionTypes: filters.interactionTypes.length > 0 ? filters.interactionTypes : undefined,
+    destination: filters.destination.trim() || undefined,
+    dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+    dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+    favoritesOnly: filters.favoritesOnly || undefined,
+    near: location && distance?.km ? { ...location, radiusKm: distance.km } : undefined,
+    transportationMode: filters.transportationMode,
+  };
+};
+
+/**
+ * Split a search snippet into plain and highlighted parts. The search marks matches with <mark> tags,
+ * which are rendered as elements instead of injected as HTML.
+ */
+export const splitSnippet = (snippet: string): Array<{ text: string; highlighted: boolean }> =>
+  snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(part => part !== '')
+    .map(part => part.startsWith('<mark>')
+      ? { text: part.slice(6, -7), highlighted: true }
+      : { text: part, highlighted: false });
@@ -0,0 +1,223 @@
+import { calculateCentroid, calculateDistance } from '@/utils/proximityUtils';
+
+// Places API v1 regularOpeningHours.periods entry (day: 0 = Sunday)
+export interface OpeningPeriod {
+  open: { day: number; hour: number; minute: number };
+  close?: { day: number; hour: number; minute: number };
+}
+
+/**
+ * Normalize stored opening hours to Places API v1 periods. Accepts a v1 `regularOpeningHours` object,
+ * a bare periods array, or legacy periods with `time: "0930"`.
+ */
+export const normalizeOpeningPeriods = (openingHours: unknown): OpeningPeriod[] | undefined => {
+  if (!openingHours) return undefined;
+
+  const periods = Array.isArray(openingHours)
+    ? openingHours
+    : (openingHours as { periods?: unknown[] }).periods;
+  if (!Array.isArray(periods)) return undefined;
+
+  const toPoint = (point: { day?: number; hour?: number; minute?: number; time?: string } | undefined) => {
+    if (!point || typeof point.day !== 'number') return undefined;
+    if (typeof point.time === 'string') {
+      return { day: point.day, hour: parseInt(point.time.slice(0, 2), 10), minute: parseInt(point.time.slice(2), 10) };
+    }
+    return { day: point.day, hour: point.hour ?? 0, minute: point.minute ?? 0 };
+  };
+
+  return periods
+    .map((period): OpeningPeriod | null => {
+      const { open, close } = period as { open?: Parameters<typeof toPoint>[0]; close?: Parameters<typeof toPoint>[0] };
+      const openPoint = toPoint(open);
+      return openPoint ? { open: openPoint, close: toPoint(close) } : null;
+    })
+    .filter((period): period is OpeningPeriod => period !== null);
+};
+
+export type DaySlot = 'morning' | 'afternoon';
+
+// One color per day, distinct from the travel mode route colors
+export const DAY_ROUTE_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777'];
+
+export const getDayColor = (dayIndex: number): string => DAY_ROUTE_COLORS[dayIndex % DAY_ROUTE_COLORS.length];
+
+const MIDDAY_MINUTES = 13 * 60;
+
+type Located = { coordinates: [number, number] };
+
+const distanceBetween = (a: [number, number], b: [number, number]) => calculateDistance(a[1], a[0], b[1], b[0]);
+
+/**
+ * Split landmarks into `dayCount` geographic clusters of similar size (balanced k-means)
+ * @returns Array of day clusters, each a list of landmarks
+ */
+export const clusterLandmarksByDay = <T extends Located>(landmarks: T[], dayCount: number): T[][] => {
+  const k = Math.max(1, Math.min(dayCount, landmarks.length));
+  if (k === 1) return [landmarks.slice()];
+
+  const capacity = Math.ceil(landmarks.length / k);
+
+  // Seed with the landmark farthest from the overall centroid, then farthest-point sampling
+  const overallCentroid = calculateCentroid(landmarks);
+  const seeds: [number, number][] = [];
+  let first = landmarks[0];
+  landmarks.forEach(landmark => {
+    if (distanceBetween(landmark.coordinates, overallCentroid) > distanceBetween(first.coordinates, overallCentroid)) {
+      first = landmark;
+    }
+  });
+  seeds.push(first.coordinates);
+
+  while (seeds.length < k) {
+    let farthest = landmarks[0];
+    let farthestDistance = -1;
+    landmarks.forEach(landmark => {
+      const nearestSeed = Math.min(...seeds.map(seed => distanceBetween(landmark.coordinates, seed)));
+      if (nearestSeed > farthestDistance) {
+        farthestDistance = nearestSeed;
+        farthest = landmark;
+      }
+    });
+    seeds.push(farthest.coordinates);
+  }
+
+  let centroids = seeds;
+  let clusters: T[][] = [];
+
+  for (let iteration = 0; iteration < 10; iteration++) {
+    // Greedy capacity-constrained assignment: closest (landmark, day) pairs first
+    const pairs = landmarks.flatMap((landmark, landmarkIndex) =>
+      centroids.map((centroid, dayIndex) => ({
+        landmarkIndex,
+        dayIndex,
+        distance: distanceBetween(landmark.coordinates, centroid)
+      }))
+    ).sort((a, b) => a.distance - b.distance);
+
+    const assigned = new Array<number>(landmarks.length).fill(-1);
+    const nextClusters: T[][] = centroids.map(() => []);
+
+    pairs.forEach(({ landmarkIndex, dayIndex }) => {
+      if (assigned[landmarkIndex] !== -1 || nextClusters[dayIndex].length >= capacity) return;
+      assigned[landmarkIndex] = dayIndex;
+      nextClusters[dayIndex].push(landmarks[landmarkIndex]);
+    });
+
+    const nextCentroids = nextClusters.map((cluster, index) =>
+      cluster.length > 0 ? calculateCentroid(cluster) : centroids[index]
+    );
+
+    const converged = nextCentroids.every((centroid, index) => distanceBetween(centroid, centroids[index]) < 1);
+    clusters = nextClusters;
+    centroids = nextCentroids;
+    if (converged) break;
+  }
+
+  return clusters;
+};
+
+/**
+ * Whether a place opens at all on a weekday. Places without hours data count as open.
+ */
+export const isOpenOnWeekday = (periods: OpeningPeriod[] | undefined, weekday: number): boolean => {
+  if (!periods || periods.length === 0) return true;
+  // Open 24/7 is a single period with no close
+  if (periods.length === 1 && !periods[0].close) return true;
+  return periods.some(period => period.open.day === weekday);
+};
+
+/**
+ * Preferred half of the day for a stop, based on its hours on that weekday
+ * @returns 'morning' | 'afternoon', or null when either works
+ */
+export const getPreferredSlot = (periods: OpeningPeriod[] | undefined, weekday: number): DaySlot | null => {
+  const todays = (periods || []).filter(period => period.open.day === weekday && period.close);
+  if (todays.length === 0) return null;
+
+  const opensAt = Math.min(...todays.map(period => period.open.hour * 60 + period.open.minute));
+  const closesAt = Math.max(...todays.map(period => {
+    const close = period.close!;
+    // Closing after midnight belongs to the same visit day
+    return (close.day !== period.open.day ? 24 * 60 : 0) + close.hour * 60 + close.minute;
+  }));
+
+  if (opensAt >= MIDDAY_MINUTES) return 'afternoon';
+  if (closesAt <= MIDDAY_MINUTES) return 'morning';
+  return null;
+};
+
+/**
+ * Move landmarks that are closed on their assigned day to the nearest day they are open.
+ * Days may end up one stop over their original size.
+ */
+export const rebalanceForOpeningHours = <T extends Located & { placeId: string }>(
+  clusters: T[][],
+  weekdays: number[],
+  hoursByPlaceId: Record<string, OpeningPeriod[]>
+): { clusters: T[][]; unresolved: string[] } => {
+  const result = clusters.map(cluster => cluster.slice());
+  const capacity = Math.ceil(clusters.reduce((total, cluster) => total + cluster.length, 0) / clusters.length) + 1;
+  const unresolved: string[] = [];
+
+  result.forEach((cluster, dayIndex) => {
+    cluster.slice().forEach(landmark => {
+      if (isOpenOnWeekday(hoursByPlaceId[landmark.placeId], weekdays[dayIndex])) return;
+
+      const candidates = result
+        .map((otherCluster, otherIndex) => ({ otherCluster, otherIndex }))
+        .filter(({ otherIndex, otherCluster }) =>
+          otherIndex !== dayIndex &&
+          otherCluster.length < capacity &&
+          isOpenOnWeekday(hoursByPlaceId[landmark.placeId], weekdays[otherIndex])
+        )
+        .sort((a, b) => {
+          const distanceTo = (target: T[]) => target.length > 0
+            ? distanceBetween(landmark.coordinates, calculateCentroid(target))
+            : Infinity;
+          return distanceTo(a.otherCluster) - distanceTo(b.otherCluster);
+        });
+
+      if (candidates.length === 0) {
+        unresolved.push(landmark.placeId);
+        return;
+      }
+
+      result[dayIndex] = result[dayIndex].filter(item => item !== landmark);
+      candidates[0].otherCluster.push(landmark);
+      console.log(`📅 Moved ${landmark.placeId} from day ${dayIndex + 1} to day ${candidates[0].otherIndex + 1} (closed on day ${dayIndex + 1})`);
+    });
+  });
+
+  return { clusters: result, unresolved };
+};
+
+/**
+ * Pick the day's start and end stops: the two landmarks farthest apart, so the day flows across the cluster
+ * instead of looping back. Everything else becomes an optimizable intermediate.
+ */
+export const pickDayEndpoints = <T extends Located>(stops: T[]): { start: T; end: T; intermediates: T[] } | null => {
+  if (stops.length < 2) return null;
+
+  let start = stops[0];
+  let end = stops[1];
+  let maxDistance = -1;
+  for (let i = 0; i < stops.length; i++) {
+    for (let j = i + 1; j < stops.length; j++) {
+      const distance = distanceBetween(stops[i].coordinates, stops[j].coordinates);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        start = stops[i];
+        end = stops[j];
+      }
+    }
+  }
+
+  return { start, end, intermediates: stops.filter(stop => stop !== start && stop !== end) };
+};
+
+/**
+ * Weekday (0 = Sunday) for each day of the trip
+ */
+export const getTripWeekdays = (startDate: Date, dayCount: number): number[] =>
+  Array.from({ length: dayCount }, (_, index) => (startDate.getDay() + index) % 7);
@@ -43,6 +43,25 @@ export const calculateDistance = (
   return R * c;
 };
 
+/**
+ * Calculate the initial bearing from one coordinate to another, in degrees clockwise from north (0-360)
+ */
+export const calculateBearing = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number => {
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
 /**
  * Detect movement based on location history
  */
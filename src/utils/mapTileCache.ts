@@ -0,0 +1,288 @@
+export const MAP_TILE_CACHE_NAME = 'mapbox-tiles-v1'; // must match public/map-tile-sw.js
+export const MAP_TILE_SERVICE_WORKER_URL = '/map-tile-sw.js';
+export const MAP_STYLE_URL = 'mapbox://styles/mapbox/dark-v11';
+
+export const DEFAULT_MIN_ZOOM = 11;
+export const DEFAULT_MAX_ZOOM = 16;
+export const MAX_TILES_PER_AREA = 2000;
+const GLYPH_RANGES = ['0-255', '256-511', '8192-8447']; // Latin, Latin extended, punctuation
+const FETCH_CONCURRENCY = 6;
+
+export type BoundingBox = [number, number, number, number]; // [west, south, east, north]
+
+// The parts of a Mapbox style document needed to find its assets
+interface MapboxStyleDocument {
+  sprite?: string;
+  glyphs?: string;
+  sources?: Record<string, { type: string; url?: string }>;
+  layers?: Array<{ layout?: Record<string, unknown> }>;
+}
+
+export interface TilePrefetchResult {
+  keys: string[];
+  bytes: number;
+  failed: number;
+}
+
+/**
+ * Compute the bounding box of a set of [lng, lat] coordinates, padded on every side
+ * @param coordinates Array of [longitude, latitude] pairs
+ * @param paddingMeters Padding added around the box
+ * @returns Bounding box as [west, south, east, north], or null when no coordinates
+ */
+export const getBoundingBox = (coordinates: [number, number][], paddingMeters: number = 500): BoundingBox | null => {
+  if (coordinates.length === 0) return null;
+
+  let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+  coordinates.forEach(([lng, lat]) => {
+    west = Math.min(west, lng);
+    east = Math.max(east, lng);
+    south = Math.min(south, lat);
+    north = Math.max(north, lat);
+  });
+
+  const latPadding = paddingMeters / 111320;
+  const lngPadding = paddingMeters / (111320 * Math.cos(((south + north) / 2) * Math.PI / 180));
+
+  return [
+    Math.max(-180, west - lngPadding),
+    Math.max(-85.05, south - latPadding),
+    Math.min(180, east + lngPadding),
+    Math.min(85.05, north + latPadding)
+  ];
+};
+
+const lngToTileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * Math.pow(2, zoom));
+
+const latToTileY = (lat: number, zoom: number) => {
+  const latRad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * Math.pow(2, zoom));
+};
+
+/**
+ * List the slippy-map tiles covering a bounding box over a zoom range
+ * @returns Array of { z, x, y } tile coordinates
+ */
+export const getTilesForBoundingBox = (bbox: BoundingBox, minZoom: number, maxZoom: number): Array<{ z: number; x: number; y: number }> => {
+  const [west, south, east, north] = bbox;
+  const tiles: Array<{ z: number; x: number; y: number }> = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const minX = lngToTileX(west, z);
+    const maxX = lngToTileX(east, z);
+    const minY = latToTileY(north, z);
+    const maxY = latToTileY(south, z);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+
+  return tiles;
+};
+
+/**
+ * Cache key for a Mapbox request. Host, access token and sku vary between sessions,
+ * so only the path identifies the resource. Must match the service worker.
+ */
+export const normalizeMapboxUrl = (url: string): string => {
+  const parsed = new URL(url);
+  return `https://api.mapbox.com${parsed.pathname}`;
+};
+
+/**
+ * Resolve mapbox:// URLs the same way mapbox-gl does
+ */
+export const resolveMapboxUrl = (url: string, accessToken: string): string => {
+  const withToken = (httpsUrl: string) => `${httpsUrl}${httpsUrl.includes('?') ? '&' : '?'}access_token=${accessToken}`;
+
+  if (!url.startsWith('mapbox://')) {
+    return withToken(url);
+  }
+
+  const path = url.replace('mapbox://', '');
+  if (path.startsWith('styles/')) {
+    return withToken(`https://api.mapbox.com/styles/v1/${path.replace('styles/', '')}`);
+  }
+  if (path.startsWith('sprites/')) {
+    return withToken(`https://api.mapbox.com/styles/v1/${path.replace('sprites/', '')}/sprite`);
+  }
+  if (path.startsWith('fonts/')) {
+    return withToken(`https://api.mapbox.com/fonts/v1/${path.replace('fonts/', '')}`);
+  }
+  // Tileset reference, e.g. mapbox://mapbox.mapbox-streets-v8,mapbox.mapbox-terrain-v2
+  return withToken(`https://api.mapbox.com/v4/${path}.json?secure`);
+};
+
+/**
+ * Register the service worker that serves cached tiles offline. Safe to call repeatedly.
+ */
+export const registerMapTileServiceWorker = async (): Promise<boolean> => {
+  if (!('serviceWorker' in navigator)) {
+    console.log('🗺️ Service workers not supported, offline map tiles disabled');
+    return false;
+  }
+
+  try {
+    await navigator.serviceWorker.register(MAP_TILE_SERVICE_WORKER_URL);
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Failed to register map tile service worker:', error);
+    return false;
+  }
+};
+
+export const isTileCacheSupported = (): boolean => 'caches' in window && 'serviceWorker' in navigator;
+
+// Collect literal font stacks used by symbol layers so their glyphs can be cached
+const collectFontStacks = (style: MapboxStyleDocument): string[] => {
+  const stacks = new Set<string>();
+  (style.layers || []).forEach(layer => {
+    const textFont = layer.layout?.['text-font'];
+    if (Array.isArray(textFont) && textFont.every((font: unknown) => typeof font === 'string')) {
+      stacks.add(textFont.join(','));
+    }
+  });
+  return Array.from(stacks);
+};
+
+// Fetch a URL and store it under its normalized key, returning the stored size
+const fetchAndCache = async (cache: Cache, url: string): Promise<number> => {
+  const key = normalizeMapboxUrl(url);
+  const existing = await cache.match(key);
+  if (existing) {
+    const blob = await existing.clone().blob();
+    return blob.size;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} for ${key}`);
+  }
+
+  const blob = await response.clone().blob();
+  await cache.put(key, response);
+  return blob.size;
+};
+
+/**
+ * Pre-fetch the map style, its sprites, glyphs and every vector tile covering a bounding box
+ * into Cache Storage, where public/map-tile-sw.js can serve them offline.
+ */
+export const prefetchMapArea = async (
+  bbox: BoundingBox,
+  accessToken: string,
+  options: {
+    minZoom?: number;
+    maxZoom?: number;
+    styleUrl?: string;
+    onProgress?: (done: number, total: number) => void;
+  } = {}
+): Promise<TilePrefetchResult> => {
+  const { minZoom = DEFAULT_MIN_ZOOM, maxZoom = DEFAULT_MAX_ZOOM, styleUrl = MAP_STYLE_URL, onProgress } = options;
+  const cache = await caches.open(MAP_TILE_CACHE_NAME);
+  const keys = new Set<string>();
+  let bytes = 0;
+  let failed = 0;
+
+  const cacheUrl = async (url: string) => {
+    try {
+      bytes += await fetchAndCache(cache, url);
+      keys.add(normalizeMapboxUrl(url));
+    } catch (error) {
+      failed++;
+      console.warn('⚠️ Failed to cache map resource:', error);
+    }
+  };
+
+  // Style document
+  const styleRequestUrl = resolveMapboxUrl(styleUrl, accessToken);
+  await cacheUrl(styleRequestUrl);
+  const styleResponse = await cache.match(normalizeMapboxUrl(styleRequestUrl));
+  if (!styleResponse) {
+    throw new Error('Could not download map style');
+  }
+  const style: MapboxStyleDocument = await styleResponse.json();
+
+  // Sprites (1x and 2x)
+  const assetUrls: string[] = [];
+  if (typeof style.sprite === 'string') {
+    const spriteBase = resolveMapboxUrl(style.sprite, accessToken);
+    const [spritePath, spriteQuery] = spriteBase.split('?');
+    ['', '@2x'].forEach(ratio => {
+      assetUrls.push(`${spritePath}${ratio}.json?${spriteQuery}`);
+      assetUrls.push(`${spritePath}${ratio}.png?${spriteQuery}`);
+    });
+  }
+
+  // Glyphs
+  const glyphs = style.glyphs;
+  if (typeof glyphs === 'string') {
+    collectFontStacks(style).forEach(fontStack => {
+      GLYPH_RANGES.forEach(range => {
+        // Fonts are encoded one by one, mapbox-gl requests the separating commas unencoded
+        const glyphUrl = glyphs
+          .replace('{fontstack}', fontStack.split(',').map(encodeURIComponent).join(','))
+          .replace('{range}', range);
+        assetUrls.push(resolveMapboxUrl(glyphUrl, accessToken));
+      });
+    });
+  }
+
+  // Vector tile templates from each source's TileJSON
+  const tileTemplates: string[] = [];
+  for (const source of Object.values(style.sources || {})) {
+    if (source.type !== 'vector' || !source.url) continue;
+
+    const tileJsonUrl = resolveMapboxUrl(source.url, accessToken);
+    await cacheUrl(tileJsonUrl);
+    const tileJsonResponse = await cache.match(normalizeMapboxUrl(tileJsonUrl));
+    const tileJson = tileJsonResponse ? await tileJsonResponse.json() : null;
+    if (tileJson?.tiles?.[0]) {
+      tileTemplates.push(tileJson.tiles[0]);
+    }
+  }
+
+  const sourceMaxZoom = Math.min(maxZoom, 16); // Mapbox vector tilesets overzoom beyond 16
+  const tiles = getTilesForBoundingBox(bbox, minZoom, sourceMaxZoom).slice(0, MAX_TILES_PER_AREA);
+  tiles.forEach(({ z, x, y }) => {
+    tileTemplates.forEach(template => {
+      const tileUrl = template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+      assetUrls.push(resolveMapboxUrl(tileUrl, accessToken));
+    });
+  });
+
+  let done = 0;
+  const total = assetUrls.length;
+  for (let i = 0; i < assetUrls.length; i += FETCH_CONCURRENCY) {
+    await Promise.all(assetUrls.slice(i, i + FETCH_CONCURRENCY).map(cacheUrl));
+    done = Math.min(i + FETCH_CONCURRENCY, total);
+    onProgress?.(done, total);
+  }
+
+  return { keys: Array.from(keys), bytes, failed };
+};
+
+/**
+ * Remove cached map resources that are no longer referenced by any cached area
+ * @param referencedKeys Keys still in use
+ * @returns Number of deleted entries
+ */
+export const deleteUnreferencedMapResources = async (referencedKeys: Set<string>): Promise<number> => {
+  if (!('caches' in window)) return 0;
+
+  const cache = await caches.open(MAP_TILE_CACHE_NAME);
+  const requests = await cache.keys();
+  let deleted = 0;
+
+  for (const request of requests) {
+    if (!referencedKeys.has(request.url)) {
+      await cache.delete(request);
+      deleted++;
+    }
+  }
+
+  return deleted;
+};
@@ -0,0 +1,165 @@
+import { Capacitor, registerPlugin } from '@capacitor/core';
+import { LocalNotifications } from '@capacitor/local-notifications';
+import type { BackgroundGeolocationPlugin, Location } from '@capacitor-community/background-geolocation';
+import { UserLocation } from '@/types/proximityAlerts';
+
+// The community plugin ships types only, the native side is registered by name
+const BackgroundGeolocation = registerPlugin<BackgroundGeolocationPlugin>('BackgroundGeolocation');
+
+export const NOTIFICATION_OPENED_EVENT = 'proximity-notification-opened';
+const BACKGROUND_DISTANCE_FILTER = 10; // meters
+
+export const isNativeLocationAvailable = () => Capacitor.isNativePlatform();
+
+// Global singleton watcher shared by every useLocationTracking instance
+let watcherId: string | null = null;
+let watcherStarting: Promise<void> | null = null;
+const locationSubscribers = new Set<(location: UserLocation) => void>();
+const errorSubscribers = new Set<(message: string) => void>();
+
+const toUserLocation = (location: Location): UserLocation => ({
+  latitude: location.latitude,
+  longitude: location.longitude,
+  accuracy: location.accuracy,
+  timestamp: location.time || Date.now()
+});
+
+const startWatcher = async () => {
+  try {
+    watcherId = await BackgroundGeolocation.addWatcher(
+      {
+        backgroundTitle: 'Exploraria tour in progress',
+        backgroundMessage: 'Following your walk to alert you near landmarks.',
+        requestPermissions: true,
+        stale: false,
+        distanceFilter: BACKGROUND_DISTANCE_FILTER
+      },
+      (location, error) => {
+        if (error) {
+          console.error('❌ Background location error:', error);
+          const message = error.code === 'NOT_AUTHORIZED' ? 'Location permission denied' : 'Location information unavailable';
+          errorSubscribers.forEach(callback => callback(message));
+          return;
+        }
+
+        if (location) {
+          const userLocation = toUserLocation(location);
+          locationSubscribers.forEach(callback => callback(userLocation));
+        }
+      }
+    );
+    console.log('📡 Native background location watcher started:', watcherId);
+  } catch (error) {
+    console.error('❌ Failed to start background location watcher:', error);
+  } finally {
+    watcherStarting = null;
+  }
+};
+
+/**
+ * Receive location fixes from the native watcher, which keeps running while the phone is locked
+ * @returns Unsubscribe function - the watcher stops when the last subscriber leaves
+ */
+export const subscribeToNativeLocation = (
+  onLocation: (location: UserLocation) => void,
+  onError?: (message: string) => void
+) => {
+  locationSubscribers.add(onLocation);
+  if (onError) errorSubscribers.add(onError);
+
+  if (!watcherId && !watcherStarting) {
+    watcherStarting = startWatcher();
+  }
+
+  return () => {
+    locationSubscribers.delete(onLocation);
+    if (onError) errorSubscribers.delete(onError);
+
+    if (locationSubscribers.size === 0) {
+      const stopping = watcherStarting || Promise.resolve();
+      stopping.then(() => {
+        if (!watcherId || locationSubscribers.size > 0) return;
+        BackgroundGeolocation.removeWatcher({ id: watcherId }).catch(error => {
+          console.error('❌ Failed to stop background location watcher:', error);
+        });
+        console.log('📡 Native background location watcher stopped');
+        watcherId = null;
+      });
+    }
+  };
+};
+
+// Notification ids must be 32-bit integers, derive a stable one per landmark
+const getNotificationId = (key: string) => {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+let notificationPermission: boolean | null = null;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNativeLocationAvailable()) return false;
+  if (notificationPermission !== null) return notificationPermission;
+
+  try {
+    const current = await LocalNotifications.checkPermissions();
+    const result = current.display === 'prompt' ? await LocalNotifications.requestPermissions() : current;
+    notificationPermission = result.display === 'granted';
+  } catch (error) {
+    console.error('❌ Failed to request notification permission:', error);
+    notificationPermission = false;
+  }
+
+  return notificationPermission;
+};
+
+/**
+ * Show an OS notification for a landmark, tapping it opens the landmark's proximity card
+ * @returns false when notifications are unavailable so the caller can fall back to a toast
+ */
+export const showNativeLandmarkNotification = async (
+  placeId: string,
+  title: string,
+  body: string
+): Promise<boolean> => {
+  if (!(await requestNotificationPermission())) return false;
+
+  try {
+    await LocalNotifications.schedule({
+      notifications: [{
+        id: getNotificationId(placeId),
+        title,
+        body,
+        extra: { placeId }
+      }]
+    });
+    console.log('🔔 Native notification scheduled:', title);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to schedule native notification:', error);
+    return false;
+  }
+};
+
+// A tap can cold-start the app before any card is mounted, so keep it until someone asks
+let pendingOpenedPlaceId: string | null = null;
+
+export const consumePendingNotificationPlaceId = (): string | null => {
+  const placeId = pendingOpenedPlaceId;
+  pendingOpenedPlaceId = null;
+  return placeId;
+};
+
+if (isNativeLocationAvailable()) {
+  LocalNotifications.addListener('localNotificationActionPerformed', ({ notification }) => {
+    const placeId = notification.extra?.placeId;
+    if (!placeId) return;
+
+    console.log('👆 Native notification opened for landmark:', placeId);
+    pendingOpenedPlaceId = placeId;
+    window.dispatchEvent(new CustomEvent(NOTIFICATION_OPENED_EVENT, { detail: { placeId } }));
+  });
+}
@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PopularHour {
+  hour: number;
+  busyness: number; // 0-100, 0 when closed
+}
+
+export interface PopularTimes {
+  placeId: string;
+  weekday: number; // 0 = Sunday, in the place's local time
+  hours: PopularHour[];
+  source: string; // 'estimated' until Google exposes popular times
+  utcOffsetMinutes: number | null; // the place's offset from UTC, to read hours on its local clock
+}
+
+export const BUSY_THRESHOLD = 70;
+export const QUIET_THRESHOLD = 40;
+
+// Popular times barely change week to week, so keep them for the whole session
+const popularTimesCache = new Map<string, Promise<PopularTimes | null>>();
+
+const fetchPopularTimes = async (placeId: string, weekday: number): Promise<PopularTimes | null> => {
+  const { data, error } = await supabase.functions.invoke('get-place-popularity', {
+    body: { place_id: placeId, weekday }
+  });
+
+  if (error || !data?.popular_times) {
+    console.warn('⚠️ Popular times unavailable:', error || 'no popular times returned');
+    return null;
+  }
+
+  return {
+    placeId,
+    weekday: data.popular_times.weekday,
+    hours: data.popular_times.hours,
+    source: data.popular_times.source,
+    utcOffsetMinutes: data.popular_times.utc_offset_minutes ?? null
+  };
+};
+
+/**
+ * Busyness by hour for a place on a weekday, fetched once per place and weekday. Without a weekday
+ * the server picks the place's current local day.
+ */
+export const getPopularTimes = (placeId: string, weekday?: number): Promise<PopularTimes | null> => {
+  const key = `${placeId}:${weekday ?? 'today'}`;
+  const cached = popularTimesCache.get(key);
+  if (cached) return cached;
+
+  const request = fetchPopularTimes(placeId, weekday).then(times => {
+    // Let failed lookups retry next time
+    if (!times) popularTimesCache.delete(key);
+    return times;
+  });
+  popularTimesCache.set(key, request);
+  return request;
+};
+
+/**
+ * A moment on the place's clock: its weekday, hour and the start of its local day (epoch ms).
+ * Falls back to the device clock when the place's UTC offset is unknown.
+ */
+export const getPlaceTime = (times: PopularTimes, date: Date) => {
+  if (times.utcOffsetMinutes === null) {
+    return { weekday: date.getDay(), hour: date.getHours(), dayStart: new Date(date).setHours(0, 0, 0, 0) };
+  }
+
+  const offsetMs = times.utcOffsetMinutes * 60000;
+  const local = new Date(date.getTime() + offsetMs);
+  return {
+    weekday: local.getUTCDay(),
+    hour: local.getUTCHours(),
+    dayStart: Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - offsetMs
+  };
+};
+
+/**
+ * Busyness at a moment, or null when the data is for another weekday at the place
+ */
+export const getBusynessAt = (times: PopularTimes, date: Date): number | null => {
+  const { weekday, hour } = getPlaceTime(times, date);
+  if (weekday !== times.weekday) return null;
+  return times.hours.find(popularHour => popularHour.hour === hour)?.busyness ?? null;
+};
+
+export const isBusyHour = (hour: PopularHour) => hour.busyness >= BUSY_THRESHOLD;
+
+export const formatHour = (hour: number) => `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'am' : 'pm'}`;
+
+/**
+ * First open hour after `afterHour` that is usually quiet
+ */
+export const findQuietHour = (times: PopularTimes, afterHour: number): number | null =>
+  times.hours.find(hour => hour.hour > afterHour && hour.busyness > 0 && hour.busyness < QUIET_THRESHOLD)?.hour ?? null;
+
+/**
+ * What the guide can tell someone standing at the place, e.g. "come back after 4pm, it's quieter"
+ * @returns A sentence, or null when there's nothing worth saying
+ */
+export const getQuietTimeSuggestion = (times: PopularTimes, now: Date = new Date()): string | null => {
+  const busyness = getBusynessAt(times, now);
+  if (!busyness) return null;
+  if (busyness < QUIET_THRESHOLD) return 'It is usually quiet at this time.';
+  if (busyness < BUSY_THRESHOLD) return null;
+
+  const quietHour = findQuietHour(times, getPlaceTime(times, now).hour);
+  return quietHour !== null
+    ? `It is usually busy now - come back after ${formatHour(quietHour)}, it's quieter.`
+    : 'It is usually busy for the rest of the day.';
+};
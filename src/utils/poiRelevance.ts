@@ -0,0 +1,148 @@
+import { ContextualPOI } from '@/hooks/useContextualPOIPolling';
+import { calculateBearing } from '@/utils/locationUtils';
+
+export interface POIScoringContext {
+  location: { latitude: number; longitude: number };
+  heading: number | null; // degrees from north, null while standing still
+  radius: number;
+  preferredTypes: string[]; // types of the stops on the user's tour
+  announcedIds: Set<string>;
+}
+
+export interface ScoredPOI {
+  poi: ContextualPOI;
+  score: number;
+  breakdown: {
+    distance: number;
+    heading: number;
+    rating: number;
+    type: number;
+  };
+}
+
+const WEIGHTS = {
+  distance: 0.3,
+  heading: 0.2,
+  rating: 0.2,
+  type: 0.3
+};
+
+// How worth mentioning each place type is to a traveler; errands score low
+const TYPE_INTEREST: Record<string, number> = {
+  tourist_attraction: 1,
+  museum: 1,
+  art_gallery: 0.9,
+  church: 0.8,
+  mosque: 0.8,
+  synagogue: 0.8,
+  hindu_temple: 0.8,
+  park: 0.8,
+  library: 0.6,
+  university: 0.5,
+  cafe: 0.5,
+  restaurant: 0.5,
+  shopping_mall: 0.3,
+  store: 0.2,
+  train_station: 0.2,
+  subway_station: 0.1,
+  bus_station: 0.1,
+  hospital: 0.1,
+  pharmacy: 0.1,
+  bank: 0,
+  atm: 0,
+  gas_station: 0
+};
+
+const DEFAULT_TYPE_INTEREST = 0.4;
+const PREFERRED_TYPE_BONUS = 0.3;
+
+// Below this the place isn't worth interrupting the tour for
+export const MIN_ANNOUNCEMENT_SCORE = 0.5;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const scoreHeading = (poi: ContextualPOI, context: POIScoringContext) => {
+  const poiLocation = poi.geometry?.location;
+  if (context.heading === null || !poiLocation) return 0.5;
+
+  const bearing = calculateBearing(
+    context.location.latitude,
+    context.location.longitude,
+    poiLocation.lat,
+    poiLocation.lng
+  );
+  const offset = ((bearing - context.heading) * Math.PI) / 180;
+
+  // 1 straight ahead, 0.5 to the side, 0 behind
+  return (1 + Math.cos(offset)) / 2;
+};
+
+const scoreRating = (poi: ContextualPOI) => {
+  if (!poi.rating) return 0.3;
+
+  // A 4.8 from five reviews says less than a 4.5 from five thousand
+  const confidence = clamp(Math.log10((poi.userRatingsTotal || 0) + 1) / 3);
+  return clamp((poi.rating - 3) / 2) * (0.5 + 0.5 * confidence);
+};
+
+const scoreType = (poi: ContextualPOI, preferredTypes: string[]) => {
+  const types = poi.types || [];
+  const interest = types.length > 0
+    ? Math.max(...types.map(type => TYPE_INTEREST[type] ?? DEFAULT_TYPE_INTEREST))
+    : DEFAULT_TYPE_INTEREST;
+  const preferred = interest > 0 && types.some(type => preferredTypes.includes(type));
+
+  return clamp(interest + (preferred ? PREFERRED_TYPE_BONUS : 0));
+};
+
+/**
+ * Ranks nearby places by how worth mentioning they are right now, best first.
+ * Places already announced in this session are left out.
+ */
+export const scorePOIs = (pois: ContextualPOI[], context: POIScoringContext): ScoredPOI[] =>
+  pois
+    .filter(poi => poi.placeId && !context.announcedIds.has(poi.placeId))
+    .map(poi => {
+      const breakdown = {
+        distance: clamp(1 - poi.distance / context.radius),
+        heading: scoreHeading(poi, context),
+        rating: scoreRating(poi),
+        type: scoreType(poi, context.preferredTypes)
+      };
+      const score =
+        breakdown.distance * WEIGHTS.distance +
+        breakdown.heading * WEIGHTS.heading +
+        breakdown.rating * WEIGHTS.rating +
+        breakdown.type * WEIGHTS.type;
+
+      return { poi, score: Math.round(score * 100) / 100, breakdown };
+    })
+    .sort((a, b) => b.score - a.score);
+
+const describePOI = (poi: ContextualPOI, primaryType: string) => {
+  if (poi.rating && poi.userRatingsTotal) {
+    return `Highly rated at ${poi.rating}/5 stars by ${poi.userRatingsTotal} visitors`;
+  }
+  if (poi.rating) {
+    return `Rated ${poi.rating}/5 stars by visitors`;
+  }
+  if (poi.editorialSummary) {
+    return poi.editorialSummary.length > 100 ? poi.editorialSummary.substring(0, 100) + '...' : poi.editorialSummary;
+  }
+  return `A notable ${primaryType} in the area worth exploring`;
+};
+
+/**
+ * The SYSTEM_ALERT contextual update the guide's prompt listens for. Serialized with JSON.stringify
+ * so quotes in place names and summaries can't break the payload.
+ */
+export const buildPOISystemAlert = (poi: ContextualPOI) => {
+  const primaryType = poi.types?.[0] || 'place';
+
+  return `SYSTEM_ALERT: ${JSON.stringify({
+    poi_name: poi.name,
+    poi_type: primaryType,
+    poi_fact: describePOI(poi, primaryType),
+    poi_id: poi.placeId || 'unknown'
+  })}`;
+};
@@ -265,3 +265,76 @@ export const calculateCentroid = <T extends { coordinates: [number, number] }>(
 
   return [centroidLongitude, centroidLatitude];
 };
+
+/**
+ * Check if a point lies inside a polygon using ray casting
+ * @param point Point as [longitude, latitude]
+ * @param ring Polygon vertices as [longitude, latitude], closed or open
+ * @returns boolean indicating if the point is inside
+ */
+export const isPointInPolygon = (point: [number, number], ring: [number, number][]): boolean => {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const crosses = (yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (crosses) inside = !inside;
+  }
+
+  return inside;
+};
+
+/**
+ * Shortest distance from a point to a polyline, projected onto a local flat plane around the point
+ * @param point Point as [longitude, latitude]
+ * @param line Polyline vertices as [longitude, latitude]
+ * @returns Distance in meters
+ */
+export const distanceToPolyline = (point: [number, number], line: [number, number][]): number => {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return calculateDistance(point[1], point[0], line[0][1], line[0][0]);
+
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos((point[1] * Math.PI) / 180);
+  const toLocal = ([lng, lat]: [number, number]): [number, number] => [
+    (lng - point[0]) * metersPerDegreeLng,
+    (lat - point[1]) * metersPerDegreeLat
+  ];
+
+  let shortest = Infinity;
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = toLocal(line[i]);
+    const [bx, by] = toLocal(line[i + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+
+    // Closest point on the segment to the origin (the point itself)
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    shortest = Math.min(shortest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+
+  return shortest;
+};
+
+/**
+ * Check if a location is inside a polygon or corridor geofence
+ * @param location User's current location
+ * @param geofence Geofence with [longitude, latitude] coordinates
+ * @returns boolean indicating if the location is inside
+ */
+export const isLocationInGeofence = (
+  location: { latitude: number; longitude: number },
+  geofence: { shape: 'polygon' | 'corridor'; coordinates: [number, number][]; corridor_width: number }
+): boolean => {
+  const point: [number, number] = [location.longitude, location.latitude];
+
+  if (geofence.shape === 'corridor') {
+    return distanceToPolyline(point, geofence.coordinates) <= geofence.corridor_width / 2;
+  }
+
+  return geofence.coordinates.length >= 3 && isPointInPolygon(point, geofence.coordinates);
+};
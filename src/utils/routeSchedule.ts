@@ -0,0 +1,329 @@
+import { TourLandmark } from '@/data/tourLandmarks';
+import { TravelMode } from '@/components/TravelModeSelector';
+import { OpeningPeriod } from '@/utils/itineraryPlanner';
+import { calculateDistance } from '@/utils/proximityUtils';
+import { HourlyForecast } from '@/utils/weatherProvider';
+import { PopularTimes } from '@/utils/placePopularity';
+import { AccessibilityProfile, AccessibilityStatus } from '@/utils/accessibilityProfile';
+
+export type ScheduleViolationType =
+  | 'closed_that_day'        // not open at all on the visit day
+  | 'arrives_after_closing'  // every window that day has ended
+  | 'closes_during_visit'    // closes before the planned dwell time is over
+  | 'waits_for_opening'      // arrives early and has to wait
+  | 'rain_during_visit'      // outdoor stop visited while rain is forecast
+  | 'busy_during_visit'      // visit falls in the place's usual busy hours
+  | 'not_step_free'          // entrance has steps and the traveler needs step-free access
+  | 'accessibility_unknown'  // no step-free entrance data
+  | 'walk_too_long'          // walk to the stop exceeds the traveler's limit
+  | 'rest_stop_needed';      // walk long enough to need a rest
+
+export interface ScheduleViolation {
+  type: ScheduleViolationType;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ScheduledStop {
+  landmark: TourLandmark;
+  travelMinutes: number;
+  eta: string; // ISO timestamps so schedules survive offline packs and JSON export
+  visitStart: string;
+  departure: string;
+  dwellMinutes: number;
+  waitMinutes: number;
+  violations: ScheduleViolation[];
+}
+
+export interface RouteSchedule {
+  startTime: string;
+  endTime: string;
+  stops: ScheduledStop[];
+  errorCount: number;
+  warningCount: number;
+  reordered: boolean; // stops were moved to fit opening hours
+  weather?: ScheduleWeather; // present when planned around the forecast
+  crowds?: ScheduleCrowds; // present when popular times were available
+  accessibility?: ScheduleAccessibility; // present when planned for an accessibility profile
+}
+
+export interface IndoorSwapSuggestion {
+  placeId: string; // the outdoor stop that would get wet
+  alternatives: Array<{ placeId: string; name: string; distance: number; types: string[] }>;
+}
+
+export interface ScheduleWeather {
+  provider: string;
+  checkedAt: string;
+  forecast: HourlyForecast[];
+  movedToDryHours: boolean; // stops were reordered to avoid rain
+  indoorSwaps: IndoorSwapSuggestion[];
+}
+
+export interface ScheduleCrowds {
+  popularTimes: Record<string, PopularTimes>;
+  movedToQuietHours: boolean; // stops were reordered to avoid busy hours
+}
+
+export interface ScheduleAccessibility {
+  profile: AccessibilityProfile;
+  legMeters: number[]; // walking distance arriving at each stop, empty when not walking
+  statusByPlaceId: Record<string, AccessibilityStatus>;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const WAIT_WARNING_MINUTES = 15;
+
+// Typical visit lengths by Google place type, most specific first
+const DWELL_MINUTES_BY_TYPE: Array<[string, number]> = [
+  ['museum', 90],
+  ['art_gallery', 60],
+  ['amusement_park', 180],
+  ['zoo', 120],
+  ['aquarium', 90],
+  ['park', 45],
+  ['church', 30],
+  ['place_of_worship', 30],
+  ['restaurant', 75],
+  ['cafe', 30],
+  ['shopping_mall', 60],
+  ['tourist_attraction', 45]
+];
+export const DEFAULT_DWELL_MINUTES = 30;
+
+// Rough door-to-door speeds used when no routed leg time is available
+const ESTIMATED_SPEED_KMH: Record<TravelMode, number> = {
+  WALK: 4.5,
+  BICYCLE: 14,
+  DRIVE: 25,
+  TRANSIT: 18
+};
+const DETOUR_FACTOR = 1.3;
+
+/**
+ * Planned visit length for a landmark: its own dwell time, otherwise a default for its place type
+ */
+export const getDwellMinutes = (landmark: TourLandmark): number => {
+  if (landmark.dwellMinutes !== undefined) return landmark.dwellMinutes;
+  const match = DWELL_MINUTES_BY_TYPE.find(([type]) => landmark.types?.includes(type));
+  return match ? match[1] : DEFAULT_DWELL_MINUTES;
+};
+
+/**
+ * Straight-line travel estimate between two points, used to compare candidate orders without calling the API
+ */
+export const estimateTravelMinutes = (from: [number, number], to: [number, number], travelMode: TravelMode): number => {
+  const km = calculateDistance(from[1], from[0], to[1], to[0]) / 1000 * DETOUR_FACTOR;
+  return (km / ESTIMATED_SPEED_KMH[travelMode]) * 60;
+};
+
+/**
+ * Opening windows touching a given date, as minutes from that date's midnight.
+ * Includes the tail of the previous day's overnight window.
+ * @returns Windows, or null when the place has no hours data
+ */
+const getWindowsForDate = (periods: OpeningPeriod[] | undefined, date: Date): Array<[number, number]> | null => {
+  if (!periods || periods.length === 0) return null;
+  // Open 24/7
+  if (periods.length === 1 && !periods[0].close) return [[0, MINUTES_PER_DAY * 2]];
+
+  const weekday = date.getDay();
+  const previousWeekday = (weekday + 6) % 7;
+  const windows: Array<[number, number]> = [];
+
+  periods.forEach(({ open, close }) => {
+    if (!close) return;
+    const openMinutes = open.hour * 60 + open.minute;
+    const closeMinutes = close.hour * 60 + close.minute + (close.day !== open.day ? MINUTES_PER_DAY : 0);
+
+    if (open.day === weekday) {
+      windows.push([openMinutes, closeMinutes]);
+    } else if (open.day === previousWeekday && closeMinutes > MINUTES_PER_DAY) {
+      windows.push([0, closeMinutes - MINUTES_PER_DAY]);
+    }
+  });
+
+  return windows.sort((a, b) => a[0] - b[0]);
+};
+
+const formatClock = (minutes: number) => {
+  const normalized = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalized / 60)).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60000);
+
+const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+
+/**
+ * Walk the stops in order from `startTime`, applying travel, waiting for opening and dwell time
+ * @param landmarks Stops in visiting order
+ * @param legMinutes Travel time to reach each stop (legMinutes[i] is the leg arriving at landmarks[i])
+ * @param hoursByPlaceId Opening periods per place, landmarks without an entry are treated as always open
+ */
+export const buildRouteSchedule = (
+  landmarks: TourLandmark[],
+  legMinutes: number[],
+  startTime: Date,
+  hoursByPlaceId: Record<string, OpeningPeriod[] | undefined>,
+  reordered: boolean = false
+): RouteSchedule => {
+  let clock = new Date(startTime);
+  let errorCount = 0;
+  let warningCount = 0;
+
+  const stops: ScheduledStop[] = landmarks.map((landmark, index) => {
+    const travelMinutes = legMinutes[index] ?? 0;
+    const dwellMinutes = getDwellMinutes(landmark);
+    const eta = addMinutes(clock, travelMinutes);
+    const violations: ScheduleViolation[] = [];
+    let visitStart = eta;
+
+    const windows = getWindowsForDate(hoursByPlaceId[landmark.placeId] || landmark.openingPeriods, eta);
+    if (windows) {
+      const arrival = minutesSinceMidnight(eta);
+      const window = windows.find(([, close]) => close > arrival);
+
+      if (windows.length === 0) {
+        violations.push({ type: 'closed_that_day', severity: 'error', message: 'Closed on this day' });
+      } else if (!window) {
+        const lastClose = windows[windows.length - 1][1];
+        violations.push({
+          type: 'arrives_after_closing',
+          severity: 'error',
+          message: `Arrives ${formatClock(arrival)}, closes at ${formatClock(lastClose)}`
+        });
+      } else {
+        const [open, close] = window;
+        if (open > arrival) {
+          visitStart = addMinutes(eta, open - arrival);
+          if (open - arrival > WAIT_WARNING_MINUTES) {
+            violations.push({
+              type: 'waits_for_opening',
+              severity: 'warning',
+              message: `Waits ${Math.round(open - arrival)} min until it opens at ${formatClock(open)}`
+            });
+          }
+        }
+
+        const visitEnd = minutesSinceMidnight(visitStart) + dwellMinutes;
+        if (visitEnd > close) {
+          violations.push({
+            type: 'closes_during_visit',
+            severity: 'error',
+            message: `Closes at ${formatClock(close)}, only ${Math.max(0, Math.round(close - minutesSinceMidnight(visitStart)))} of ${dwellMinutes} min`
+          });
+        }
+      }
+    }
+
+    const departure = addMinutes(visitStart, dwellMinutes);
+    clock = departure;
+
+    violations.forEach(violation => violation.severity === 'error' ? errorCount++ : warningCount++);
+
+    return {
+      landmark,
+      travelMinutes: Math.round(travelMinutes),
+      eta: eta.toISOString(),
+      visitStart: visitStart.toISOString(),
+      departure: departure.toISOString(),
+      dwellMinutes,
+      waitMinutes: Math.round((visitStart.getTime() - eta.getTime()) / 60000),
+      violations
+    };
+  });
+
+  return {
+    startTime: startTime.toISOString(),
+    endTime: clock.toISOString(),
+    stops,
+    errorCount,
+    warningCount,
+    reordered
+  };
+};
+
+// Errors dominate, then waiting warnings, then total tour length
+export const scheduleCost = (schedule: RouteSchedule) =>
+  schedule.errorCount * 1e6 +
+  schedule.warningCount * 1e3 +
+  (new Date(schedule.endTime).getTime() - new Date(schedule.startTime).getTime()) / 60000;
+
+/**
+ * Local search over stop orders, relocating one stop at a time while `evaluate` keeps dropping
+ * @returns The best order found and its cost
+ */
+export const improveStopOrder = (
+  landmarks: TourLandmark[],
+  evaluate: (order: TourLandmark[]) => number
+): { order: TourLandmark[]; cost: number } => {
+  let best = landmarks;
+  let bestCost = evaluate(landmarks);
+
+  for (let pass = 0; pass < 20; pass++) {
+    let improved = false;
+
+    for (let from = 0; from < best.length; from++) {
+      for (let to = 0; to < best.length; to++) {
+        if (from === to) continue;
+
+        const candidate = best.slice();
+        const [moved] = candidate.splice(from, 1);
+        candidate.splice(to, 0, moved);
+
+        const cost = evaluate(candidate);
+        if (cost < bestCost) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return { order: best, cost: bestCost };
+};
+
+/**
+ * Estimated travel minutes for each leg of an order, scaled by `travelScale` to match routed legs on average
+ */
+export const estimateLegMinutes = (
+  origin: [number, number],
+  order: TourLandmark[],
+  travelMode: TravelMode,
+  travelScale: number = 1
+): number[] => order.map((landmark, index) =>
+  estimateTravelMinutes(index === 0 ? origin : order[index - 1].coordinates, landmark.coordinates, travelMode) * travelScale
+);
+
+/**
+ * Search for a stop order that breaks fewer opening-hour constraints, by relocating one stop at a time.
+ * Travel times are estimated, scaled by `travelScale` so they match the routed legs on average.
+ * @returns A better order, or null when the current one can't be improved
+ */
+export const findTimeWindowOrder = (
+  origin: [number, number],
+  landmarks: TourLandmark[],
+  startTime: Date,
+  travelMode: TravelMode,
+  hoursByPlaceId: Record<string, OpeningPeriod[] | undefined>,
+  travelScale: number = 1
+): TourLandmark[] | null => {
+  const evaluate = (order: TourLandmark[]) =>
+    scheduleCost(buildRouteSchedule(order, estimateLegMinutes(origin, order, travelMode, travelScale), startTime, hoursByPlaceId));
+
+  const initialCost = evaluate(landmarks);
+  const { order, cost } = improveStopOrder(landmarks, evaluate);
+
+  // Only worth re-routing if it fixes at least one error
+  return Math.floor(cost / 1e6) < Math.floor(initialCost / 1e6) ? order : null;
+};
+
+/**
+ * Parse a Routes API duration ("1234s") into minutes
+ */
+export const parseDurationMinutes = (duration: string | undefined): number =>
+  duration ? parseInt(duration.replace('s', ''), 10) / 60 : 0;
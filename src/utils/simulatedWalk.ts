@@ -0,0 +1,171 @@
+import { SimulatedWalkSource, SimulatedWalkState } from '@/types/debugOverrides';
+import { UserLocation } from '@/types/proximityAlerts';
+import { calculateDistance } from '@/utils/proximityUtils';
+
+export const DEFAULT_WALK_SPEED_KMH = 5;
+const TICK_INTERVAL = 1000; // ms between synthetic fixes
+const SIMULATED_ACCURACY = 5; // meters
+
+// Global singleton walk shared by every useLocationTracking instance
+let walkState: SimulatedWalkState | null = null;
+let cumulativeDistances: number[] = [];
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+const stateSubscribers = new Set<(state: SimulatedWalkState | null) => void>();
+const locationSubscribers = new Set<(location: UserLocation) => void>();
+
+const notifyState = () => {
+  stateSubscribers.forEach(callback => callback(walkState));
+};
+
+/**
+ * Point at a distance along the track
+ * @returns [longitude, latitude], clamped to the track ends
+ */
+const getPositionAlongTrack = (distance: number): [number, number] => {
+  const track = walkState!.track;
+  if (distance <= 0) return track[0];
+
+  for (let i = 1; i < track.length; i++) {
+    if (cumulativeDistances[i] >= distance) {
+      const segment = cumulativeDistances[i] - cumulativeDistances[i - 1];
+      const ratio = segment === 0 ? 1 : (distance - cumulativeDistances[i - 1]) / segment;
+      return [
+        track[i - 1][0] + (track[i][0] - track[i - 1][0]) * ratio,
+        track[i - 1][1] + (track[i][1] - track[i - 1][1]) * ratio
+      ];
+    }
+  }
+
+  return track[track.length - 1];
+};
+
+export const getSimulatedLocation = (): UserLocation | null => {
+  if (!walkState) return null;
+
+  const [longitude, latitude] = getPositionAlongTrack(walkState.progress);
+  return { latitude, longitude, accuracy: SIMULATED_ACCURACY, timestamp: Date.now() };
+};
+
+const emitLocation = () => {
+  const location = getSimulatedLocation();
+  if (location) locationSubscribers.forEach(callback => callback(location));
+};
+
+const clearTicker = () => {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+};
+
+const tick = () => {
+  if (!walkState) return;
+
+  const progress = Math.min(walkState.totalDistance, walkState.progress + (walkState.speedKmh / 3.6) * (TICK_INTERVAL / 1000));
+  const finished = progress >= walkState.totalDistance;
+  walkState = { ...walkState, progress, isPlaying: !finished };
+
+  if (finished) {
+    clearTicker();
+    console.log('🏁 Simulated walk reached the end of the track');
+  }
+
+  emitLocation();
+  notifyState();
+};
+
+export const isSimulatedWalkActive = () => walkState !== null;
+
+export const getSimulatedWalkState = (): SimulatedWalkState | null => walkState;
+
+export const subscribeToSimulatedWalk = (callback: (state: SimulatedWalkState | null) => void) => {
+  stateSubscribers.add(callback);
+  return () => {
+    stateSubscribers.delete(callback);
+  };
+};
+
+export const subscribeToSimulatedLocation = (callback: (location: UserLocation) => void) => {
+  locationSubscribers.add(callback);
+  return () => {
+    locationSubscribers.delete(callback);
+  };
+};
+
+/**
+ * Replace real GPS with a walk along a track, paused at its start
+ * @param track [longitude, latitude] points in walking order
+ */
+export const loadSimulatedWalk = (track: [number, number][], source: SimulatedWalkSource, name: string) => {
+  if (track.length < 2) {
+    throw new Error('A simulated walk needs a track with at least two points');
+  }
+
+  clearTicker();
+  cumulativeDistances = track.reduce<number[]>((distances, point, index) => {
+    distances.push(index === 0 ? 0 : distances[index - 1] + calculateDistance(track[index - 1][1], track[index - 1][0], point[1], point[0]));
+    return distances;
+  }, []);
+
+  walkState = {
+    source,
+    name,
+    track,
+    totalDistance: cumulativeDistances[cumulativeDistances.length - 1],
+    progress: 0,
+    speedKmh: walkState?.speedKmh || DEFAULT_WALK_SPEED_KMH,
+    isPlaying: false
+  };
+
+  console.log(`🚶 Simulated walk loaded: ${name} (${Math.round(walkState.totalDistance)}m, ${track.length} points)`);
+  emitLocation();
+  notifyState();
+};
+
+export const playSimulatedWalk = () => {
+  if (!walkState || walkState.isPlaying) return;
+
+  // Replaying a finished walk starts over
+  const progress = walkState.progress >= walkState.totalDistance ? 0 : walkState.progress;
+  walkState = { ...walkState, progress, isPlaying: true };
+  tickTimer = setInterval(tick, TICK_INTERVAL);
+  emitLocation();
+  notifyState();
+};
+
+export const pauseSimulatedWalk = () => {
+  if (!walkState) return;
+
+  clearTicker();
+  walkState = { ...walkState, isPlaying: false };
+  notifyState();
+};
+
+/**
+ * Jump to a distance along the track, keeping the play state
+ */
+export const seekSimulatedWalk = (distance: number) => {
+  if (!walkState) return;
+
+  walkState = { ...walkState, progress: Math.max(0, Math.min(walkState.totalDistance, distance)) };
+  emitLocation();
+  notifyState();
+};
+
+export const setSimulatedWalkSpeed = (speedKmh: number) => {
+  if (!walkState) return;
+
+  walkState = { ...walkState, speedKmh };
+  notifyState();
+};
+
+/**
+ * End the simulation and hand location back to real GPS
+ */
+export const stopSimulatedWalk = () => {
+  clearTicker();
+  walkState = null;
+  cumulativeDistances = [];
+  console.log('🛑 Simulated walk stopped, back to device GPS');
+  notifyState();
+};
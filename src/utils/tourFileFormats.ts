@@ -0,0 +1,414 @@
+import { TourLandmark } from '@/data/tourLandmarks';
+import { OptimalRouteResult } from '@/hooks/useOptimalRoute';
+import { createRouteGeoJSON } from '@/utils/polylineDecoder';
+import { calculateDistance } from '@/utils/proximityUtils';
+
+export type TourFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TourFileData {
+  name: string;
+  landmarks: TourLandmark[];
+  routeGeoJSON: GeoJSON.LineString | null;
+  routeStats: OptimalRouteResult['routeStats'];
+}
+
+const MIME_TYPES: Record<TourFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json'
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Export a tour as a GeoJSON FeatureCollection: one Point per landmark, plus a LineString for the route
+ */
+export const exportTourToGeoJSON = (tour: TourFileData): string => {
+  const features: GeoJSON.Feature[] = tour.landmarks.map((landmark, index) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: landmark.coordinates },
+    properties: {
+      name: landmark.name,
+      description: landmark.description,
+      order: index + 1,
+      placeId: landmark.placeId,
+      rating: landmark.rating ?? null,
+      types: landmark.types ?? [],
+      formattedAddress: landmark.formattedAddress ?? null
+    }
+  }));
+
+  if (tour.routeGeoJSON) {
+    features.push({
+      type: 'Feature',
+      geometry: tour.routeGeoJSON,
+      properties: {
+        name: `${tour.name} route`,
+        ...(tour.routeStats || {})
+      }
+    });
+  }
+
+  const collection: GeoJSON.FeatureCollection & { name: string } = {
+    type: 'FeatureCollection',
+    name: tour.name,
+    features
+  };
+
+  return JSON.stringify(collection, null, 2);
+};
+
+/**
+ * Export a tour as GPX 1.1: landmarks as waypoints and as an ordered route, the route geometry as a track
+ * (tracks are what most hiking watches navigate along)
+ */
+export const exportTourToGPX = (tour: TourFileData): string => {
+  const waypoints = tour.landmarks.map(landmark => `  <wpt lat="${landmark.coordinates[1]}" lon="${landmark.coordinates[0]}">
+    <name>${escapeXml(landmark.name)}</name>
+    <desc>${escapeXml(landmark.description || '')}</desc>
+    <extensions><exploraria:placeId>${escapeXml(landmark.placeId)}</exploraria:placeId></extensions>
+  </wpt>`).join('\n');
+
+  const routePoints = tour.landmarks.map(landmark =>
+    `    <rtept lat="${landmark.coordinates[1]}" lon="${landmark.coordinates[0]}"><name>${escapeXml(landmark.name)}</name></rtept>`
+  ).join('\n');
+
+  const track = tour.routeGeoJSON ? `
+  <trk>
+    <name>${escapeXml(tour.name)}</name>
+    ${tour.routeStats ? `<extensions><exploraria:distanceKm>${tour.routeStats.distanceKm}</exploraria:distanceKm><exploraria:durationText>${escapeXml(tour.routeStats.durationText)}</exploraria:durationText></extensions>` : ''}
+    <trkseg>
+${tour.routeGeoJSON.coordinates.map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"/>`).join('\n')}
+    </trkseg>
+  </trk>` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Exploraria" xmlns="http://www.topografix.com/GPX/1/1" xmlns:exploraria="https://exploraria.ai/gpx">
+  <metadata><name>${escapeXml(tour.name)}</name></metadata>
+${waypoints}
+  <rte>
+    <name>${escapeXml(tour.name)}</name>
+${routePoints}
+  </rte>${track}
+</gpx>
+`;
+};
+
+/**
+ * Export a tour as KML 2.2: a Placemark per landmark and a LineString Placemark for the route
+ */
+export const exportTourToKML = (tour: TourFileData): string => {
+  const placemarks = tour.landmarks.map(landmark => `    <Placemark>
+      <name>${escapeXml(landmark.name)}</name>
+      <description>${escapeXml(landmark.description || '')}</description>
+      <ExtendedData><Data name="placeId"><value>${escapeXml(landmark.placeId)}</value></Data></ExtendedData>
+      <Point><coordinates>${landmark.coordinates[0]},${landmark.coordinates[1]}</coordinates></Point>
+    </Placemark>`).join('\n');
+
+  const route = tour.routeGeoJSON ? `
+    <Placemark>
+      <name>${escapeXml(tour.name)} route</name>
+      ${tour.routeStats ? `<ExtendedData><Data name="distanceKm"><value>${tour.routeStats.distanceKm}</value></Data><Data name="durationText"><value>${escapeXml(tour.routeStats.durationText)}</value></Data></ExtendedData>` : ''}
+      <LineString><tessellate>1</tessellate><coordinates>${tour.routeGeoJSON.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LineString>
+    </Placemark>` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(tour.name)}</name>
+${placemarks}${route}
+  </Document>
+</kml>
+`;
+};
+
+export const exportTour = (tour: TourFileData, format: TourFileFormat): string => {
+  switch (format) {
+    case 'gpx':
+      return exportTourToGPX(tour);
+    case 'kml':
+      return exportTourToKML(tour);
+    case 'geojson':
+      return exportTourToGeoJSON(tour);
+  }
+};
+
+/**
+ * Trigger a browser download of the exported tour
+ */
+export const downloadTourFile = (tour: TourFileData, format: TourFileFormat) => {
+  const blob = new Blob([exportTour(tour, format)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const safeName = tour.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'tour';
+
+  link.href = url;
+  link.download = `${safeName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const isValidCoordinate = ([lng, lat]: [number, number]) =>
+  !isNaN(lng) && !isNaN(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+const createImportedLandmark = (
+  name: string,
+  coordinates: [number, number],
+  index: number,
+  extra: Partial<TourLandmark> = {}
+): TourLandmark => ({
+  placeId: extra.placeId || `imported-${index}`,
+  name: name || `Stop ${index + 1}`,
+  coordinates,
+  description: extra.description || '',
+  types: extra.types || [],
+  rating: extra.rating,
+  formattedAddress: extra.formattedAddress,
+  coordinateSource: 'import'
+});
+
+// Total length of a line in km, used when the file carries no route stats of its own
+const getLineDistanceKm = (coordinates: [number, number][]): number => {
+  let meters = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    meters += calculateDistance(coordinates[i - 1][1], coordinates[i - 1][0], coordinates[i][1], coordinates[i][0]);
+  }
+  return Math.round(meters / 100) / 10;
+};
+
+const buildRouteStats = (
+  coordinates: [number, number][],
+  waypointCount: number,
+  stored?: { distanceKm?: number; durationText?: string }
+): OptimalRouteResult['routeStats'] => ({
+  distanceKm: stored?.distanceKm && !isNaN(stored.distanceKm) ? stored.distanceKm : getLineDistanceKm(coordinates),
+  durationText: stored?.durationText || 'n/a',
+  waypointCount
+});
+
+const parseGeoJSON = (content: string, fallbackName: string): TourFileData => {
+  const parsed = JSON.parse(content);
+  const features: GeoJSON.Feature[] =
+    parsed.type === 'FeatureCollection' ? parsed.features :
+    parsed.type === 'Feature' ? [parsed] :
+    [{ type: 'Feature', geometry: parsed, properties: {} }];
+
+  const landmarks: TourLandmark[] = [];
+  let routeCoordinates: [number, number][] = [];
+  let storedStats: { distanceKm?: number; durationText?: string } | undefined;
+
+  features.forEach(feature => {
+    const properties = feature.properties || {};
+    const geometry = feature.geometry;
+    if (!geometry) return;
+
+    if (geometry.type === 'Point') {
+      const coordinates: [number, number] = [geometry.coordinates[0], geometry.coordinates[1]];
+      if (!isValidCoordinate(coordinates)) return;
+
+      landmarks.push(createImportedLandmark(properties.name || properties.title, coordinates, landmarks.length, {
+        placeId: properties.placeId,
+        description: properties.description,
+        types: properties.types,
+        rating: properties.rating ?? undefined,
+        formattedAddress: properties.formattedAddress ?? undefined
+      }));
+    } else if (geometry.type === 'LineString' && routeCoordinates.length === 0) {
+      routeCoordinates = geometry.coordinates.map(([lng, lat]) => [lng, lat] as [number, number]);
+      storedStats = { distanceKm: properties.distanceKm, durationText: properties.durationText };
+    } else if (geometry.type === 'MultiLineString' && routeCoordinates.length === 0) {
+      routeCoordinates = geometry.coordinates.flat().map(([lng, lat]) => [lng, lat] as [number, number]);
+    }
+  });
+
+  // Our own exports carry the stop order, other tools may not
+  const orders = features
+    .filter(feature => feature.geometry?.type === 'Point')
+    .map(feature => feature.properties?.order);
+  if (orders.every(order => typeof order === 'number')) {
+    const indexed = landmarks.map((landmark, index) => ({ landmark, order: orders[index] as number }));
+    indexed.sort((a, b) => a.order - b.order);
+    landmarks.splice(0, landmarks.length, ...indexed.map(item => item.landmark));
+  }
+
+  return {
+    name: parsed.name || fallbackName,
+    landmarks,
+    routeGeoJSON: routeCoordinates.length >= 2 ? createRouteGeoJSON(routeCoordinates) : null,
+    routeStats: routeCoordinates.length >= 2 ? buildRouteStats(routeCoordinates, landmarks.length, storedStats) : null
+  };
+};
+
+const getChildText = (element: Element, tagName: string): string =>
+  element.getElementsByTagName(tagName)[0]?.textContent?.trim() || '';
+
+const parseXml = (content: string): Document => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  return document;
+};
+
+const parseGPX = (content: string, fallbackName: string): TourFileData => {
+  const document = parseXml(content);
+
+  const toCoordinates = (point: Element): [number, number] =>
+    [parseFloat(point.getAttribute('lon') || ''), parseFloat(point.getAttribute('lat') || '')];
+
+  // Prefer waypoints, fall back to route points when a tool only writes a route
+  let points = Array.from(document.getElementsByTagName('wpt'));
+  if (points.length === 0) {
+    points = Array.from(document.getElementsByTagName('rtept'));
+  }
+
+  const landmarks = points
+    .map(point => ({ point, coordinates: toCoordinates(point) }))
+    .filter(({ coordinates }) => isValidCoordinate(coordinates))
+    .map(({ point, coordinates }, index) => createImportedLandmark(getChildText(point, 'name'), coordinates, index, {
+      placeId: getChildText(point, 'exploraria:placeId') || undefined,
+      description: getChildText(point, 'desc') || getChildText(point, 'cmt')
+    }));
+
+  const routeCoordinates = Array.from(document.getElementsByTagName('trkpt'))
+    .map(toCoordinates)
+    .filter(isValidCoordinate);
+
+  const track = document.getElementsByTagName('trk')[0];
+  const storedStats = track ? {
+    distanceKm: parseFloat(getChildText(track, 'exploraria:distanceKm')),
+    durationText: getChildText(track, 'exploraria:durationText')
+  } : undefined;
+
+  const metadata = document.getElementsByTagName('metadata')[0];
+
+  return {
+    name: (metadata && getChildText(metadata, 'name')) || fallbackName,
+    landmarks,
+    routeGeoJSON: routeCoordinates.length >= 2 ? createRouteGeoJSON(routeCoordinates) : null,
+    routeStats: routeCoordinates.length >= 2 ? buildRouteStats(routeCoordinates, landmarks.length, storedStats) : null
+  };
+};
+
+const parseKML = (content: string, fallbackName: string): TourFileData => {
+  const document = parseXml(content);
+
+  const parseCoordinateList = (text: string): [number, number][] =>
+    text
+      .trim()
+      .split(/\s+/)
+      .map(tuple => {
+        const [lng, lat] = tuple.split(',').map(parseFloat);
+        return [lng, lat] as [number, number];
+      })
+      .filter(isValidCoordinate);
+
+  const getExtendedData = (placemark: Element, name: string): string => {
+    const data = Array.from(placemark.getElementsByTagName('Data')).find(item => item.getAttribute('name') === name);
+    return data ? getChildText(data, 'value') : '';
+  };
+
+  const landmarks: TourLandmark[] = [];
+  let routeCoordinates: [number, number][] = [];
+  let storedStats: { distanceKm?: number; durationText?: string } | undefined;
+
+  Array.from(document.getElementsByTagName('Placemark')).forEach(placemark => {
+    const point = placemark.getElementsByTagName('Point')[0];
+    const lineString = placemark.getElementsByTagName('LineString')[0];
+
+    if (point) {
+      const [coordinates] = parseCoordinateList(getChildText(point, 'coordinates'));
+      if (!coordinates) return;
+
+      landmarks.push(createImportedLandmark(getChildText(placemark, 'name'), coordinates, landmarks.length, {
+        placeId: getExtendedData(placemark, 'placeId') || undefined,
+        description: getChildText(placemark, 'description')
+      }));
+    } else if (lineString && routeCoordinates.length === 0) {
+      routeCoordinates = parseCoordinateList(getChildText(lineString, 'coordinates'));
+      storedStats = {
+        distanceKm: parseFloat(getExtendedData(placemark, 'distanceKm')),
+        durationText: getExtendedData(placemark, 'durationText')
+      };
+    }
+  });
+
+  const documentElement = document.getElementsByTagName('Document')[0];
+
+  return {
+    name: (documentElement && getChildText(documentElement, 'name')) || fallbackName,
+    landmarks,
+    routeGeoJSON: routeCoordinates.length >= 2 ? createRouteGeoJSON(routeCoordinates) : null,
+    routeStats: routeCoordinates.length >= 2 ? buildRouteStats(routeCoordinates, landmarks.length, storedStats) : null
+  };
+};
+
+/**
+ * Detect the format of an imported file from its extension, falling back to its content
+ */
+export const detectTourFileFormat = (fileName: string, content: string): TourFileFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'geojson';
+  if (trimmed.includes('<gpx')) return 'gpx';
+  if (trimmed.includes('<kml')) return 'kml';
+  return null;
+};
+
+/**
+ * Parse a GPX, KML or GeoJSON file into tour landmarks and an optional route
+ * @throws Error when the format is unknown or the file has no usable points
+ */
+export const parseTourFile = (fileName: string, content: string): TourFileData => {
+  const format = detectTourFileFormat(fileName, content);
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported tour';
+
+  let tour: TourFileData;
+  switch (format) {
+    case 'gpx':
+      tour = parseGPX(content, fallbackName);
+      break;
+    case 'kml':
+      tour = parseKML(content, fallbackName);
+      break;
+    case 'geojson':
+      tour = parseGeoJSON(content, fallbackName);
+      break;
+    default:
+      throw new Error('Unsupported file type. Use GPX, KML or GeoJSON.');
+  }
+
+  // A track without waypoints still makes a tour: use its start and end as stops
+  if (tour.landmarks.length === 0 && tour.routeGeoJSON) {
+    const coordinates = tour.routeGeoJSON.coordinates as [number, number][];
+    tour.landmarks = [
+      createImportedLandmark('Start', coordinates[0], 0),
+      createImportedLandmark('Finish', coordinates[coordinates.length - 1], 1)
+    ];
+    if (tour.routeStats) tour.routeStats.waypointCount = 2;
+  }
+
+  if (tour.landmarks.length === 0) {
+    throw new Error('No points found in this file');
+  }
+
+  console.log(`📥 Parsed ${format} tour:`, {
+    name: tour.name,
+    landmarks: tour.landmarks.length,
+    routePoints: tour.routeGeoJSON?.coordinates.length || 0
+  });
+
+  return tour;
+};
@@ -0,0 +1,83 @@
+import { EXPERIENCE_LANGUAGES, getLanguageName } from '@/utils/experienceCatalog';
+
+export type TourLanguage = typeof EXPERIENCE_LANGUAGES[number]['code'];
+
+export const DEFAULT_TOUR_LANGUAGE: TourLanguage = 'en';
+
+const TOUR_LANGUAGE_KEY = 'tour-language';
+
+// Locales for speech recognition and synthesis, using the regions most of our travelers come from
+const SPEECH_LOCALES: Record<TourLanguage, string> = {
+  en: 'en-US',
+  es: 'es-MX',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  pt: 'pt-BR',
+  ja: 'ja-JP',
+  zh: 'zh-CN',
+};
+
+// Multilingual premade voices used when the guide speaks something other than the agent's own language
+const LANGUAGE_VOICES: Partial<Record<TourLanguage, string>> = {
+  es: '9BWtsMINqrJLrRacOk9x', // Aria
+  pt: '9BWtsMINqrJLrRacOk9x', // Aria
+  fr: 'EXAVITQu4vr4xnSDxMaL', // Sarah
+  de: 'FGY2WhTYpPnrIDTdsKH5', // Laura
+  it: 'CwhRBWXzGAHq8TQ4Fs17', // Roger
+  ja: 'EXAVITQu4vr4xnSDxMaL', // Sarah
+  zh: 'EXAVITQu4vr4xnSDxMaL', // Sarah
+};
+
+// The default agent greets in English, so sessions in other languages replace its first message
+const FIRST_MESSAGES: Record<TourLanguage, string> = {
+  en: "Hello! I'm your AI tour guide. I'm excited to help you explore this amazing destination. What would you like to know about our tour today?",
+  es: '¡Hola! Soy tu guía turístico con IA. Me encanta ayudarte a explorar este increíble destino. ¿Qué te gustaría saber sobre nuestro recorrido de hoy?',
+  fr: "Bonjour ! Je suis votre guide touristique IA. Je suis ravi de vous aider à explorer cette destination incroyable. Que souhaitez-vous savoir sur notre visite d'aujourd'hui ?",
+  de: 'Hallo! Ich bin dein KI-Reiseführer. Ich freue mich, dir bei der Erkundung dieses großartigen Ziels zu helfen. Was möchtest du über unsere heutige Tour wissen?',
+  it: 'Ciao! Sono la tua guida turistica IA. Sono felice di aiutarti a esplorare questa splendida destinazione. Cosa vorresti sapere sul nostro tour di oggi?',
+  pt: 'Olá! Sou seu guia turístico com IA. Estou animado para ajudar você a explorar este destino incrível. O que você gostaria de saber sobre o nosso passeio de hoje?',
+  ja: 'こんにちは！AIツアーガイドです。この素晴らしい場所を一緒に探検できるのを楽しみにしています。今日のツアーについて何を知りたいですか？',
+  zh: '你好！我是你的AI导游。很高兴带你探索这个精彩的目的地。关于今天的行程，你想了解些什么？',
+};
+
+export const isSupportedLanguage = (code: string | null | undefined): code is TourLanguage =>
+  !!code && EXPERIENCE_LANGUAGES.some(language => language.code === code);
+
+export const normalizeTourLanguage = (code: string | null | undefined): TourLanguage =>
+  isSupportedLanguage(code) ? code : DEFAULT_TOUR_LANGUAGE;
+
+export const getSpeechLocale = (code: string | null | undefined) =>
+  SPEECH_LOCALES[normalizeTourLanguage(code)];
+
+export const getLanguageVoiceId = (code: string | null | undefined) =>
+  LANGUAGE_VOICES[normalizeTourLanguage(code)];
+
+export const getFirstMessage = (code: string | null | undefined) =>
+  FIRST_MESSAGES[normalizeTourLanguage(code)];
+
+/**
+ * The signed-in user's tour language, mirrored locally for code that runs outside the auth context (e.g. TTS)
+ */
+export const getStoredTourLanguage = () => normalizeTourLanguage(localStorage.getItem(TOUR_LANGUAGE_KEY));
+
+export const storeTourLanguage = (code: string | null | undefined) => {
+  localStorage.setItem(TOUR_LANGUAGE_KEY, normalizeTourLanguage(code));
+};
+
+/**
+ * Prompt section telling the guide which language to speak; empty for English, the prompts' own language
+ */
+export const getLanguageInstruction = (code: string | null | undefined) => {
+  const language = normalizeTourLanguage(code);
+  if (language === DEFAULT_TOUR_LANGUAGE) return '';
+
+  const name = getLanguageName(language);
+  return `
+
+**Language:**
+- Speak **only in ${name}** for the whole tour, including greetings, landmark stories and tool results.
+- The data above may be in English; translate it naturally as you speak instead of reading it out verbatim.
+- Keep proper names of places, museums and streets in their local form (e.g. "Museo Frida Kahlo", "Casa Azul").
+- If the traveler switches language, follow them.`;
+};
@@ -0,0 +1,385 @@
+import { format } from 'date-fns';
+import { Json } from '@/integrations/supabase/types';
+import { TripRecording } from '@/hooks/useTripRecorder';
+import { formatDistance } from '@/utils/proximityUtils';
+
+export type JournalFormat = 'pdf' | 'markdown' | 'html';
+
+export interface JournalInteraction {
+  id: string;
+  created_at: string;
+  interaction_type: string | null;
+  destination: string;
+  user_input: string;
+  assistant_response: string;
+  conversation_summary: string | null;
+  full_transcript: Json | null;
+  landmark_image_url: string | null;
+  landmark_coordinates: unknown;
+  user_location: unknown;
+}
+
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  kind: 'voice' | 'image' | 'map' | 'other';
+  userInput: string;
+  assistantResponse: string;
+  summary: string | null;
+  transcript: Array<{ role: 'user' | 'agent'; message: string }>;
+  imageUrl: string | null;
+  coordinates: [number, number] | null;
+}
+
+export interface JournalChapter {
+  title: string; // the landmark visited, or where the trip set out from
+  arrivedAt: string | null;
+  dwellMinutes: number | null;
+  entries: JournalEntry[];
+}
+
+export interface TravelJournal {
+  title: string;
+  destination: string;
+  startedAt: string;
+  endedAt: string;
+  distanceMeters: number;
+  chapters: JournalChapter[];
+}
+
+const ENTRY_LABELS: Record<JournalEntry['kind'], string> = {
+  voice: 'Conversation with your guide',
+  image: 'Photo recognition',
+  map: 'Explored on the map',
+  other: 'Note'
+};
+
+const MIME_TYPES: Record<Exclude<JournalFormat, 'pdf'>, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html'
+};
+
+const FILE_EXTENSIONS: Record<Exclude<JournalFormat, 'pdf'>, string> = {
+  markdown: 'md',
+  html: 'html'
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Coordinates stored as a Postgres point, "(lng,lat)", or already as an array or object
+ */
+const parsePoint = (value: unknown): [number, number] | null => {
+  let point: [number, number] | null = null;
+
+  if (typeof value === 'string') {
+    const parts = value.replace(/[()]/g, '').split(',');
+    if (parts.length === 2) point = [Number(parts[0]), Number(parts[1])];
+  } else if (Array.isArray(value) && value.length === 2) {
+    point = [Number(value[0]), Number(value[1])];
+  } else if (value && typeof value === 'object') {
+    const { x, y, lng, lat } = value as { x?: number; y?: number; lng?: number; lat?: number };
+    point = [Number(lng ?? x), Number(lat ?? y)];
+  }
+
+  return point && !isNaN(point[0]) && !isNaN(point[1]) ? point : null;
+};
+
+const getEntryKind = (interactionType: string | null): JournalEntry['kind'] => {
+  if (interactionType === 'voice') return 'voice';
+  if (interactionType === 'image_recognition') return 'image';
+  if (interactionType === 'map_marker') return 'map';
+  return 'other';
+};
+
+const parseTranscript = (transcript: Json | null): JournalEntry['transcript'] =>
+  (Array.isArray(transcript) ? transcript : [])
+    .filter((line): line is { role: 'user' | 'agent'; message: string } =>
+      !!line && typeof line === 'object' && !Array.isArray(line) &&
+      (line.role === 'user' || line.role === 'agent') && typeof line.message === 'string' && line.message.trim() !== '')
+    .map(line => ({ role: line.role, message: line.message.trim() }));
+
+export const toJournalEntry = (interaction: JournalInteraction): JournalEntry => ({
+  id: interaction.id,
+  createdAt: interaction.created_at,
+  kind: getEntryKind(interaction.interaction_type),
+  userInput: interaction.user_input,
+  assistantResponse: interaction.assistant_response,
+  summary: interaction.conversation_summary,
+  transcript: parseTranscript(interaction.full_transcript),
+  imageUrl: interaction.landmark_image_url,
+  coordinates: parsePoint(interaction.landmark_coordinates) || parsePoint(interaction.user_location)
+});
+
+/**
+ * Arrange a trip's interactions into chapters, one per landmark visited. Each interaction goes to the
+ * last landmark reached before it, earlier ones open the journal.
+ */
+export const buildTravelJournal = (trip: TripRecording, entries: JournalEntry[]): TravelJournal => {
+  const visits = [...trip.visits].sort((a, b) => a.arrivedAt - b.arrivedAt);
+  const chapters: JournalChapter[] = [
+    { title: `Setting out in ${trip.destination}`, arrivedAt: null, dwellMinutes: null, entries: [] },
+    ...visits.map(visit => ({
+      title: visit.name,
+      arrivedAt: new Date(visit.arrivedAt).toISOString(),
+      dwellMinutes: Math.round(visit.dwellSeconds / 60),
+      entries: [] as JournalEntry[]
+    }))
+  ];
+
+  [...entries]
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(entry => {
+      const time = new Date(entry.createdAt).getTime();
+      const visitIndex = visits.reduce((latest, visit, index) => visit.arrivedAt <= time ? index : latest, -1);
+      chapters[visitIndex + 1].entries.push(entry);
+    });
+
+  return {
+    title: `${trip.destination} travel journal`,
+    destination: trip.destination,
+    startedAt: trip.startedAt,
+    endedAt: trip.endedAt,
+    distanceMeters: trip.distanceMeters,
+    // Keep the places visited even without interactions, they're part of the story
+    chapters: chapters.filter((chapter, index) => index > 0 || chapter.entries.length > 0)
+  };
+};
+
+const formatTripDates = (journal: TravelJournal) =>
+  `${format(new Date(journal.startedAt), 'EEEE, MMMM d, yyyy • HH:mm')}–${format(new Date(journal.endedAt), 'HH:mm')}`;
+
+const formatChapterMeta = (chapter: JournalChapter) =>
+  chapter.arrivedAt
+    ? `Arrived ${format(new Date(chapter.arrivedAt), 'HH:mm')}${chapter.dwellMinutes ? ` • stayed ${chapter.dwellMinutes} min` : ''}`
+    : null;
+
+const getMapLink = ([lng, lat]: [number, number]) => `https://www.google.com/maps?q=${lat},${lng}`;
+
+/**
+ * Export a journal as Markdown, with images linked from their stored URLs
+ */
+export const exportJournalToMarkdown = (journal: TravelJournal): string => {
+  const chapters = journal.chapters.map(chapter => {
+    const meta = formatChapterMeta(chapter);
+    const entries = chapter.entries.map(entry => {
+      const lines = [`### ${format(new Date(entry.createdAt), 'HH:mm')} · ${ENTRY_LABELS[entry.kind]}`];
+      if (entry.imageUrl) lines.push(`![${chapter.title}](${entry.imageUrl})`);
+      if (entry.summary) lines.push(`*${entry.summary}*`);
+
+      if (entry.transcript.length > 0) {
+        lines.push(entry.transcript.map(line => `> **${line.role === 'user' ? 'You' : 'Guide'}:** ${line.message}`).join('\n>\n'));
+      } else {
+        if (entry.userInput) lines.push(`> **You:** ${entry.userInput}`);
+        if (entry.assistantResponse) lines.push(entry.assistantResponse);
+      }
+
+      if (entry.coordinates) lines.push(`[View on map](${getMapLink(entry.coordinates)})`);
+      return lines.join('\n\n');
+    });
+
+    return [`## ${chapter.title}`, meta ? `_${meta}_` : null, ...entries].filter(Boolean).join('\n\n');
+  });
+
+  return [
+    `# ${journal.title}`,
+    `${formatTripDates(journal)} • ${formatDistance(journal.distanceMeters)}`,
+    ...chapters
+  ].join('\n\n') + '\n';
+};
+
+/**
+ * Export a journal as a self-contained HTML page that reads well on screen and in print
+ */
+export const exportJournalToHTML = (journal: TravelJournal): string => {
+  const chapters = journal.chapters.map(chapter => {
+    const meta = formatChapterMeta(chapter);
+    const entries = chapter.entries.map(entry => {
+      const conversation = entry.transcript.length > 0
+        ? entry.transcript.map(line => `<p class="${line.role}"><strong>${line.role === 'user' ? 'You' : 'Guide'}:</strong> ${escapeHtml(line.message)}</p>`).join('\n')
+        : [
+            entry.userInput ? `<p class="user"><strong>You:</strong> ${escapeHtml(entry.userInput)}</p>` : '',
+            entry.assistantResponse ? `<p class="agent">${escapeHtml(entry.assistantResponse)}</p>` : ''
+          ].join('\n');
+
+      return `<article>
+        <h3>${format(new Date(entry.createdAt), 'HH:mm')} · ${ENTRY_LABELS[entry.kind]}</h3>
+        ${entry.imageUrl ? `<img src="${escapeHtml(entry.imageUrl)}" alt="${escapeHtml(chapter.title)}">` : ''}
+        ${entry.summary ? `<p class="summary">${escapeHtml(entry.summary)}</p>` : ''}
+        ${conversation}
+        ${entry.coordinates ? `<p class="map"><a href="${getMapLink(entry.coordinates)}">View on map</a></p>` : ''}
+      </article>`;
+    }).join('\n');
+
+    return `<section>
+      <h2>${escapeHtml(chapter.title)}</h2>
+      ${meta ? `<p class="meta">${meta}</p>` : ''}
+      ${entries}
+    </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(journal.title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 720px; margin: 0 auto; padding: 32px 20px; color: #222; line-height: 1.6; }
+  h1 { margin-bottom: 4px; }
+  h2 { border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 40px; }
+  h3 { font-size: 0.95em; color: #666; margin-bottom: 8px; }
+  article { margin-bottom: 24px; break-inside: avoid; }
+  img { max-width: 100%; border-radius: 8px; }
+  .meta, .map { color: #888; font-size: 0.85em; }
+  .summary { font-style: italic; }
+  .user { color: #1d4ed8; }
+  @media print { a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(journal.title)}</h1>
+<p class="meta">${formatTripDates(journal)} • ${formatDistance(journal.distanceMeters)}</p>
+${chapters}
+</body>
+</html>
+`;
+};
+
+const getFileName = (journal: TravelJournal) =>
+  journal.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'travel-journal';
+
+/**
+ * Trigger a browser download of the journal as Markdown or HTML
+ */
+export const downloadJournalFile = (journal: TravelJournal, fileFormat: Exclude<JournalFormat, 'pdf'>) => {
+  const content = fileFormat === 'markdown' ? exportJournalToMarkdown(journal) : exportJournalToHTML(journal);
+  const blob = new Blob([content], { type: MIME_TYPES[fileFormat] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `${getFileName(journal)}.${FILE_EXTENSIONS[fileFormat]}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const PDF_MARGIN = 48;
+const PDF_IMAGE_MAX_HEIGHT = 260;
+
+/**
+ * An image as a data URL jsPDF can embed, or null when it can't be loaded (e.g. blocked by CORS)
+ */
+const loadImageDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    console.warn('⚠️ Journal image unavailable:', url, error);
+    return null;
+  }
+};
+
+/**
+ * Build the journal as an A4 PDF and download it. Images that can't be loaded are left out.
+ */
+export const downloadJournalPDF = async (journal: TravelJournal) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PDF_MARGIN * 2;
+  let y = PDF_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - PDF_MARGIN) return;
+    doc.addPage();
+    y = PDF_MARGIN;
+  };
+
+  const writeText = (
+    text: string,
+    { size = 11, style = 'normal', color = [34, 34, 34], gapAfter = 6 }:
+      { size?: number; style?: 'normal' | 'bold' | 'italic'; color?: [number, number, number]; gapAfter?: number } = {}
+  ) => {
+    doc.setFont('helvetica', style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * 1.4;
+    (doc.splitTextToSize(text, textWidth) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, PDF_MARGIN, y + size);
+      y += lineHeight;
+    });
+    y += gapAfter;
+  };
+
+  const writeImage = async (url: string) => {
+    const dataUrl = await loadImageDataUrl(url);
+    if (!dataUrl) return;
+    try {
+      const { width, height } = doc.getImageProperties(dataUrl);
+      const scale = Math.min(textWidth / width, PDF_IMAGE_MAX_HEIGHT / height, 1);
+      ensureSpace(height * scale);
+      doc.addImage(dataUrl, PDF_MARGIN, y, width * scale, height * scale);
+      y += height * scale + 8;
+    } catch (error) {
+      console.warn('⚠️ Journal image could not be embedded:', url, error);
+    }
+  };
+
+  writeText(journal.title, { size: 22, style: 'bold', gapAfter: 2 });
+  writeText(`${formatTripDates(journal)} • ${formatDistance(journal.distanceMeters)}`, { size: 10, color: [136, 136, 136], gapAfter: 12 });
+
+  for (const chapter of journal.chapters) {
+    ensureSpace(60);
+    y += 12;
+    writeText(chapter.title, { size: 16, style: 'bold', gapAfter: 2 });
+    const meta = formatChapterMeta(chapter);
+    if (meta) writeText(meta, { size: 9, color: [136, 136, 136] });
+
+    for (const entry of chapter.entries) {
+      ensureSpace(40);
+      writeText(`${format(new Date(entry.createdAt), 'HH:mm')} · ${ENTRY_LABELS[entry.kind]}`, { size: 10, style: 'bold', color: [102, 102, 102] });
+      if (entry.imageUrl) await writeImage(entry.imageUrl);
+      if (entry.summary) writeText(entry.summary, { style: 'italic' });
+
+      if (entry.transcript.length > 0) {
+        entry.transcript.forEach(line => writeText(
+          `${line.role === 'user' ? 'You' : 'Guide'}: ${line.message}`,
+          { color: line.role === 'user' ? [29, 78, 216] : [34, 34, 34], gapAfter: 3 }
+        ));
+      } else {
+        if (entry.userInput) writeText(`You: ${entry.userInput}`, { color: [29, 78, 216], gapAfter: 3 });
+        if (entry.assistantResponse) writeText(entry.assistantResponse, { gapAfter: 3 });
+      }
+
+      if (entry.coordinates) {
+        ensureSpace(14);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(136, 136, 136);
+        doc.textWithLink('View on map', PDF_MARGIN, y + 9, { url: getMapLink(entry.coordinates) });
+        y += 14;
+      }
+      y += 10;
+    }
+  }
+
+  doc.save(`${getFileName(journal)}.pdf`);
+};
@@ -0,0 +1,168 @@
+import { UserLocation } from '@/types/proximityAlerts';
+import { calculateDistance } from '@/utils/proximityUtils';
+
+// [longitude, latitude, timestamp ms, accuracy m] - compact so long trips stay small
+export type TripPoint = [number, number, number, number | null];
+
+export interface TripVisit {
+  placeId: string;
+  name: string;
+  arrivedAt: number;
+  leftAt: number;
+  dwellSeconds: number;
+}
+
+export interface ActiveTripSession {
+  tourId: string | null;
+  destination: string;
+  startedAt: number;
+  path: TripPoint[];
+}
+
+const ACTIVE_TRIP_STORAGE_KEY = 'active_trip_recording';
+const MIN_POINT_INTERVAL = 5000; // several tracking hooks poll, keep one point per 5 s
+const MIN_POINT_DISTANCE = 5; // meters
+const MAX_POINT_ACCURACY = 100; // meters - drop fixes too vague to draw
+const VISIT_RADIUS = 60; // meters
+const MIN_VISIT_SECONDS = 60;
+
+// Global singleton recorder shared by every useLocationTracking instance
+let activeSession: ActiveTripSession | null = null;
+const subscribers = new Set<(session: ActiveTripSession | null) => void>();
+
+const persistSession = () => {
+  try {
+    if (activeSession) {
+      localStorage.setItem(ACTIVE_TRIP_STORAGE_KEY, JSON.stringify(activeSession));
+    } else {
+      localStorage.removeItem(ACTIVE_TRIP_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to persist trip recording:', error);
+  }
+};
+
+const notifySubscribers = () => {
+  subscribers.forEach(callback => callback(activeSession));
+};
+
+// Resume a recording that was running when the app was closed
+try {
+  const saved = localStorage.getItem(ACTIVE_TRIP_STORAGE_KEY);
+  if (saved) activeSession = JSON.parse(saved);
+} catch (error) {
+  console.error('Failed to restore trip recording:', error);
+}
+
+export const getActiveTripSession = (): ActiveTripSession | null => activeSession;
+
+export const subscribeToTripRecorder = (callback: (session: ActiveTripSession | null) => void) => {
+  subscribers.add(callback);
+  return () => {
+    subscribers.delete(callback);
+  };
+};
+
+export const startTripRecording = (tourId: string | null, destination: string): ActiveTripSession => {
+  activeSession = { tourId, destination, startedAt: Date.now(), path: [] };
+  console.log('⏺️ Trip recording started:', destination);
+  persistSession();
+  notifySubscribers();
+  return activeSession;
+};
+
+export const stopTripRecording = (): ActiveTripSession | null => {
+  const session = activeSession;
+  activeSession = null;
+  persistSession();
+  notifySubscribers();
+  if (session) {
+    console.log(`⏹️ Trip recording stopped: ${session.path.length} points`);
+  }
+  return session;
+};
+
+/**
+ * Append a location fix to the active recording, skipping duplicates from parallel trackers
+ */
+export const recordTripPoint = (location: UserLocation) => {
+  if (!activeSession) return;
+  if (location.accuracy !== undefined && location.accuracy > MAX_POINT_ACCURACY) return;
+
+  const last = activeSession.path[activeSession.path.length - 1];
+  if (last) {
+    const elapsed = location.timestamp - last[2];
+    const moved = calculateDistance(last[1], last[0], location.latitude, location.longitude);
+    if (elapsed < MIN_POINT_INTERVAL && moved < MIN_POINT_DISTANCE) return;
+  }
+
+  activeSession.path.push([location.longitude, location.latitude, location.timestamp, location.accuracy ?? null]);
+  persistSession();
+  notifySubscribers();
+};
+
+/**
+ * Total path length in meters
+ */
+export const getTripDistance = (path: TripPoint[]): number =>
+  path.reduce((total, point, index) =>
+    index === 0 ? 0 : total + calculateDistance(path[index - 1][1], path[index - 1][0], point[1], point[0]), 0);
+
+/**
+ * Find stays near landmarks along the path
+ * @param path Recorded points in time order
+ * @param landmarks Tour landmarks with [longitude, latitude] coordinates
+ * @returns Visits in arrival order, at least MIN_VISIT_SECONDS long
+ */
+export const detectLandmarkVisits = (
+  path: TripPoint[],
+  landmarks: Array<{ placeId: string; name: string; coordinates: [number, number] }>
+): TripVisit[] => {
+  const visits: TripVisit[] = [];
+  const open: Record<string, TripVisit> = {};
+
+  const close = (placeId: string) => {
+    const visit = open[placeId];
+    delete open[placeId];
+    visit.dwellSeconds = Math.round((visit.leftAt - visit.arrivedAt) / 1000);
+    if (visit.dwellSeconds >= MIN_VISIT_SECONDS) visits.push(visit);
+  };
+
+  path.forEach(([lng, lat, timestamp]) => {
+    landmarks.forEach(landmark => {
+      const isNear = calculateDistance(lat, lng, landmark.coordinates[1], landmark.coordinates[0]) <= VISIT_RADIUS;
+
+      if (isNear && !open[landmark.placeId]) {
+        open[landmark.placeId] = { placeId: landmark.placeId, name: landmark.name, arrivedAt: timestamp, leftAt: timestamp, dwellSeconds: 0 };
+      } else if (isNear) {
+        open[landmark.placeId].leftAt = timestamp;
+      } else if (open[landmark.placeId]) {
+        close(landmark.placeId);
+      }
+    });
+  });
+
+  Object.keys(open).forEach(close);
+  return visits.sort((a, b) => a.arrivedAt - b.arrivedAt);
+};
+
+/**
+ * Interpolated position at a moment of the trip
+ * @returns [longitude, latitude] and the index of the last point passed
+ */
+export const getTripPositionAt = (path: TripPoint[], time: number): { position: [number, number]; index: number } | null => {
+  if (path.length === 0) return null;
+  if (time <= path[0][2]) return { position: [path[0][0], path[0][1]], index: 0 };
+
+  for (let i = 1; i < path.length; i++) {
+    if (path[i][2] >= time) {
+      const [lng1, lat1, t1] = path[i - 1];
+      const [lng2, lat2, t2] = path[i];
+      const ratio = t2 === t1 ? 1 : (time - t1) / (t2 - t1);
+      return { position: [lng1 + (lng2 - lng1) * ratio, lat1 + (lat2 - lat1) * ratio], index: i - 1 };
+    }
+  }
+
+  const last = path[path.length - 1];
+  return { position: [last[0], last[1]], index: path.length - 1 };
+};
@@ -0,0 +1,181 @@
+import { supabase } from '@/integrations/supabase/client';
+import { TourLandmark } from '@/data/tourLandmarks';
+import { TravelMode } from '@/components/TravelModeSelector';
+import { OpeningPeriod } from '@/utils/itineraryPlanner';
+import {
+  IndoorSwapSuggestion,
+  RouteSchedule,
+  ScheduledStop,
+  buildRouteSchedule,
+  estimateLegMinutes,
+  improveStopOrder,
+  scheduleCost
+} from '@/utils/routeSchedule';
+import { HourlyForecast } from '@/utils/weatherProvider';
+
+export type LandmarkSetting = 'indoor' | 'outdoor' | 'mixed';
+
+// Kept in sync with get-place-weather-impact
+const OUTDOOR_TYPES = ['park', 'zoo', 'amusement_park', 'natural_feature', 'campground', 'beach', 'hiking_area', 'garden', 'plaza', 'botanical_garden', 'national_park'];
+const INDOOR_TYPES = ['museum', 'art_gallery', 'shopping_mall', 'movie_theater', 'library', 'aquarium', 'church', 'hindu_temple', 'mosque', 'synagogue', 'restaurant', 'cafe', 'store'];
+
+// Indoor places worth offering instead of a rained-out stop
+const INDOOR_SWAP_TYPES = ['museum', 'art_gallery', 'library', 'aquarium', 'church', 'shopping_mall'];
+
+export const WET_PRECIPITATION_PROBABILITY = 50; // percent
+export const FORECAST_HOURS = 12; // a day of touring
+const WET_CONDITIONS = /RAIN|SHOWER|THUNDER|SNOW|HAIL/;
+const HOUR_MS = 3600000;
+const SWAP_SEARCH_RADIUS = 800; // meters
+
+/**
+ * Whether a visit happens under a roof, from the landmark's Google place types. Outdoor wins over indoor
+ * because a park with a café is still a park.
+ */
+export const getLandmarkSetting = (types: string[] | undefined): LandmarkSetting => {
+  if (types?.some(type => OUTDOOR_TYPES.includes(type))) return 'outdoor';
+  if (types?.some(type => INDOOR_TYPES.includes(type))) return 'indoor';
+  return 'mixed';
+};
+
+export const isWetHour = (hour: HourlyForecast) =>
+  hour.precipitationProbability >= WET_PRECIPITATION_PROBABILITY || WET_CONDITIONS.test(hour.condition);
+
+/**
+ * Minutes between `start` and `end` that fall in wet forecast hours. Hours past the forecast count as dry.
+ */
+export const getWetMinutes = (forecast: HourlyForecast[], start: Date, end: Date): number =>
+  forecast.filter(isWetHour).reduce((total, hour) => {
+    const hourStart = new Date(hour.time).getTime();
+    const overlap = Math.min(end.getTime(), hourStart + HOUR_MS) - Math.max(start.getTime(), hourStart);
+    return total + Math.max(0, overlap) / 60000;
+  }, 0);
+
+/**
+ * Contiguous dry stretches of the forecast
+ */
+export const findDryWindows = (forecast: HourlyForecast[]): Array<{ start: string; end: string }> => {
+  const windows: Array<{ start: string; end: string }> = [];
+
+  forecast.forEach(hour => {
+    if (isWetHour(hour)) return;
+    const end = new Date(new Date(hour.time).getTime() + HOUR_MS).toISOString();
+    const last = windows[windows.length - 1];
+    if (last && new Date(last.end).getTime() === new Date(hour.time).getTime()) {
+      last.end = end;
+    } else {
+      windows.push({ start: hour.time, end });
+    }
+  });
+
+  return windows;
+};
+
+const getStopWetMinutes = (stop: ScheduledStop, forecast: HourlyForecast[]) =>
+  getLandmarkSetting(stop.landmark.types) === 'outdoor'
+    ? getWetMinutes(forecast, new Date(stop.visitStart), new Date(stop.departure))
+    : 0;
+
+/**
+ * Flag outdoor stops whose visit overlaps forecast rain
+ */
+export const applyWeatherToSchedule = (schedule: RouteSchedule, forecast: HourlyForecast[]): RouteSchedule => {
+  let warningCount = schedule.warningCount;
+
+  const stops = schedule.stops.map(stop => {
+    const withoutRain = stop.violations.filter(violation => violation.type !== 'rain_during_visit');
+    warningCount -= stop.violations.length - withoutRain.length;
+
+    const wetMinutes = Math.round(getStopWetMinutes(stop, forecast));
+    if (wetMinutes === 0) return { ...stop, violations: withoutRain };
+
+    warningCount++;
+    return {
+      ...stop,
+      violations: [...withoutRain, {
+        type: 'rain_during_visit' as const,
+        severity: 'warning' as const,
+        message: `Rain likely for ${wetMinutes} of ${stop.dwellMinutes} min outdoors`
+      }]
+    };
+  });
+
+  return { ...schedule, stops, warningCount };
+};
+
+export const totalWetOutdoorMinutes = (schedule: RouteSchedule, forecast: HourlyForecast[]) =>
+  schedule.stops.reduce((total, stop) => total + getStopWetMinutes(stop, forecast), 0);
+
+/**
+ * Search for an order that moves outdoor stops into dry hours without breaking opening hours
+ * @returns A better order, or null when no order keeps more of the tour dry
+ */
+export const findDryOrder = (
+  origin: [number, number],
+  landmarks: TourLandmark[],
+  startTime: Date,
+  travelMode: TravelMode,
+  hoursByPlaceId: Record<string, OpeningPeriod[] | undefined>,
+  forecast: HourlyForecast[],
+  travelScale: number = 1
+): TourLandmark[] | null => {
+  const scheduleFor = (order: TourLandmark[]) =>
+    buildRouteSchedule(order, estimateLegMinutes(origin, order, travelMode, travelScale), startTime, hoursByPlaceId);
+  // Opening hours still come first; each wet outdoor minute weighs like a few minutes of extra walking
+  const evaluate = (order: TourLandmark[]) => {
+    const schedule = scheduleFor(order);
+    return scheduleCost(schedule) + totalWetOutdoorMinutes(schedule, forecast) * 10;
+  };
+
+  const initial = scheduleFor(landmarks);
+  const initialWetMinutes = totalWetOutdoorMinutes(initial, forecast);
+  if (initialWetMinutes === 0) return null;
+
+  const { order } = improveStopOrder(landmarks, evaluate);
+  const improved = scheduleFor(order);
+
+  return improved.errorCount <= initial.errorCount && totalWetOutdoorMinutes(improved, forecast) < initialWetMinutes
+    ? order
+    : null;
+};
+
+/**
+ * Nearby indoor places to offer for each outdoor stop that still gets rained on
+ */
+export const suggestIndoorSwaps = async (schedule: RouteSchedule): Promise<IndoorSwapSuggestion[]> => {
+  const tourPlaceIds = new Set(schedule.stops.map(stop => stop.landmark.placeId));
+  const wetStops = schedule.stops.filter(stop => stop.violations.some(violation => violation.type === 'rain_during_visit'));
+
+  const suggestions = await Promise.all(wetStops.map(async (stop): Promise<IndoorSwapSuggestion | null> => {
+    const [longitude, latitude] = stop.landmark.coordinates;
+    const { data, error } = await supabase.functions.invoke('contextual-poi-updates', {
+      body: { userLocation: { latitude, longitude }, radius: SWAP_SEARCH_RADIUS, maxResults: 20 }
+    });
+
+    if (error || !data?.success) {
+      console.warn(`⚠️ Indoor alternatives unavailable for ${stop.landmark.name}:`, error);
+      return null;
+    }
+
+    const alternatives = (data.pois as Array<{ placeId: string; name: string; distance: number; types?: string[] }>)
+      .filter(poi => !tourPlaceIds.has(poi.placeId) && poi.types?.some(type => INDOOR_SWAP_TYPES.includes(type)))
+      .slice(0, 3)
+      .map(poi => ({ placeId: poi.placeId, name: poi.name, distance: poi.distance, types: poi.types || [] }));
+
+    return alternatives.length > 0 ? { placeId: stop.landmark.placeId, alternatives } : null;
+  }));
+
+  return suggestions.filter((suggestion): suggestion is IndoorSwapSuggestion => suggestion !== null);
+};
+
+/**
+ * Whether a newer forecast changes which of the remaining stops get wet
+ */
+export const hasForecastChanged = (
+  schedule: RouteSchedule,
+  previous: HourlyForecast[],
+  latest: HourlyForecast[],
+  now: Date = new Date()
+): boolean => schedule.stops
+  .filter(stop => new Date(stop.departure) > now)
+  .some(stop => (getStopWetMinutes(stop, previous) > 0) !== (getStopWetMinutes(stop, latest) > 0));
@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface HourlyForecast {
+  time: string; // ISO start of the hour
+  precipitationProbability: number; // 0-100
+  condition: string; // Google Weather condition type, e.g. 'LIGHT_RAIN'
+  description?: string;
+  temperatureC?: number | null;
+}
+
+/**
+ * Source of hourly forecasts for weather-aware planning. Planning code only talks to this interface,
+ * so a fixture provider can stand in for the edge function.
+ */
+export interface WeatherProvider {
+  name: string;
+  getHourlyForecast: (placeId: string, hours: number) => Promise<HourlyForecast[] | null>;
+}
+
+interface ForecastHourResponse {
+  time: string;
+  precipitation_probability: number;
+  condition: string;
+  description?: string;
+  temperature_c?: number | null;
+}
+
+/**
+ * Forecasts from get-place-weather-impact (Google Weather API)
+ */
+export const placeWeatherProvider: WeatherProvider = {
+  name: 'google-weather',
+  getHourlyForecast: async (placeId, hours) => {
+    const { data, error } = await supabase.functions.invoke('get-place-weather-impact', {
+      body: { place_id: placeId, forecast_hours: hours }
+    });
+
+    if (error || !data?.forecast) {
+      console.warn('⚠️ Weather forecast unavailable:', error || 'no forecast returned');
+      return null;
+    }
+
+    return (data.forecast as ForecastHourResponse[])
+      .filter(hour => hour.time)
+      .map(hour => ({
+        time: hour.time,
+        precipitationProbability: hour.precipitation_probability,
+        condition: hour.condition,
+        description: hour.description,
+        temperatureC: hour.temperature_c
+      }));
+  }
+};
+
+/**
+ * A provider that always returns the given forecast, for tests and offline demos
+ */
+export const createFixtureWeatherProvider = (forecast: HourlyForecast[]): WeatherProvider => ({
+  name: 'fixture',
+  getHourlyForecast: async (_placeId, hours) => forecast.slice(0, hours)
+});
+
+/**
+ * Build an hourly fixture starting at `start`, with rain in the given hour offsets
+ * @example createFixtureWeatherProvider(buildFixtureForecast(new Date(), 12, [3, 4, 5]))
+ */
+export const buildFixtureForecast = (start: Date, hours: number, wetHourOffsets: number[] = []): HourlyForecast[] => {
+  const firstHour = new Date(start);
+  firstHour.setMinutes(0, 0, 0);
+
+  return Array.from({ length: hours }, (_, offset) => {
+    const wet = wetHourOffsets.includes(offset);
+    return {
+      time: new Date(firstHour.getTime() + offset * 3600000).toISOString(),
+      precipitationProbability: wet ? 80 : 10,
+      condition: wet ? 'RAIN' : 'PARTLY_CLOUDY',
+      temperatureC: 20
+    };
+  });
+};
@@ -13,21 +13,56 @@ const logStep = (step: string, details?: any) => {
   console.log(`[CREATE-EXPERIENCE-PAYMENT] ${step}${detailsStr}`);
 };
 
+const PLATFORM_COMMISSION_RATE = 0.20;
+const MIN_CHARGE_CENTS = 50; // Stripe's minimum charge
+
+interface PromoCode {
+  id: string;
+  code: string;
+  discount_percent: number | null;
+  discount_amount_cents: number | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  expires_at: string | null;
+  is_active: boolean;
+}
+
+// Why a promo code can't be used, or null when it can
+const getPromoCodeError = (promo: PromoCode | null): string | null => {
+  if (!promo || !promo.is_active) return "This promo code is not valid for this experience";
+  if (promo.expires_at && new Date(promo.expires_at) <= new Date()) return "This promo code has expired";
+  if (promo.max_redemptions !== null && promo.redemption_count >= promo.max_redemptions) {
+    return "This promo code has reached its usage limit";
+  }
+  return null;
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Create Supabase client with service role for secure operations
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  // A promo code use taken for this request that no stored payment holds yet
+  let reservedPromoCodeId: string | null = null;
+
   try {
     logStep("Function started");
-    const { experienceId, price = 999 } = await req.json(); // Default $9.99
+    // The price always comes from the experience, never from the client
+    const { experienceId, promoCode, previewOnly = false, previousPaymentIntentId } = await req.json();
 
     if (!experienceId) {
       throw new Error("Experience ID is required");
     }
 
-    logStep("Processing experience payment", { experienceId, price });
+    logStep("Processing experience payment", { experienceId, promoCode, previewOnly });
 
     // Get authenticated user
     const authHeader = req.headers.get("Authorization");
@@ -35,13 +70,6 @@ serve(async (req) => {
       throw new Error("Authorization required");
     }
 
-    // Create Supabase client with service role for secure operations
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      { auth: { persistSession: false } }
-    );
-
     // Get user from auth token
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
@@ -73,17 +101,85 @@ serve(async (req) => {
       accountId: experience.account_id 
     });
 
+    // List price with the curator's launch discount while it runs
+    const currency = experience.currency || "usd";
+    const listPriceCents = experience.price_cents;
+    const launchDiscountActive = !!experience.launch_discount_percent &&
+      (!experience.launch_discount_ends_at || new Date(experience.launch_discount_ends_at) > new Date());
+    const launchDiscountCents = launchDiscountActive
+      ? Math.round(listPriceCents * experience.launch_discount_percent / 100)
+      : 0;
+
+    // Promo codes stack on top of the launch discount
+    let promo: PromoCode | null = null;
+    let promoDiscountCents = 0;
+    if (promoCode) {
+      // Codes are stored trimmed and upper case; an exact match keeps LIKE wildcards like "%" from matching any code
+      const normalizedCode = String(promoCode).trim().toUpperCase();
+      const { data: promoData } = await supabaseClient
+        .from("experience_promo_codes")
+        .select("*")
+        .eq("tour_id", experienceId)
+        .eq("code", normalizedCode)
+        .maybeSingle();
+
+      let promoError = getPromoCodeError(promoData);
+      if (!promoError) {
+        const afterLaunchCents = listPriceCents - launchDiscountCents;
+        promoDiscountCents = promoData.discount_percent
+          ? Math.round(afterLaunchCents * promoData.discount_percent / 100)
+          : Math.min(promoData.discount_amount_cents ?? 0, afterLaunchCents);
+
+        // Stripe can't charge less than its minimum, and access is only granted through a payment
+        if (afterLaunchCents - promoDiscountCents < MIN_CHARGE_CENTS) {
+          promoError = `This promo code can't be used, the price can't go below ${(MIN_CHARGE_CENTS / 100).toFixed(2)} ${currency.toUpperCase()}`;
+        }
+      }
+
+      if (promoError) {
+        logStep("Promo code rejected", { promoCode, reason: promoError });
+        if (previewOnly) {
+          return new Response(JSON.stringify({ promo_valid: false, promo_error: promoError }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          });
+        }
+        throw new Error(promoError);
+      }
+
+      promo = promoData;
+    }
+
     // Calculate amounts for destination charges
-    const totalAmountCents = price; // Already in cents
-    const platformCommissionCents = Math.round(totalAmountCents * 0.20); // 20%
-    const tourGuideTransferCents = totalAmountCents - platformCommissionCents; // 80%
+    const totalAmountCents = Math.max(MIN_CHARGE_CENTS, listPriceCents - launchDiscountCents - promoDiscountCents);
+    const discountCents = listPriceCents - totalAmountCents;
+    const platformCommissionCents = Math.round(totalAmountCents * PLATFORM_COMMISSION_RATE);
+    const tourGuideTransferCents = totalAmountCents - platformCommissionCents;
 
     logStep("Amount calculations", {
+      listPriceCents,
+      launchDiscountCents,
+      promoDiscountCents,
       totalAmountCents,
       platformCommissionCents,
       tourGuideTransferCents
     });
 
+    const pricing = {
+      list_price_cents: listPriceCents,
+      discount_cents: discountCents,
+      amount_cents: totalAmountCents,
+      currency,
+      promo_valid: promo ? true : undefined,
+    };
+
+    if (previewOnly) {
+      return new Response(JSON.stringify(pricing), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
     // Initialize Stripe
     const stripe = new Stripe(Deno.env.get("STRIPE_PRIVATE_KEY_TEST") || "", {
       apiVersion: "2023-10-16",
@@ -133,10 +229,49 @@ serve(async (req) => {
       logStep("New Stripe product created", { productId });
     }
 
+    // Applying a promo code replaces the intent the tourist already opened
+    if (previousPaymentIntentId) {
+      const { data: previousPayment } = await supabaseClient
+        .from("payments")
+        .select("id, status")
+        .eq("stripe_payment_intent_id", previousPaymentIntentId)
+        .eq("tourist_user_id", tourist.id)
+        .maybeSingle();
+
+      if (previousPayment && previousPayment.status === "requires_payment_method") {
+        await stripe.paymentIntents.cancel(previousPaymentIntentId);
+        // Only the call that flips the status gives the promo code use back, not the canceled webhook too
+        const { data: canceledPayment } = await supabaseClient
+          .from("payments")
+          .update({ status: "canceled", updated_at: new Date().toISOString() })
+          .eq("id", previousPayment.id)
+          .neq("status", "canceled")
+          .select("promo_code_id")
+          .maybeSingle();
+        if (canceledPayment?.promo_code_id) {
+          await supabaseClient.rpc("release_promo_code_redemption", { p_promo_code_id: canceledPayment.promo_code_id });
+        }
+        logStep("Previous Payment Intent canceled", { previousPaymentIntentId });
+      }
+    }
+
+    // Take the promo code use now so the last one can't go to two tourists at once
+    if (promo) {
+      const { data: reserved, error: reserveError } = await supabaseClient.rpc("reserve_promo_code_redemption", {
+        p_promo_code_id: promo.id,
+      });
+      if (reserveError || !reserved) {
+        logStep("Promo code could not be reserved", { promoCode, error: reserveError });
+        throw new Error("This promo code has reached its usage limit");
+      }
+      reservedPromoCodeId = promo.id;
+      logStep("Promo code use reserved", { promoCodeId: promo.id });
+    }
+
     // Create Payment Intent with destination charges
     const paymentIntent = await stripe.paymentIntents.create({
       amount: totalAmountCents,
-      currency: "usd",
+      currency,
       // Core destination charge configuration
       application_fee_amount: platformCommissionCents,
       transfer_data: {
@@ -152,6 +287,9 @@ serve(async (req) => {
         internal_tourist_id: tourist.id,
         stripe_product_id: productId,
         tour_destination: experience.destination,
+        list_price_cents: String(listPriceCents),
+        discount_cents: String(discountCents),
+        promo_code: promo?.code ?? "",
       },
     });
 
@@ -166,7 +304,10 @@ serve(async (req) => {
         tour_guide_id: experience.user_id,
         tourist_user_id: tourist.id,
         amount: totalAmountCents / 100, // Convert back to dollars for storage
-        currency: "usd",
+        currency,
+        list_price_amount: listPriceCents / 100,
+        discount_amount: discountCents / 100,
+        promo_code_id: promo?.id ?? null,
         platform_fee_amount: platformCommissionCents / 100,
         tour_guide_payout_amount: tourGuideTransferCents / 100,
         status: paymentIntent.status,
@@ -180,14 +321,18 @@ serve(async (req) => {
 
     if (paymentInsertError) {
       logStep("Error storing payment", { error: paymentInsertError });
+      await stripe.paymentIntents.cancel(paymentIntent.id).catch(() => undefined);
       throw new Error("Failed to store payment information");
     }
 
+    // The stored payment holds the use from here on; it's given back if the intent is canceled
+    reservedPromoCodeId = null;
     logStep("Payment information stored successfully");
 
     return new Response(JSON.stringify({ 
       client_secret: paymentIntent.client_secret,
-      payment_intent_id: paymentIntent.id
+      payment_intent_id: paymentIntent.id,
+      ...pricing
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
       status: 200,
@@ -196,6 +341,10 @@ serve(async (req) => {
   } catch (error) {
     logStep("ERROR", { message: error.message });
     console.error("Payment creation error:", error);
+    if (reservedPromoCodeId) {
+      await supabaseClient.rpc("release_promo_code_redemption", { p_promo_code_id: reservedPromoCodeId });
+      logStep("Promo code use released", { promoCodeId: reservedPromoCodeId });
+    }
     return new Response(JSON.stringify({ 
       error: error.message || "Failed to create payment session" 
     }), {
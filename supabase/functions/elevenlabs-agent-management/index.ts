@@ -50,8 +50,8 @@ async function createAgent(config: any, apiKey: string) {
         prompt: {
           prompt: config.system_prompt
         },
-        first_message: "Hello! I'm your AI tour guide. I'm excited to help you explore this amazing destination. What would you like to know about our tour today?",
-        language: "en"
+        first_message: config.first_message || "Hello! I'm your AI tour guide. I'm excited to help you explore this amazing destination. What would you like to know about our tour today?",
+        language: config.language || "en"
       },
       asr: {
         quality: "high",
@@ -73,6 +73,13 @@ async function createAgent(config: any, apiKey: string) {
       widget_config: {
         width: 300,
         height: 400
+      },
+      // Lets tours switch the guide's language and voice per session
+      overrides: {
+        conversation_config_override: {
+          agent: { language: true, first_message: true },
+          tts: { voice_id: true }
+        }
       }
     }
   }
@@ -111,7 +118,8 @@ async function updateAgent(agentId: string, config: any, apiKey: string) {
         prompt: {
           prompt: config.system_prompt
         },
-        language: "en"
+        language: config.language || "en",
+        ...(config.first_message && { first_message: config.first_message })
       },
       tts: {
         voice_id: config.voice_id
@@ -176,12 +176,26 @@ Deno.serve(async (req) => {
         }
         return await updateAgentVoice(apiKey, agentId, voiceId);
       
+      case 'apply_experience_version': {
+        const { versionId } = requestBody;
+        if (!versionId) {
+          return new Response(
+            JSON.stringify({ error: 'versionId is required for apply_experience_version action' }),
+            { 
+              status: 400, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        return await applyExperienceVersion(apiKey, supabase, user.user.id, versionId);
+      }
+      
       default:
         console.log('ERROR: Hit default case with action:', action);
         console.log('This means the action was not matched');
         return new Response(
           JSON.stringify({ 
-            error: 'Invalid action. Supported actions: list_agents, get_agent, duplicate_agent, rename_agent, update_first_message, update_voice',
+            error: 'Invalid action. Supported actions: list_agents, get_agent, duplicate_agent, rename_agent, update_first_message, update_voice, apply_experience_version',
             received_action: action,
             action_type: typeof action,
             debug_timestamp: new Date().toISOString()
@@ -488,4 +502,147 @@ async function updateAgentVoice(apiKey: string, agentId: string, voiceId: string
       }
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * Put a version's prompt, voice and knowledge docs on its own agent before it goes live. Versions used to
+ * share the experience's agent, so a version whose agent is shared gets a copy of it first; buyers pinned
+ * to older versions keep talking to the agent those versions were published with.
+ */
+async function applyExperienceVersion(apiKey: string, supabase: ReturnType<typeof createClient>, userId: string, versionId: string) {
+  try {
+    const { data: version, error: versionError } = await supabase
+      .from('experience_versions')
+      .select('id, tour_id, version_number, status, system_prompt, agent_id, voice_id, knowledge_docs')
+      .eq('id', versionId)
+      .maybeSingle();
+
+    if (versionError) throw new Error(`Failed to fetch version: ${versionError.message}`);
+
+    const { data: tour, error: tourError } = version
+      ? await supabase
+          .from('generated_tours')
+          .select('id, user_id, destination, agentid')
+          .eq('id', version.tour_id)
+          .maybeSingle()
+      : { data: null, error: null };
+
+    if (tourError) throw new Error(`Failed to fetch experience: ${tourError.message}`);
+
+    if (!version || !tour || tour.user_id !== userId) {
+      return new Response(
+        JSON.stringify({ error: 'Version not found' }),
+        { 
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    let versionAgentId: string | null = version.agent_id;
+    const { count: sharedWith, error: sharedError } = versionAgentId
+      ? await supabase
+          .from('experience_versions')
+          .select('id', { count: 'exact', head: true })
+          .eq('tour_id', version.tour_id)
+          .eq('agent_id', versionAgentId)
+          .neq('id', version.id)
+      : { count: 0, error: null };
+
+    if (sharedError) throw new Error(`Failed to check version agents: ${sharedError.message}`);
+
+    if (!versionAgentId || (sharedWith ?? 0) > 0) {
+      const sourceAgentId = versionAgentId || tour.agentid;
+      if (!sourceAgentId) {
+        return new Response(
+          JSON.stringify({ error: 'This experience has no voice agent to copy' }),
+          { 
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      console.log(`Copying agent ${sourceAgentId} for version ${version.version_number} of ${tour.destination}`);
+      const duplicateResponse = await fetch(`https://api.elevenlabs.io/v1/convai/agents/${sourceAgentId}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'xi-api-key': apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: `${tour.destination} v${version.version_number}` })
+      });
+
+      if (!duplicateResponse.ok) {
+        const errorText = await duplicateResponse.text();
+        throw new Error(`Failed to duplicate agent: ${duplicateResponse.status} ${errorText}`);
+      }
+
+      versionAgentId = (await duplicateResponse.json()).agent_id as string;
+
+      const { error: updateError } = await supabase
+        .from('experience_versions')
+        .update({ agent_id: versionAgentId, updated_at: new Date().toISOString() })
+        .eq('id', version.id);
+
+      if (updateError) throw new Error(`Failed to save version agent: ${updateError.message}`);
+    }
+
+    const knowledgeDocs = (Array.isArray(version.knowledge_docs) ? version.knowledge_docs : [])
+      .map((doc: { id: string; name: string; type: string }) => ({
+        type: doc.type,
+        name: doc.name,
+        id: doc.id,
+        usage_mode: 'auto'
+      }));
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/convai/agents/${versionAgentId}`, {
+      method: 'PATCH',
+      headers: {
+        'xi-api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        conversation_config: {
+          agent: {
+            prompt: {
+              prompt: version.system_prompt,
+              knowledge_base: knowledgeDocs
+            }
+          },
+          ...(version.voice_id ? { tts: { voice_id: version.voice_id } } : {})
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
+    }
+
+    console.log(`Version ${version.version_number} applied to agent ${versionAgentId}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        agent_id: versionAgentId,
+        message: 'Version applied to its agent'
+      }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Apply experience version error:', error);
+    return new Response(
+      JSON.stringify({ 
+        error: 'Failed to apply version to its agent',
+        details: error.message 
+      }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -6,6 +6,16 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+// The app's map tools, named as in src/utils/agentClientTools.ts
+const MAP_TOOL_NAMES = new Set([
+  'navigate_to_landmark',
+  'show_route',
+  'open_street_view',
+  'add_to_tour',
+  'get_opening_hours',
+  'get_quiet_times',
+]);
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -57,7 +67,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { action, agentId, toolData } = await req.json();
+    const { action, agentId, toolData, toolIds } = await req.json();
 
     switch (action) {
       case 'list_tools':
@@ -87,9 +97,33 @@ Deno.serve(async (req) => {
         }
         return await createTool(apiKey, toolData);
       
+      case 'add_agent_tools':
+        if (!agentId || !Array.isArray(toolIds)) {
+          return new Response(
+            JSON.stringify({ error: 'agentId and toolIds are required for add_agent_tools action' }),
+            { 
+              status: 400, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        // The default guide has no tour behind it, so anyone may give it the app's map tools but nothing else
+        if (agentId === Deno.env.get('ELEVENLABS_AGENT_ID')
+          ? !(await areMapTools(apiKey, toolIds))
+          : !(await ownsAgent(supabase, user.user.id, agentId))) {
+          return new Response(
+            JSON.stringify({ error: 'You can only add tools to the agent of a tour you created, or the map tools to the default guide' }),
+            { 
+              status: 403, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        return await addAgentTools(apiKey, agentId, toolIds);
+      
       default:
         return new Response(
-          JSON.stringify({ error: 'Invalid action. Supported: list_tools, list_agent_tools, create_tool' }),
+          JSON.stringify({ error: 'Invalid action. Supported: list_tools, list_agent_tools, create_tool, add_agent_tools' }),
           { 
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -223,4 +257,127 @@ async function createTool(apiKey: string, toolData: any) {
       }
     );
   }
+}
+
+/**
+ * Agents are shared across the ElevenLabs account, so callers may only change the agent behind one of their
+ * own tours or experience versions
+ */
+async function ownsAgent(supabase: ReturnType<typeof createClient>, userId: string, agentId: string) {
+  const { data: tour, error: tourError } = await supabase
+    .from('generated_tours')
+    .select('id')
+    .eq('agentid', agentId)
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (tourError) throw new Error(`Failed to check agent owner: ${tourError.message}`);
+  if (tour) return true;
+
+  const { data: versions, error: versionError } = await supabase
+    .from('experience_versions')
+    .select('tour_id')
+    .eq('agent_id', agentId);
+
+  if (versionError) throw new Error(`Failed to check agent owner: ${versionError.message}`);
+  if (!versions || versions.length === 0) return false;
+
+  const { count, error: versionTourError } = await supabase
+    .from('generated_tours')
+    .select('id', { count: 'exact', head: true })
+    .in('id', versions.map(version => version.tour_id))
+    .eq('user_id', userId);
+
+  if (versionTourError) throw new Error(`Failed to check agent owner: ${versionTourError.message}`);
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Whether every tool is one of the app's client-side map tools
+ */
+async function areMapTools(apiKey: string, toolIds: string[]) {
+  const response = await fetch('https://api.elevenlabs.io/v1/convai/tools', {
+    method: 'GET',
+    headers: {
+      'xi-api-key': apiKey,
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to list tools: ${response.status} ${errorText}`);
+  }
+
+  const { tools = [] }: { tools?: { id: string; tool_config?: { type?: string; name?: string } }[] } = await response.json();
+  const mapToolIds = new Set(tools
+    .filter(tool => tool.tool_config?.type === 'client' && MAP_TOOL_NAMES.has(tool.tool_config.name ?? ''))
+    .map(tool => tool.id));
+
+  return toolIds.every(toolId => mapToolIds.has(toolId));
+}
+
+async function addAgentTools(apiKey: string, agentId: string, toolIds: string[]) {
+  try {
+    const agentResponse = await fetch(`https://api.elevenlabs.io/v1/convai/agents/${agentId}`, {
+      method: 'GET',
+      headers: {
+        'xi-api-key': apiKey,
+        'Content-Type': 'application/json',
+      }
+    });
+
+    if (!agentResponse.ok) {
+      const errorText = await agentResponse.text();
+      throw new Error(`Failed to get agent: ${agentResponse.status} ${errorText}`);
+    }
+
+    const agentData = await agentResponse.json();
+
+    // Keep the agent's other tools; tool_ids replaces the whole list
+    const currentToolIds: string[] = agentData.conversation_config?.agent?.prompt?.tool_ids || [];
+    const mergedToolIds = Array.from(new Set([...currentToolIds, ...toolIds]));
+
+    const response = await fetch(`https://api.elevenlabs.io/v1/convai/agents/${agentId}`, {
+      method: 'PATCH',
+      headers: {
+        'xi-api-key': apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        conversation_config: {
+          agent: {
+            prompt: { tool_ids: mergedToolIds }
+          }
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to add tools to agent: ${response.status} ${errorText}`);
+    }
+
+    return new Response(
+      JSON.stringify({ 
+        agent_id: agentId,
+        tool_ids: mergedToolIds,
+        added: mergedToolIds.length - currentToolIds.length
+      }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Error adding agent tools:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
 }
\ No newline at end of file
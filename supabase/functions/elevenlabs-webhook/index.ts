@@ -619,11 +619,11 @@ serve(async (req) => {
     insertData.evaluation_criteria_embedding = await generateGeminiEmbedding(evaluationCriteriaText, geminiApiKey);
     console.log('Evaluation criteria embedding generated');
 
-    // Store the conversation in the database
+    // The app may already have saved its own transcript of this conversation; enrich that row instead of duplicating it
     console.log('Storing conversation in database...');
     const { data, error } = await supabaseClient
       .from('interactions')
-      .insert(insertData)
+      .upsert(insertData, { onConflict: 'conversation_id' })
 
     if (error) {
       console.error('Database error:', error)
@@ -6,6 +6,18 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+// Google Cloud TTS locale and language name per tour language; other languages let Google pick the voice
+const TTS_LANGUAGES: Record<string, { locale: string; name: string }> = {
+  en: { locale: 'en-US', name: 'English' },
+  es: { locale: 'es-US', name: 'Spanish' },
+  fr: { locale: 'fr-FR', name: 'French' },
+  de: { locale: 'de-DE', name: 'German' },
+  it: { locale: 'it-IT', name: 'Italian' },
+  pt: { locale: 'pt-BR', name: 'Portuguese' },
+  ja: { locale: 'ja-JP', name: 'Japanese' },
+  zh: { locale: 'cmn-CN', name: 'Chinese' },
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { 
@@ -15,7 +27,8 @@ serve(async (req) => {
   }
 
   try {
-    const { text, isMemoryNarration } = await req.json()
+    const { text, isMemoryNarration, language = 'en' } = await req.json()
+    const ttsLanguage = TTS_LANGUAGES[language] || TTS_LANGUAGES.en
     
     if (!text) {
       throw new Error('Text is required')
@@ -36,6 +49,9 @@ serve(async (req) => {
     } else {
       geminiPrompt = `Please enhance this landmark description for audio narration. Make it sound like a friendly, knowledgeable tour guide speaking to visitors. Keep it conversational and under 30 seconds when spoken aloud. Original text: "${text}"`
     }
+    if (ttsLanguage !== TTS_LANGUAGES.en) {
+      geminiPrompt += ` Write the narration in ${ttsLanguage.name}, keeping place names in their local form.`
+    }
     
     // First, enhance the text with Gemini for better narration
     const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${googleApiKey}`, {
@@ -81,8 +97,8 @@ serve(async (req) => {
       body: JSON.stringify({
         input: { text: enhancedText },
         voice: {
-          languageCode: 'en-US',
-          name: 'en-US-Neural2-F',
+          languageCode: ttsLanguage.locale,
+          ...(ttsLanguage === TTS_LANGUAGES.en && { name: 'en-US-Neural2-F' }),
           ssmlGender: 'FEMALE'
         },
         audioConfig: {
@@ -37,6 +37,25 @@ interface EnhancedLandmark {
   photos?: string[];
   types?: string[];
   formattedAddress?: string;
+  accessibility?: PlaceAccessibility | null;
+  accessibilityStatus?: 'accessible' | 'not_accessible' | 'unknown';
+  accessibilityNotes?: string[];
+}
+
+// Places API v1 accessibilityOptions
+interface PlaceAccessibility {
+  wheelchairAccessibleEntrance?: boolean;
+  wheelchairAccessibleParking?: boolean;
+  wheelchairAccessibleRestroom?: boolean;
+  wheelchairAccessibleSeating?: boolean;
+}
+
+// Same shape as profiles.accessibility_profile
+interface AccessibilityProfile {
+  wheelchair?: boolean;
+  step_free_only?: boolean;
+  max_walking_meters?: number | null;
+  needs_rest_stops?: boolean;
 }
 
 interface CoordinateQuality {
@@ -50,6 +69,11 @@ interface TourMetadata {
   coordinateQuality: CoordinateQuality;
   processingTime: number;
   fallbacksUsed: string[];
+  accessibility?: {
+    removed: string[];
+    unknown: string[];
+    shortfall: number; // step-free stops missing to reach MIN_ACCESSIBLE_TOUR_SIZE
+  };
 }
 
 interface SearchStrategy {
@@ -71,6 +95,18 @@ interface GeographicContext {
   cityType: 'major_city' | 'small_city' | 'town' | 'neighborhood';
 }
 
+// Languages tours can be generated in, keyed by ISO 639-1 code
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  ja: 'Japanese',
+  zh: 'Chinese',
+};
+
 /**
  * Enhanced distance calculation with proper coordinate validation
  */
@@ -434,6 +470,79 @@ async function refineCoordinates(
   return enhancedLandmarks;
 }
 
+// Stops without a step-free entrance are always dropped; a tour left with fewer than this is reported as short
+const MIN_ACCESSIBLE_TOUR_SIZE = 5;
+
+/**
+ * Look up each landmark's accessibility and drop the ones with a known step at the entrance when the
+ * traveler needs step-free access. Landmarks without Google data are kept and flagged as unknown.
+ */
+async function applyAccessibilityProfile(
+  landmarks: EnhancedLandmark[],
+  profile: AccessibilityProfile
+): Promise<{ landmarks: EnhancedLandmark[]; removed: string[]; unknown: string[]; shortfall: number }> {
+  const GOOGLE_MAPS_API_KEY = Deno.env.get('GOOGLE_MAPS_API_KEY');
+  const needsStepFree = !!(profile.wheelchair || profile.step_free_only);
+  const maxWalkingMeters = profile.max_walking_meters || null;
+
+  const annotated = await Promise.all(landmarks.map(async (landmark) => {
+    const notes: string[] = [];
+    let accessibility: PlaceAccessibility | null = null;
+
+    if (landmark.placeId) {
+      try {
+        const response = await fetch(`https://places.googleapis.com/v1/places/${landmark.placeId}?fields=accessibilityOptions&key=${GOOGLE_MAPS_API_KEY}`);
+        if (response.ok) {
+          accessibility = (await response.json()).accessibilityOptions || null;
+        }
+      } catch (error) {
+        console.warn(`⚠️ Accessibility lookup failed for ${landmark.name}:`, error.message);
+      }
+    }
+
+    const entrance = accessibility?.wheelchairAccessibleEntrance;
+    const accessibilityStatus: EnhancedLandmark['accessibilityStatus'] = !needsStepFree
+      ? 'accessible'
+      : entrance === undefined || entrance === null ? 'unknown' : entrance ? 'accessible' : 'not_accessible';
+
+    if (accessibilityStatus === 'unknown') {
+      notes.push('No step-free entrance data - check before visiting');
+    }
+
+    // Stops that are far from every other stop mean a long walk whichever way the route goes
+    // (distances to stops with invalid coordinates come back as Infinity and are ignored)
+    const distances = landmarks
+      .filter(other => other !== landmark)
+      .map(other => calculateDistance(landmark.coordinates, other.coordinates))
+      .filter(distance => Number.isFinite(distance));
+    if (maxWalkingMeters && distances.length > 0) {
+      const nearest = Math.min(...distances);
+      if (nearest > maxWalkingMeters) {
+        notes.push(`Over ${Math.round(nearest)} m from the nearest other stop`);
+      }
+    }
+
+    return { ...landmark, accessibility, accessibilityStatus, accessibilityNotes: notes };
+  }));
+
+  const kept = annotated.filter(landmark => landmark.accessibilityStatus !== 'not_accessible');
+  const removed = annotated.filter(landmark => !kept.includes(landmark)).map(landmark => landmark.name);
+
+  return {
+    landmarks: kept,
+    removed,
+    unknown: kept.filter(landmark => landmark.accessibilityStatus === 'unknown').map(landmark => landmark.name),
+    shortfall: Math.max(0, Math.min(MIN_ACCESSIBLE_TOUR_SIZE, annotated.length) - kept.length)
+  };
+}
+
+const describeAccessibilityProfile = (profile: AccessibilityProfile): string[] => [
+  profile.wheelchair ? 'uses a wheelchair' : '',
+  profile.step_free_only ? 'needs step-free access' : '',
+  profile.max_walking_meters ? `can walk at most ${profile.max_walking_meters} m at a time` : '',
+  profile.needs_rest_stops ? 'needs rest stops on longer walks' : ''
+].filter(Boolean);
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -441,7 +550,9 @@ serve(async (req) => {
   }
 
   try {
-    const { destination } = await req.json();
+    const { destination, language = 'en', accessibility = null } = await req.json();
+    const accessibilityNeeds = accessibility ? describeAccessibilityProfile(accessibility) : [];
+    const languageName = LANGUAGE_NAMES[language] || LANGUAGE_NAMES.en;
     console.log(`🚀 Starting enhanced tour generation with advanced validation and quality assessment for: ${destination}`);
 
     // Get geographic context
@@ -468,7 +579,7 @@ serve(async (req) => {
         [
           {
             "name": "Landmark Name",
-            "description": "Brief description of the landmark and its significance"
+            "description": "Brief description of the landmark and its significance, in ${languageName}"
           }
         ]
         
@@ -481,7 +592,7 @@ serve(async (req) => {
         - Parks and natural features
         - Local markets or districts
         
-        Ensure each landmark name is specific and searchable. Avoid generic terms.`,
+        Ensure each landmark name is specific and searchable. Avoid generic terms. Keep names as they appear on local maps, even when descriptions are in another language.`,
         systemInstruction: `You are a knowledgeable travel guide specializing in ${destination}. Provide accurate, specific landmark information that would be useful for tourists. Return only valid JSON without any additional text or formatting.`
       }
     });
@@ -506,7 +617,20 @@ serve(async (req) => {
 
     // Refine coordinates with enhanced error handling
     const startTime = Date.now();
-    const enhancedLandmarks = await refineCoordinates(landmarks, context);
+    let enhancedLandmarks = await refineCoordinates(landmarks, context);
+
+    let accessibilitySummary: TourMetadata['accessibility'];
+    if (accessibilityNeeds.length > 0) {
+      console.log(`♿ Applying accessibility profile: ${accessibilityNeeds.join(', ')}`);
+      const result = await applyAccessibilityProfile(enhancedLandmarks, accessibility);
+      enhancedLandmarks = result.landmarks;
+      accessibilitySummary = { removed: result.removed, unknown: result.unknown, shortfall: result.shortfall };
+      console.log(`♿ Removed ${result.removed.length} inaccessible landmarks, ${result.unknown.length} without data, ${result.shortfall} short`);
+
+      if (enhancedLandmarks.length === 0) {
+        throw new Error('None of the landmarks found have a step-free entrance');
+      }
+    }
     const processingTime = Date.now() - startTime;
 
     if (enhancedLandmarks.length === 0) {
@@ -534,13 +658,18 @@ Use this contextual information to enhance your tour guidance by mentioning rele
 
 ${enhancedLandmarks.map(landmark => `- ${landmark.name}: ${landmark.description}`).join('\n')}
 
-When users ask about these locations, provide detailed, engaging information about their history, significance, and visitor tips. Be enthusiastic and informative while being concise.${contextualUpdateSnippet}`;
+When users ask about these locations, provide detailed, engaging information about their history, significance, and visitor tips. Be enthusiastic and informative while being concise.${contextualUpdateSnippet}${language !== 'en' ? `
+
+LANGUAGE: Always speak to the user in ${languageName}, keeping place names in their local form.` : ''}${accessibilityNeeds.length > 0 ? `
+
+ACCESSIBILITY: The traveler ${accessibilityNeeds.join(', ')}. Mention step-free entrances, elevators, seating and places to rest when relevant, and be honest when a place has steps or no accessibility information.` : ''}`;
 
     const metadata: TourMetadata = {
       totalLandmarks: enhancedLandmarks.length,
       coordinateQuality: qualityMetrics,
       processingTime,
-      fallbacksUsed: [] // This would be populated during processing
+      fallbacksUsed: [], // This would be populated during processing
+      accessibility: accessibilitySummary
     };
 
     console.log(`✅ Enhanced tour generation completed successfully:`);
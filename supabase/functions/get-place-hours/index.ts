@@ -100,7 +100,10 @@ serve(async (req) => {
       status,
       message,
       today_hours: todayHours,
-      has_hours_data: !!(currentHours || regularHours)
+      has_hours_data: !!(currentHours || regularHours),
+      // Weekly periods ({ open: { day, hour, minute }, close }) for planning visits on other days
+      regular_periods: regularHours?.periods || [],
+      weekday_descriptions: regularHours?.weekdayDescriptions || []
     };
 
     console.log(`[GET-PLACE-HOURS] Returning result:`, result);
@@ -6,6 +6,78 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+interface OpeningPeriod {
+  open: { day: number; hour: number; minute?: number };
+  close?: { day: number; hour: number; minute?: number };
+}
+
+interface PopularHour {
+  hour: number;
+  busyness: number; // 0-100, 0 when closed
+}
+
+// Typical busy peaks by place type as [hour, spread in hours, relative height], most specific first
+const BUSY_PEAKS: Array<[string[], Array<[number, number, number]>]> = [
+  [['bar', 'night_club'], [[22, 2, 1]]],
+  [['restaurant', 'meal_takeaway'], [[12.5, 1.2, 1], [19.5, 1.5, 0.9]]],
+  [['cafe', 'bakery'], [[10, 1.5, 0.9], [15, 2, 0.7]]],
+  [['museum', 'art_gallery', 'aquarium', 'zoo'], [[13, 2.5, 1]]],
+  [['church', 'place_of_worship'], [[11, 2, 0.8]]],
+  [['shopping_mall', 'store'], [[16, 3, 1]]],
+];
+const DEFAULT_PEAKS: Array<[number, number, number]> = [[15, 3, 1]];
+
+const POPULARITY_SCALE: Record<string, number> = {
+  very_popular: 1,
+  popular: 0.85,
+  moderate: 0.65,
+  quiet: 0.45,
+};
+
+const getPopularityLevel = (rating?: number, reviewCount?: number): string => {
+  if (!rating || !reviewCount) return 'moderate';
+  if (rating >= 4.5 && reviewCount > 1000) return 'very_popular';
+  if (rating >= 4.0 && reviewCount > 500) return 'popular';
+  return rating >= 3.5 ? 'moderate' : 'quiet';
+};
+
+const isOpenAt = (periods: OpeningPeriod[] | undefined, weekday: number, hour: number): boolean => {
+  // No hours data counts as open
+  if (!periods || periods.length === 0) return true;
+  // Open 24/7
+  if (periods.length === 1 && !periods[0].close) return true;
+
+  const previousWeekday = (weekday + 6) % 7;
+  return periods.some(({ open, close }) => {
+    if (!close) return false;
+    const closeHour = close.hour + (close.minute ? close.minute / 60 : 0) + (close.day !== open.day ? 24 : 0);
+    if (open.day === weekday) return hour >= open.hour && hour < closeHour;
+    return open.day === previousWeekday && hour + 24 < closeHour;
+  });
+};
+
+/**
+ * Estimated busyness for each hour of a weekday. Google doesn't expose popular times, so this
+ * combines the place type's usual peaks with how popular the place is and when it's open.
+ */
+const estimatePopularTimes = (
+  types: string[],
+  crowdLevel: string,
+  periods: OpeningPeriod[] | undefined,
+  weekday: number
+): PopularHour[] => {
+  const peaks = BUSY_PEAKS.find(([peakTypes]) => peakTypes.some(type => types.includes(type)))?.[1] || DEFAULT_PEAKS;
+  const weekendBoost = weekday === 0 || weekday === 6 ? 1.15 : 1;
+  const scale = (POPULARITY_SCALE[crowdLevel] ?? 0.6) * weekendBoost;
+
+  return Array.from({ length: 24 }, (_, hour) => {
+    if (!isOpenAt(periods, weekday, hour)) return { hour, busyness: 0 };
+    const level = peaks.reduce((total, [peakHour, spread, height]) =>
+      total + height * Math.exp(-((hour + 0.5 - peakHour) ** 2) / (2 * spread ** 2)), 0);
+    return { hour, busyness: Math.max(5, Math.min(100, Math.round(level * scale * 100))) };
+  });
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -16,7 +88,7 @@ serve(async (req) => {
   }
 
   try {
-    const { place_id } = await req.json();
+    const { place_id, weekday } = await req.json();
     
     if (!place_id) {
       return new Response(
@@ -43,7 +115,7 @@ serve(async (req) => {
     console.log(`[GET-PLACE-POPULARITY] Fetching popularity for place_id: ${place_id}`);
 
     // Use Places API v1 to get place details with current popularity
-    const placeDetailsUrl = `https://places.googleapis.com/v1/places/${place_id}?fields=currentOpeningHours,displayName,userRatingCount,rating&key=${GOOGLE_API_KEY}`;
+    const placeDetailsUrl = `https://places.googleapis.com/v1/places/${place_id}?fields=currentOpeningHours,regularOpeningHours,displayName,userRatingCount,rating,types,utcOffsetMinutes&key=${GOOGLE_API_KEY}`;
     
     const response = await fetch(placeDetailsUrl, {
       method: 'GET',
@@ -94,8 +166,12 @@ serve(async (req) => {
       crowdLevel = 'closed';
     }
 
+    // Popular times and the time of day are for the place's local clock, not the server's
+    const localNow = new Date(Date.now() + (placeData.utcOffsetMinutes ?? 0) * 60000);
+    const localWeekday = localNow.getUTCDay();
+    const currentHour = localNow.getUTCHours();
+
     // Add time-based context
-    const currentHour = new Date().getHours();
     let timeContext = '';
     
     if (currentHour >= 9 && currentHour <= 11) {
@@ -108,6 +184,16 @@ serve(async (req) => {
       timeContext = ' Evening hours may vary in popularity depending on the venue type.';
     }
 
+    const requestedWeekday = Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : localWeekday;
+    // Base the curve on how popular the place is, even while it's closed. It's an estimate, so it's
+    // labelled as one for the app and the guide to pass on.
+    const popularHours = estimatePopularTimes(
+      placeData.types || [],
+      crowdLevel in POPULARITY_SCALE ? crowdLevel : getPopularityLevel(placeData.rating, placeData.userRatingCount),
+      placeData.regularOpeningHours?.periods,
+      requestedWeekday
+    );
+
     const result = {
       place_id,
       place_name: placeData.displayName?.text || 'Unknown place',
@@ -116,7 +202,13 @@ serve(async (req) => {
       rating: placeData.rating || null,
       review_count: placeData.userRatingCount || null,
       is_open: currentHours?.openNow || false,
-      current_hour: currentHour
+      current_hour: currentHour,
+      popular_times: {
+        weekday: requestedWeekday,
+        hours: popularHours,
+        source: 'estimated',
+        utc_offset_minutes: placeData.utcOffsetMinutes ?? null
+      }
     };
 
     console.log(`[GET-PLACE-POPULARITY] Returning result:`, result);
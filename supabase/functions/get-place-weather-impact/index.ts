@@ -6,6 +6,43 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+const OUTDOOR_TYPES = ['park', 'zoo', 'amusement_park', 'natural_feature', 'campground', 'beach', 'hiking_area', 'garden', 'plaza', 'botanical_garden', 'national_park'];
+const INDOOR_TYPES = ['museum', 'art_gallery', 'shopping_mall', 'movie_theater', 'library', 'aquarium', 'church', 'hindu_temple', 'mosque', 'synagogue', 'restaurant', 'cafe', 'store'];
+
+interface WeatherApiHour {
+  interval?: { startTime?: string };
+  precipitation?: { probability?: { percent?: number } };
+  weatherCondition?: { type?: string; description?: { text?: string } };
+  temperature?: { degrees?: number };
+}
+
+/**
+ * Hourly forecast from the Google Weather API, or null when it isn't available
+ */
+const fetchHourlyForecast = async (latitude: number, longitude: number, hours: number, apiKey: string) => {
+  try {
+    const forecastUrl = `https://weather.googleapis.com/v1/forecast/hours:lookup?key=${apiKey}&location.latitude=${latitude}&location.longitude=${longitude}&hours=${hours}&pageSize=${hours}`;
+    const response = await fetch(forecastUrl);
+
+    if (!response.ok) {
+      console.error(`[GET-PLACE-WEATHER-IMPACT] Weather API error: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    return (data.forecastHours || []).map((hour: WeatherApiHour) => ({
+      time: hour.interval?.startTime,
+      precipitation_probability: hour.precipitation?.probability?.percent ?? 0,
+      condition: hour.weatherCondition?.type || 'UNKNOWN',
+      description: hour.weatherCondition?.description?.text || '',
+      temperature_c: hour.temperature?.degrees ?? null
+    }));
+  } catch (error) {
+    console.error('[GET-PLACE-WEATHER-IMPACT] Forecast lookup failed:', error);
+    return null;
+  }
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -16,7 +53,8 @@ serve(async (req) => {
   }
 
   try {
-    const { place_id } = await req.json();
+    // forecast_hours > 0 adds an hourly forecast for forecast-aware tour planning
+    const { place_id, forecast_hours = 0 } = await req.json();
     
     if (!place_id) {
       return new Response(
@@ -114,6 +152,18 @@ serve(async (req) => {
       recommendations.push('Consider indoor alternatives during severe weather');
     }
 
+    // Whether a visit happens under a roof, for moving outdoor stops into dry hours
+    let setting = 'mixed';
+    if (placeTypes.some((type: string) => OUTDOOR_TYPES.includes(type))) {
+      setting = 'outdoor';
+    } else if (placeTypes.some((type: string) => INDOOR_TYPES.includes(type))) {
+      setting = 'indoor';
+    }
+
+    const forecast = forecast_hours > 0
+      ? await fetchHourlyForecast(location.latitude, location.longitude, Math.min(forecast_hours, 48), GOOGLE_API_KEY)
+      : null;
+
     // Add general weather-conscious travel advice
     recommendations.push('Always check local weather forecasts for the most current conditions');
     
@@ -136,6 +186,8 @@ serve(async (req) => {
       place_name: placeName,
       place_types: placeTypes,
       weather_sensitivity: weatherSensitivity,
+      setting,
+      forecast,
       coordinates: {
         latitude: location.latitude,
         longitude: location.longitude
@@ -20,7 +20,7 @@ serve(async (req) => {
 
   try {
     console.log('📝 Processing request body...');
-    const { tourId } = await req.json();
+    const { tourId, versionId } = await req.json();
 
     if (!tourId) {
       console.error('❌ Tour ID is required');
@@ -37,7 +37,7 @@ serve(async (req) => {
     // Fetch tour details from the database
     const { data: tourData, error: tourError } = await supabase
       .from('generated_tours')
-      .select('destination, system_prompt, agentid')
+      .select('destination, system_prompt, agentid, experience, user_id, published_version_id, language')
       .eq('id', tourId)
       .single();
 
@@ -57,10 +57,75 @@ serve(async (req) => {
       hasAgentId: !!tourData.agentid
     });
 
+    // The service role bypasses RLS, so check who is asking before handing out the prompt and agent
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    const userId = userData.user?.id;
+
+    // A private tour's guide belongs to whoever generated it. The curator's prompt and voice agent are
+    // what an experience sells, so only owners get them.
+    let hasAccess = !!userId && userId === tourData.user_id;
+    let systemPrompt = tourData.system_prompt;
+    let agentId = tourData.agentid;
+    let version: { id: string; version_number: number } | null = null;
+    let latestVersionNumber: number | null = null;
+
+    if (tourData.experience) {
+      // Curators can preview any version; buyers get the version they own
+      let targetVersionId = tourData.published_version_id;
+      if (userId === tourData.user_id) {
+        hasAccess = true;
+        targetVersionId = versionId || tourData.published_version_id;
+      } else if (userId) {
+        const { data: entitlement } = await supabase
+          .from('experience_entitlements')
+          .select('id, version_id')
+          .eq('user_id', userId)
+          .eq('tour_id', tourId)
+          .is('revoked_at', null)
+          .maybeSingle();
+        hasAccess = !!entitlement;
+        targetVersionId = entitlement?.version_id || tourData.published_version_id;
+      }
+
+      console.log(hasAccess ? '🔓 Experience entitlement confirmed' : '🔒 No entitlement for experience, withholding guide');
+
+      if (hasAccess && targetVersionId) {
+        const { data: versionData, error: versionError } = await supabase
+          .from('experience_versions')
+          .select('id, version_number, system_prompt, agent_id')
+          .eq('id', targetVersionId)
+          .eq('tour_id', tourId)
+          .single();
+
+        if (versionError) {
+          console.error('❌ Error fetching experience version:', versionError);
+          throw new Error(`Failed to fetch experience version: ${versionError.message}`);
+        }
+
+        const { data: latestVersion } = await supabase
+          .from('experience_versions')
+          .select('version_number')
+          .eq('id', tourData.published_version_id)
+          .maybeSingle();
+
+        version = versionData;
+        latestVersionNumber = latestVersion?.version_number ?? null;
+        systemPrompt = versionData.system_prompt;
+        agentId = versionData.agent_id;
+        console.log('🏷️ Using experience version:', versionData.version_number);
+      }
+    }
+
     const response = {
       destination: tourData.destination,
-      systemPrompt: tourData.system_prompt,
-      agentId: tourData.agentid
+      language: tourData.language,
+      systemPrompt: hasAccess ? systemPrompt : null,
+      agentId: hasAccess ? agentId : null,
+      entitled: hasAccess,
+      versionId: version?.id ?? null,
+      versionNumber: version?.version_number ?? null,
+      latestVersionNumber
     };
 
     return new Response(
@@ -48,7 +48,7 @@ serve(async (req) => {
   }
 
   try {
-    const { placeId, landmarkName, coordinates, coordinatesOnly } = await req.json()
+    const { placeId, landmarkName, coordinates, coordinatesOnly, languageCode = 'en' } = await req.json()
     const googleApiKey = Deno.env.get('GOOGLE_API_KEY')
     
     if (!googleApiKey) {
@@ -94,8 +94,8 @@ serve(async (req) => {
     let placeDetails: any = null
     
     if (placeId) {
-      // Use new Places API v1 for place details with expanded field mask
-      const detailsUrl = `https://places.googleapis.com/v1/places/${placeId}`
+      // Use new Places API v1 for place details with expanded field mask, localized to the tour language
+      const detailsUrl = `https://places.googleapis.com/v1/places/${placeId}?languageCode=${encodeURIComponent(languageCode)}`
       
       const detailsResponse = await fetch(detailsUrl, {
         method: 'GET',
@@ -124,6 +124,7 @@ serve(async (req) => {
         body: JSON.stringify({
           includedTypes: ['tourist_attraction', 'point_of_interest'],
           maxResultCount: 5,
+          languageCode,
           locationRestriction: {
             circle: {
               center: {
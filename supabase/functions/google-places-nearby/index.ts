@@ -105,7 +105,7 @@ serve(async (req) => {
   }
 
   try {
-    const { coordinates, radius, type, destinationTypes } = await req.json()
+    const { coordinates, radius, type, destinationTypes, languageCode = 'en' } = await req.json()
     const googleApiKey = Deno.env.get('GOOGLE_API_KEY')
     
     if (!googleApiKey) {
@@ -125,6 +125,7 @@ serve(async (req) => {
       radius: searchRadius, 
       maxResults,
       destinationTypes,
+      languageCode,
       landmarkTypes: LANDMARK_TYPES_FOR_TOUR_GENERATION.length 
     })
     
@@ -141,6 +142,7 @@ serve(async (req) => {
       body: JSON.stringify({
         includedTypes: LANDMARK_TYPES_FOR_TOUR_GENERATION,
         maxResultCount: maxResults,
+        languageCode, // names and editorial summaries come back in the tour language
         locationRestriction: {
           circle: {
             center: {
@@ -18,6 +18,7 @@ interface RouteRequest {
   returnToOrigin?: boolean;
   travelMode?: 'WALK' | 'BICYCLE' | 'DRIVE' | 'TRANSIT';
   departureTime?: string;
+  optimizeWaypointOrder?: boolean; // false keeps the given waypoint order
 }
 
 // Validation function for waypoints
@@ -54,7 +55,7 @@ serve(async (req) => {
   }
 
   try {
-    const { origin, waypoints, destination, returnToOrigin = true, travelMode = 'WALK', departureTime }: RouteRequest = await req.json();
+    const { origin, waypoints, destination, returnToOrigin = true, travelMode = 'WALK', departureTime, optimizeWaypointOrder = true }: RouteRequest = await req.json();
     
     console.log('🚀 Google Routes optimization request:', {
       origin,
@@ -62,7 +63,8 @@ serve(async (req) => {
       destination,
       returnToOrigin,
       travelMode,
-      departureTime
+      departureTime,
+      optimizeWaypointOrder
     });
 
     // Handle two different route types: waypoint optimization vs point-to-point
@@ -123,7 +125,8 @@ serve(async (req) => {
           }
         }
       },
-      destination: isPointToPoint && destination ? {
+      // An explicit destination ends the route there, otherwise optimization routes loop back to the origin
+      destination: destination ? {
         location: {
           latLng: {
             latitude: destination.coordinates[1],
@@ -146,7 +149,7 @@ serve(async (req) => {
     // Add intermediates only for optimization routes
     if (!isPointToPoint) {
       routeRequest.intermediates = intermediateWaypoints;
-      routeRequest.optimizeWaypointOrder = true;
+      routeRequest.optimizeWaypointOrder = optimizeWaypointOrder;
     }
 
     // Add routingPreference for DRIVE mode only
@@ -171,7 +174,7 @@ serve(async (req) => {
     ];
 
     // Add optimization fields only for waypoint optimization routes
-    if (!isPointToPoint) {
+    if (!isPointToPoint && optimizeWaypointOrder) {
       baseFields.push('routes.optimizedIntermediateWaypointIndex');
     }
 
@@ -7,6 +7,40 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+interface SearchFilters {
+  interactionTypes?: string[];
+  destination?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  favoritesOnly?: boolean;
+  near?: { latitude: number; longitude: number; radiusKm: number };
+  transportationMode?: string;
+}
+
+const generateQueryEmbedding = async (geminiApiKey: string, query: string): Promise<number[] | null> => {
+  const embeddingResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${geminiApiKey}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: 'models/text-embedding-004',
+      content: {
+        parts: [{ text: query }]
+      }
+    })
+  })
+
+  if (!embeddingResponse.ok) {
+    const errorText = await embeddingResponse.text();
+    console.error('Gemini API error:', embeddingResponse.status, errorText);
+    return null
+  }
+
+  const embeddingData = await embeddingResponse.json()
+  return embeddingData.embedding?.values || null
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { 
@@ -17,12 +51,14 @@ serve(async (req) => {
 
   try {
     console.log('Search function called');
-    const { query, destination } = await req.json()
-    console.log('Search query:', query, 'Destination filter:', destination);
+    const { query, destination, filters = {}, limit = 20 }: { query?: string; destination?: string; filters?: SearchFilters; limit?: number } = await req.json()
+    console.log('Search query:', query, 'Filters:', filters);
     
-    if (!query) {
+    const hasFilters = Object.values(filters).some(value =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== false && value !== '')
+    if (!query?.trim() && !hasFilters) {
       return new Response(
-        JSON.stringify({ error: 'Query is required' }),
+        JSON.stringify({ error: 'Query or filters are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
@@ -56,52 +92,35 @@ serve(async (req) => {
 
     console.log('User authenticated:', user.id);
 
-    // Generate embedding for the search query using Gemini
+    // Semantic half of the search; keywords still work if the embedding can't be generated
     const geminiApiKey = Deno.env.get('GOOGLE_AI_API_KEY')
-    if (!geminiApiKey) {
-      console.error('Gemini API key not configured');
-      return new Response(
-        JSON.stringify({ error: 'Gemini API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    let queryEmbedding: number[] | null = null
+    if (query?.trim()) {
+      if (geminiApiKey) {
+        console.log('Generating embedding for query...');
+        queryEmbedding = await generateQueryEmbedding(geminiApiKey, query)
+      } else {
+        console.error('Gemini API key not configured, searching by keyword only');
+      }
     }
+    console.log('Generated embedding with dimensions:', queryEmbedding?.length || 0);
 
-    console.log('Generating embedding for query...');
-    
-    const embeddingResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${geminiApiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'models/text-embedding-004',
-        content: {
-          parts: [{ text: query }]
-        }
-      })
-    })
-
-    if (!embeddingResponse.ok) {
-      const errorText = await embeddingResponse.text();
-      console.error('Gemini API error:', embeddingResponse.status, errorText);
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate embedding' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
-
-    const embeddingData = await embeddingResponse.json()
-    const queryEmbedding = embeddingData.embedding.values
-    console.log('Generated embedding with dimensions:', queryEmbedding.length);
-
-    // Use the search function with standard threshold for production
-    console.log('Calling search function...');
+    console.log('Calling hybrid search function...');
     const { data: searchResults, error: searchError } = await supabaseClient
-      .rpc('search_interactions', {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.5, // Standard threshold balancing precision and recall
-        match_count: 20,
-        user_id: user.id
+      .rpc('search_interactions_hybrid', {
+        p_user_id: user.id,
+        p_query: query?.trim() || null,
+        p_query_embedding: queryEmbedding,
+        p_interaction_types: filters.interactionTypes?.length ? filters.interactionTypes : null,
+        p_destination: filters.destination || destination || null,
+        p_from: filters.dateFrom || null,
+        p_to: filters.dateTo || null,
+        p_favorites_only: filters.favoritesOnly === true,
+        p_latitude: filters.near?.latitude ?? null,
+        p_longitude: filters.near?.longitude ?? null,
+        p_max_distance_km: filters.near?.radiusKm ?? null,
+        p_transportation_mode: filters.transportationMode || null,
+        p_limit: limit
       })
 
     if (searchError) {
@@ -114,17 +133,11 @@ serve(async (req) => {
 
     console.log('Search results count:', searchResults?.length || 0);
 
-    // Apply destination filter on the client side if needed
-    let filteredResults = searchResults || []
-    if (destination && destination !== '') {
-      filteredResults = filteredResults.filter(result => 
-        result.destination && result.destination.toLowerCase().includes(destination.toLowerCase())
-      )
-      console.log('Filtered results count:', filteredResults.length);
-    }
+    // similarity is kept for callers that show a match percentage
+    const results = (searchResults || []).map(result => ({ ...result, similarity: result.score }))
 
     return new Response(
-      JSON.stringify({ results: filteredResults }),
+      JSON.stringify({ results }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
 
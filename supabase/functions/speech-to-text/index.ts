@@ -16,13 +16,13 @@ serve(async (req) => {
   }
 
   try {
-    const { audioData } = await req.json();
+    const { audioData, languageCode = 'en-US' } = await req.json();
     
     if (!audioData) {
       throw new Error('No audio data provided');
     }
 
-    console.log('Received audio data, length:', audioData.length);
+    console.log('Received audio data, length:', audioData.length, 'locale:', languageCode);
 
     const googleApiKey = Deno.env.get('GOOGLE_AI_API_KEY');
     if (!googleApiKey) {
@@ -41,7 +41,7 @@ serve(async (req) => {
       config: {
         encoding: 'WEBM_OPUS',
         sampleRateHertz: 48000,
-        languageCode: 'en-US',
+        languageCode,
         enableAutomaticPunctuation: true,
         model: 'latest_long'
       },
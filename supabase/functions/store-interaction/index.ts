@@ -41,7 +41,11 @@ serve(async (req) => {
       destination,
       interactionType = 'text',
       landmarkCoordinates,
-      landmarkImageUrl
+      landmarkImageUrl,
+      // Voice conversations saved by the app when the session ends
+      conversationId,
+      agentId,
+      fullTranscript
     } = await req.json()
     
     console.log('Request body:', { 
@@ -50,7 +54,8 @@ serve(async (req) => {
       destination, 
       interactionType,
       landmarkCoordinates,
-      landmarkImageUrl 
+      landmarkImageUrl,
+      conversationId
     });
 
     if (!userInput || !assistantResponse || !destination) {
@@ -124,6 +129,23 @@ serve(async (req) => {
     
     console.log('User authenticated:', user.id);
 
+    // The ElevenLabs webhook stores a richer record of the same conversation; keep that one
+    if (conversationId) {
+      const { data: existing } = await supabaseClient
+        .from('interactions')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .maybeSingle()
+
+      if (existing) {
+        console.log('Conversation already stored, skipping:', conversationId);
+        return new Response(
+          JSON.stringify({ success: true, skipped: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
     // Generate embeddings using Gemini
     const geminiApiKey = Deno.env.get('GOOGLE_AI_API_KEY')
     if (!geminiApiKey) {
@@ -147,9 +169,9 @@ serve(async (req) => {
     const assistantResponseEmbedding = await generateGeminiEmbedding(assistantResponse, geminiApiKey)
     console.log('Assistant response embedding generated, length:', assistantResponseEmbedding.length);
 
-    // Analyze interaction quality
-    const qualityAnalysis = await analyzeTextInteractionQuality(userInput, assistantResponse);
-    console.log('Quality analysis completed for text interaction');
+    // Analyze interaction quality; voice conversations are evaluated by the webhook instead
+    const qualityAnalysis = conversationId ? null : await analyzeTextInteractionQuality(userInput, assistantResponse);
+    console.log(qualityAnalysis ? 'Quality analysis completed for text interaction' : 'Quality analysis left to webhook');
 
     // Prepare the data for insertion
     const insertData: any = {
@@ -161,23 +183,23 @@ serve(async (req) => {
       assistant_response_embedding: assistantResponseEmbedding,
       interaction_type: interactionType,
       // Analytics fields for text interactions
-      call_status: 'completed',
+      call_status: conversationId ? 'awaiting_webhook' : 'completed',
       start_time: Date.now(),
       end_time: Date.now(),
       points_of_interest_mentioned: [destination], // At minimum, the destination is a point of interest
       // Quality analysis fields
-      info_accuracy_status: qualityAnalysis.info_accuracy_status,
-      info_accuracy_explanation: qualityAnalysis.info_accuracy_explanation,
-      navigation_effectiveness_status: qualityAnalysis.navigation_effectiveness_status,
-      navigation_effectiveness_explanation: qualityAnalysis.navigation_effectiveness_explanation,
-      engagement_interactivity_status: qualityAnalysis.engagement_interactivity_status,
-      engagement_interactivity_explanation: qualityAnalysis.engagement_interactivity_explanation,
-      problem_resolution_status: qualityAnalysis.problem_resolution_status,
-      problem_resolution_explanation: qualityAnalysis.problem_resolution_explanation,
-      efficiency_conciseness_status: qualityAnalysis.efficiency_conciseness_status,
-      efficiency_conciseness_explanation: qualityAnalysis.efficiency_conciseness_explanation,
-      user_satisfaction_status: qualityAnalysis.user_satisfaction_status,
-      user_satisfaction_explanation: qualityAnalysis.user_satisfaction_explanation
+      info_accuracy_status: qualityAnalysis?.info_accuracy_status,
+      info_accuracy_explanation: qualityAnalysis?.info_accuracy_explanation,
+      navigation_effectiveness_status: qualityAnalysis?.navigation_effectiveness_status,
+      navigation_effectiveness_explanation: qualityAnalysis?.navigation_effectiveness_explanation,
+      engagement_interactivity_status: qualityAnalysis?.engagement_interactivity_status,
+      engagement_interactivity_explanation: qualityAnalysis?.engagement_interactivity_explanation,
+      problem_resolution_status: qualityAnalysis?.problem_resolution_status,
+      problem_resolution_explanation: qualityAnalysis?.problem_resolution_explanation,
+      efficiency_conciseness_status: qualityAnalysis?.efficiency_conciseness_status,
+      efficiency_conciseness_explanation: qualityAnalysis?.efficiency_conciseness_explanation,
+      user_satisfaction_status: qualityAnalysis?.user_satisfaction_status,
+      user_satisfaction_explanation: qualityAnalysis?.user_satisfaction_explanation
     }
 
     // Generate embedding for points of interest (destination)
@@ -186,10 +208,18 @@ serve(async (req) => {
     console.log('Points of interest embedding generated');
 
     // Generate embedding for evaluation criteria summary
-    const evaluationCriteriaText = `Information Accuracy: ${qualityAnalysis.info_accuracy_status} - ${qualityAnalysis.info_accuracy_explanation}. Navigation Effectiveness: ${qualityAnalysis.navigation_effectiveness_status} - ${qualityAnalysis.navigation_effectiveness_explanation}. User Engagement: ${qualityAnalysis.engagement_interactivity_status} - ${qualityAnalysis.engagement_interactivity_explanation}.`;
-    console.log('Generating embedding for evaluation criteria...');
-    insertData.evaluation_criteria_embedding = await generateGeminiEmbedding(evaluationCriteriaText, geminiApiKey);
-    console.log('Evaluation criteria embedding generated');
+    if (qualityAnalysis) {
+      const evaluationCriteriaText = `Information Accuracy: ${qualityAnalysis.info_accuracy_status} - ${qualityAnalysis.info_accuracy_explanation}. Navigation Effectiveness: ${qualityAnalysis.navigation_effectiveness_status} - ${qualityAnalysis.navigation_effectiveness_explanation}. User Engagement: ${qualityAnalysis.engagement_interactivity_status} - ${qualityAnalysis.engagement_interactivity_explanation}.`;
+      console.log('Generating embedding for evaluation criteria...');
+      insertData.evaluation_criteria_embedding = await generateGeminiEmbedding(evaluationCriteriaText, geminiApiKey);
+      console.log('Evaluation criteria embedding generated');
+    }
+
+    if (conversationId) {
+      insertData.conversation_id = conversationId
+      insertData.agent_id = agentId || null
+      insertData.full_transcript = Array.isArray(fullTranscript) ? fullTranscript : null
+    }
 
     // Add optional fields if provided
     if (landmarkCoordinates && Array.isArray(landmarkCoordinates) && landmarkCoordinates.length === 2) {
@@ -201,11 +231,12 @@ serve(async (req) => {
       insertData.landmark_image_url = landmarkImageUrl
     }
 
-    // Store the interaction in the database
+    // Store the interaction in the database. If the webhook stored this conversation while the embeddings
+    // were generated, its row wins.
     console.log('Storing interaction in database...');
     const { data, error } = await supabaseClient
       .from('interactions')
-      .insert(insertData)
+      .upsert(insertData, { onConflict: 'conversation_id', ignoreDuplicates: true })
 
     if (error) {
       console.error('Database error:', error)
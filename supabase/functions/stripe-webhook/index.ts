@@ -35,6 +35,36 @@ const getSubscriptionTier = async (stripe: Stripe, subscription: Stripe.Subscrip
   }
 };
 
+// Revoke (or restore) the entitlement a Stripe experience purchase granted
+const setEntitlementRevoked = async (
+  supabaseClient: ReturnType<typeof createClient>,
+  paymentIntentId: string,
+  revoked: boolean,
+  webhookSource: string
+) => {
+  const { data: payment } = await supabaseClient
+    .from("payments")
+    .select("id")
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .maybeSingle();
+
+  if (!payment) return;
+
+  const { error } = await supabaseClient
+    .from("experience_entitlements")
+    .update({
+      revoked_at: revoked ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("payment_id", payment.id);
+
+  if (error) {
+    logStep("ERROR: Failed to update entitlement", { paymentId: payment.id, revoked, error }, webhookSource);
+  } else {
+    logStep(revoked ? "Entitlement revoked" : "Entitlement restored", { paymentId: payment.id }, webhookSource);
+  }
+};
+
 // Enhanced webhook signature verification with dual secret support
 const verifyWebhookSignature = async (
   stripe: Stripe, 
@@ -194,6 +224,56 @@ serve(async (req) => {
           logStep("Payment status updated to succeeded", { paymentId: payment.id }, webhookSource);
         }
 
+        // Grant ownership of the experience from Stripe's signed metadata, and only when the payment row
+        // still agrees with it; upsert keeps retried events harmless
+        const paidTourId = paymentIntent.metadata?.internal_tour_id;
+        const paidTouristId = paymentIntent.metadata?.internal_tourist_id;
+        const matchesPayment = !!paidTourId && !!paidTouristId &&
+          paidTourId === payment.tour_id && paidTouristId === payment.tourist_user_id;
+
+        if (payment.payment_type === "experience" && !matchesPayment) {
+          logStep("ERROR: Payment record does not match the PaymentIntent, entitlement not granted", {
+            paymentId: payment.id,
+            paidTourId,
+            paidTouristId,
+          }, webhookSource);
+        }
+
+        if (!updateError && payment.payment_type === "experience" && matchesPayment) {
+          const { error: entitlementError } = await supabaseClient
+            .from("experience_entitlements")
+            .upsert({
+              user_id: paidTouristId,
+              tour_id: paidTourId,
+              source: "stripe",
+              payment_id: payment.id,
+              revoked_at: null,
+              updated_at: new Date().toISOString(),
+            }, { onConflict: "user_id,tour_id" });
+
+          if (entitlementError) {
+            logStep("ERROR: Failed to grant experience entitlement", { error: entitlementError }, webhookSource);
+          } else {
+            logStep("Experience entitlement granted", { userId: paidTouristId, tourId: paidTourId }, webhookSource);
+
+            // Buyers own the version that was live when they paid
+            const { data: tour } = await supabaseClient
+              .from("generated_tours")
+              .select("published_version_id")
+              .eq("id", paidTourId)
+              .single();
+
+            if (tour?.published_version_id) {
+              await supabaseClient
+                .from("experience_entitlements")
+                .update({ version_id: tour.published_version_id })
+                .eq("user_id", paidTouristId)
+                .eq("tour_id", paidTourId)
+                .is("version_id", null);
+            }
+          }
+        }
+
         logStep("Payment processing completed successfully", {}, webhookSource);
         break;
       }
@@ -295,6 +375,45 @@ serve(async (req) => {
         } else {
           logStep("Payment status updated to failed", { paymentIntentId: paymentIntent.id }, webhookSource);
         }
+        // A failed attempt can still be retried on the same intent, so its promo code use stays reserved
+        break;
+      }
+
+      case "payment_intent.canceled": {
+        logStep("Processing payment_intent.canceled", {}, webhookSource);
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+        // Only the update that flips the status gives the promo code use back, so retried events
+        // and intents already canceled by create-experience-payment don't release it twice
+        const { data: canceledPayment, error: updateError } = await supabaseClient
+          .from("payments")
+          .update({
+            status: "canceled",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("stripe_payment_intent_id", paymentIntent.id)
+          .neq("status", "canceled")
+          .select("id, promo_code_id")
+          .maybeSingle();
+
+        if (updateError) {
+          logStep("ERROR: Failed to update payment status", { error: updateError }, webhookSource);
+          break;
+        }
+
+        if (canceledPayment?.promo_code_id) {
+          const { error: promoError } = await supabaseClient.rpc("release_promo_code_redemption", {
+            p_promo_code_id: canceledPayment.promo_code_id,
+          });
+
+          if (promoError) {
+            logStep("ERROR: Failed to release promo code use", { error: promoError }, webhookSource);
+          } else {
+            logStep("Promo code use released", { promoCodeId: canceledPayment.promo_code_id }, webhookSource);
+          }
+        }
+
+        logStep("Payment status updated to canceled", { paymentIntentId: paymentIntent.id }, webhookSource);
         break;
       }
 
@@ -306,10 +425,13 @@ serve(async (req) => {
           : charge.payment_intent?.id;
 
         if (paymentIntentId) {
+          // amount_refunded is cumulative, so partial refunds keep the tourist's access and add up
           const { error: updateError } = await supabaseClient
             .from("payments")
             .update({
-              status: "refunded",
+              ...(charge.refunded ? { status: "refunded" } : {}),
+              refunded_amount: charge.amount_refunded / 100,
+              refunded_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
             .eq("stripe_payment_intent_id", paymentIntentId);
@@ -317,7 +439,14 @@ serve(async (req) => {
           if (updateError) {
             logStep("ERROR: Failed to update refund status", { error: updateError }, webhookSource);
           } else {
-            logStep("Payment status updated to refunded", { chargeId: charge.id }, webhookSource);
+            logStep(charge.refunded ? "Payment status updated to refunded" : "Partial refund recorded", {
+              chargeId: charge.id,
+              amountRefunded: charge.amount_refunded,
+            }, webhookSource);
+          }
+
+          if (charge.refunded) {
+            await setEntitlementRevoked(supabaseClient, paymentIntentId, true, webhookSource);
           }
         }
         logStep("WARNING: Tour guide refund handling not fully implemented", {}, webhookSource);
@@ -336,6 +465,9 @@ serve(async (req) => {
             .from("payments")
             .update({
               status: "disputed",
+              disputed_amount: dispute.amount / 100,
+              dispute_status: dispute.status,
+              disputed_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
             .eq("stripe_payment_intent_id", paymentIntentId);
@@ -353,6 +485,37 @@ serve(async (req) => {
         break;
       }
 
+      case "charge.dispute.closed": {
+        logStep("Processing charge.dispute.closed", {}, webhookSource);
+        const dispute = event.data.object as Stripe.Dispute;
+        const paymentIntentId = typeof dispute.payment_intent === 'string'
+          ? dispute.payment_intent
+          : dispute.payment_intent?.id;
+
+        if (paymentIntentId) {
+          // A won dispute returns the funds, so the sale counts again
+          const { error: updateError } = await supabaseClient
+            .from("payments")
+            .update({
+              ...(dispute.status === "won" ? { status: "succeeded" } : {}),
+              dispute_status: dispute.status,
+              updated_at: new Date().toISOString(),
+            })
+            .eq("stripe_payment_intent_id", paymentIntentId);
+
+          if (updateError) {
+            logStep("ERROR: Failed to update closed dispute", { error: updateError }, webhookSource);
+          } else {
+            logStep("Dispute closed", { disputeId: dispute.id, status: dispute.status }, webhookSource);
+          }
+
+          if (dispute.status === "lost" || dispute.status === "won") {
+            await setEntitlementRevoked(supabaseClient, paymentIntentId, dispute.status === "lost", webhookSource);
+          }
+        }
+        break;
+      }
+
       // Subscription event handlers
       case "customer.subscription.created": {
         logStep("Processing customer.subscription.created", {}, webhookSource);
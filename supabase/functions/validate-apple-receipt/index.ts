@@ -11,6 +11,14 @@ const logStep = (step: string, details?: any) => {
   console.log(`[VALIDATE-APPLE-RECEIPT] ${step}${detailsStr}`);
 };
 
+interface AppleTransaction {
+  product_id: string;
+  transaction_id: string;
+  original_transaction_id: string;
+  expires_date_ms?: string;
+  cancellation_date?: string;
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -111,14 +119,17 @@ serve(async (req) => {
       let originalTransactionId = null;
       let latestTransactionId = null;
 
-      if (latestReceiptInfo && latestReceiptInfo.length > 0) {
+      // Experience purchases are non-consumables without an expiry, so leave them out here
+      const subscriptionTransactions = (latestReceiptInfo as AppleTransaction[] || []).filter(transaction => transaction.expires_date_ms);
+
+      if (subscriptionTransactions.length > 0) {
         // Get the latest subscription info
-        const latestTransaction = latestReceiptInfo[latestReceiptInfo.length - 1];
+        const latestTransaction = subscriptionTransactions[subscriptionTransactions.length - 1];
         originalTransactionId = latestTransaction.original_transaction_id;
         latestTransactionId = latestTransaction.transaction_id;
         
         // Check if subscription is still active
-        const expiresDate = new Date(parseInt(latestTransaction.expires_date_ms));
+        const expiresDate = new Date(parseInt(latestTransaction.expires_date_ms!));
         const now = new Date();
         
         isSubscribed = expiresDate > now;
@@ -160,11 +171,59 @@ serve(async (req) => {
 
       logStep("Subscriber record updated successfully");
 
+      // Grant entitlements for experiences bought in the App Store. The receipt lists every
+      // non-consumable ever bought, which is what makes restore purchases work.
+      const experienceTransactions = new Map<string, string>(); // product id -> transaction id
+      (receipt.in_app as AppleTransaction[] || []).forEach(transaction => {
+        if (!transaction.cancellation_date) {
+          experienceTransactions.set(transaction.product_id, transaction.transaction_id);
+        }
+      });
+
+      let ownedExperienceIds: string[] = [];
+      if (experienceTransactions.size > 0) {
+        const { data: experiences } = await supabaseClient
+          .from('generated_tours')
+          .select('id, apple_product_id, published_version_id')
+          .in('apple_product_id', Array.from(experienceTransactions.keys()));
+
+        if (experiences && experiences.length > 0) {
+          const { error: entitlementError } = await supabaseClient
+            .from('experience_entitlements')
+            .upsert(experiences.map(experience => ({
+              user_id: user.id,
+              tour_id: experience.id,
+              source: 'apple',
+              apple_transaction_id: experienceTransactions.get(experience.apple_product_id) ?? null,
+              revoked_at: null,
+              updated_at: new Date().toISOString(),
+            })), { onConflict: 'user_id,tour_id' });
+
+          if (entitlementError) {
+            logStep("ERROR: Failed to grant experience entitlements", { error: entitlementError.message });
+          } else {
+            ownedExperienceIds = experiences.map(experience => experience.id);
+            logStep("Experience entitlements granted", { count: ownedExperienceIds.length });
+
+            // New buyers get the live version; restored purchases keep the version they had
+            for (const experience of experiences.filter(experience => experience.published_version_id)) {
+              await supabaseClient
+                .from('experience_entitlements')
+                .update({ version_id: experience.published_version_id })
+                .eq('user_id', user.id)
+                .eq('tour_id', experience.id)
+                .is('version_id', null);
+            }
+          }
+        }
+      }
+
       return new Response(JSON.stringify({
         valid: true,
         subscribed: isSubscribed,
         subscription_end: subscriptionEnd,
-        subscription_platform: 'apple'
+        subscription_platform: 'apple',
+        experience_ids: ownedExperienceIds
       }), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders },
       });
@@ -0,0 +1,22 @@
+-- Allow tour owners to edit the landmarks of their generated tours
+CREATE POLICY "Users can update landmarks for their tours" 
+  ON public.generated_landmarks 
+  FOR UPDATE 
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generated_tours 
+      WHERE generated_tours.id = generated_landmarks.tour_id 
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete landmarks for their tours" 
+  ON public.generated_landmarks 
+  FOR DELETE 
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generated_tours 
+      WHERE generated_tours.id = generated_landmarks.tour_id 
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
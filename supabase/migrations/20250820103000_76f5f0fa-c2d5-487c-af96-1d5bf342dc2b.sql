@@ -0,0 +1,57 @@
+-- Save an edited tour in one transaction: drop removed stops, renumber the kept ones, add new ones
+-- and store the regenerated guide prompt. p_landmarks is the new order; kept stops only need their
+-- place_id, new ones carry a full generated_landmarks row. Runs with the caller's rights, so the
+-- existing owner policies on generated_tours and generated_landmarks still apply.
+CREATE OR REPLACE FUNCTION public.save_tour_edits(
+  p_tour_id UUID,
+  p_landmarks JSONB,
+  p_system_prompt TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_landmark JSONB;
+  v_position INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.generated_tours WHERE id = p_tour_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Tour not found';
+  END IF;
+
+  DELETE FROM public.generated_landmarks
+  WHERE tour_id = p_tour_id
+    AND (place_id IS NULL OR place_id NOT IN (
+      SELECT landmark->>'place_id' FROM jsonb_array_elements(p_landmarks) AS landmark
+    ));
+
+  FOR v_landmark IN SELECT landmark FROM jsonb_array_elements(p_landmarks) AS landmark LOOP
+    v_position := v_position + 1;
+
+    UPDATE public.generated_landmarks
+    SET landmark_id = 'landmark-' || v_position
+    WHERE tour_id = p_tour_id AND place_id = v_landmark->>'place_id';
+
+    IF NOT FOUND THEN
+      INSERT INTO public.generated_landmarks
+      SELECT (jsonb_populate_record(
+        NULL::public.generated_landmarks,
+        v_landmark || jsonb_build_object(
+          'id', gen_random_uuid(),
+          'tour_id', p_tour_id,
+          'landmark_id', 'landmark-' || v_position,
+          'created_at', now()
+        )
+      )).*;
+    END IF;
+  END LOOP;
+
+  UPDATE public.generated_tours
+  SET system_prompt = p_system_prompt,
+      total_landmarks = v_position,
+      updated_at = now()
+  WHERE id = p_tour_id;
+END;
+$$;
@@ -0,0 +1,34 @@
+
+-- Create geofences table for polygon and corridor proximity alerts
+CREATE TABLE public.geofences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  shape TEXT NOT NULL CHECK (shape IN ('polygon', 'corridor')),
+  coordinates JSONB NOT NULL, -- [lng, lat] pairs: polygon ring or corridor centerline
+  corridor_width INTEGER NOT NULL DEFAULT 30, -- total corridor width in meters
+  place_id TEXT, -- landmark the geofence replaces the radius alert for
+  tour_id UUID REFERENCES public.generated_tours(id) ON DELETE SET NULL,
+  events TEXT[] NOT NULL DEFAULT ARRAY['enter', 'exit', 'dwell'],
+  dwell_seconds INTEGER NOT NULL DEFAULT 300,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_geofences_place_id ON public.geofences(place_id) WHERE place_id IS NOT NULL;
+
+ALTER TABLE public.geofences ENABLE ROW LEVEL SECURITY;
+
+-- Geofences describe public places, so every signed-in visitor can evaluate them
+CREATE POLICY "Authenticated users can view geofences" 
+  ON public.geofences 
+  FOR SELECT 
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can manage their own geofences" 
+  ON public.geofences 
+  FOR ALL 
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- Geofences were readable by every signed-in user, so anyone could draw one on a landmark and
+-- silence or rewrite other travelers' alerts there. Only the tour's own creator can now share
+-- geofences with its travelers; everyone else's stay private.
+DROP POLICY IF EXISTS "Authenticated users can view geofences" ON public.geofences;
+
+CREATE POLICY "Users can view their own geofences and their tours' geofences" 
+  ON public.geofences 
+  FOR SELECT 
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR (
+      tour_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.generated_tours
+        WHERE generated_tours.id = geofences.tour_id
+        AND generated_tours.user_id = geofences.user_id
+      )
+    )
+  );
+
+CREATE INDEX idx_geofences_tour_id ON public.geofences(tour_id) WHERE tour_id IS NOT NULL;
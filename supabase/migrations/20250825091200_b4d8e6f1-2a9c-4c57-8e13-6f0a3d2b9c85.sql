@@ -0,0 +1,26 @@
+
+-- Create trip_recordings table for opt-in breadcrumb trails and trip replay
+CREATE TABLE public.trip_recordings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  tour_id UUID REFERENCES public.generated_tours(id) ON DELETE SET NULL,
+  destination TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  path JSONB NOT NULL DEFAULT '[]'::jsonb, -- [lng, lat, timestamp ms, accuracy m] points
+  distance_meters INTEGER NOT NULL DEFAULT 0,
+  visits JSONB NOT NULL DEFAULT '[]'::jsonb, -- landmarks visited with arrival, departure and dwell time
+  interaction_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_trip_recordings_user_started ON public.trip_recordings(user_id, started_at DESC);
+CREATE INDEX idx_trip_recordings_tour_id ON public.trip_recordings(tour_id) WHERE tour_id IS NOT NULL;
+
+ALTER TABLE public.trip_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own trip recordings" 
+  ON public.trip_recordings 
+  FOR ALL 
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,64 @@
+-- Curator-defined pricing for experiences (amounts in cents, replaces the fixed $9.99)
+ALTER TABLE public.generated_tours
+  ADD COLUMN price_cents INTEGER NOT NULL DEFAULT 999 CHECK (price_cents >= 50),
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'usd' CHECK (currency IN ('usd', 'eur', 'gbp', 'cad', 'aud')),
+  ADD COLUMN launch_discount_percent INTEGER CHECK (launch_discount_percent BETWEEN 1 AND 90),
+  ADD COLUMN launch_discount_ends_at TIMESTAMP WITH TIME ZONE;
+
+-- Promo codes curators hand out for their experiences
+CREATE TABLE public.experience_promo_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tour_id UUID NOT NULL REFERENCES public.generated_tours(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL,
+  code TEXT NOT NULL,
+  discount_percent INTEGER CHECK (discount_percent BETWEEN 1 AND 100),
+  discount_amount_cents INTEGER CHECK (discount_amount_cents > 0),
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((discount_percent IS NULL) <> (discount_amount_cents IS NULL))
+);
+
+CREATE UNIQUE INDEX idx_experience_promo_codes_tour_code ON public.experience_promo_codes(tour_id, upper(code));
+
+ALTER TABLE public.experience_promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Codes stay private to their curator; create-experience-payment validates them with the service role
+CREATE POLICY "Curators can manage promo codes for their experiences" 
+  ON public.experience_promo_codes 
+  FOR ALL 
+  USING (
+    auth.uid() = created_by AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_promo_codes.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    auth.uid() = created_by AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_promo_codes.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+-- Price breakdown of every purchase
+ALTER TABLE public.payments
+  ADD COLUMN list_price_amount NUMERIC,
+  ADD COLUMN discount_amount NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN promo_code_id UUID REFERENCES public.experience_promo_codes(id) ON DELETE SET NULL;
+
+-- Count a redemption once the payment has gone through
+CREATE OR REPLACE FUNCTION public.increment_promo_code_redemption(p_promo_code_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.experience_promo_codes
+  SET redemption_count = redemption_count + 1
+  WHERE id = p_promo_code_id;
+END;
+$$;
@@ -0,0 +1,10 @@
+-- Promo codes are matched exactly by create-experience-payment, so keep them stored the way the
+-- wizard writes them: trimmed and upper case
+UPDATE public.experience_promo_codes SET code = upper(btrim(code)) WHERE code <> upper(btrim(code));
+
+ALTER TABLE public.experience_promo_codes
+  ADD CONSTRAINT experience_promo_codes_code_normalized CHECK (code = upper(btrim(code)) AND code <> '');
+
+-- Redemptions are only counted by the Stripe webhook; nobody else may bump a code's usage
+REVOKE EXECUTE ON FUNCTION public.increment_promo_code_redemption(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_promo_code_redemption(UUID) TO service_role;
@@ -0,0 +1,39 @@
+-- A promo code use is taken when the payment is opened, so two tourists can't both spend the last one.
+-- The check and the count happen in one UPDATE; false means the code can't be used any more
+CREATE OR REPLACE FUNCTION public.reserve_promo_code_redemption(p_promo_code_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.experience_promo_codes
+  SET redemption_count = redemption_count + 1
+  WHERE id = p_promo_code_id
+    AND is_active
+    AND (expires_at IS NULL OR expires_at > now())
+    AND (max_redemptions IS NULL OR redemption_count < max_redemptions);
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Give the use back when the payment that held it is canceled or never got stored
+CREATE OR REPLACE FUNCTION public.release_promo_code_redemption(p_promo_code_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.experience_promo_codes
+  SET redemption_count = GREATEST(redemption_count - 1, 0)
+  WHERE id = p_promo_code_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_promo_code_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_promo_code_redemption(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promo_code_redemption(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_promo_code_redemption(UUID) TO service_role;
+
+-- Uses are no longer counted when the payment succeeds
+DROP FUNCTION IF EXISTS public.increment_promo_code_redemption(UUID);
@@ -0,0 +1,9 @@
+-- Refund and dispute amounts from stripe-webhook, so curators can see net earnings without opening Stripe
+ALTER TABLE public.payments
+  ADD COLUMN refunded_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN refunded_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN disputed_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN dispute_status TEXT,
+  ADD COLUMN disputed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_payments_tour_guide_created_at ON public.payments(tour_guide_id, created_at DESC);
@@ -0,0 +1,37 @@
+-- App Store product that unlocks an experience on iOS
+ALTER TABLE public.generated_tours
+  ADD COLUMN apple_product_id TEXT UNIQUE;
+
+-- One row per experience a user owns, whichever store it was bought through
+CREATE TABLE public.experience_entitlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tour_id UUID NOT NULL REFERENCES public.generated_tours(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('stripe', 'apple')),
+  payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  apple_transaction_id TEXT,
+  granted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE, -- set by full refunds and lost disputes
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, tour_id)
+);
+
+ALTER TABLE public.experience_entitlements ENABLE ROW LEVEL SECURITY;
+
+-- Written only by stripe-webhook and validate-apple-receipt with the service role
+CREATE POLICY "Users can view their own entitlements" 
+  ON public.experience_entitlements 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+-- Purchases made before entitlements existed
+INSERT INTO public.experience_entitlements (user_id, tour_id, source, payment_id, granted_at)
+SELECT DISTINCT ON (tourist_user_id, tour_id) tourist_user_id, tour_id, 'stripe', id, created_at
+FROM public.payments
+WHERE status = 'succeeded'
+  AND payment_type = 'experience'
+  AND tourist_user_id IS NOT NULL
+  AND tour_id IS NOT NULL
+ORDER BY tourist_user_id, tour_id, created_at
+ON CONFLICT (user_id, tour_id) DO NOTHING;
@@ -0,0 +1,37 @@
+-- "Anyone can view experience tours" exposed whole generated_tours rows, so anyone could read the
+-- curator's system_prompt and agentid without buying. Non-owners now read experiences through a
+-- catalog view that leaves those columns out; get-tour-details hands them to entitled users.
+DROP POLICY IF EXISTS "Anyone can view experience tours" ON public.generated_tours;
+
+-- Buyers still read the experiences they own directly (My experiences, version updates, offline packs)
+CREATE POLICY "Users can view experiences they own" 
+  ON public.generated_tours 
+  FOR SELECT 
+  USING (
+    experience = true AND EXISTS (
+      SELECT 1 FROM public.experience_entitlements
+      WHERE experience_entitlements.tour_id = generated_tours.id
+      AND experience_entitlements.user_id = auth.uid()
+      AND experience_entitlements.revoked_at IS NULL
+    )
+  );
+
+-- Public marketplace listing. Runs with the view owner's rights, so only these columns are reachable.
+CREATE VIEW public.experience_catalog
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  destination,
+  description,
+  photo,
+  created_at,
+  destination_details,
+  price_cents,
+  currency,
+  launch_discount_percent,
+  launch_discount_ends_at
+FROM public.generated_tours
+WHERE experience = true;
+
+GRANT SELECT ON public.experience_catalog TO anon, authenticated;
@@ -0,0 +1,4 @@
+-- Payments are written only by the Stripe edge functions, which use the service role. The open policies
+-- let any client rewrite a payment's tour, buyer or refund figures before the webhook read them.
+DROP POLICY IF EXISTS "System can create payments" ON public.payments;
+DROP POLICY IF EXISTS "System can update payments" ON public.payments;
@@ -0,0 +1,205 @@
+-- Versioned snapshots of an experience. The generated_tours row and its generated_landmarks
+-- always hold the published version; drafts are edited here without touching what buyers use.
+CREATE TABLE public.experience_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tour_id UUID NOT NULL REFERENCES public.generated_tours(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  description TEXT,
+  system_prompt TEXT,
+  agent_id TEXT,
+  voice_id TEXT,
+  landmarks JSONB NOT NULL DEFAULT '[]'::jsonb, -- generated_landmarks rows without id, tour_id and created_at
+  knowledge_docs JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, name, type }] associated with the agent
+  notes TEXT, -- what changed, shown in the version history
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  published_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (tour_id, version_number)
+);
+
+-- At most one draft per experience
+CREATE UNIQUE INDEX idx_experience_versions_one_draft ON public.experience_versions(tour_id) WHERE status = 'draft';
+
+ALTER TABLE public.generated_tours
+  ADD COLUMN published_version_id UUID REFERENCES public.experience_versions(id) ON DELETE SET NULL;
+
+-- Buyers stay on the version they bought until they choose to update
+ALTER TABLE public.experience_entitlements
+  ADD COLUMN version_id UUID REFERENCES public.experience_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.experience_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Curators can manage versions of their experiences"
+  ON public.experience_versions
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    auth.uid() = created_by AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Buyers can view the version they own"
+  ON public.experience_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.experience_entitlements
+      WHERE experience_entitlements.version_id = experience_versions.id
+      AND experience_entitlements.user_id = auth.uid()
+      AND experience_entitlements.revoked_at IS NULL
+    )
+  );
+
+-- Start a draft from the live experience, keeping the agent config and knowledge docs of the published version
+CREATE OR REPLACE FUNCTION public.create_experience_draft(p_tour_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tour public.generated_tours;
+  v_published public.experience_versions;
+  v_draft_id UUID;
+BEGIN
+  SELECT * INTO v_tour FROM public.generated_tours WHERE id = p_tour_id AND user_id = auth.uid() AND experience = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Experience not found';
+  END IF;
+
+  SELECT id INTO v_draft_id FROM public.experience_versions WHERE tour_id = p_tour_id AND status = 'draft';
+  IF FOUND THEN
+    RETURN v_draft_id;
+  END IF;
+
+  SELECT * INTO v_published FROM public.experience_versions WHERE id = v_tour.published_version_id;
+
+  INSERT INTO public.experience_versions (
+    tour_id, version_number, status, description, system_prompt, agent_id, voice_id, landmarks, knowledge_docs, created_by
+  )
+  VALUES (
+    p_tour_id,
+    COALESCE((SELECT MAX(version_number) FROM public.experience_versions WHERE tour_id = p_tour_id), 0) + 1,
+    'draft',
+    v_tour.description,
+    v_tour.system_prompt,
+    v_tour.agentid,
+    v_published.voice_id,
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(gl) - 'id' - 'tour_id' - 'created_at' ORDER BY gl.landmark_id)
+      FROM public.generated_landmarks gl
+      WHERE gl.tour_id = p_tour_id
+    ), '[]'::jsonb),
+    COALESCE(v_published.knowledge_docs, '[]'::jsonb),
+    auth.uid()
+  )
+  RETURNING id INTO v_draft_id;
+
+  RETURN v_draft_id;
+END;
+$$;
+
+-- Make a draft or an earlier version live: publishing and rollback are the same operation
+CREATE OR REPLACE FUNCTION public.publish_experience_version(p_version_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.experience_versions;
+BEGIN
+  SELECT ev.* INTO v_version
+  FROM public.experience_versions ev
+  JOIN public.generated_tours gt ON gt.id = ev.tour_id
+  WHERE ev.id = p_version_id AND gt.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Version not found';
+  END IF;
+
+  UPDATE public.experience_versions
+  SET status = 'archived', updated_at = now()
+  WHERE tour_id = v_version.tour_id AND status = 'published';
+
+  UPDATE public.experience_versions
+  SET status = 'published', published_at = COALESCE(published_at, now()), updated_at = now()
+  WHERE id = p_version_id;
+
+  UPDATE public.generated_tours
+  SET description = v_version.description,
+      system_prompt = v_version.system_prompt,
+      agentid = v_version.agent_id,
+      total_landmarks = jsonb_array_length(v_version.landmarks),
+      published_version_id = p_version_id,
+      updated_at = now()
+  WHERE id = v_version.tour_id;
+
+  DELETE FROM public.generated_landmarks WHERE tour_id = v_version.tour_id;
+
+  INSERT INTO public.generated_landmarks
+  SELECT (jsonb_populate_record(
+    NULL::public.generated_landmarks,
+    landmark || jsonb_build_object('id', gen_random_uuid(), 'tour_id', v_version.tour_id, 'created_at', now())
+  )).*
+  FROM jsonb_array_elements(v_version.landmarks) AS landmark;
+END;
+$$;
+
+-- Move a buyer's entitlement to the published version
+CREATE OR REPLACE FUNCTION public.update_experience_entitlement_version(p_tour_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.experience_entitlements ee
+  SET version_id = gt.published_version_id, updated_at = now()
+  FROM public.generated_tours gt
+  WHERE gt.id = ee.tour_id
+    AND ee.tour_id = p_tour_id
+    AND ee.user_id = auth.uid()
+    AND ee.revoked_at IS NULL;
+$$;
+
+-- Existing experiences become version 1, and existing buyers own it
+INSERT INTO public.experience_versions (
+  tour_id, version_number, status, description, system_prompt, agent_id, landmarks, created_by, published_at
+)
+SELECT
+  gt.id,
+  1,
+  'published',
+  gt.description,
+  gt.system_prompt,
+  gt.agentid,
+  COALESCE((
+    SELECT jsonb_agg(to_jsonb(gl) - 'id' - 'tour_id' - 'created_at' ORDER BY gl.landmark_id)
+    FROM public.generated_landmarks gl
+    WHERE gl.tour_id = gt.id
+  ), '[]'::jsonb),
+  gt.user_id,
+  gt.created_at
+FROM public.generated_tours gt
+WHERE gt.experience = true;
+
+UPDATE public.generated_tours gt
+SET published_version_id = ev.id
+FROM public.experience_versions ev
+WHERE ev.tour_id = gt.id AND ev.version_number = 1;
+
+UPDATE public.experience_entitlements ee
+SET version_id = gt.published_version_id
+FROM public.generated_tours gt
+WHERE gt.id = ee.tour_id AND ee.version_id IS NULL;
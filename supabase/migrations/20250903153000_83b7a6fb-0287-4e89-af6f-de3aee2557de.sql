@@ -0,0 +1,48 @@
+-- Published and archived versions are what buyers are pinned to, so only the draft stays editable.
+-- Versions are created through create_experience_draft and go live through publish_experience_version.
+DROP POLICY IF EXISTS "Curators can manage versions of their experiences" ON public.experience_versions;
+
+CREATE POLICY "Curators can view versions of their experiences"
+  ON public.experience_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Curators can update their drafts"
+  ON public.experience_versions
+  FOR UPDATE
+  USING (
+    status = 'draft' AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    status = 'draft' AND auth.uid() = created_by AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Curators can discard their drafts"
+  ON public.experience_versions
+  FOR DELETE
+  USING (
+    status = 'draft' AND EXISTS (
+      SELECT 1 FROM public.generated_tours
+      WHERE generated_tours.id = experience_versions.tour_id
+      AND generated_tours.user_id = auth.uid()
+    )
+  );
+
+-- The agent is set up by elevenlabs-agents-api when a version is published, not by the curator
+REVOKE INSERT, UPDATE ON public.experience_versions FROM anon, authenticated;
+GRANT UPDATE (description, system_prompt, notes, landmarks, knowledge_docs, voice_id, updated_at)
+  ON public.experience_versions TO authenticated;
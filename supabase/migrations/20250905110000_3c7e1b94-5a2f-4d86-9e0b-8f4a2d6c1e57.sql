@@ -0,0 +1,178 @@
+-- Buyer ratings and reviews of experiences, with one curator reply per review
+CREATE TABLE public.experience_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tour_id UUID NOT NULL REFERENCES public.generated_tours(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  review_text TEXT,
+  curator_reply TEXT,
+  curator_replied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tour_id, user_id)
+);
+
+CREATE INDEX idx_experience_reviews_tour_id ON public.experience_reviews(tour_id, created_at DESC);
+
+-- Aggregates kept on the experience so the drawer can sort without loading every review
+ALTER TABLE public.generated_tours
+  ADD COLUMN rating_average NUMERIC(3,2),
+  ADD COLUMN rating_count INTEGER NOT NULL DEFAULT 0;
+
+-- Reviewers must own the experience or have talked to its guide
+CREATE OR REPLACE FUNCTION public.can_review_experience(p_tour_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.experience_entitlements
+    WHERE tour_id = p_tour_id AND user_id = auth.uid() AND revoked_at IS NULL
+  ) OR EXISTS (
+    SELECT 1 FROM public.interactions i
+    WHERE i.user_id = auth.uid()
+      AND i.agent_id IN (
+        SELECT agentid FROM public.generated_tours WHERE id = p_tour_id AND agentid IS NOT NULL
+        UNION
+        SELECT agent_id FROM public.experience_versions WHERE tour_id = p_tour_id AND agent_id IS NOT NULL
+      )
+  );
+$$;
+
+ALTER TABLE public.experience_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view experience reviews"
+  ON public.experience_reviews
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Eligible users can review experiences"
+  ON public.experience_reviews
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_review_experience(tour_id));
+
+CREATE POLICY "Users can update their own reviews"
+  ON public.experience_reviews
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reviews"
+  ON public.experience_reviews
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Reviewers can't touch the curator's reply, and the curator can only change the reply
+CREATE OR REPLACE FUNCTION public.reply_to_experience_review(p_review_id UUID, p_reply TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.experience_reviews er
+  SET curator_reply = NULLIF(trim(p_reply), ''),
+      curator_replied_at = CASE WHEN NULLIF(trim(p_reply), '') IS NULL THEN NULL ELSE now() END
+  FROM public.generated_tours gt
+  WHERE er.id = p_review_id
+    AND gt.id = er.tour_id
+    AND gt.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_experience_review_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() = NEW.user_id THEN
+    NEW.curator_reply = OLD.curator_reply;
+    NEW.curator_replied_at = OLD.curator_replied_at;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_experience_review_reply
+BEFORE UPDATE ON public.experience_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_experience_review_reply();
+
+CREATE OR REPLACE FUNCTION public.refresh_experience_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tour_id UUID := COALESCE(NEW.tour_id, OLD.tour_id);
+BEGIN
+  UPDATE public.generated_tours
+  SET rating_average = (SELECT ROUND(AVG(rating), 2) FROM public.experience_reviews WHERE tour_id = v_tour_id),
+      rating_count = (SELECT COUNT(*) FROM public.experience_reviews WHERE tour_id = v_tour_id)
+  WHERE id = v_tour_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_experience_rating
+AFTER INSERT OR UPDATE OF rating OR DELETE ON public.experience_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_experience_rating();
+
+-- How the AI evaluation of each conversation with the experience's guide came out, for its curator only
+CREATE OR REPLACE FUNCTION public.get_experience_evaluation_summary(p_tour_id UUID)
+RETURNS TABLE (criterion TEXT, status TEXT, sessions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH experience_interactions AS (
+    SELECT i.*
+    FROM public.interactions i
+    WHERE EXISTS (SELECT 1 FROM public.generated_tours WHERE id = p_tour_id AND user_id = auth.uid())
+      AND i.agent_id IN (
+        SELECT agentid FROM public.generated_tours WHERE id = p_tour_id AND agentid IS NOT NULL
+        UNION
+        SELECT agent_id FROM public.experience_versions WHERE tour_id = p_tour_id AND agent_id IS NOT NULL
+      )
+  ),
+  statuses AS (
+    SELECT 'user_satisfaction' AS criterion, user_satisfaction_status AS status FROM experience_interactions
+    UNION ALL SELECT 'info_accuracy', info_accuracy_status FROM experience_interactions
+    UNION ALL SELECT 'navigation_effectiveness', navigation_effectiveness_status FROM experience_interactions
+    UNION ALL SELECT 'engagement_interactivity', engagement_interactivity_status FROM experience_interactions
+    UNION ALL SELECT 'problem_resolution', problem_resolution_status FROM experience_interactions
+    UNION ALL SELECT 'efficiency_conciseness', efficiency_conciseness_status FROM experience_interactions
+  )
+  SELECT criterion, status, COUNT(*) AS sessions
+  FROM statuses
+  WHERE status IS NOT NULL
+  GROUP BY criterion, status;
+$$;
+
+-- Ratings are public, so the marketplace catalog lists them too
+CREATE OR REPLACE VIEW public.experience_catalog
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  destination,
+  description,
+  photo,
+  created_at,
+  destination_details,
+  price_cents,
+  currency,
+  launch_discount_percent,
+  launch_discount_ends_at,
+  rating_average,
+  rating_count
+FROM public.generated_tours
+WHERE experience = true;
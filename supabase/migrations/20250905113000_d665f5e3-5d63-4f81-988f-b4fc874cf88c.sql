@@ -0,0 +1,15 @@
+-- A review belongs to the experience and reviewer it was written for. Moving it to another tour would
+-- skip the can_review_experience check that guarded the insert, so both stay fixed on update.
+CREATE OR REPLACE FUNCTION public.protect_experience_review_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.tour_id = OLD.tour_id;
+  NEW.user_id = OLD.user_id;
+  IF auth.uid() = NEW.user_id THEN
+    NEW.curator_reply = OLD.curator_reply;
+    NEW.curator_replied_at = OLD.curator_replied_at;
+  END IF;
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
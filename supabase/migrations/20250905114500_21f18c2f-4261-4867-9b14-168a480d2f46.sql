@@ -0,0 +1,23 @@
+-- Curators can't review their own experience, even though they own it and have talked to its guide
+CREATE OR REPLACE FUNCTION public.can_review_experience(p_tour_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (EXISTS (
+    SELECT 1 FROM public.experience_entitlements
+    WHERE tour_id = p_tour_id AND user_id = auth.uid() AND revoked_at IS NULL
+  ) OR EXISTS (
+    SELECT 1 FROM public.interactions i
+    WHERE i.user_id = auth.uid()
+      AND i.agent_id IN (
+        SELECT agentid FROM public.generated_tours WHERE id = p_tour_id AND agentid IS NOT NULL
+        UNION
+        SELECT agent_id FROM public.experience_versions WHERE tour_id = p_tour_id AND agent_id IS NOT NULL
+      )
+  )) AND NOT EXISTS (
+    SELECT 1 FROM public.generated_tours WHERE id = p_tour_id AND user_id = auth.uid()
+  );
+$$;
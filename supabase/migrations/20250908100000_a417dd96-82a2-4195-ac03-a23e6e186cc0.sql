@@ -0,0 +1,112 @@
+-- Experiences are written in many languages, so search no longer stems everything as English.
+-- The 'simple' configuration matches words as written in any language.
+ALTER TABLE public.generated_tours DROP COLUMN search_vector;
+
+ALTER TABLE public.generated_tours
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple'::regconfig, COALESCE(destination, '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, COALESCE(description, '')), 'B') ||
+    setweight(jsonb_to_tsvector('simple'::regconfig, COALESCE(destination_details, '{}'::jsonb), '["string"]'), 'C')
+  ) STORED;
+
+CREATE INDEX idx_generated_tours_search_vector ON public.generated_tours USING GIN (search_vector);
+
+-- Search results are public, so they leave out the curator's prompt. Experiences are no longer readable
+-- by everyone, so the search runs as its owner and only ever returns catalog columns.
+DROP FUNCTION IF EXISTS public.search_experiences(TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER, INTEGER);
+
+CREATE FUNCTION public.search_experiences(
+  p_query TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL,
+  p_voice_id TEXT DEFAULT NULL,
+  p_min_duration INTEGER DEFAULT NULL,
+  p_max_duration INTEGER DEFAULT NULL,
+  p_min_price_cents INTEGER DEFAULT NULL,
+  p_max_price_cents INTEGER DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest', -- relevance | newest | top_rated | most_reviewed | price_low | nearest
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  destination TEXT,
+  description TEXT,
+  photo JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  destination_details JSONB,
+  price_cents INTEGER,
+  currency TEXT,
+  launch_discount_percent INTEGER,
+  launch_discount_ends_at TIMESTAMP WITH TIME ZONE,
+  rating_average NUMERIC,
+  rating_count INTEGER,
+  language TEXT,
+  voice_id TEXT,
+  duration_minutes INTEGER,
+  distance_km DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE WHEN NULLIF(trim(p_query), '') IS NULL THEN NULL
+           ELSE websearch_to_tsquery('simple', p_query) END AS query
+  ),
+  candidates AS (
+    SELECT
+      gt.*,
+      CASE
+        WHEN gt.launch_discount_percent IS NOT NULL
+          AND (gt.launch_discount_ends_at IS NULL OR gt.launch_discount_ends_at > now())
+        THEN GREATEST(50, ROUND(gt.price_cents * (100 - gt.launch_discount_percent) / 100.0))::INTEGER
+        ELSE gt.price_cents
+      END AS effective_price_cents,
+      CASE
+        WHEN p_latitude IS NULL OR p_longitude IS NULL
+          OR gt.destination_details->'location'->>'latitude' IS NULL THEN NULL
+        ELSE 6371 * 2 * asin(sqrt(
+          power(sin(radians((gt.destination_details->'location'->>'latitude')::float8 - p_latitude) / 2), 2) +
+          cos(radians(p_latitude)) * cos(radians((gt.destination_details->'location'->>'latitude')::float8)) *
+          power(sin(radians((gt.destination_details->'location'->>'longitude')::float8 - p_longitude) / 2), 2)
+        ))
+      END AS distance_km,
+      CASE WHEN search.query IS NULL THEN 0 ELSE ts_rank(gt.search_vector, search.query) END AS rank
+    FROM public.generated_tours gt, search
+    WHERE gt.experience = true
+      AND (search.query IS NULL OR gt.search_vector @@ search.query)
+      AND (p_language IS NULL OR gt.language = p_language)
+      AND (p_voice_id IS NULL OR gt.voice_id = p_voice_id)
+      AND (p_min_duration IS NULL OR gt.duration_minutes >= p_min_duration)
+      AND (p_max_duration IS NULL OR gt.duration_minutes <= p_max_duration)
+      AND (p_min_rating IS NULL OR gt.rating_average >= p_min_rating)
+  ),
+  matches AS (
+    SELECT * FROM candidates c
+    WHERE (p_min_price_cents IS NULL OR c.effective_price_cents >= p_min_price_cents)
+      AND (p_max_price_cents IS NULL OR c.effective_price_cents <= p_max_price_cents)
+      AND (p_max_distance_km IS NULL OR c.distance_km <= p_max_distance_km)
+  )
+  SELECT
+    m.id, m.destination, m.description, m.photo, m.created_at, m.destination_details, m.price_cents,
+    m.currency, m.launch_discount_percent, m.launch_discount_ends_at,
+    m.rating_average, m.rating_count, m.language, m.voice_id, m.duration_minutes, m.distance_km,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.rank END DESC,
+    CASE WHEN p_sort = 'top_rated' THEN COALESCE(m.rating_average, 0) END DESC,
+    CASE WHEN p_sort IN ('top_rated', 'most_reviewed') THEN m.rating_count END DESC,
+    CASE WHEN p_sort = 'price_low' THEN m.effective_price_cents END ASC,
+    CASE WHEN p_sort = 'nearest' THEN m.distance_km END ASC NULLS LAST,
+    m.created_at DESC,
+    m.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$;
@@ -0,0 +1,4 @@
+-- Language travelers want their generated tours and voice guide in (ISO 639-1, same codes as generated_tours.language)
+ALTER TABLE public.profiles
+  ADD COLUMN preferred_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (preferred_language IN ('en', 'es', 'fr', 'de', 'it', 'pt', 'ja', 'zh'));
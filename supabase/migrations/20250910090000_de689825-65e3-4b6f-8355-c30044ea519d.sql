@@ -0,0 +1,28 @@
+-- One row per voice conversation. The app and the ElevenLabs webhook both save it, and checking before
+-- inserting let them race into duplicates. Keep the webhook's richer row and any favorite, drop the rest.
+WITH ranked AS (
+  SELECT
+    id,
+    conversation_id,
+    row_number() OVER (
+      PARTITION BY conversation_id
+      ORDER BY (call_status IS DISTINCT FROM 'awaiting_webhook') DESC, created_at DESC, id
+    ) AS position,
+    bool_or(is_favorite) OVER (PARTITION BY conversation_id) AS any_favorite
+  FROM public.interactions
+  WHERE conversation_id IS NOT NULL
+),
+kept AS (
+  UPDATE public.interactions i
+  SET is_favorite = true
+  FROM ranked r
+  WHERE i.id = r.id AND r.position = 1 AND r.any_favorite AND NOT COALESCE(i.is_favorite, false)
+)
+DELETE FROM public.interactions i
+USING ranked r
+WHERE i.id = r.id AND r.position > 1;
+
+-- NULLs never conflict, so interactions without a conversation are unaffected. A plain index rather than a
+-- partial one, so upserts can name conversation_id as their conflict target.
+DROP INDEX IF EXISTS public.idx_voice_interactions_conversation_id;
+CREATE UNIQUE INDEX idx_interactions_conversation_id ON public.interactions(conversation_id);
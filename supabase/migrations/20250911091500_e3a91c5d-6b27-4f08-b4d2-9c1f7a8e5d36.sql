@@ -0,0 +1,4 @@
+-- Mobility needs used to filter tour stops and limit walking segments:
+-- { "wheelchair": bool, "step_free_only": bool, "max_walking_meters": int | null, "needs_rest_stops": bool }
+ALTER TABLE public.profiles
+  ADD COLUMN accessibility_profile JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,138 @@
+-- Full-text search over what was said in each interaction
+ALTER TABLE public.interactions
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, COALESCE(destination, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(user_input, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(conversation_summary, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(assistant_response, '')), 'C') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, COALESCE(full_transcript, '[]'::jsonb), '["string"]'), 'C')
+  ) STORED;
+
+CREATE INDEX idx_interactions_search_vector ON public.interactions USING GIN (search_vector);
+CREATE INDEX idx_interactions_user_created_at ON public.interactions(user_id, created_at DESC);
+
+-- Hybrid search: keyword rank, embedding similarity and recency, blended into one score.
+-- Keywords are OR-ed so a long question still matches on its strongest words; the embeddings catch
+-- paraphrases ("gelato place" finds "gelateria"). Without a query embedding only keywords count,
+-- and without a query at all the filtered interactions come back newest first.
+CREATE OR REPLACE FUNCTION public.search_interactions_hybrid(
+  p_user_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_query_embedding vector(768) DEFAULT NULL,
+  p_interaction_types TEXT[] DEFAULT NULL,
+  p_destination TEXT DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_favorites_only BOOLEAN DEFAULT false,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_max_distance_km DOUBLE PRECISION DEFAULT NULL,
+  p_transportation_mode TEXT DEFAULT NULL,
+  p_match_threshold DOUBLE PRECISION DEFAULT 0.45,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  destination TEXT,
+  user_input TEXT,
+  assistant_response TEXT,
+  is_favorite BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  interaction_type TEXT,
+  landmark_coordinates POINT,
+  landmark_image_url TEXT,
+  full_transcript JSONB,
+  conversation_id TEXT,
+  conversation_duration INTEGER,
+  audio_url TEXT,
+  agent_id TEXT,
+  transportation_mode TEXT,
+  distance_km DOUBLE PRECISION,
+  keyword_score DOUBLE PRECISION,
+  semantic_score DOUBLE PRECISION,
+  recency_score DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE WHEN NULLIF(trim(p_query), '') IS NULL THEN NULL
+           ELSE NULLIF(replace(plainto_tsquery('english', p_query)::text, '&', '|'), '')::tsquery END AS query
+  ),
+  candidates AS (
+    SELECT
+      i.*,
+      COALESCE(i.landmark_coordinates, i.user_location) AS location,
+      CASE WHEN search.query IS NULL THEN 0
+           ELSE ts_rank_cd(i.search_vector, search.query, 32) END AS keyword_rank,
+      CASE WHEN p_query_embedding IS NULL THEN 0
+           ELSE COALESCE(GREATEST(
+             1 - (i.user_input_embedding <=> p_query_embedding),
+             1 - (i.assistant_response_embedding <=> p_query_embedding),
+             1 - (i.conversation_summary_embedding <=> p_query_embedding),
+             1 - (i.points_of_interest_embedding <=> p_query_embedding)
+           ), 0) END AS similarity,
+      search.query AS query
+    FROM public.interactions i, search
+    WHERE i.user_id = p_user_id
+      AND (p_interaction_types IS NULL OR i.interaction_type = ANY(p_interaction_types))
+      AND (p_destination IS NULL OR i.destination ILIKE '%' || p_destination || '%')
+      AND (p_from IS NULL OR i.created_at >= p_from)
+      AND (p_to IS NULL OR i.created_at <= p_to)
+      AND (NOT p_favorites_only OR i.is_favorite = true)
+      AND (p_transportation_mode IS NULL OR i.transportation_mode = p_transportation_mode)
+  ),
+  located AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN p_latitude IS NULL OR p_longitude IS NULL OR c.location IS NULL THEN NULL
+        ELSE 6371 * 2 * asin(sqrt(
+          power(sin(radians(c.location[1] - p_latitude) / 2), 2) +
+          cos(radians(p_latitude)) * cos(radians(c.location[1])) *
+          power(sin(radians(c.location[0] - p_longitude) / 2), 2)
+        ))
+      END AS distance_km
+    FROM candidates c
+  ),
+  scored AS (
+    SELECT
+      l.*,
+      l.keyword_rank / (l.keyword_rank + 1) AS keyword_score,
+      l.similarity AS semantic_score,
+      -- Halves every 30 days
+      power(0.5, EXTRACT(EPOCH FROM (now() - l.created_at)) / 86400 / 30) AS recency_score
+    FROM located l
+    WHERE (p_max_distance_km IS NULL OR l.distance_km <= p_max_distance_km)
+      AND (
+        (l.query IS NULL AND p_query_embedding IS NULL)
+        OR (l.query IS NOT NULL AND l.search_vector @@ l.query)
+        OR l.similarity > p_match_threshold
+      )
+  )
+  SELECT
+    s.id, s.destination, s.user_input, s.assistant_response, s.is_favorite, s.created_at,
+    s.interaction_type, s.landmark_coordinates, s.landmark_image_url, s.full_transcript,
+    s.conversation_id, s.conversation_duration, s.audio_url, s.agent_id, s.transportation_mode,
+    s.distance_km, s.keyword_score, s.semantic_score, s.recency_score,
+    CASE WHEN s.query IS NULL AND p_query_embedding IS NULL THEN s.recency_score
+         ELSE 0.35 * s.keyword_score + 0.5 * s.semantic_score + 0.15 * s.recency_score END AS score,
+    CASE WHEN s.query IS NULL THEN NULL
+         ELSE ts_headline(
+           'english',
+           COALESCE(
+             (SELECT string_agg(line->>'message', ' … ')
+              FROM jsonb_array_elements(CASE WHEN jsonb_typeof(s.full_transcript) = 'array' THEN s.full_transcript ELSE '[]'::jsonb END) AS line
+              WHERE line->>'message' IS NOT NULL),
+             s.user_input || ' … ' || s.assistant_response
+           ),
+           s.query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+         ) END AS snippet
+  FROM scored s
+  ORDER BY score DESC, s.created_at DESC, s.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;